@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice Freely mintable ERC-20 for local networks; deposits go through approve
+contract MockERC20 is ERC20 {
+    uint8 private immutable _tokenDecimals;
+    
+    constructor(string memory name, string memory symbol, uint8 tokenDecimals) ERC20(name, symbol) {
+        _tokenDecimals = tokenDecimals;
+    }
+    
+    function decimals() public view override returns (uint8) {
+        return _tokenDecimals;
+    }
+    
+    function mint(address to, uint256 amount) public {
+        _mint(to, amount);
+    }
+}
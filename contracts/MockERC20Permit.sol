@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @notice Freely mintable EIP-2612 token for local networks, like USDC
+contract MockERC20Permit is ERC20Permit {
+    uint8 private immutable _tokenDecimals;
+    
+    constructor(string memory name, string memory symbol, uint8 tokenDecimals) ERC20(name, symbol) ERC20Permit(name) {
+        _tokenDecimals = tokenDecimals;
+    }
+    
+    function decimals() public view override returns (uint8) {
+        return _tokenDecimals;
+    }
+    
+    function mint(address to, uint256 amount) public {
+        _mint(to, amount);
+    }
+}
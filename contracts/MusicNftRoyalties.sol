@@ -1,76 +1,281 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, eaddress, ebool, externalEuint32, externalEuint64, externalEaddress } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { IERC20Metadata } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 contract MusicNftRoyalties is SepoliaConfig {
+    using SafeERC20 for IERC20;
+    
+    /// @notice Payout token value used for royalties paid in native ETH
+    address public constant NATIVE_TOKEN = address(0);
+    /// @notice Decimals of encrypted royalty amounts, whatever the payout token
+    uint8 public constant ENCRYPTED_AMOUNT_DECIMALS = 9;
+    /// @notice Royalties that must join an NFT's total in a token between two reveals, so the
+    /// difference of two reveals never isolates a single royalty's amount
+    uint32 public constant MIN_ROYALTIES_PER_TOTAL_REVEAL = 3;
+    
     struct EncryptedRoyalty {
         uint256 id;
-        euint32 encryptedOwnerId;
+        eaddress encryptedOwner;
         euint32 encryptedShare;
         euint32 encryptedNftId;
+        euint64 encryptedAmount;
         uint256 timestamp;
     }
     
     struct DecryptedRoyalty {
-        string ownerId;
-        uint256 share;
-        string nftId;
+        uint256 nftId;
         bool isRevealed;
     }
+    
+    struct HolderRoyalty {
+        euint32 share;
+        euint32 nftId;
+        euint64 amount;
+    }
+    
+    struct TotalRequest {
+        uint256 nftId;
+        address token;
+    }
+    
+    struct PayoutRequest {
+        uint256 royaltyId;
+        address holder;
+    }
 
     uint256 public royaltyCount;
     mapping(uint256 => EncryptedRoyalty) public encryptedRoyalties;
     mapping(uint256 => DecryptedRoyalty) public decryptedRoyalties;
+    mapping(uint256 => mapping(address => HolderRoyalty)) private holderRoyalties;
     
-    mapping(string => euint32) private encryptedNftRoyaltyCount;
-    string[] private nftList;
+    mapping(uint256 => euint32) private encryptedNftRoyaltyCount;
+    // nftId => payout token => encrypted sum of its distributed amounts, so units never mix
+    mapping(uint256 => mapping(address => euint64)) private encryptedNftRoyaltyTotal;
+    mapping(uint256 => mapping(address => uint64)) private revealedNftRoyaltyTotal;
+    mapping(uint256 => mapping(address => bool)) private isNftRoyaltyTotalRevealed;
+    mapping(uint256 => mapping(address => bool)) private isNftRoyaltyTotalPending;
+    mapping(uint256 => address[]) private nftPayoutTokens;
+    // Royalties in each total, and how many it held at its last reveal. Public anyway: the NFT
+    // and payout token of a royalty are revealed when it is distributed
+    mapping(uint256 => mapping(address => uint32)) private nftRoyaltyTotalSize;
+    mapping(uint256 => mapping(address => uint32)) private nftRoyaltyTotalSizeAtReveal;
+    mapping(uint256 => TotalRequest) private totalRequests;
+    mapping(uint256 => uint32) private revealedNftRoyaltyCount;
+    mapping(uint256 => bool) private isNftRoyaltyCountRevealed;
+    mapping(uint256 => bool) private isNftRoyaltyCountPending;
+    uint256[] private nftList;
     
     mapping(uint256 => uint256) private requestToRoyaltyId;
     
+    address public admin;
+    mapping(address => bool) public isPayoutToken;
+    address[] private payoutTokens;
+    mapping(uint256 => address) public royaltyPayoutToken;
+    mapping(address => uint8) public payoutTokenDecimals;
+    // account => token => deposited or received amount, withdrawable by the account
+    mapping(address => mapping(address => uint256)) private payoutBalances;
+    
+    // Account that submitted a royalty; only it may request the distribution, and its
+    // balance in the payout token funds the payout
+    mapping(uint256 => address) public royaltySubmitter;
+    mapping(uint256 => bool) public isRoyaltyPaid;
+    mapping(uint256 => mapping(address => bool)) private isPayoutPending;
+    mapping(uint256 => PayoutRequest) private payoutRequests;
+    
     event RoyaltySubmitted(uint256 indexed id, uint256 timestamp);
     event DistributionRequested(uint256 indexed id);
     event RoyaltyDistributed(uint256 indexed id);
+    event HolderAccessGranted(uint256 indexed id, address indexed holder);
+    event PayoutTokenUpdated(address indexed token, bool allowed);
+    event PayoutDeposited(address indexed account, address indexed token, uint256 amount);
+    event PayoutWithdrawn(address indexed account, address indexed token, uint256 amount);
+    event NftRoyaltyCountRequested(uint256 indexed nftId, uint256 requestId);
+    event NftRoyaltyCountDecrypted(uint256 indexed nftId, uint32 count);
+    event NftRoyaltyTotalRequested(uint256 indexed nftId, address indexed token, uint256 requestId);
+    event NftRoyaltyTotalDecrypted(uint256 indexed nftId, address indexed token, uint64 total);
+    event PayoutRequested(uint256 indexed id, address indexed holder);
+    event RoyaltyPaid(uint256 indexed id, address indexed holder, address indexed token, uint256 amount);
+    event RoyaltyPayoutUnfunded(uint256 indexed id, address indexed holder);
     
+    // The encrypted owner cannot be compared in cleartext, so the rights holder that
+    // submitted the royalty is the one allowed to act on it
     modifier onlyRightHolder(uint256 royaltyId) {
+        require(msg.sender == royaltySubmitter[royaltyId], "Not right holder");
+        _;
+    }
+    
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Not admin");
         _;
     }
     
+    constructor() {
+        admin = msg.sender;
+    }
+    
     function submitEncryptedRoyalty(
-        euint32 encryptedOwnerId,
-        euint32 encryptedShare,
-        euint32 encryptedNftId
+        externalEaddress encryptedOwner,
+        externalEuint32 encryptedShare,
+        externalEuint32 encryptedNftId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
     ) public {
+        _submitRoyalty(encryptedOwner, encryptedShare, encryptedNftId, encryptedAmount, inputProof, NATIVE_TOKEN);
+    }
+    
+    /// @notice Same as submitEncryptedRoyalty, for a royalty paid out in an allow-listed
+    /// ERC-20. The encrypted amount is in the token's units at 9 decimals.
+    function submitEncryptedTokenRoyalty(
+        externalEaddress encryptedOwner,
+        externalEuint32 encryptedShare,
+        externalEuint32 encryptedNftId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        address payoutToken
+    ) public {
+        require(isPayoutToken[payoutToken], "Token not allowed");
+        _submitRoyalty(encryptedOwner, encryptedShare, encryptedNftId, encryptedAmount, inputProof, payoutToken);
+    }
+    
+    function _submitRoyalty(
+        externalEaddress encryptedOwner,
+        externalEuint32 encryptedShare,
+        externalEuint32 encryptedNftId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        address payoutToken
+    ) private {
+        eaddress owner = FHE.fromExternal(encryptedOwner, inputProof);
+        euint32 share = FHE.fromExternal(encryptedShare, inputProof);
+        euint32 nftId = FHE.fromExternal(encryptedNftId, inputProof);
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        
+        FHE.allowThis(owner);
+        FHE.allowThis(share);
+        FHE.allowThis(nftId);
+        FHE.allowThis(amount);
+        
         royaltyCount += 1;
         uint256 newId = royaltyCount;
         
         encryptedRoyalties[newId] = EncryptedRoyalty({
             id: newId,
-            encryptedOwnerId: encryptedOwnerId,
-            encryptedShare: encryptedShare,
-            encryptedNftId: encryptedNftId,
+            encryptedOwner: owner,
+            encryptedShare: share,
+            encryptedNftId: nftId,
+            encryptedAmount: amount,
             timestamp: block.timestamp
         });
         
         decryptedRoyalties[newId] = DecryptedRoyalty({
-            ownerId: "",
-            share: 0,
-            nftId: "",
+            nftId: 0,
             isRevealed: false
         });
+        royaltyPayoutToken[newId] = payoutToken;
+        royaltySubmitter[newId] = msg.sender;
         
         emit RoyaltySubmitted(newId, block.timestamp);
     }
     
+    function setPayoutToken(address token, bool allowed) public onlyAdmin {
+        require(token != NATIVE_TOKEN, "Invalid token");
+        if (isPayoutToken[token] == allowed) {
+            return;
+        }
+        
+        isPayoutToken[token] = allowed;
+        if (allowed) {
+            payoutTokenDecimals[token] = IERC20Metadata(token).decimals();
+            payoutTokens.push(token);
+        } else {
+            for (uint i = 0; i < payoutTokens.length; i++) {
+                if (payoutTokens[i] == token) {
+                    payoutTokens[i] = payoutTokens[payoutTokens.length - 1];
+                    payoutTokens.pop();
+                    break;
+                }
+            }
+        }
+        
+        emit PayoutTokenUpdated(token, allowed);
+    }
+    
+    function getPayoutTokens() public view returns (address[] memory) {
+        return payoutTokens;
+    }
+    
+    function payoutBalanceOf(address account, address token) public view returns (uint256) {
+        return payoutBalances[account][token];
+    }
+    
+    function depositEth() public payable {
+        require(msg.value > 0, "Nothing to deposit");
+        payoutBalances[msg.sender][NATIVE_TOKEN] += msg.value;
+        emit PayoutDeposited(msg.sender, NATIVE_TOKEN, msg.value);
+    }
+    
+    /// @notice Pulls `amount` of an allow-listed token the caller has approved beforehand
+    function deposit(address token, uint256 amount) public {
+        _depositToken(token, amount);
+    }
+    
+    /// @notice Deposits with an EIP-2612 permit instead of a separate approve transaction
+    function depositWithPermit(
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public {
+        // A permit front-run by someone else still leaves the allowance in place, so a
+        // failed permit only matters if the allowance is actually missing
+        try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        _depositToken(token, amount);
+    }
+    
+    /// @notice Withdraws unspent deposits; allowed even after a token leaves the allow-list
+    function withdraw(address token, uint256 amount) public {
+        require(amount > 0 && payoutBalances[msg.sender][token] >= amount, "Insufficient balance");
+        payoutBalances[msg.sender][token] -= amount;
+        
+        if (token == NATIVE_TOKEN) {
+            (bool sent, ) = payable(msg.sender).call{value: amount}("");
+            require(sent, "ETH transfer failed");
+        } else {
+            IERC20(token).safeTransfer(msg.sender, amount);
+        }
+        
+        emit PayoutWithdrawn(msg.sender, token, amount);
+    }
+    
+    function _depositToken(address token, uint256 amount) private {
+        require(isPayoutToken[token], "Token not allowed");
+        require(amount > 0, "Nothing to deposit");
+        
+        // Credit what actually arrived, so fee-on-transfer tokens cannot inflate balances
+        uint256 before = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        uint256 received = IERC20(token).balanceOf(address(this)) - before;
+        
+        payoutBalances[msg.sender][token] += received;
+        emit PayoutDeposited(msg.sender, token, received);
+    }
+    
     function requestRoyaltyDistribution(uint256 royaltyId) public onlyRightHolder(royaltyId) {
         EncryptedRoyalty storage royalty = encryptedRoyalties[royaltyId];
         require(!decryptedRoyalties[royaltyId].isRevealed, "Already revealed");
         
-        bytes32[] memory ciphertexts = new bytes32[](3);
-        ciphertexts[0] = FHE.toBytes32(royalty.encryptedOwnerId);
-        ciphertexts[1] = FHE.toBytes32(royalty.encryptedShare);
-        ciphertexts[2] = FHE.toBytes32(royalty.encryptedNftId);
+        // Only the NFT id is revealed publicly; owner, share and amount stay encrypted
+        // and are readable by the holder through requestHolderAccess.
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(royalty.encryptedNftId);
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.distributeRoyalty.selector);
         requestToRoyaltyId[reqId] = royaltyId;
@@ -92,11 +297,8 @@ contract MusicNftRoyalties is SepoliaConfig {
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        (string memory ownerId, uint256 share, string memory nftId) = 
-            abi.decode(cleartexts, (string, uint256, string));
+        uint32 nftId = abi.decode(cleartexts, (uint32));
         
-        dRoyalty.ownerId = ownerId;
-        dRoyalty.share = share;
         dRoyalty.nftId = nftId;
         dRoyalty.isRevealed = true;
         
@@ -108,25 +310,73 @@ contract MusicNftRoyalties is SepoliaConfig {
             encryptedNftRoyaltyCount[dRoyalty.nftId], 
             FHE.asEuint32(1)
         );
+        FHE.allowThis(encryptedNftRoyaltyCount[dRoyalty.nftId]);
+        
+        address token = royaltyPayoutToken[royaltyId];
+        if (FHE.isInitialized(encryptedNftRoyaltyTotal[dRoyalty.nftId][token]) == false) {
+            encryptedNftRoyaltyTotal[dRoyalty.nftId][token] = FHE.asEuint64(0);
+            nftPayoutTokens[dRoyalty.nftId].push(token);
+        }
+        encryptedNftRoyaltyTotal[dRoyalty.nftId][token] = FHE.add(
+            encryptedNftRoyaltyTotal[dRoyalty.nftId][token],
+            eRoyalty.encryptedAmount
+        );
+        FHE.allowThis(encryptedNftRoyaltyTotal[dRoyalty.nftId][token]);
+        nftRoyaltyTotalSize[dRoyalty.nftId][token] += 1;
         
         emit RoyaltyDistributed(royaltyId);
     }
     
     function getDecryptedRoyalty(uint256 royaltyId) public view returns (
-        string memory ownerId,
-        uint256 share,
-        string memory nftId,
+        uint256 nftId,
         bool isRevealed
     ) {
         DecryptedRoyalty storage r = decryptedRoyalties[royaltyId];
-        return (r.ownerId, r.share, r.nftId, r.isRevealed);
+        return (r.nftId, r.isRevealed);
+    }
+    
+    /// @notice Grants the caller ACL access to a copy of the royalty that holds the real
+    /// values only if the caller is the encrypted owner, and zeros otherwise. The owner
+    /// therefore never has to be revealed to decide who may decrypt.
+    function requestHolderAccess(uint256 royaltyId) public {
+        require(royaltyId != 0 && royaltyId <= royaltyCount, "Invalid royalty");
+        
+        HolderRoyalty storage holder = holderRoyalties[royaltyId][msg.sender];
+        if (FHE.isInitialized(holder.share)) {
+            return;
+        }
+        
+        EncryptedRoyalty storage royalty = encryptedRoyalties[royaltyId];
+        ebool isHolder = FHE.eq(royalty.encryptedOwner, msg.sender);
+        
+        holder.share = FHE.select(isHolder, royalty.encryptedShare, FHE.asEuint32(0));
+        holder.nftId = FHE.select(isHolder, royalty.encryptedNftId, FHE.asEuint32(0));
+        holder.amount = FHE.select(isHolder, royalty.encryptedAmount, FHE.asEuint64(0));
+        
+        FHE.allowThis(holder.share);
+        FHE.allowThis(holder.nftId);
+        FHE.allowThis(holder.amount);
+        FHE.allow(holder.share, msg.sender);
+        FHE.allow(holder.nftId, msg.sender);
+        FHE.allow(holder.amount, msg.sender);
+        
+        emit HolderAccessGranted(royaltyId, msg.sender);
     }
     
-    function getEncryptedNftRoyaltyCount(string memory nftId) public view returns (euint32) {
+    function getHolderRoyalty(uint256 royaltyId, address holder) public view returns (
+        euint32 share,
+        euint32 nftId,
+        euint64 amount
+    ) {
+        HolderRoyalty storage h = holderRoyalties[royaltyId][holder];
+        return (h.share, h.nftId, h.amount);
+    }
+    
+    function getEncryptedNftRoyaltyCount(uint256 nftId) public view returns (euint32) {
         return encryptedNftRoyaltyCount[nftId];
     }
     
-    function requestNftRoyaltyCountDecryption(string memory nftId) public {
+    function requestNftRoyaltyCountDecryption(uint256 nftId) public {
         euint32 count = encryptedNftRoyaltyCount[nftId];
         require(FHE.isInitialized(count), "NFT not found");
         
@@ -135,6 +385,9 @@ contract MusicNftRoyalties is SepoliaConfig {
         
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptNftRoyaltyCount.selector);
         requestToRoyaltyId[reqId] = bytes32ToUint(keccak256(abi.encodePacked(nftId)));
+        isNftRoyaltyCountPending[nftId] = true;
+        
+        emit NftRoyaltyCountRequested(nftId, reqId);
     }
     
     function decryptNftRoyaltyCount(
@@ -143,18 +396,165 @@ contract MusicNftRoyalties is SepoliaConfig {
         bytes memory proof
     ) public {
         uint256 nftHash = requestToRoyaltyId[requestId];
-        string memory nftId = getNftFromHash(nftHash);
+        uint256 nftId = getNftFromHash(nftHash);
         
         FHE.checkSignatures(requestId, cleartexts, proof);
         
         uint32 count = abi.decode(cleartexts, (uint32));
+        revealedNftRoyaltyCount[nftId] = count;
+        isNftRoyaltyCountRevealed[nftId] = true;
+        isNftRoyaltyCountPending[nftId] = false;
+        
+        emit NftRoyaltyCountDecrypted(nftId, count);
+    }
+    
+    /// @notice Payout tokens the NFT has distributed royalties in, one total each
+    function getNftPayoutTokens(uint256 nftId) public view returns (address[] memory) {
+        return nftPayoutTokens[nftId];
+    }
+    
+    /// @notice Royalties added to the NFT's total in `token` since it was last revealed
+    function getNewRoyaltiesSinceTotalReveal(uint256 nftId, address token) public view returns (uint32) {
+        return nftRoyaltyTotalSize[nftId][token] - nftRoyaltyTotalSizeAtReveal[nftId][token];
+    }
+    
+    function requestNftRoyaltyTotalDecryption(uint256 nftId, address token) public {
+        euint64 total = encryptedNftRoyaltyTotal[nftId][token];
+        require(FHE.isInitialized(total), "No royalties in token");
+        require(
+            getNewRoyaltiesSinceTotalReveal(nftId, token) >= MIN_ROYALTIES_PER_TOTAL_REVEAL,
+            "Too few new royalties to reveal"
+        );
+        nftRoyaltyTotalSizeAtReveal[nftId][token] = nftRoyaltyTotalSize[nftId][token];
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(total);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptNftRoyaltyTotal.selector);
+        totalRequests[reqId] = TotalRequest({ nftId: nftId, token: token });
+        isNftRoyaltyTotalPending[nftId][token] = true;
+        
+        emit NftRoyaltyTotalRequested(nftId, token, reqId);
+    }
+    
+    function decryptNftRoyaltyTotal(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        TotalRequest memory request = totalRequests[requestId];
+        require(isNftRoyaltyTotalPending[request.nftId][request.token], "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete totalRequests[requestId];
+        
+        uint64 total = abi.decode(cleartexts, (uint64));
+        revealedNftRoyaltyTotal[request.nftId][request.token] = total;
+        isNftRoyaltyTotalRevealed[request.nftId][request.token] = true;
+        isNftRoyaltyTotalPending[request.nftId][request.token] = false;
+        
+        emit NftRoyaltyTotalDecrypted(request.nftId, request.token, total);
+    }
+    
+    /// @notice Last decrypted total of an NFT's royalties in `token`, at ENCRYPTED_AMOUNT_DECIMALS
+    function getRevealedNftRoyaltyTotal(uint256 nftId, address token) public view returns (
+        uint64 total,
+        bool isRevealed,
+        bool isPending
+    ) {
+        return (
+            revealedNftRoyaltyTotal[nftId][token],
+            isNftRoyaltyTotalRevealed[nftId][token],
+            isNftRoyaltyTotalPending[nftId][token]
+        );
+    }
+    
+    /// @notice Pays a distributed royalty out to the caller if, and only if, the caller is
+    /// its encrypted owner. The amount is decrypted by the oracle, which makes the payout
+    /// public the way any ETH or ERC-20 transfer is; for anyone else it decrypts to zero.
+    /// The payout is taken from the submitter's balance and credited to the holder's
+    /// balance in the royalty's token, from where `withdraw` sends it out.
+    function requestRoyaltyPayout(uint256 royaltyId) public {
+        require(decryptedRoyalties[royaltyId].isRevealed, "Not distributed");
+        require(!isRoyaltyPaid[royaltyId], "Already paid");
+        require(!isPayoutPending[royaltyId][msg.sender], "Payout pending");
+        
+        EncryptedRoyalty storage royalty = encryptedRoyalties[royaltyId];
+        ebool isHolder = FHE.eq(royalty.encryptedOwner, msg.sender);
+        euint64 payout = FHE.select(isHolder, royalty.encryptedAmount, FHE.asEuint64(0));
+        FHE.allowThis(payout);
+        
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(payout);
+        
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.payRoyalty.selector);
+        payoutRequests[reqId] = PayoutRequest({ royaltyId: royaltyId, holder: msg.sender });
+        isPayoutPending[royaltyId][msg.sender] = true;
+        
+        emit PayoutRequested(royaltyId, msg.sender);
+    }
+    
+    function payRoyalty(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        PayoutRequest memory request = payoutRequests[requestId];
+        require(request.royaltyId != 0, "Invalid request");
+        
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        delete payoutRequests[requestId];
+        isPayoutPending[request.royaltyId][request.holder] = false;
+        
+        uint64 encryptedUnits = abi.decode(cleartexts, (uint64));
+        // Zero means the caller was not the holder; nothing to pay and nothing revealed
+        if (encryptedUnits == 0 || isRoyaltyPaid[request.royaltyId]) {
+            return;
+        }
+        
+        address token = royaltyPayoutToken[request.royaltyId];
+        address payer = royaltySubmitter[request.royaltyId];
+        uint256 amount = toTokenUnits(encryptedUnits, token);
+        // An unfunded payout is left unpaid so the holder can claim again after a top-up
+        if (payoutBalances[payer][token] < amount) {
+            emit RoyaltyPayoutUnfunded(request.royaltyId, request.holder);
+            return;
+        }
+        
+        isRoyaltyPaid[request.royaltyId] = true;
+        payoutBalances[payer][token] -= amount;
+        payoutBalances[request.holder][token] += amount;
+        
+        emit RoyaltyPaid(request.royaltyId, request.holder, token, amount);
+    }
+    
+    function getRoyaltyPayout(uint256 royaltyId, address holder) public view returns (bool isPaid, bool isPending) {
+        return (isRoyaltyPaid[royaltyId], isPayoutPending[royaltyId][holder]);
+    }
+    
+    function toTokenUnits(uint64 encryptedUnits, address token) private view returns (uint256) {
+        uint8 tokenDecimals = token == NATIVE_TOKEN ? 18 : payoutTokenDecimals[token];
+        if (tokenDecimals >= ENCRYPTED_AMOUNT_DECIMALS) {
+            return uint256(encryptedUnits) * 10 ** (tokenDecimals - ENCRYPTED_AMOUNT_DECIMALS);
+        }
+        return uint256(encryptedUnits) / 10 ** (ENCRYPTED_AMOUNT_DECIMALS - tokenDecimals);
+    }
+    
+    /// @notice Last decrypted royalty count of an NFT. `isPending` stays set from a
+    /// decryption request until the oracle answers it.
+    function getRevealedNftRoyaltyCount(uint256 nftId) public view returns (
+        uint32 count,
+        bool isRevealed,
+        bool isPending
+    ) {
+        return (revealedNftRoyaltyCount[nftId], isNftRoyaltyCountRevealed[nftId], isNftRoyaltyCountPending[nftId]);
     }
     
     function bytes32ToUint(bytes32 b) private pure returns (uint256) {
         return uint256(b);
     }
     
-    function getNftFromHash(uint256 hash) private view returns (string memory) {
+    function getNftFromHash(uint256 hash) private view returns (uint256) {
         for (uint i = 0; i < nftList.length; i++) {
             if (bytes32ToUint(keccak256(abi.encodePacked(nftList[i]))) == hash) {
                 return nftList[i];
@@ -163,14 +563,7 @@ contract MusicNftRoyalties is SepoliaConfig {
         revert("NFT not found");
     }
     
-    function calculateTotalRoyalties(string memory nftId) public view returns (uint256 total) {
-        for (uint256 i = 1; i <= royaltyCount; i++) {
-            if (decryptedRoyalties[i].isRevealed && 
-                keccak256(abi.encodePacked(decryptedRoyalties[i].nftId)) == 
-                keccak256(abi.encodePacked(nftId))) {
-                total += decryptedRoyalties[i].share;
-            }
-        }
-        return total;
+    function calculateTotalRoyalties(uint256 nftId, address token) public view returns (uint256 total) {
+        return revealedNftRoyaltyTotal[nftId][token];
     }
 }
\ No newline at end of file
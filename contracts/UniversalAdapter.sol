@@ -0,0 +1,96 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+contract UniversalAdapter {
+    mapping(string => bytes) private dataStore;
+    mapping(string => string[]) private indexEntries;
+
+    event DataStored(address indexed sender, string key, bytes value);
+    event IndexAppended(address indexed sender, string indexKey, string entry, uint256 length);
+
+    function isAvailable() public pure returns (bool) {
+        return true;
+    }
+
+    function setData(string memory key, bytes memory value) public {
+        _store(key, value);
+    }
+
+    function getData(string memory key) public view returns (bytes memory) {
+        return dataStore[key];
+    }
+
+    /// @notice Writes several keys in one transaction so related records never land half-written.
+    function setDataBatch(string[] memory keys, bytes[] memory values) public {
+        require(keys.length == values.length, "Length mismatch");
+        for (uint256 i = 0; i < keys.length; i++) {
+            _store(keys[i], values[i]);
+        }
+    }
+
+    /// @notice Stores a record and appends its id to an on-chain index in the same transaction.
+    /// Unlike rewriting a JSON array under one key, concurrent appends cannot overwrite each other.
+    function setDataAndAppend(
+        string memory key,
+        bytes memory value,
+        string memory indexKey,
+        string memory entry
+    ) public {
+        _store(key, value);
+        _append(indexKey, entry);
+    }
+
+    /// @notice Batch form of setDataAndAppend: every record and its index entry land together or not at all.
+    function setDataBatchAndAppend(
+        string[] memory keys,
+        bytes[] memory values,
+        string memory indexKey,
+        string[] memory entries
+    ) public {
+        require(keys.length == values.length && keys.length == entries.length, "Length mismatch");
+        for (uint256 i = 0; i < keys.length; i++) {
+            _store(keys[i], values[i]);
+            _append(indexKey, entries[i]);
+        }
+    }
+
+    function appendToIndex(string memory indexKey, string memory entry) public {
+        _append(indexKey, entry);
+    }
+
+    function getIndexLength(string memory indexKey) public view returns (uint256) {
+        return indexEntries[indexKey].length;
+    }
+
+    function getIndexEntries(
+        string memory indexKey,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (string[] memory entries) {
+        string[] storage all = indexEntries[indexKey];
+        if (offset >= all.length) {
+            return new string[](0);
+        }
+
+        uint256 end = offset + limit;
+        if (end > all.length) {
+            end = all.length;
+        }
+
+        entries = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            entries[i - offset] = all[i];
+        }
+        return entries;
+    }
+
+    function _store(string memory key, bytes memory value) private {
+        dataStore[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function _append(string memory indexKey, string memory entry) private {
+        indexEntries[indexKey].push(entry);
+        emit IndexAppended(msg.sender, indexKey, entry, indexEntries[indexKey].length);
+    }
+}
@@ -4,6 +4,12 @@ import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { MusicNftRoyalties__factory } from "../types/factories/contracts/MusicNftRoyalties__factory";
+import { Multicall3__factory } from "../types/factories/contracts/Multicall3__factory";
+import { MockERC20__factory } from "../types/factories/contracts/MockERC20__factory";
+import { MockERC20Permit__factory } from "../types/factories/contracts/MockERC20Permit__factory";
+
+const CANONICAL_MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
 
 
 const WORD_LIBRARY = [
@@ -345,21 +351,65 @@ async function main() {
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
-  // Write config for the frontend
+  const deploymentReceipt = await factory.deploymentTransaction()?.wait();
+  const deploymentBlock = deploymentReceipt?.blockNumber ?? 0;
+
+  // Deploy the FHE royalty contract the frontend submits encrypted inputs to
+  const royalties = await new MusicNftRoyalties__factory(wallet).deploy();
+  await royalties.waitForDeployment();
+
+  const royaltyContractAddress = await royalties.getAddress();
+  console.log("MusicNftRoyalties contract deployed at:", royaltyContractAddress);
+
+  // Public networks already have the canonical Multicall3; local Hardhat needs its own
+  let multicallAddress = CANONICAL_MULTICALL3;
+  const { chainId } = await provider.getNetwork();
+  if (chainId === 31337n) {
+    const multicall = await new Multicall3__factory(wallet).deploy();
+    await multicall.waitForDeployment();
+    multicallAddress = await multicall.getAddress();
+    console.log("Multicall3 contract deployed at:", multicallAddress);
+
+    // Stand-ins for real stablecoins: one EIP-2612 token and one that only supports approve
+    const mockTokens = [
+      await new MockERC20Permit__factory(wallet).deploy("Mock USD Coin", "mUSDC", 6),
+      await new MockERC20__factory(wallet).deploy("Mock Dai", "mDAI", 18),
+    ];
+    for (const token of mockTokens) {
+      await token.waitForDeployment();
+      const tokenAddress = await token.getAddress();
+      const decimals = await token.decimals();
+      await (await token.mint(wallet.address, 1_000_000n * 10n ** decimals)).wait();
+      await (await royalties.setPayoutToken(tokenAddress, true)).wait();
+      console.log(`${await token.symbol()} mock token deployed and allow-listed at:`, tokenAddress);
+    }
+  }
+
+  // Register this deployment for the frontend, keyed by chainId so other networks keep theirs
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
+    console.warn("Frontend src directory not found, skipping deployments.json write:", frontendConfigDir);
   } else {
-    const config = {
-      network: rpc,
+    const registryPath = path.join(__dirname, "..", "frontend", "web", "public", "deployments.json");
+    const registry = fs.existsSync(registryPath) ? JSON.parse(fs.readFileSync(registryPath, "utf8")) : {};
+    const previous = registry[chainId.toString()] ?? {};
+
+    registry[chainId.toString()] = {
+      name: previous.name ?? (chainId === 31337n ? "hardhat" : (await provider.getNetwork()).name),
+      // Keep hand-tuned endpoint lists; only seed them from the deploy RPC the first time
+      rpcUrls: previous.rpcUrls ?? [{ url: rpc }],
+      wsUrls: previous.wsUrls,
+      explorerUrl: previous.explorerUrl,
+      nativeCurrency: previous.nativeCurrency,
       contractAddress: deployedAddress,
+      royaltyContractAddress,
+      multicallAddress,
+      deploymentBlock,
       deployer: wallet.address,
     };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
+    fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+    fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2) + "\n");
+    console.log(`Registered chain ${chainId} in frontend/web/public/deployments.json`);
 
     // Copy ABI to the frontend
     try {
@@ -1,21 +1,84 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, Route, Routes } from "react-router-dom";
+import {
+  ENCRYPTED_AMOUNT_DECIMALS,
+  formatAmount,
+  fromEncryptedAmount,
+  parseAmount
+} from "@royalties/sdk";
+import { getContractReadOnly, getContractWithSigner, getRoyaltyClientReadOnly, getRoyaltyClientWithSigner } from "./contract";
+import {
+  assetSymbol,
+  loadDistributionsFromEvents,
+  loadDistributionsFromIndex,
+  RevealedShare,
+  RoyaltyDistribution,
+  totalsByAsset,
+  withDistributedNftIds,
+  withRevealedShares
+} from "./distributions";
+import { filterDistributions, useDistributionFilters } from "./distributionFilters";
+import { readCachedDistributions, withSyncState, writeCachedDistributions } from "./distributionCache";
+import { applyLiveUpdate, LiveStatus, subscribeToDistributionUpdates } from "./liveUpdates";
+import { getActiveChainId, getDeployment, onActiveChainChange, setActiveChainId } from "./networks";
+import { parseNftId, userDecryptHandles } from "./fhevm";
+import { getWalletProvider } from "./wallets";
+import { connectWallet, disconnectWallet, onWalletSessionChange, restoreWalletSession, WalletSession } from "./walletSession";
+import { isSupportedChain, switchWalletChain } from "./networkGuard";
+import {
+  forgetUnstoredRecords,
+  getUnstoredRecords,
+  newSplitSheetId,
+  PreparedRecord,
+  storeDistributionRecords,
+  storeDistributionRecordsInBatches,
+  submitDistributionRoyalty
+} from "./distributionWriter";
 import WalletManager from "./components/WalletManager";
-import WalletSelector from "./components/WalletSelector";
+import WalletSelector, { WalletInfo } from "./components/WalletSelector";
+import NetworkGuard from "./components/NetworkGuard";
+import TransactionHistory from "./components/TransactionHistory";
+import { getTrackedTransactions, onTrackedTransactionsChange, resumeTracking, trackMinedTransaction } from "./txTracker";
+import {
+  allocateSplit,
+  deleteSplitTemplate,
+  emptyPayee,
+  getSplitTemplate,
+  saveSplitTemplate,
+  SplitPayee,
+  SplitTemplate,
+  validateSplitSheet
+} from "./splitSheets";
+import SplitSheetEditor from "./components/SplitSheetEditor";
+import PayoutBalances from "./components/PayoutBalances";
+import DsrImport from "./components/DsrImport";
+import CsvImportWizard from "./components/CsvImportWizard";
+import ExportDialog from "./components/ExportDialog";
+import DistributionTable from "./components/DistributionTable";
+import DistributionFilterBar from "./components/DistributionFilterBar";
+import NftDetail from "./components/NftDetail";
+import RecipientDetail from "./components/RecipientDetail";
+import DistributionDetail from "./components/DistributionDetail";
+import RevenueChart from "./components/RevenueChart";
+import { findPayoutToken, loadPayoutTokens, NATIVE_PAYOUT, PayoutToken } from "./payoutTokens";
 import "./App.css";
 
-interface RoyaltyDistribution {
-  id: string;
+interface DistributionDraft {
   amount: string;
-  timestamp: number;
-  recipient: string;
-  status: "pending" | "distributed" | "failed";
   nftId: string;
-  encryptedData: string;
+  payoutToken: string;
+  payees: SplitPayee[];
 }
 
+const emptyDraft = (): DistributionDraft => ({
+  amount: "",
+  nftId: "",
+  payoutToken: NATIVE_PAYOUT.address,
+  payees: [emptyPayee()]
+});
+
 const App: React.FC = () => {
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
@@ -23,68 +86,183 @@ const App: React.FC = () => {
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showDsrImport, setShowDsrImport] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [creating, setCreating] = useState(false);
+  // Royalties submitted from this browser whose record was never stored, so they are not listed
+  const [unstoredRecords, setUnstoredRecords] = useState<PreparedRecord[]>([]);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newDistributionData, setNewDistributionData] = useState({
-    amount: "",
-    nftId: "",
-    recipient: ""
-  });
+  const [newDistributionData, setNewDistributionData] = useState<DistributionDraft>(emptyDraft());
   const [showTutorial, setShowTutorial] = useState(false);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [filters, setFilters] = useDistributionFilters();
   const [showStats, setShowStats] = useState(true);
+  const [revealedShares, setRevealedShares] = useState<Record<string, RevealedShare>>({});
+  const [activeChainId, setActiveChain] = useState(getActiveChainId());
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>("stopped");
+  const [showTxHistory, setShowTxHistory] = useState(false);
+  const [inFlightTxCount, setInFlightTxCount] = useState(0);
+  // Chain and adapter whose list has been revalidated, so edits to it can be written back to the cache
+  const cacheTargetRef = useRef<{ chainId: number; contract: string } | null>(null);
+
+  // What this wallet decrypted is merged in for display only; `distributions` is what gets cached
+  const visibleDistributions = withRevealedShares(distributions, revealedShares);
 
   // Calculate statistics
   const distributedCount = distributions.filter(d => d.status === "distributed").length;
   const pendingCount = distributions.filter(d => d.status === "pending").length;
   const failedCount = distributions.filter(d => d.status === "failed").length;
-  const totalAmount = distributions.reduce((sum, d) => sum + parseFloat(d.amount || "0"), 0);
+  const corruptCount = distributions.filter(d => d.status === "corrupt").length;
+  const assetTotals = totalsByAsset(visibleDistributions);
+
+  // Reads stay on the last supported chain, so a wallet anywhere else shows up as a mismatch
+  const wrongNetwork = walletChainId !== null && walletChainId !== activeChainId;
+  const canWrite = !!provider && !wrongNetwork;
 
-  // Filter distributions based on search and filter
-  const filteredDistributions = distributions.filter(dist => {
-    const matchesSearch = dist.nftId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         dist.recipient.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesFilter = filterStatus === "all" || dist.status === filterStatus;
-    return matchesSearch && matchesFilter;
-  });
+  // Filter distributions based on the search and status held in the URL
+  const filteredDistributions = filterDistributions(visibleDistributions, filters);
 
   useEffect(() => {
     loadDistributions().finally(() => setLoading(false));
   }, []);
 
-  const onWalletSelect = async (wallet: any) => {
+  // Keep the offline cache in step with revalidated and live-patched data
+  useEffect(() => {
+    const target = cacheTargetRef.current;
+    if (!target || distributions.some(dist => dist.syncState !== "confirmed")) return;
+    writeCachedDistributions(target.chainId, target.contract, distributions);
+  }, [distributions]);
+
+  // Pick up transactions that were still in flight when the page was last closed
+  useEffect(() => {
+    const countInFlight = () => getTrackedTransactions().filter(tx => tx.status === "pending" || tx.status === "mined").length;
+    setInFlightTxCount(countInFlight());
+    const unsubscribe = onTrackedTransactionsChange(() => setInFlightTxCount(countInFlight()));
+    resumeTracking();
+    return unsubscribe;
+  }, []);
+
+  // Reload from the matching deployment whenever the wallet moves to another chain
+  useEffect(() => onActiveChainChange(chainId => {
+    cacheTargetRef.current = null;
+    setDistributions([]);
+    setRevealedShares({});
+    setActiveChain(chainId);
+    loadDistributions();
+  }), []);
+
+  // Patch the list in place from contract events instead of waiting for a manual refresh
+  useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    getDeployment(activeChainId).then(deployment => {
+      if (!deployment?.contractAddress || cancelled) return;
+      unsubscribe = subscribeToDistributionUpdates(deployment, {
+        onUpdate: update => setDistributions(prev => applyLiveUpdate(prev, update)),
+        onStatusChange: setLiveStatus
+      });
+    }).catch(e => console.error("Error loading deployment for live updates:", e));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [activeChainId]);
+
+  // Mirror the wallet session, whether it changed here, in the wallet or in another tab
+  useEffect(() => {
+    const applySession = (session: WalletSession | null) => {
+      setAccount(session?.account ?? "");
+      setProvider(session ? new ethers.BrowserProvider(session.provider) : null);
+      if (session) {
+        followWalletChain(session.chainId);
+      } else {
+        setWalletChainId(null);
+      }
+    };
+    const unsubscribe = onWalletSessionChange(applySession);
+    restoreWalletSession().catch(e => console.error("Error restoring wallet session:", e));
+    return unsubscribe;
+  }, []);
+
+  const onWalletSelect = async (wallet: WalletInfo) => {
     if (!wallet.provider) return;
     try {
-      const web3Provider = new ethers.BrowserProvider(wallet.provider);
-      setProvider(web3Provider);
-      const accounts = await web3Provider.send("eth_requestAccounts", []);
-      const acc = accounts[0] || "";
-      setAccount(acc);
-
-      wallet.provider.on("accountsChanged", async (accounts: string[]) => {
-        const newAcc = accounts[0] || "";
-        setAccount(newAcc);
-      });
+      const session = await connectWallet(wallet.id, wallet.provider);
+      if (!(await isSupportedChain(session.chainId))) {
+        // Offer the chain the app is reading from straight away; the banner covers a refusal
+        await switchNetwork(getActiveChainId());
+      }
     } catch (e) {
+      console.error("Error connecting wallet:", e);
       alert("Failed to connect wallet");
     }
   };
 
-  const onConnect = () => setWalletSelectorOpen(true);
-  const onDisconnect = () => {
-    setAccount("");
-    setProvider(null);
+  // Moves reads to the wallet's chain when something is deployed there; returns whether it was
+  const followWalletChain = async (chainId: number) => {
+    setWalletChainId(chainId);
+    try {
+      if (!(await isSupportedChain(chainId))) return false;
+      setActiveChainId(chainId);
+      return true;
+    } catch (e) {
+      console.error("Error checking wallet network:", e);
+      return false;
+    }
   };
 
+  // The wallet reports the new chain through `chainChanged`, which updates the state
+  const switchNetwork = async (chainId: number) => {
+    const walletProvider = getWalletProvider();
+    if (!walletProvider) return;
+    try {
+      await switchWalletChain(walletProvider, chainId);
+    } catch (e: any) {
+      if (e.code !== 4001 && !e.message?.includes("user rejected")) {
+        console.error("Error switching network:", e);
+        alert(`Failed to switch network: ${e.message || "Unknown error"}`);
+      }
+    }
+  };
+
+  // Guards every write: a wallet must be connected and on a chain the app is deployed to
+  const ensureCanWrite = () => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return false;
+    }
+    if (wrongNetwork) {
+      alert("Please switch your wallet to a supported network first");
+      return false;
+    }
+    return true;
+  };
+
+  const onConnect = () => setWalletSelectorOpen(true);
+  const onDisconnect = () => disconnectWallet();
+
   const loadDistributions = async () => {
     setIsRefreshing(true);
     try {
+      const deployment = await getDeployment();
+      if (!deployment?.contractAddress) return;
+      const isCurrentChain = () => getActiveChainId() === deployment.chainId;
+
+      // Render what we already have (or the cached list) straight away and revalidate it below
+      const cached = await readCachedDistributions(deployment.chainId, deployment.contractAddress);
+      if (isCurrentChain()) {
+        setDistributions(prev => withSyncState(prev.length > 0 ? prev : cached ?? [], "stale"));
+        if (cached) setLoading(false);
+      }
+
       const contract = await getContractReadOnly();
       if (!contract) return;
       
@@ -95,45 +273,29 @@ const App: React.FC = () => {
         return;
       }
       
-      const keysBytes = await contract.getData("distribution_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing distribution keys:", e);
-        }
+      let list: RoyaltyDistribution[];
+      try {
+        list = await loadDistributionsFromEvents(contract);
+      } catch (e) {
+        console.error("Event scan failed, falling back to batched index reads:", e);
+        list = await loadDistributionsFromIndex(contract);
       }
-      
-      const list: RoyaltyDistribution[] = [];
-      
-      for (const key of keys) {
-        try {
-          const distributionBytes = await contract.getData(`distribution_${key}`);
-          if (distributionBytes.length > 0) {
-            try {
-              const distributionData = JSON.parse(ethers.toUtf8String(distributionBytes));
-              list.push({
-                id: key,
-                amount: distributionData.amount,
-                timestamp: distributionData.timestamp,
-                recipient: distributionData.recipient,
-                status: distributionData.status || "pending",
-                nftId: distributionData.nftId,
-                encryptedData: distributionData.encryptedData
-              });
-            } catch (e) {
-              console.error(`Error parsing distribution data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading distribution ${key}:`, e);
-        }
+      const royaltyClient = await getRoyaltyClientReadOnly(deployment.chainId);
+      if (royaltyClient) {
+        list = await withDistributedNftIds(royaltyClient, list).catch(e => {
+          console.error("Error loading distributed NFT IDs:", e);
+          return list;
+        });
       }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setDistributions(list);
+      if (!isCurrentChain()) return;
+      cacheTargetRef.current = { chainId: deployment.chainId, contract: deployment.contractAddress };
+      setDistributions(withSyncState(list, "confirmed"));
+
+      // A record can be listed even though its tab closed before it was forgotten
+      const listed = new Set(list.map(dist => dist.id));
+      const unstored = deployment.royaltyContractAddress ? getUnstoredRecords(deployment.royaltyContractAddress) : [];
+      forgetUnstoredRecords(unstored.filter(record => listed.has(record.id)).map(record => record.id));
+      setUnstoredRecords(unstored.filter(record => !listed.has(record.id)));
     } catch (e) {
       console.error("Error loading distributions:", e);
     } finally {
@@ -142,72 +304,63 @@ const App: React.FC = () => {
     }
   };
 
+  // Creates one encrypted royalty and one distribution record per payee of the split sheet
   const createDistribution = async () => {
-    if (!provider) { 
-      alert("Please connect wallet first"); 
-      return; 
-    }
+    if (!ensureCanWrite()) return;
     
-    setCreating(true);
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Processing royalty distribution with FHE encryption..."
-    });
+    const { payees } = newDistributionData;
+    const nftId = parseNftId(newDistributionData.nftId);
+    const sheetId = newSplitSheetId();
+    let created = 0;
     
+    setCreating(true);
     try {
-      // Simulate FHE encryption for royalty calculation
-      const encryptedData = `FHE-ROYALTY-${btoa(JSON.stringify({
-        amount: newDistributionData.amount,
-        recipient: newDistributionData.recipient,
-        nftId: newDistributionData.nftId,
-        timestamp: Date.now()
-      }))}`;
+      const royaltyClient = await getRoyaltyClientWithSigner();
+      const signerAddress = await (royaltyClient.contract.runner as ethers.Signer).getAddress();
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
       
-      const distributionId = `dist-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const distributionData = {
-        amount: newDistributionData.amount,
-        timestamp: Math.floor(Date.now() / 1000),
-        recipient: newDistributionData.recipient,
-        nftId: newDistributionData.nftId,
-        status: "pending",
-        encryptedData: encryptedData
-      };
-      
-      // Store encrypted distribution data on-chain using FHE
-      await contract.setData(
-        `distribution_${distributionId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(distributionData))
-      );
-      
-      const keysBytes = await contract.getData("distribution_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+      const token = findPayoutToken(await loadPayoutTokens(activeChainId), newDistributionData.payoutToken);
+      if (!token) {
+        throw new Error("Selected payout token is not allow-listed on this network");
       }
+      const amounts = allocateSplit(parseAmount(newDistributionData.amount, token.decimals), token.decimals, payees);
       
-      keys.push(distributionId);
-      
-      await contract.setData(
-        "distribution_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+      for (const [index, payee] of payees.entries()) {
+        const progress = payees.length > 1 ? ` (payee ${index + 1} of ${payees.length})` : "";
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Encrypting royalty data with FHE...${progress}`
+        });
+        
+        const record = await submitDistributionRoyalty(royaltyClient, signerAddress, {
+          recipient: payee.recipient,
+          nftId,
+          amount: amounts[index],
+          token,
+          split: { sheetId, role: payee.role, shareBps: payee.shareBps }
+        });
+        
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Waiting for the distribution to be mined...${progress}`
+        });
+        // Store each payee's record right away, so a later failure leaves earlier rows listed
+        await storeDistributionRecords(contract, [record]);
+        created++;
+      }
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Royalty distribution created with FHE encryption!"
+        message: payees.length > 1
+          ? `${payees.length} royalty distributions created with FHE encryption!`
+          : "Royalty distribution created with FHE encryption!"
       });
       
       await loadDistributions();
@@ -215,16 +368,16 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewDistributionData({
-          amount: "",
-          nftId: "",
-          recipient: ""
-        });
+        setNewDistributionData(emptyDraft());
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
+      const reason = e.message.includes("user rejected transaction")
         ? "Transaction rejected by user"
         : "Distribution creation failed: " + (e.message || "Unknown error");
+      // Payees already created stay on chain; say so, so the sheet is not resubmitted whole
+      const errorMessage = created > 0
+        ? `${reason} (${created} of ${payees.length} distributions were created)`
+        : reason;
       
       setTransactionStatus({
         visible: true,
@@ -232,6 +385,9 @@ const App: React.FC = () => {
         message: errorMessage
       });
       
+      // Also picks up a royalty that was submitted without its record being stored
+      await loadDistributions();
+      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
@@ -240,62 +396,202 @@ const App: React.FC = () => {
     }
   };
 
+  // Asks the contract to decrypt the royalty's NFT publicly, which adds the royalty to the NFT's
+  // count and totals and makes it claimable; only the account that submitted it may do so
   const executeDistribution = async (distributionId: string) => {
-    if (!provider) {
-      alert("Please connect wallet first");
+    if (!ensureCanWrite()) return;
+    const dist = distributions.find(d => d.id === distributionId);
+    if (!dist?.royaltyId) {
+      alert("This record has no on-chain royalty to distribute");
       return;
     }
+    const royaltyId = dist.royaltyId;
 
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Executing FHE-encrypted royalty distribution..."
+      message: "Confirm the distribution request in your wallet..."
     });
 
     try {
-      // Simulate FHE computation time for distribution execution
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      const royaltyClient = await getRoyaltyClientWithSigner();
+      const receipt = await royaltyClient.requestRoyaltyDistribution(royaltyId);
+      trackMinedTransaction(receipt, `Distribute royalty #${royaltyId}`)
+        .catch(e => console.error("Error tracking distribution request:", e));
+
+      // Live updates confirm this and report the oracle's answer; show the request meanwhile
+      setDistributions(prev => applyLiveUpdate(prev, { type: "royalty", royaltyId, progress: "requested" }));
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Distribution requested; the NFT is revealed once the oracle answers"
+      });
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Distribution request failed: " + (e.shortMessage || e.message || "Unknown error")
+      });
       
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  const storeUnstoredRecords = async () => {
+    if (!ensureCanWrite()) return;
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: `Storing ${unstoredRecords.length} distribution record(s) for royalties already submitted...`
+    });
+
+    try {
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
-      
-      const distributionBytes = await contract.getData(`distribution_${distributionId}`);
-      if (distributionBytes.length === 0) {
-        throw new Error("Distribution not found");
+      await storeDistributionRecordsInBatches(contract, unstoredRecords, () => {});
+
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Distribution records stored"
+      });
+      await loadDistributions();
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Storing distribution records failed: " + (e.message || "Unknown error")
+      });
+      await loadDistributions();
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // The royalties stay on chain; they are only no longer offered for listing
+  const dismissUnstoredRecords = () => {
+    forgetUnstoredRecords(unstoredRecords.map(record => record.id));
+    setUnstoredRecords([]);
+  };
+
+  const revealMyShare = async (dist: RoyaltyDistribution) => {
+    if (!ensureCanWrite()) return;
+    if (!dist.royaltyId) return;
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Requesting decryption access to your royalty share..."
+    });
+
+    try {
+      const royaltyClient = await getRoyaltyClientWithSigner();
+      const signer = royaltyClient.contract.runner as ethers.Signer;
+      const holder = await signer.getAddress();
+
+      let holderRoyalty = await royaltyClient.getHolderRoyalty(dist.royaltyId, holder);
+      if (holderRoyalty.share === ethers.ZeroHash) {
+        const receipt = await royaltyClient.requestHolderAccess(dist.royaltyId);
+        trackMinedTransaction(receipt, "Request share access")
+          .catch(e => console.error("Error tracking access request:", e));
+        holderRoyalty = await royaltyClient.getHolderRoyalty(dist.royaltyId, holder);
       }
-      
-      const distributionData = JSON.parse(ethers.toUtf8String(distributionBytes));
-      
-      const updatedDistribution = {
-        ...distributionData,
-        status: "distributed"
-      };
-      
-      await contract.setData(
-        `distribution_${distributionId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedDistribution))
+
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Sign the decryption request in your wallet..."
+      });
+
+      const results = await userDecryptHandles(
+        [holderRoyalty.share, holderRoyalty.nftId, holderRoyalty.amount],
+        royaltyClient.address,
+        signer
       );
-      
+      const shareBps = Number(results[holderRoyalty.share]);
+      const amount = fromEncryptedAmount(results[holderRoyalty.amount] as bigint, dist.decimals);
+      const nftId = String(results[holderRoyalty.nftId]);
+
+      if (shareBps === 0) {
+        throw new Error("Connected wallet is not the holder of this royalty");
+      }
+
+      const payout = await royaltyClient.getRoyaltyPayout(dist.royaltyId, holder);
+      setRevealedShares(prev => ({ ...prev, [dist.id]: { shareBps, amount, nftId, recipient: holder, payout } }));
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE royalty distribution executed successfully!"
+        message: `Your share: ${shareBps / 100}% (${formatAmount(amount, dist.decimals)} ${assetSymbol(dist)})`
       });
-      
-      await loadDistributions();
-      
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      }, 3000);
     } catch (e: any) {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Distribution execution failed: " + (e.message || "Unknown error")
+        message: "Decryption failed: " + (e.message || "Unknown error")
       });
-      
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Only the holder's request pays out; the royalty's submitter funds it from their deposited balance
+  const claimPayout = async (dist: RoyaltyDistribution) => {
+    if (!ensureCanWrite()) return;
+    const revealed = revealedShares[dist.id];
+    if (!dist.royaltyId || !revealed) return;
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Confirm the payout request in your wallet..."
+    });
+
+    try {
+      const royaltyClient = await getRoyaltyClientWithSigner();
+      const holder = await (royaltyClient.contract.runner as ethers.Signer).getAddress();
+      const receipt = await royaltyClient.requestRoyaltyPayout(dist.royaltyId);
+      trackMinedTransaction(receipt, `Claim payout of royalty #${dist.royaltyId}`)
+        .catch(e => console.error("Error tracking payout request:", e));
+
+      const payout = await royaltyClient.getRoyaltyPayout(dist.royaltyId, holder);
+      setRevealedShares(prev => ({ ...prev, [dist.id]: { ...revealed, payout } }));
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: "Payout requested; it is added to your payout balance once the oracle answers"
+      });
+
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Payout request failed: " + (e.shortMessage || e.message || "Unknown error")
+      });
+
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
@@ -358,7 +654,8 @@ const App: React.FC = () => {
     const statusData = [
       { label: "Distributed", value: distributedCount, color: "#4CAF50" },
       { label: "Pending", value: pendingCount, color: "#FF9800" },
-      { label: "Failed", value: failedCount, color: "#F44336" }
+      { label: "Failed", value: failedCount, color: "#F44336" },
+      { label: "Corrupt", value: corruptCount, color: "#9E9E9E" }
     ];
 
     const maxValue = Math.max(...statusData.map(d => d.value));
@@ -386,6 +683,168 @@ const App: React.FC = () => {
     );
   };
 
+  const renderDashboard = () => (
+    <>
+      <div className="welcome-banner">
+        <div className="welcome-text">
+          <h2>Anonymous Music NFT Royalties</h2>
+          <p>Distribute royalties securely using FHE technology while preserving artist privacy</p>
+        </div>
+        <div className="banner-decoration">
+          <div className="leaf-decoration">🍃</div>
+        </div>
+      </div>
+    
+      {showTutorial && (
+        <div className="tutorial-section">
+          <h2>FHE Royalty Distribution Guide</h2>
+          <p className="subtitle">Learn how to distribute royalties anonymously</p>
+        
+          <div className="tutorial-steps">
+            {tutorialSteps.map((step, index) => (
+              <div 
+                className="tutorial-step"
+                key={index}
+              >
+                <div className="step-icon">{step.icon}</div>
+                <div className="step-content">
+                  <h3>{step.title}</h3>
+                  <p>{step.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    
+      <div className="dashboard-controls">
+        <button 
+          className="nature-button small"
+          onClick={() => setShowStats(!showStats)}
+        >
+          {showStats ? "Hide Statistics" : "Show Statistics"}
+        </button>
+      </div>
+
+      {showStats && (
+        <div className="dashboard-grid">
+          <div className="dashboard-card nature-card">
+            <h3>Project Overview</h3>
+            <p>Anonymous royalty distribution platform for Music NFTs using FHE technology to protect artist privacy while ensuring fair compensation.</p>
+            <div className="fhe-badge">
+              <span>FHE-Encrypted</span>
+            </div>
+          </div>
+        
+          <div className="dashboard-card nature-card">
+            <h3>Distribution Statistics</h3>
+            <div className="stats-grid">
+              <div className="stat-item">
+                <div className="stat-value">{distributions.length}</div>
+                <div className="stat-label">Total</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{distributedCount}</div>
+                <div className="stat-label">Distributed</div>
+              </div>
+              <div className="stat-item">
+                <div className="stat-value">{pendingCount}</div>
+                <div className="stat-label">Pending</div>
+              </div>
+              {assetTotals.size === 0 ? (
+                <div className="stat-item">
+                  <div className="stat-value">0</div>
+                  <div className="stat-label">Total ETH</div>
+                </div>
+              ) : (
+                [...assetTotals].map(([symbol, total]) => (
+                  <div className="stat-item" key={symbol}>
+                    <div className="stat-value">
+                      {formatAmount(total.amount, total.decimals, { maxFractionDigits: 4, grouping: true })}
+                    </div>
+                    <div className="stat-label">Total {symbol}</div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        
+          <div className="dashboard-card nature-card">
+            <h3>Status Overview</h3>
+            {renderBarChart()}
+          </div>
+        
+          {account && <PayoutBalances account={account} chainId={activeChainId} connected={canWrite} />}
+          
+          <RevenueChart chainId={activeChainId} distributions={visibleDistributions} />
+        </div>
+      )}
+    
+      <div className="distributions-section">
+        <div className="section-header">
+          <h2>Royalty Distributions</h2>
+          <div className="header-actions">
+            <DistributionFilterBar filters={filters} onChange={setFilters} />
+            <span className={`live-indicator ${liveStatus}`} title="Live updates">
+              {liveStatus === "live" || liveStatus === "polling" ? "● Live" : liveStatus}
+            </span>
+            <button 
+              onClick={loadDistributions}
+              className="refresh-btn nature-button"
+              disabled={isRefreshing}
+            >
+              {isRefreshing ? "Refreshing..." : "Refresh"}
+            </button>
+            <button
+              onClick={() => setShowExport(true)}
+              className="nature-button outline"
+              disabled={distributions.length === 0}
+            >
+              Export
+            </button>
+          </div>
+        </div>
+      
+        {unstoredRecords.length > 0 && (
+          <div className="unstored-records">
+            <span>
+              {unstoredRecords.length === 1 ? "A royalty was" : `${unstoredRecords.length} royalties were`} submitted
+              from this browser without a distribution record, so {unstoredRecords.length === 1 ? "it is" : "they are"} not
+              listed yet.
+            </span>
+            <div className="unstored-records-actions">
+              <button onClick={storeUnstoredRecords} disabled={!canWrite} className="nature-button small primary">
+                Store Records
+              </button>
+              <button onClick={dismissUnstoredRecords} className="nature-button small outline">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        <DistributionTable
+          distributions={filteredDistributions}
+          revealedShares={revealedShares}
+          onExecute={executeDistribution}
+          onReveal={revealMyShare}
+          empty={
+            <>
+              <div className="no-distributions-icon">🎵</div>
+              <p>No royalty distributions found</p>
+              <button 
+                className="nature-button primary"
+                onClick={() => setShowCreateModal(true)}
+              >
+                Create First Distribution
+              </button>
+            </>
+          }
+        />
+      </div>
+    </>
+  );
+
   if (loading) return (
     <div className="loading-screen">
       <div className="spinner"></div>
@@ -396,12 +855,12 @@ const App: React.FC = () => {
   return (
     <div className="app-container nature-theme">
       <header className="app-header">
-        <div className="logo">
+        <Link to="/" className="logo">
           <div className="logo-icon">
             <div className="music-icon">🎵</div>
           </div>
           <h1>MusicNFT<span>Royalties</span></h1>
-        </div>
+        </Link>
         
         <div className="header-actions">
           <button 
@@ -411,6 +870,18 @@ const App: React.FC = () => {
             <div className="add-icon">+</div>
             New Distribution
           </button>
+          <button 
+            className="nature-button secondary"
+            onClick={() => setShowDsrImport(true)}
+          >
+            Import DSR
+          </button>
+          <button 
+            className="nature-button secondary"
+            onClick={() => setShowCsvImport(true)}
+          >
+            Import CSV
+          </button>
           <button 
             className="nature-button secondary"
             onClick={() => setShowTutorial(!showTutorial)}
@@ -423,176 +894,64 @@ const App: React.FC = () => {
           >
             Check FHE Status
           </button>
-          <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
-        </div>
-      </header>
-      
-      <div className="main-content">
-        <div className="welcome-banner">
-          <div className="welcome-text">
-            <h2>Anonymous Music NFT Royalties</h2>
-            <p>Distribute royalties securely using FHE technology while preserving artist privacy</p>
-          </div>
-          <div className="banner-decoration">
-            <div className="leaf-decoration">🍃</div>
-          </div>
-        </div>
-        
-        {showTutorial && (
-          <div className="tutorial-section">
-            <h2>FHE Royalty Distribution Guide</h2>
-            <p className="subtitle">Learn how to distribute royalties anonymously</p>
-            
-            <div className="tutorial-steps">
-              {tutorialSteps.map((step, index) => (
-                <div 
-                  className="tutorial-step"
-                  key={index}
-                >
-                  <div className="step-icon">{step.icon}</div>
-                  <div className="step-content">
-                    <h3>{step.title}</h3>
-                    <p>{step.description}</p>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-        
-        <div className="dashboard-controls">
           <button 
-            className="nature-button small"
-            onClick={() => setShowStats(!showStats)}
+            className="nature-button outline"
+            onClick={() => setShowTxHistory(true)}
           >
-            {showStats ? "Hide Statistics" : "Show Statistics"}
+            Transactions{inFlightTxCount > 0 ? ` (${inFlightTxCount})` : ""}
           </button>
+          <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
+      </header>
 
-        {showStats && (
-          <div className="dashboard-grid">
-            <div className="dashboard-card nature-card">
-              <h3>Project Overview</h3>
-              <p>Anonymous royalty distribution platform for Music NFTs using FHE technology to protect artist privacy while ensuring fair compensation.</p>
-              <div className="fhe-badge">
-                <span>FHE-Encrypted</span>
-              </div>
-            </div>
-            
-            <div className="dashboard-card nature-card">
-              <h3>Distribution Statistics</h3>
-              <div className="stats-grid">
-                <div className="stat-item">
-                  <div className="stat-value">{distributions.length}</div>
-                  <div className="stat-label">Total</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{distributedCount}</div>
-                  <div className="stat-label">Distributed</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{pendingCount}</div>
-                  <div className="stat-label">Pending</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{totalAmount.toFixed(2)}</div>
-                  <div className="stat-label">Total ETH</div>
-                </div>
-              </div>
-            </div>
-            
-            <div className="dashboard-card nature-card">
-              <h3>Status Overview</h3>
-              {renderBarChart()}
-            </div>
-          </div>
-        )}
-        
-        <div className="distributions-section">
-          <div className="section-header">
-            <h2>Royalty Distributions</h2>
-            <div className="header-actions">
-              <div className="search-filter">
-                <input 
-                  type="text"
-                  placeholder="Search NFT ID or recipient..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="search-input"
-                />
-                <select 
-                  value={filterStatus}
-                  onChange={(e) => setFilterStatus(e.target.value)}
-                  className="filter-select"
-                >
-                  <option value="all">All Status</option>
-                  <option value="pending">Pending</option>
-                  <option value="distributed">Distributed</option>
-                  <option value="failed">Failed</option>
-                </select>
-              </div>
-              <button 
-                onClick={loadDistributions}
-                className="refresh-btn nature-button"
-                disabled={isRefreshing}
-              >
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
-          </div>
-          
-          <div className="distributions-list nature-card">
-            <div className="table-header">
-              <div className="header-cell">NFT ID</div>
-              <div className="header-cell">Amount (ETH)</div>
-              <div className="header-cell">Recipient</div>
-              <div className="header-cell">Date</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Actions</div>
-            </div>
-            
-            {filteredDistributions.length === 0 ? (
-              <div className="no-distributions">
-                <div className="no-distributions-icon">🎵</div>
-                <p>No royalty distributions found</p>
-                <button 
-                  className="nature-button primary"
-                  onClick={() => setShowCreateModal(true)}
-                >
-                  Create First Distribution
-                </button>
-              </div>
-            ) : (
-              filteredDistributions.map(dist => (
-                <div className="distribution-row" key={dist.id}>
-                  <div className="table-cell nft-id">#{dist.nftId.substring(0, 8)}</div>
-                  <div className="table-cell amount">{dist.amount} ETH</div>
-                  <div className="table-cell recipient">
-                    {dist.recipient.substring(0, 6)}...{dist.recipient.substring(38)}
-                  </div>
-                  <div className="table-cell">
-                    {new Date(dist.timestamp * 1000).toLocaleDateString()}
-                  </div>
-                  <div className="table-cell">
-                    <span className={`status-badge ${dist.status}`}>
-                      {dist.status}
-                    </span>
-                  </div>
-                  <div className="table-cell actions">
-                    {dist.status === "pending" && (
-                      <button 
-                        className="action-btn nature-button success"
-                        onClick={() => executeDistribution(dist.id)}
-                      >
-                        Execute
-                      </button>
-                    )}
-                  </div>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
+      {wrongNetwork && <NetworkGuard walletChainId={walletChainId!} onSwitch={switchNetwork} />}
+      
+      <div className="main-content">
+        <Routes>
+          <Route path="/" element={renderDashboard()} />
+          <Route
+            path="/nft/:nftId"
+            element={
+              <NftDetail
+                chainId={activeChainId}
+                connected={canWrite}
+                distributions={visibleDistributions}
+                refreshing={isRefreshing}
+                revealedShares={revealedShares}
+                onExecute={executeDistribution}
+                onReveal={revealMyShare}
+              />
+            }
+          />
+          <Route
+            path="/recipient/:address"
+            element={
+              <RecipientDetail
+                chainId={activeChainId}
+                distributions={visibleDistributions}
+                refreshing={isRefreshing}
+                revealedShares={revealedShares}
+                onExecute={executeDistribution}
+                onReveal={revealMyShare}
+              />
+            }
+          />
+          <Route
+            path="/distribution/:id"
+            element={
+              <DistributionDetail
+                chainId={activeChainId}
+                distributions={visibleDistributions}
+                refreshing={isRefreshing}
+                revealedShares={revealedShares}
+                onExecute={executeDistribution}
+                onReveal={revealMyShare}
+                onClaim={claimPayout}
+              />
+            }
+          />
+          <Route path="*" element={<NotFound />} />
+        </Routes>
 
         <div className="team-section">
           <h3>Powered by FHE Technology</h3>
@@ -607,9 +966,40 @@ const App: React.FC = () => {
           creating={creating}
           distributionData={newDistributionData}
           setDistributionData={setNewDistributionData}
+          chainId={activeChainId}
+        />
+      )}
+      
+      {showDsrImport && (
+        <DsrImport
+          chainId={activeChainId}
+          connected={canWrite}
+          onClose={() => setShowDsrImport(false)}
+          onImported={loadDistributions}
+        />
+      )}
+      
+      {showCsvImport && (
+        <CsvImportWizard
+          chainId={activeChainId}
+          connected={canWrite}
+          onClose={() => setShowCsvImport(false)}
+          onImported={loadDistributions}
+        />
+      )}
+      
+      {showExport && (
+        <ExportDialog
+          chainId={activeChainId}
+          distributions={visibleDistributions}
+          onClose={() => setShowExport(false)}
         />
       )}
       
+      {showTxHistory && (
+        <TransactionHistory onClose={() => setShowTxHistory(false)} />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -664,12 +1054,20 @@ const App: React.FC = () => {
   );
 };
 
+const NotFound: React.FC = () => (
+  <div className="detail-page">
+    <Link to="/" className="detail-back">← All distributions</Link>
+    <p className="detail-empty">This page does not exist</p>
+  </div>
+);
+
 interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
-  distributionData: any;
-  setDistributionData: (data: any) => void;
+  distributionData: DistributionDraft;
+  setDistributionData: React.Dispatch<React.SetStateAction<DistributionDraft>>;
+  chainId: number;
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
@@ -677,8 +1075,50 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   onClose, 
   creating,
   distributionData,
-  setDistributionData
+  setDistributionData,
+  chainId
 }) => {
+  const [template, setTemplate] = useState<SplitTemplate | null>(null);
+  const [showIssues, setShowIssues] = useState(false);
+  const [payoutTokens, setPayoutTokens] = useState<PayoutToken[]>([NATIVE_PAYOUT]);
+
+  const token = findPayoutToken(payoutTokens, distributionData.payoutToken) ?? NATIVE_PAYOUT;
+
+  useEffect(() => {
+    loadPayoutTokens(chainId)
+      .then(setPayoutTokens)
+      .catch(e => console.error("Error loading payout tokens:", e));
+  }, [chainId]);
+
+  let templateNftId: string | null = null;
+  try {
+    templateNftId = distributionData.nftId ? parseNftId(distributionData.nftId).toString() : null;
+  } catch {
+    templateNftId = null;
+  }
+
+  const issues = validateSplitSheet(distributionData.payees);
+  // Encrypted amounts keep fewer decimal places than 18-decimal tokens allow
+  const amountDecimals = Math.min(token.decimals, ENCRYPTED_AMOUNT_DECIMALS);
+  let amountError = "";
+  if (distributionData.amount.trim()) {
+    try {
+      parseAmount(distributionData.amount, amountDecimals);
+    } catch (e: any) {
+      amountError = e.message;
+    }
+  }
+
+  // Prefill an untouched sheet from the template saved for this NFT
+  useEffect(() => {
+    const saved = templateNftId ? getSplitTemplate(chainId, templateNftId) : null;
+    setTemplate(saved);
+    if (!saved) return;
+    setDistributionData(prev => prev.payees.every(payee => !payee.recipient && !payee.shareBps)
+      ? { ...prev, payees: saved.payees }
+      : prev);
+  }, [chainId, templateNftId]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setDistributionData({
@@ -687,18 +1127,67 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     });
   };
 
+  const handleSaveTemplate = () => {
+    if (!templateNftId) return;
+    if (issues.length > 0) {
+      setShowIssues(true);
+      return;
+    }
+    saveSplitTemplate(chainId, templateNftId, distributionData.payees);
+    setTemplate(getSplitTemplate(chainId, templateNftId));
+  };
+
+  const handleDeleteTemplate = () => {
+    if (!templateNftId) return;
+    deleteSplitTemplate(chainId, templateNftId);
+    setTemplate(null);
+  };
+
   const handleSubmit = () => {
-    if (!distributionData.amount || !distributionData.nftId || !distributionData.recipient) {
+    if (!distributionData.amount || !distributionData.nftId) {
       alert("Please fill all required fields");
       return;
     }
     
+    try {
+      parseNftId(distributionData.nftId);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    
+    if (issues.length > 0) {
+      setShowIssues(true);
+      return;
+    }
+    
+    if (amountError) {
+      alert(amountError);
+      return;
+    }
+    
+    let amounts: bigint[];
+    try {
+      const total = parseAmount(distributionData.amount, token.decimals);
+      if (total === 0n) {
+        throw new Error("Amount must be greater than 0");
+      }
+      amounts = allocateSplit(total, token.decimals, distributionData.payees);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    if (amounts.some(amount => amount === 0n)) {
+      alert("Amount is too small to split across every payee");
+      return;
+    }
+    
     onSubmit();
   };
 
   return (
     <div className="modal-overlay">
-      <div className="create-modal nature-card">
+      <div className="create-modal split-modal nature-card">
         <div className="modal-header">
           <h2>Create Royalty Distribution</h2>
           <button onClick={onClose} className="close-modal">×</button>
@@ -714,45 +1203,100 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             <div className="form-group">
               <label>NFT ID *</label>
               <input 
-                type="text"
+                type="number"
                 name="nftId"
                 value={distributionData.nftId} 
                 onChange={handleChange}
-                placeholder="Enter NFT ID..." 
+                placeholder="Token ID, e.g. 42" 
                 className="nature-input"
               />
             </div>
             
             <div className="form-group">
-              <label>Amount (ETH) *</label>
-              <input 
-                type="number"
-                name="amount"
-                value={distributionData.amount} 
+              <label>Payout Token *</label>
+              <select
+                name="payoutToken"
+                value={token.address}
                 onChange={handleChange}
-                placeholder="0.00" 
                 className="nature-input"
-                step="0.001"
-                min="0"
-              />
+              >
+                {payoutTokens.map(t => (
+                  <option key={t.address} value={t.address}>{t.symbol}</option>
+                ))}
+              </select>
             </div>
             
             <div className="form-group full-width">
-              <label>Recipient Address *</label>
+              <label>Total Amount ({token.symbol}) *</label>
               <input 
                 type="text"
-                name="recipient"
-                value={distributionData.recipient} 
+                inputMode="decimal"
+                name="amount"
+                value={distributionData.amount} 
                 onChange={handleChange}
-                placeholder="0x..." 
+                placeholder="0.00" 
                 className="nature-input"
               />
+              {amountError
+                ? <p className="form-hint error">{amountError}</p>
+                : (
+                  <p className="form-hint">
+                    Up to {amountDecimals} decimal places
+                    {token.decimals > ENCRYPTED_AMOUNT_DECIMALS && (
+                      ` (encrypted amounts keep ${ENCRYPTED_AMOUNT_DECIMALS} of ${token.symbol}'s ${token.decimals})`
+                    )}
+                  </p>
+                )}
             </div>
           </div>
           
+          <div className="split-template-bar">
+            <span>
+              {!templateNftId
+                ? "Enter an NFT ID to use its saved split sheet"
+                : template
+                  ? `Split sheet for NFT #${templateNftId} saved ${new Date(template.savedAt).toLocaleDateString()}`
+                  : `No saved split sheet for NFT #${templateNftId}`}
+            </span>
+            {templateNftId && (
+              <div className="split-sheet-actions">
+                {template && (
+                  <button
+                    onClick={() => setDistributionData({ ...distributionData, payees: template.payees })}
+                    className="nature-button small"
+                  >
+                    Apply
+                  </button>
+                )}
+                <button onClick={handleSaveTemplate} className="nature-button small">
+                  Save as Template
+                </button>
+                {template && (
+                  <button onClick={handleDeleteTemplate} className="nature-button small">
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          
+          <SplitSheetEditor
+            payees={distributionData.payees}
+            onChange={payees => setDistributionData({ ...distributionData, payees })}
+            amount={distributionData.amount}
+            decimals={token.decimals}
+            symbol={token.symbol}
+          />
+          
+          {showIssues && issues.length > 0 && (
+            <ul className="split-sheet-issues">
+              {issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+          
           <div className="privacy-notice">
             <div className="privacy-icon">👁️</div> 
-            Recipient identity remains anonymous throughout the process
+            Each payee gets their own encrypted royalty; identities remain anonymous throughout the process
           </div>
         </div>
         
@@ -768,7 +1312,11 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             disabled={creating}
             className="submit-btn nature-button primary"
           >
-            {creating ? "Processing with FHE..." : "Create Distribution"}
+            {creating
+              ? "Processing with FHE..."
+              : distributionData.payees.length > 1
+                ? `Create ${distributionData.payees.length} Distributions`
+                : "Create Distribution"}
           </button>
         </div>
       </div>
@@ -0,0 +1,303 @@
+// accountingExport.ts
+import { ethers } from "ethers";
+import { formatAmount, MusicNftRoyaltiesClient } from "@royalties/sdk";
+import { ABI, getReadProvider } from "./contract";
+import { toCsv } from "./csv";
+import { assetSymbol, distributionIdFromKey, findDeploymentBlock, RoyaltyDistribution } from "./distributions";
+import { requireDeployment } from "./networks";
+
+export type ExportFormat = "csv" | "json" | "iif";
+
+export type ExportableStatus = "pending" | "distributed" | "failed";
+
+export const EXPORTABLE_STATUSES: ExportableStatus[] = ["pending", "distributed", "failed"];
+
+export interface ExportFilters {
+  // Inclusive local dates as YYYY-MM-DD, matched against the record's creation time
+  from: string;
+  to: string;
+  statuses: ExportableStatus[];
+}
+
+export interface IifAccounts {
+  expense: string;
+  payable: string;
+}
+
+// A transaction touching a distribution, with the time of the block it was mined in.
+export interface AuditEntry {
+  txHash: string;
+  blockNumber: number;
+  blockTimestamp: number;
+}
+
+export interface AuditTrail {
+  // First and latest adapter writes of the record
+  recordCreated?: AuditEntry;
+  recordUpdated?: AuditEntry;
+  // MusicNftRoyalties lifecycle of the linked royalty
+  royaltySubmitted?: AuditEntry;
+  royaltyDistributed?: AuditEntry;
+}
+
+// Payee fields the exporting wallet cannot see are left empty.
+export interface ExportRow {
+  id: string;
+  createdAt: string;
+  nftId: string;
+  recipient: string;
+  asset: string;
+  tokenAddress: string;
+  amount: string;
+  amountBaseUnits: string;
+  decimals: number;
+  status: ExportableStatus;
+  period: string;
+  royaltyId: string;
+  splitSheetId: string;
+  splitRole: string;
+  shareBps: number | null;
+  source: string;
+  audit: AuditTrail;
+}
+
+const SCAN_CHUNK_SIZE = 5000;
+const IIF_DECIMALS = 2;
+const BLOCK_FETCH_CONCURRENCY = 8;
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  iif: "application/octet-stream"
+};
+
+// Block timestamps never change once past the reorg window, so they are kept for the session.
+const blockTimestamps = new Map<string, number>();
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime() / 1000;
+
+export function filterForExport(list: RoyaltyDistribution[], filters: ExportFilters): RoyaltyDistribution[] {
+  const from = filters.from ? startOfDay(filters.from) : -Infinity;
+  // Inclusive end date: everything before the start of the following day
+  const to = filters.to ? startOfDay(filters.to) + 24 * 60 * 60 : Infinity;
+  return list
+    .filter(dist => dist.status !== "corrupt" && filters.statuses.includes(dist.status))
+    .filter(dist => dist.timestamp >= from && dist.timestamp < to)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const fetchBlockTimestamps = async (chainId: number, provider: ethers.Provider, blockNumbers: number[]) => {
+  const missing = [...new Set(blockNumbers)].filter(block => !blockTimestamps.has(`${chainId}:${block}`));
+  for (let start = 0; start < missing.length; start += BLOCK_FETCH_CONCURRENCY) {
+    await Promise.all(missing.slice(start, start + BLOCK_FETCH_CONCURRENCY).map(async blockNumber => {
+      const block = await provider.getBlock(blockNumber);
+      if (block) blockTimestamps.set(`${chainId}:${blockNumber}`, block.timestamp);
+    }));
+  }
+};
+
+/**
+ * Scans the adapter and MusicNftRoyalties logs since deployment for the transactions behind
+ * each of `distributions`, then resolves their block timestamps. `onProgress` gets the share
+ * of blocks scanned so far, between 0 and 1.
+ */
+export async function collectAuditTrails(
+  chainId: number,
+  distributions: RoyaltyDistribution[],
+  onProgress?: (scanned: number) => void
+): Promise<Map<string, AuditTrail>> {
+  const deployment = await requireDeployment(chainId);
+  if (!deployment.contractAddress) {
+    throw new Error(`UniversalAdapter is not deployed on ${deployment.name}`);
+  }
+  const provider = await getReadProvider(chainId);
+  const adapter = new ethers.Interface(ABI);
+  const royalty = deployment.royaltyContractAddress
+    ? new MusicNftRoyaltiesClient(deployment.royaltyContractAddress, provider)
+    : null;
+
+  const ids = new Set(distributions.map(dist => dist.id));
+  const idsByRoyalty = new Map<string, string[]>();
+  distributions.forEach(dist => {
+    if (!dist.royaltyId) return;
+    idsByRoyalty.set(dist.royaltyId, [...(idsByRoyalty.get(dist.royaltyId) ?? []), dist.id]);
+  });
+
+  const latest = await provider.getBlockNumber();
+  const fromBlock = deployment.deploymentBlock ?? await findDeploymentBlock(provider, deployment.contractAddress, latest);
+  const addresses = [deployment.contractAddress, deployment.royaltyContractAddress].filter(Boolean) as string[];
+
+  const found = new Map<string, { [K in keyof AuditTrail]?: ethers.Log }>();
+  const note = (id: string, field: keyof AuditTrail, log: ethers.Log) => {
+    const trail = found.get(id) ?? {};
+    // Logs arrive in chain order: keep the first creation, the latest update and payout
+    if (field !== "recordCreated" || !trail.recordCreated) trail[field] = log;
+    found.set(id, trail);
+  };
+
+  for (let from = fromBlock; from <= latest; from += SCAN_CHUNK_SIZE) {
+    const to = Math.min(from + SCAN_CHUNK_SIZE - 1, latest);
+    const logs = await provider.getLogs({ address: addresses, fromBlock: from, toBlock: to });
+
+    for (const log of logs) {
+      if (ethers.getAddress(log.address) === ethers.getAddress(deployment.contractAddress)) {
+        const parsed = adapter.parseLog(log);
+        if (parsed?.name !== "DataStored") continue;
+        const id = distributionIdFromKey(parsed.args.key);
+        if (!id || !ids.has(id)) continue;
+        note(id, "recordCreated", log);
+        note(id, "recordUpdated", log);
+      } else if (royalty) {
+        const [event] = royalty.decodeEvents([log]);
+        if (event?.name !== "RoyaltySubmitted" && event?.name !== "RoyaltyDistributed") continue;
+        const field = event.name === "RoyaltySubmitted" ? "royaltySubmitted" : "royaltyDistributed";
+        (idsByRoyalty.get(event.royaltyId.toString()) ?? []).forEach(id => note(id, field, log));
+      }
+    }
+    onProgress?.((to - fromBlock + 1) / (latest - fromBlock + 1));
+  }
+
+  const logs = [...found.values()].flatMap(trail => Object.values(trail));
+  await fetchBlockTimestamps(chainId, provider, logs.map(log => log.blockNumber));
+
+  const trails = new Map<string, AuditTrail>();
+  for (const [id, logsByField] of found) {
+    const trail: AuditTrail = {};
+    for (const [field, log] of Object.entries(logsByField) as [keyof AuditTrail, ethers.Log][]) {
+      trail[field] = {
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockTimestamp: blockTimestamps.get(`${chainId}:${log.blockNumber}`) ?? 0
+      };
+    }
+    trails.set(id, trail);
+  }
+  return trails;
+}
+
+const describeSource = (dist: RoyaltyDistribution) => {
+  if (!dist.source) return "";
+  return dist.source.format === "ddex-dsr"
+    ? `ddex-dsr:${dist.source.messageId}:${dist.source.isrc}`
+    : `csv:${dist.source.fileName}:${dist.source.row}`;
+};
+
+export function buildExportRows(distributions: RoyaltyDistribution[], trails: Map<string, AuditTrail>): ExportRow[] {
+  return distributions.map(dist => ({
+    id: dist.id,
+    createdAt: new Date(dist.timestamp * 1000).toISOString(),
+    nftId: dist.nftId ?? dist.legacyNftId ?? "",
+    recipient: dist.recipient ?? "",
+    asset: assetSymbol(dist),
+    tokenAddress: dist.payoutToken?.address ?? ethers.ZeroAddress,
+    amount: dist.amount !== undefined ? formatAmount(dist.amount, dist.decimals) : "",
+    amountBaseUnits: dist.amount?.toString() ?? "",
+    decimals: dist.decimals,
+    status: dist.status as ExportableStatus,
+    period: dist.period ?? "",
+    royaltyId: dist.royaltyId ?? "",
+    splitSheetId: dist.split?.sheetId ?? "",
+    splitRole: dist.split?.role ?? "",
+    shareBps: dist.split?.shareBps ?? null,
+    source: describeSource(dist),
+    audit: trails.get(dist.id) ?? {}
+  }));
+}
+
+const AUDIT_COLUMNS: [keyof AuditTrail, string][] = [
+  ["recordCreated", "record_created"],
+  ["recordUpdated", "record_updated"],
+  ["royaltySubmitted", "royalty_submitted"],
+  ["royaltyDistributed", "royalty_distributed"]
+];
+
+const isoTime = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+export function toCsvExport(rows: ExportRow[]): string {
+  const header = [
+    "id", "created_at", "nft_id", "recipient", "asset", "token_address", "amount", "amount_base_units",
+    "decimals", "status", "period", "royalty_id", "split_sheet_id", "split_role", "share_bps", "source",
+    ...AUDIT_COLUMNS.flatMap(([, name]) => [`${name}_tx`, `${name}_block`, `${name}_at`])
+  ];
+  return toCsv([
+    header,
+    ...rows.map(row => [
+      row.id, row.createdAt, row.nftId, row.recipient, row.asset, row.tokenAddress, row.amount, row.amountBaseUnits,
+      String(row.decimals), row.status, row.period, row.royaltyId, row.splitSheetId, row.splitRole,
+      row.shareBps === null ? "" : String(row.shareBps), row.source,
+      ...AUDIT_COLUMNS.flatMap(([field]) => {
+        const entry = row.audit[field];
+        return entry ? [entry.txHash, String(entry.blockNumber), isoTime(entry.blockTimestamp)] : ["", "", ""];
+      })
+    ])
+  ]);
+}
+
+export function toJsonExport(rows: ExportRow[], chainId: number, filters: ExportFilters): string {
+  const distributions = rows.map(row => ({
+    ...row,
+    audit: Object.fromEntries(Object.entries(row.audit).map(([field, entry]) => [
+      field,
+      { ...entry, blockTime: isoTime(entry.blockTimestamp) }
+    ]))
+  }));
+  return JSON.stringify({ exportedAt: new Date().toISOString(), chainId, filters, distributions }, null, 2) + "\n";
+}
+
+// IIF is tab-delimited with no quoting, so tabs and line breaks cannot appear inside a field.
+const iifField = (value: string) => value.replace(/[\t\r\n]+/g, " ");
+
+const iifDate = (seconds: number) => {
+  const date = new Date(seconds * 1000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+};
+
+// Amount rounded half-up to the two decimal places QuickBooks keeps, in base units of 0.01.
+const iifCents = (row: ExportRow) => {
+  const scale = 10n ** BigInt(row.decimals);
+  return (BigInt(row.amountBaseUnits) * 200n + scale) / (2n * scale);
+};
+
+/** Rows with a known, non-zero amount that round to 0.00 and so are left out of the IIF file. */
+export function iifRoundedAway(rows: ExportRow[]): ExportRow[] {
+  return rows.filter(row => row.amountBaseUnits && BigInt(row.amountBaseUnits) > 0n && iifCents(row) === 0n);
+}
+
+/**
+ * QuickBooks IIF general-journal entries: each distribution debits the expense account and
+ * credits the payable account, both with a sub-account per asset, because IIF amounts carry
+ * no currency. Amounts are rounded to two decimal places, with the exact amount kept in the
+ * memo. Rows whose amount is still encrypted or rounds to 0.00 have nothing to book and are
+ * left out; `iifRoundedAway` lists the latter.
+ */
+export function toIifExport(rows: ExportRow[], accounts: IifAccounts): string {
+  const columns = ["TRNSID", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"];
+  const lines = [
+    ["!TRNS", ...columns],
+    ["!SPL", ...columns.map(column => (column === "TRNSID" ? "SPLID" : column))],
+    ["!ENDTRNS"]
+  ];
+
+  for (const row of rows.filter(row => row.amountBaseUnits)) {
+    const cents = iifCents(row);
+    if (cents === 0n) continue;
+    const amount = formatAmount(cents, IIF_DECIMALS);
+    const date = iifDate(Date.parse(row.createdAt) / 1000);
+    const txHash = row.audit.royaltySubmitted?.txHash ?? row.audit.recordCreated?.txHash ?? "";
+    const memo = [row.nftId ? `NFT #${row.nftId} royalty` : "Royalty", `${row.amount} ${row.asset}`, row.status, row.period, txHash && `tx ${txHash}`]
+      .filter(Boolean)
+      .join("; ");
+    const entry = (type: string, account: string, amount: string) =>
+      [type, "", "GENERAL JOURNAL", date, `${account}:${row.asset}`, row.recipient, amount, row.id, memo].map(iifField);
+
+    lines.push(entry("TRNS", accounts.expense, amount));
+    lines.push(entry("SPL", accounts.payable, `-${amount}`));
+    lines.push(["ENDTRNS"]);
+  }
+  return lines.map(line => line.join("\t")).join("\r\n") + "\r\n";
+}
+
+export function exportFileName(chainId: number, format: ExportFormat): string {
+  return `royalty-distributions-${chainId}-${new Date().toISOString().substring(0, 10)}.${format}`;
+}
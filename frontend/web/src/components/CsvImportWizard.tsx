@@ -0,0 +1,492 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { formatAmount } from "@royalties/sdk";
+import { getContractWithSigner, getRoyaltyClientWithSigner } from "../contract";
+import { CsvDelimiter, detectDelimiter, parseCsv } from "../csv";
+import {
+  applyProfile,
+  columnLabels,
+  CSV_FIELD_LABELS,
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvField,
+  CsvMappingProfile,
+  deleteCsvProfile,
+  getCsvProfiles,
+  guessColumns,
+  missingFields,
+  profileMatches,
+  REQUIRED_CSV_FIELDS,
+  saveCsvProfile,
+  validateCsvRows
+} from "../csvImport";
+import { PreparedRecord, storeDistributionRecordsInBatches, submitDistributionRoyalty } from "../distributionWriter";
+import { findPayoutToken, loadPayoutTokens, NATIVE_PAYOUT, PayoutToken } from "../payoutTokens";
+
+interface CsvImportWizardProps {
+  chainId: number;
+  connected: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type WizardStep = "upload" | "map" | "review" | "done";
+
+interface RowResult {
+  record: PreparedRecord | null;
+  stored: boolean;
+  error: string | null;
+}
+
+const STEPS: { step: WizardStep; label: string }[] = [
+  { step: "upload", label: "Upload" },
+  { step: "map", label: "Map Columns" },
+  { step: "review", label: "Validate" },
+  { step: "done", label: "Create" }
+];
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab"
+};
+
+const describeError = (e: any) =>
+  ethers.isError(e, "ACTION_REJECTED") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error";
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+export default function CsvImportWizard({ chainId, connected, onClose, onImported }: CsvImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [text, setText] = useState("");
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ delimiter: ",", hasHeader: true, decimalSeparator: ".", columns: {} });
+  const [profiles, setProfiles] = useState<CsvMappingProfile[]>(getCsvProfiles());
+  const [profileName, setProfileName] = useState("");
+  const [profileMessage, setProfileMessage] = useState("");
+  const [tokens, setTokens] = useState<PayoutToken[]>([NATIVE_PAYOUT]);
+  const [tokenAddress, setTokenAddress] = useState(NATIVE_PAYOUT.address);
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [results, setResults] = useState<Map<number, RowResult> | null>(null);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState("");
+
+  const token = findPayoutToken(tokens, tokenAddress) ?? NATIVE_PAYOUT;
+
+  useEffect(() => {
+    loadPayoutTokens(chainId)
+      .then(setTokens)
+      .catch(e => console.error("Error loading payout tokens:", e));
+  }, [chainId]);
+
+  const rows = useMemo(() => parseCsv(text, mapping.delimiter), [text, mapping.delimiter]);
+  const labels = columnLabels(rows, mapping.hasHeader);
+  const sampleRow = rows[mapping.hasHeader ? 1 : 0] ?? [];
+  const missing = missingFields(mapping);
+
+  const validated = useMemo(
+    () => (step === "review" || step === "done" ? validateCsvRows(rows, mapping, token.decimals) : []),
+    [step, rows, mapping, token]
+  );
+  const validRows = validated.filter(row => row.errors.length === 0);
+  const invalidCount = validated.length - validRows.length;
+  const warningCount = validated.filter(row => row.warnings.length > 0).length;
+  const validTotal = validRows.reduce((sum, row) => sum + row.amount!, 0n);
+  const shownRows = onlyIssues ? validated.filter(row => row.errors.length > 0 || row.warnings.length > 0) : validated;
+  const canCreate = connected && validRows.length > 0 && (invalidCount === 0 || skipInvalid);
+  const hasUnstored = results ? [...results.values()].some(result => result.record && !result.stored) : false;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    const delimiter = detectDelimiter(content);
+    const headers = parseCsv(content, delimiter)[0] ?? [];
+    const profile = profiles.find(saved => profileMatches(saved, headers));
+
+    setFileName(file.name);
+    setText(content);
+    setResults(null);
+    if (profile) {
+      setMapping(applyProfile(profile, headers));
+      setProfileName(profile.name);
+      setProfileMessage(`Columns mapped with the saved "${profile.name}" profile`);
+    } else {
+      setMapping({
+        delimiter,
+        hasHeader: true,
+        // Semicolon-separated exports usually come from locales writing "1.234,56"
+        decimalSeparator: delimiter === ";" ? "," : ".",
+        columns: guessColumns(headers)
+      });
+      setProfileName("");
+      setProfileMessage("");
+    }
+    setStep("map");
+  };
+
+  const setColumn = (field: CsvField, value: string) => {
+    const columns = { ...mapping.columns };
+    if (value === "") {
+      delete columns[field];
+    } else {
+      columns[field] = Number(value);
+    }
+    setMapping({ ...mapping, columns });
+  };
+
+  const applySavedProfile = (name: string) => {
+    const profile = profiles.find(saved => saved.name === name);
+    if (!profile) return;
+    setMapping(applyProfile(profile, parseCsv(text, profile.delimiter)[0] ?? null));
+    setProfileName(profile.name);
+    setProfileMessage(`Applied the "${profile.name}" profile`);
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) {
+      setProfileMessage("Name the profile before saving it");
+      return;
+    }
+    if (missing.length > 0) {
+      setProfileMessage(`Map ${missing.map(field => CSV_FIELD_LABELS[field]).join(", ")} before saving`);
+      return;
+    }
+    saveCsvProfile(name, mapping, labels);
+    setProfiles(getCsvProfiles());
+    setProfileMessage(`Saved the "${name}" profile`);
+  };
+
+  const handleDeleteProfile = () => {
+    deleteCsvProfile(profileName.trim());
+    setProfiles(getCsvProfiles());
+    setProfileMessage(`Deleted the "${profileName.trim()}" profile`);
+    setProfileName("");
+  };
+
+  // Writes every submitted record not stored yet; results are flagged as their batch lands
+  const storePending = async (next: Map<number, RowResult>) => {
+    const pending = [...next.values()].filter(result => result.record && !result.stored);
+    const byRecord = new Map(pending.map(result => [result.record!, result]));
+    setStoreError(null);
+    try {
+      if (pending.length > 0) {
+        setProgress(`Storing ${pending.length} distribution record(s)...`);
+        await storeDistributionRecordsInBatches(await getContractWithSigner(), [...byRecord.keys()], (batch, storedCount) => {
+          batch.forEach(record => {
+            byRecord.get(record)!.stored = true;
+          });
+          setProgress(`Stored ${storedCount} of ${pending.length} distribution records...`);
+        });
+      }
+    } catch (e: any) {
+      console.error("Error storing imported distributions:", e);
+      setStoreError(describeError(e));
+    } finally {
+      setResults(new Map(next));
+    }
+  };
+
+  // Submits one royalty per valid row, then stores all records in as few transactions as possible
+  const runImport = async () => {
+    setRunning(true);
+    setStep("done");
+    const next = new Map<number, RowResult>();
+    try {
+      const royaltyClient = await getRoyaltyClientWithSigner();
+      const signerAddress = await (royaltyClient.contract.runner as ethers.Signer).getAddress();
+
+      let stopped: string | null = null;
+      for (const [index, row] of validRows.entries()) {
+        if (stopped) {
+          next.set(row.rowNumber, { record: null, stored: false, error: stopped });
+          continue;
+        }
+        setProgress(`Encrypting and submitting row ${row.rowNumber} (${index + 1} of ${validRows.length})...`);
+        try {
+          const record = await submitDistributionRoyalty(royaltyClient, signerAddress, {
+            recipient: row.recipient!,
+            nftId: row.nftId!,
+            amount: row.amount!,
+            token,
+            source: { format: "csv", fileName, row: row.rowNumber },
+            ...(row.period ? { period: row.period } : {})
+          });
+          next.set(row.rowNumber, { record, stored: false, error: null });
+        } catch (e: any) {
+          console.error(`Error submitting royalty for row ${row.rowNumber}:`, e);
+          next.set(row.rowNumber, { record: null, stored: false, error: describeError(e) });
+          // A rejection in the wallet means the user wants to stop, not to be asked again per row
+          if (ethers.isError(e, "ACTION_REJECTED")) {
+            stopped = "Not submitted: the import was cancelled in the wallet";
+          }
+        }
+      }
+    } catch (e: any) {
+      console.error("Error starting CSV import:", e);
+      validRows.filter(row => !next.has(row.rowNumber))
+        .forEach(row => next.set(row.rowNumber, { record: null, stored: false, error: describeError(e) }));
+    }
+
+    await storePending(next);
+    setRunning(false);
+    setProgress("");
+    onImported();
+  };
+
+  const retryStore = async () => {
+    if (!results) return;
+    setRunning(true);
+    await storePending(new Map([...results].map(([rowNumber, result]) => [rowNumber, { ...result }])));
+    setRunning(false);
+    setProgress("");
+    onImported();
+  };
+
+  const rowOutcome = (rowNumber: number): { status: string; detail: string } => {
+    const result = results?.get(rowNumber);
+    if (!result) return { status: "skipped", detail: "Not imported: the row did not validate" };
+    if (result.error) return { status: "failed", detail: result.error };
+    if (!result.stored) {
+      return { status: "failed", detail: `Royalty submitted but the record is not stored${storeError ? `: ${storeError}` : ""}` };
+    }
+    return { status: "created", detail: result.record!.id };
+  };
+  const createdCount = results ? [...results.values()].filter(result => result.stored).length : 0;
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal csv-import-modal nature-card">
+        <div className="modal-header">
+          <h2>Import Revenue Statement</h2>
+          <button onClick={onClose} className="close-modal" disabled={running}>×</button>
+        </div>
+
+        <div className="modal-body">
+          <ol className="csv-import-steps">
+            {STEPS.map(({ step: value, label }) => (
+              <li key={value} className={value === step ? "active" : ""}>{label}</li>
+            ))}
+          </ol>
+
+          {step === "upload" && (
+            <div className="form-group">
+              <label>CSV statement</label>
+              <input type="file" accept=".csv,.tsv,.txt" onChange={handleFile} className="nature-input" />
+              <p className="csv-import-hint">
+                Any column layout works: you map the columns in the next step and can save the mapping for the sender's next statement.
+              </p>
+            </div>
+          )}
+
+          {step === "map" && (
+            <>
+              <div className="split-template-bar">
+                <select
+                  value=""
+                  onChange={e => applySavedProfile(e.target.value)}
+                  className="nature-input"
+                  disabled={profiles.length === 0}
+                >
+                  <option value="">{profiles.length === 0 ? "No saved profiles" : "Apply a saved profile..."}</option>
+                  {profiles.map(profile => (
+                    <option key={profile.name} value={profile.name}>{profile.name}</option>
+                  ))}
+                </select>
+                <div className="split-sheet-actions">
+                  <input
+                    type="text"
+                    value={profileName}
+                    onChange={e => setProfileName(e.target.value)}
+                    placeholder="Profile name"
+                    className="nature-input"
+                  />
+                  <button onClick={handleSaveProfile} className="nature-button small">Save Profile</button>
+                  {profiles.some(profile => profile.name === profileName.trim()) && (
+                    <button onClick={handleDeleteProfile} className="nature-button small">Delete</button>
+                  )}
+                </div>
+              </div>
+              {profileMessage && <p className="csv-import-hint">{profileMessage}</p>}
+
+              <div className="form-grid">
+                <div className="form-group">
+                  <label>Delimiter</label>
+                  <select
+                    value={mapping.delimiter}
+                    onChange={e => setMapping({ ...mapping, delimiter: e.target.value as CsvDelimiter })}
+                    className="nature-input"
+                  >
+                    {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>Decimal separator</label>
+                  <select
+                    value={mapping.decimalSeparator}
+                    onChange={e => setMapping({ ...mapping, decimalSeparator: e.target.value as "." | "," })}
+                    className="nature-input"
+                  >
+                    <option value=".">Point (1,234.56)</option>
+                    <option value=",">Comma (1.234,56)</option>
+                  </select>
+                </div>
+                <label className="csv-import-checkbox full-width">
+                  <input
+                    type="checkbox"
+                    checked={mapping.hasHeader}
+                    onChange={e => setMapping({ ...mapping, hasHeader: e.target.checked })}
+                  />
+                  First row holds column names
+                </label>
+              </div>
+
+              <div className="csv-import-table">
+                <div className="csv-import-row header mapping">
+                  <span>Field</span>
+                  <span>Column</span>
+                  <span>First value</span>
+                </div>
+                {CSV_FIELDS.map(field => {
+                  const column = mapping.columns[field];
+                  return (
+                    <div className="csv-import-row mapping" key={field}>
+                      <span>{CSV_FIELD_LABELS[field]}{REQUIRED_CSV_FIELDS.includes(field) ? " *" : ""}</span>
+                      <select
+                        value={column ?? ""}
+                        onChange={e => setColumn(field, e.target.value)}
+                        className="nature-input"
+                      >
+                        <option value="">Not mapped</option>
+                        {labels.map((label, index) => (
+                          <option key={index} value={index}>{label}</option>
+                        ))}
+                      </select>
+                      <span className="csv-import-sample">{column === undefined ? "-" : sampleRow[column] || "(empty)"}</span>
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="csv-import-hint">
+                {rows.length - (mapping.hasHeader ? 1 : 0)} data rows in {fileName}
+              </p>
+            </>
+          )}
+
+          {(step === "review" || step === "done") && (
+            <>
+              {step === "review" && (
+                <div className="form-grid">
+                  <div className="form-group">
+                    <label>Payout Token</label>
+                    <select value={token.address} onChange={e => setTokenAddress(e.target.value)} className="nature-input">
+                      {tokens.map(t => (
+                        <option key={t.address} value={t.address}>{t.symbol}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="csv-import-summary">
+                    <span>{validRows.length} valid · {invalidCount} invalid · {warningCount} with warnings</span>
+                    <span>Total {formatAmount(validTotal, token.decimals, { maxFractionDigits: 6, grouping: true })} {token.symbol}</span>
+                  </div>
+                </div>
+              )}
+
+              {step === "done" && !running && (
+                <p className="csv-import-summary">
+                  {createdCount} of {validRows.length} distributions created from {fileName}
+                </p>
+              )}
+
+              <label className="csv-import-checkbox">
+                <input type="checkbox" checked={onlyIssues} onChange={e => setOnlyIssues(e.target.checked)} />
+                Show only rows with issues
+              </label>
+
+              <div className="csv-import-table csv-import-rows">
+                <div className="csv-import-row header rows">
+                  <span>Row</span>
+                  <span>NFT</span>
+                  <span>Recipient</span>
+                  <span>Amount</span>
+                  <span>Period</span>
+                  <span>{step === "done" ? "Result" : "Issues"}</span>
+                </div>
+                {shownRows.map(row => {
+                  const outcome = step === "done" && !running ? rowOutcome(row.rowNumber) : null;
+                  return (
+                    <div className={`csv-import-row rows ${row.errors.length > 0 ? "invalid" : ""}`} key={row.rowNumber}>
+                      <span>{row.rowNumber}</span>
+                      <span>{row.nftId !== null ? `#${row.nftId}` : "-"}</span>
+                      <span>{row.recipient ? shortAddress(row.recipient) : "-"}</span>
+                      <span>{row.amount !== null ? `${formatAmount(row.amount, token.decimals)} ${token.symbol}` : "-"}</span>
+                      <span>{row.period ?? "-"}</span>
+                      {outcome ? (
+                        <span className={`dsr-line-status ${outcome.status}`} title={outcome.detail}>
+                          {outcome.status} <span className="csv-import-detail">{outcome.detail}</span>
+                        </span>
+                      ) : (
+                        <span className="csv-import-issues">
+                          {row.errors.map(error => <span key={error} className="error">{error}</span>)}
+                          {row.warnings.map(warning => <span key={warning} className="warning">{warning}</span>)}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {step === "review" && invalidCount > 0 && (
+                <label className="csv-import-checkbox">
+                  <input type="checkbox" checked={skipInvalid} onChange={e => setSkipInvalid(e.target.checked)} />
+                  Skip the {invalidCount} invalid row(s) and import the rest
+                </label>
+              )}
+            </>
+          )}
+
+          {progress && <p className="dsr-import-progress">{progress}</p>}
+          {!connected && step === "review" && <p className="dsr-import-error">Connect a wallet to create distributions</p>}
+        </div>
+
+        <div className="modal-footer">
+          {step === "map" && (
+            <button onClick={() => setStep("upload")} className="nature-button">Back</button>
+          )}
+          {step === "review" && (
+            <button onClick={() => setStep("map")} className="nature-button">Back</button>
+          )}
+          <button onClick={onClose} className="cancel-btn nature-button" disabled={running}>
+            {step === "done" ? "Close" : "Cancel"}
+          </button>
+          {step === "map" && (
+            <button
+              onClick={() => setStep("review")}
+              disabled={missing.length > 0}
+              title={missing.length > 0 ? `Map ${missing.map(field => CSV_FIELD_LABELS[field]).join(", ")}` : undefined}
+              className="submit-btn nature-button primary"
+            >
+              Validate Rows
+            </button>
+          )}
+          {step === "review" && (
+            <button onClick={runImport} disabled={!canCreate} className="submit-btn nature-button primary">
+              Create {validRows.length} Distribution{validRows.length === 1 ? "" : "s"}
+            </button>
+          )}
+          {step === "done" && hasUnstored && (
+            <button onClick={retryStore} disabled={running || !connected} className="submit-btn nature-button primary">
+              {running ? "Storing..." : "Retry Storing Records"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
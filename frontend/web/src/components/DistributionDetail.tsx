@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { formatAmount } from "@royalties/sdk";
+import { assetSymbol, canRequestDistribution, importSourceTitle, RevealedShare, RoyaltyDistribution } from "../distributions";
+import { getDeployment } from "../networks";
+import { splitLabel } from "../splitSheets";
+
+interface DistributionDetailProps {
+  chainId: number;
+  distributions: RoyaltyDistribution[];
+  refreshing: boolean;
+  revealedShares: Record<string, RevealedShare>;
+  onExecute: (distributionId: string) => void;
+  onReveal: (dist: RoyaltyDistribution) => void;
+  onClaim: (dist: RoyaltyDistribution) => void;
+}
+
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export default function DistributionDetail({ chainId, distributions, refreshing, revealedShares, onExecute, onReveal, onClaim }: DistributionDetailProps) {
+  const { id = "" } = useParams();
+  const [explorerUrl, setExplorerUrl] = useState("");
+
+  useEffect(() => {
+    getDeployment(chainId)
+      .then(deployment => setExplorerUrl(deployment?.explorerUrl ?? ""))
+      .catch(e => console.error("Error loading explorer URL:", e));
+  }, [chainId]);
+
+  const dist = distributions.find(d => d.id === id);
+  if (!dist) {
+    return (
+      <div className="detail-page">
+        <Link to="/" className="detail-back">← All distributions</Link>
+        <p className="detail-empty">{refreshing ? "Loading distribution..." : `Distribution "${id}" was not found on this network`}</p>
+      </div>
+    );
+  }
+
+  if (dist.status === "corrupt") {
+    return (
+      <div className="detail-page">
+        <Link to="/" className="detail-back">← All distributions</Link>
+        <h2>Distribution {dist.id}</h2>
+        <dl className="detail-fields dashboard-card nature-card">
+          <dt>Status</dt>
+          <dd><span className="status-badge corrupt">corrupt</span></dd>
+          <dt>Problem</dt>
+          <dd>{dist.corruptReason}</dd>
+          <dt>Stored value</dt>
+          <dd className="detail-mono">{dist.encryptedData}</dd>
+        </dl>
+      </div>
+    );
+  }
+
+  // Other payees created from the same split sheet
+  const siblings = dist.split
+    ? distributions.filter(d => d.id !== dist.id && d.split?.sheetId === dist.split?.sheetId)
+    : [];
+  const revealed = revealedShares[dist.id];
+  const submissionTx = TX_HASH_PATTERN.test(dist.encryptedData) ? dist.encryptedData : null;
+
+  return (
+    <div className="detail-page">
+      <Link to="/" className="detail-back">← All distributions</Link>
+      <div className="section-header">
+        <h2>Distribution {dist.id}</h2>
+        <div className="header-actions">
+          {canRequestDistribution(dist) && (
+            <button className="action-btn nature-button success" onClick={() => onExecute(dist.id)}>
+              Execute
+            </button>
+          )}
+          {dist.royaltyId && !revealed && (
+            <button className="action-btn nature-button outline" onClick={() => onReveal(dist)}>
+              Reveal My Share
+            </button>
+          )}
+          {revealed && !revealed.payout.isPaid && dist.onChainStatus === "distributed" && (
+            <button
+              className="action-btn nature-button success"
+              onClick={() => onClaim(dist)}
+              disabled={revealed.payout.isPending}
+            >
+              {revealed.payout.isPending ? "Payout Pending" : "Claim Payout"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <dl className="detail-fields dashboard-card nature-card">
+        <dt>Status</dt>
+        <dd>
+          <span className={`status-badge ${dist.status}`}>{dist.status}</span>
+          {dist.status === "pending" && dist.onChainStatus === "requested" && (
+            <span className="chain-progress">decrypting…</span>
+          )}
+        </dd>
+        <dt>NFT</dt>
+        <dd>
+          {dist.nftId !== undefined ? (
+            <Link to={`/nft/${dist.nftId}`}>#{dist.nftId}</Link>
+          ) : dist.legacyNftId !== undefined ? (
+            <span className="legacy-nft">"{dist.legacyNftId}" (legacy reference, not linked to a token ID)</span>
+          ) : (
+            <span className="encrypted-value">🔒 encrypted until the royalty is distributed</span>
+          )}
+        </dd>
+        <dt>Recipient</dt>
+        <dd className="detail-mono">
+          {dist.recipient !== undefined
+            ? <Link to={`/recipient/${dist.recipient}`}>{dist.recipient}</Link>
+            : <span className="encrypted-value">🔒 encrypted, visible to the recipient only</span>}
+        </dd>
+        <dt>Amount</dt>
+        <dd>
+          {dist.amount !== undefined
+            ? `${formatAmount(dist.amount, dist.decimals)} ${assetSymbol(dist)}`
+            : <span className="encrypted-value">🔒 encrypted {assetSymbol(dist)}, visible to the recipient only</span>}
+          {dist.published && (
+            <span className="published-badge" title="Stored in cleartext by an older release">public</span>
+          )}
+        </dd>
+        {dist.payoutToken && (
+          <>
+            <dt>Token</dt>
+            <dd className="detail-mono">{dist.payoutToken.address}</dd>
+          </>
+        )}
+        <dt>Created</dt>
+        <dd>{new Date(dist.timestamp * 1000).toLocaleString()}</dd>
+        {dist.period && (
+          <>
+            <dt>Period</dt>
+            <dd>{dist.period}</dd>
+          </>
+        )}
+        {dist.source && (
+          <>
+            <dt>Imported from</dt>
+            <dd>{importSourceTitle(dist)}</dd>
+          </>
+        )}
+        {dist.royaltyId && (
+          <>
+            <dt>Royalty ID</dt>
+            <dd>{dist.royaltyId}</dd>
+          </>
+        )}
+        {submissionTx && (
+          <>
+            <dt>Submission</dt>
+            <dd className="detail-mono">
+              {explorerUrl
+                ? <a href={`${explorerUrl}/tx/${submissionTx}`} target="_blank" rel="noreferrer">{submissionTx}</a>
+                : submissionTx}
+            </dd>
+          </>
+        )}
+        {dist.split && (
+          <>
+            <dt>Split</dt>
+            <dd>{splitLabel(dist.split)}</dd>
+          </>
+        )}
+        {revealed && (
+          <>
+            <dt>Your share</dt>
+            <dd>
+              <span className="revealed-share">{revealed.shareBps / 100}%</span>{" "}
+              {formatAmount(revealed.amount, dist.decimals)} {assetSymbol(dist)}
+              {revealed.payout.isPaid && <span className="chain-progress">paid out</span>}
+            </dd>
+          </>
+        )}
+      </dl>
+
+      {siblings.length > 0 && (
+        <div className="dashboard-card nature-card">
+          <h3>Other payees on this split sheet</h3>
+          <ul className="detail-siblings">
+            {siblings.map(sibling => (
+              <li key={sibling.id}>
+                <Link to={`/distribution/${encodeURIComponent(sibling.id)}`}>
+                  {sibling.split && splitLabel(sibling.split)}
+                </Link>
+                <span>
+                  {sibling.amount !== undefined ? formatAmount(sibling.amount, sibling.decimals) : "🔒"} {assetSymbol(sibling)}
+                </span>
+                <span className={`status-badge ${sibling.status}`}>{sibling.status}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import React from "react";
+import { DistributionFilters, StatusFilter } from "../distributionFilters";
+
+interface DistributionFilterBarProps {
+  filters: DistributionFilters;
+  onChange: (changes: Partial<DistributionFilters>) => void;
+  searchPlaceholder?: string;
+}
+
+export default function DistributionFilterBar({ filters, onChange, searchPlaceholder = "Search NFT ID or recipient..." }: DistributionFilterBarProps) {
+  return (
+    <div className="search-filter">
+      <input
+        type="text"
+        placeholder={searchPlaceholder}
+        value={filters.search}
+        onChange={(e) => onChange({ search: e.target.value })}
+        className="search-input"
+      />
+      <select
+        value={filters.status}
+        onChange={(e) => onChange({ status: e.target.value as StatusFilter })}
+        className="filter-select"
+      >
+        <option value="all">All Status</option>
+        <option value="pending">Pending</option>
+        <option value="distributed">Distributed</option>
+        <option value="failed">Failed</option>
+        <option value="corrupt">Corrupt</option>
+      </select>
+    </div>
+  );
+}
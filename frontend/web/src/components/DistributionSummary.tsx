@@ -0,0 +1,43 @@
+import React from "react";
+import { formatAmount } from "@royalties/sdk";
+import { RoyaltyDistribution, totalsByAsset } from "../distributions";
+
+interface DistributionSummaryProps {
+  distributions: RoyaltyDistribution[];
+}
+
+export default function DistributionSummary({ distributions }: DistributionSummaryProps) {
+  const count = (status: RoyaltyDistribution["status"]) => distributions.filter(d => d.status === status).length;
+  const encrypted = distributions.filter(d => d.status !== "corrupt" && d.amount === undefined).length;
+
+  return (
+    <div className="stats-grid detail-stats">
+      <div className="stat-item">
+        <div className="stat-value">{distributions.length}</div>
+        <div className="stat-label">Distributions</div>
+      </div>
+      <div className="stat-item">
+        <div className="stat-value">{count("distributed")}</div>
+        <div className="stat-label">Distributed</div>
+      </div>
+      <div className="stat-item">
+        <div className="stat-value">{count("pending")}</div>
+        <div className="stat-label">Pending</div>
+      </div>
+      {[...totalsByAsset(distributions)].map(([symbol, total]) => (
+        <div className="stat-item" key={symbol}>
+          <div className="stat-value">
+            {formatAmount(total.amount, total.decimals, { maxFractionDigits: 4, grouping: true })}
+          </div>
+          <div className="stat-label">Total {symbol}</div>
+        </div>
+      ))}
+      {encrypted > 0 && (
+        <div className="stat-item" title="Only their holders can decrypt these amounts, so totals leave them out">
+          <div className="stat-value">🔒 {encrypted}</div>
+          <div className="stat-label">Encrypted amounts</div>
+        </div>
+      )}
+    </div>
+  );
+}
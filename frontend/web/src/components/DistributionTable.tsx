@@ -0,0 +1,127 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { formatAmount } from "@royalties/sdk";
+import { assetSymbol, canRequestDistribution, importSourceTitle, RevealedShare, RoyaltyDistribution } from "../distributions";
+import { splitLabel } from "../splitSheets";
+
+interface DistributionTableProps {
+  distributions: RoyaltyDistribution[];
+  revealedShares: Record<string, RevealedShare>;
+  onExecute: (distributionId: string) => void;
+  onReveal: (dist: RoyaltyDistribution) => void;
+  // Shown in place of the rows when the list is empty
+  empty: React.ReactNode;
+}
+
+export default function DistributionTable({ distributions, revealedShares, onExecute, onReveal, empty }: DistributionTableProps) {
+  return (
+    <div className="distributions-list nature-card">
+      <div className="table-header">
+        <div className="header-cell">NFT ID</div>
+        <div className="header-cell">Amount</div>
+        <div className="header-cell">Recipient</div>
+        <div className="header-cell">Date</div>
+        <div className="header-cell">Status</div>
+        <div className="header-cell">Actions</div>
+      </div>
+
+      {distributions.length === 0 ? (
+        <div className="no-distributions">{empty}</div>
+      ) : (
+        distributions.map(dist => dist.status === "corrupt" ? (
+          <div className="distribution-row corrupt" key={dist.id}>
+            <div className="table-cell nft-id" title={dist.id}>
+              <Link to={`/distribution/${encodeURIComponent(dist.id)}`}>{dist.id.substring(0, 16)}</Link>
+            </div>
+            {/* Spans the Amount, Recipient and Date columns, so the row still fills all six */}
+            <div className="table-cell corrupt-reason" title={dist.encryptedData}>
+              {dist.corruptReason}
+            </div>
+            <div className="table-cell">
+              <span className="status-badge corrupt">corrupt</span>
+            </div>
+            <div className="table-cell actions"></div>
+          </div>
+        ) : (
+          <div className={`distribution-row ${dist.syncState ?? ""}`} key={dist.id}>
+            <div className="table-cell nft-id">
+              {dist.nftId !== undefined ? (
+                <Link to={`/nft/${dist.nftId}`}>#{dist.nftId.substring(0, 8)}</Link>
+              ) : dist.legacyNftId !== undefined ? (
+                <span className="legacy-nft" title="Legacy record not linked to a token ID">{dist.legacyNftId.substring(0, 8)}</span>
+              ) : (
+                <span className="encrypted-value" title="Public once the royalty is distributed">🔒</span>
+              )}
+              {dist.source && (
+                <span className="import-source" title={importSourceTitle(dist)}>
+                  {dist.source.format === "ddex-dsr" ? dist.source.isrc : `row ${dist.source.row}`}
+                </span>
+              )}
+            </div>
+            <div className="table-cell amount">
+              {dist.amount !== undefined
+                ? `${formatAmount(dist.amount, dist.decimals)} ${assetSymbol(dist)}`
+                : <span className="encrypted-value" title="Only the recipient can decrypt the amount">🔒 {assetSymbol(dist)}</span>}
+              {dist.published && (
+                <span className="published-badge" title="Stored in cleartext by an older release">public</span>
+              )}
+            </div>
+            <div className="table-cell recipient">
+              {dist.recipient !== undefined ? (
+                <Link to={`/recipient/${dist.recipient}`}>
+                  {dist.recipient.substring(0, 6)}...{dist.recipient.substring(38)}
+                </Link>
+              ) : (
+                <span className="encrypted-value" title="Only the recipient can decrypt it">🔒 encrypted</span>
+              )}
+              {dist.split && <span className="split-role">{splitLabel(dist.split)}</span>}
+            </div>
+            <div className="table-cell">
+              <Link to={`/distribution/${encodeURIComponent(dist.id)}`} title="Distribution details">
+                {new Date(dist.timestamp * 1000).toLocaleDateString()}
+              </Link>
+            </div>
+            <div className="table-cell">
+              <span className={`status-badge ${dist.status}`}>
+                {dist.status}
+              </span>
+              {dist.status === "pending" && dist.onChainStatus === "requested" && (
+                <span className="chain-progress">decrypting…</span>
+              )}
+              {dist.syncState && (
+                <span
+                  className={`sync-state ${dist.syncState}`}
+                  title={dist.syncState === "stale" ? "Cached copy, revalidating" : "Confirmed on-chain"}
+                >
+                  {dist.syncState === "stale" ? "cached" : "✓"}
+                </span>
+              )}
+            </div>
+            <div className="table-cell actions">
+              {canRequestDistribution(dist) && (
+                <button
+                  className="action-btn nature-button success"
+                  onClick={() => onExecute(dist.id)}
+                >
+                  Execute
+                </button>
+              )}
+              {dist.royaltyId && (revealedShares[dist.id] ? (
+                <span className="revealed-share">
+                  {revealedShares[dist.id].shareBps / 100}%
+                </span>
+              ) : (
+                <button
+                  className="action-btn nature-button outline"
+                  onClick={() => onReveal(dist)}
+                >
+                  Reveal My Share
+                </button>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ethers } from "ethers";
+import { formatAmount } from "@royalties/sdk";
+import { getContractWithSigner, getRoyaltyClientWithSigner } from "../contract";
+import { newSplitSheetId, storeDistributionRecordsInBatches, submitDistributionRoyalty } from "../distributionWriter";
+import {
+  aggregateByIsrc,
+  DsrReport,
+  getIsrcMappings,
+  ImportedDistribution,
+  ImportPlan,
+  LineStatus,
+  parseDsr,
+  parseRate,
+  planDsrImport,
+  reconcileImport,
+  reconciliationCsv,
+  REVENUE_DECIMALS,
+  saveIsrcMappings
+} from "../dsrImport";
+import { parseNftId } from "../fhevm";
+import { findPayoutToken, loadPayoutTokens, NATIVE_PAYOUT, PayoutToken } from "../payoutTokens";
+import { getSplitTemplate } from "../splitSheets";
+
+interface DsrImportProps {
+  chainId: number;
+  connected: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const SHOWN_ISSUES = 20;
+
+const STATUS_LABELS: Record<LineStatus, string> = {
+  planned: "Planned",
+  created: "Created",
+  failed: "Failed",
+  unmapped: "Unmapped",
+  "no-split": "No split sheet",
+  skipped: "Skipped"
+};
+
+const validNftId = (value: string): string | null => {
+  if (!value.trim()) return null;
+  try {
+    return parseNftId(value).toString();
+  } catch {
+    return null;
+  }
+};
+
+const describeError = (e: any) =>
+  ethers.isError(e, "ACTION_REJECTED") ? "Transaction rejected by user" : e.shortMessage || e.message || "Unknown error";
+
+const formatRevenue = (value: bigint) => formatAmount(value, REVENUE_DECIMALS, { maxFractionDigits: 4, grouping: true });
+
+export default function DsrImport({ chainId, connected, onClose, onImported }: DsrImportProps) {
+  const [fileName, setFileName] = useState("");
+  const [report, setReport] = useState<DsrReport | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mappings, setMappings] = useState<Record<string, string>>({});
+  const [tokens, setTokens] = useState<PayoutToken[]>([NATIVE_PAYOUT]);
+  const [tokenAddress, setTokenAddress] = useState(NATIVE_PAYOUT.address);
+  const [rateText, setRateText] = useState("1");
+  const [results, setResults] = useState<ImportedDistribution[] | null>(null);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState("");
+
+  const token = findPayoutToken(tokens, tokenAddress) ?? NATIVE_PAYOUT;
+  const locked = running || results !== null;
+
+  useEffect(() => {
+    loadPayoutTokens(chainId)
+      .then(setTokens)
+      .catch(e => console.error("Error loading payout tokens:", e));
+  }, [chainId]);
+
+  const isrcTotals = useMemo(() => (report ? aggregateByIsrc(report) : []), [report]);
+
+  let rate: bigint | null = null;
+  let rateError: string | null = null;
+  try {
+    rate = parseRate(rateText);
+  } catch (e: any) {
+    rateError = e.message;
+  }
+
+  const plan: ImportPlan | null = useMemo(() => {
+    if (!report || rate === null) return null;
+    const valid: Record<string, string> = {};
+    for (const [isrc, value] of Object.entries(mappings)) {
+      const nftId = validNftId(value);
+      if (nftId) valid[isrc] = nftId;
+    }
+    return planDsrImport(chainId, report, valid, token.decimals, rate);
+  }, [chainId, report, mappings, token, rate]);
+
+  const lines = plan ? (results ? reconcileImport(plan, results, storeError) : plan.lines) : [];
+  const statusCounts = lines.reduce<Partial<Record<LineStatus, number>>>((counts, line) => {
+    counts[line.status] = (counts[line.status] ?? 0) + 1;
+    return counts;
+  }, {});
+  const payeeCount = plan?.distributions.reduce((sum, planned) => sum + planned.payees.length, 0) ?? 0;
+  const hasUnstored = results?.some(result => result.records.some(entry => !entry.stored)) ?? false;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setResults(null);
+    setStoreError(null);
+    try {
+      const parsed = parseDsr(await file.text());
+      const saved = getIsrcMappings(chainId);
+      setMappings(Object.fromEntries(aggregateByIsrc(parsed).map(total => [total.isrc, saved[total.isrc] ?? ""])));
+      setReport(parsed);
+      setParseError(null);
+    } catch (err: any) {
+      setReport(null);
+      setParseError(err.message);
+    }
+  };
+
+  const updateMapping = (isrc: string, value: string) => {
+    setMappings(prev => ({ ...prev, [isrc]: value }));
+    const saved = getIsrcMappings(chainId);
+    const nftId = validNftId(value);
+    if (nftId) {
+      saved[isrc] = nftId;
+    } else {
+      delete saved[isrc];
+    }
+    saveIsrcMappings(chainId, saved);
+  };
+
+  // Writes every submitted record not stored yet; entries are flagged as their batch lands
+  const storePending = async (imported: ImportedDistribution[]) => {
+    const pending = imported.flatMap(result => result.records.filter(entry => !entry.stored));
+    const entries = new Map(pending.map(entry => [entry.record, entry]));
+    setStoreError(null);
+    try {
+      if (pending.length > 0) {
+        setProgress(`Storing ${pending.length} distribution record(s)...`);
+        await storeDistributionRecordsInBatches(await getContractWithSigner(), [...entries.keys()], (batch, storedCount) => {
+          batch.forEach(record => {
+            entries.get(record)!.stored = true;
+          });
+          setProgress(`Stored ${storedCount} of ${pending.length} distribution records...`);
+        });
+      }
+    } catch (e: any) {
+      console.error("Error storing imported distributions:", e);
+      setStoreError(describeError(e));
+    } finally {
+      setResults(imported.map(result => ({ ...result, records: [...result.records] })));
+    }
+  };
+
+  // Submits every payee's royalty first, then stores all records in as few transactions as possible
+  const runImport = async () => {
+    if (!report || !plan || plan.distributions.length === 0) return;
+
+    setRunning(true);
+    const imported: ImportedDistribution[] = [];
+    try {
+      const royaltyClient = await getRoyaltyClientWithSigner();
+      const signerAddress = await (royaltyClient.contract.runner as ethers.Signer).getAddress();
+
+      let stopped: string | null = null;
+      for (const [index, planned] of plan.distributions.entries()) {
+        const result: ImportedDistribution = { records: [], error: stopped };
+        imported.push(result);
+        if (stopped) continue;
+
+        const sheetId = newSplitSheetId();
+        try {
+          for (const [payeeIndex, payee] of planned.payees.entries()) {
+            setProgress(
+              `Encrypting and submitting ${planned.isrc} for NFT #${planned.nftId}, payee ${payeeIndex + 1} of ${planned.payees.length} ` +
+              `(distribution ${index + 1} of ${plan.distributions.length})...`
+            );
+            const record = await submitDistributionRoyalty(royaltyClient, signerAddress, {
+              recipient: payee.recipient,
+              nftId: parseNftId(planned.nftId),
+              amount: planned.amounts[payeeIndex],
+              token,
+              split: { sheetId, role: payee.role, shareBps: payee.shareBps },
+              source: { format: "ddex-dsr", messageId: report.header.messageId, isrc: planned.isrc }
+            });
+            result.records.push({ record, stored: false });
+          }
+        } catch (e: any) {
+          console.error(`Error submitting royalties for ${planned.isrc}:`, e);
+          result.error = describeError(e);
+          // A rejection in the wallet means the user wants to stop, not to be asked again per ISRC
+          if (ethers.isError(e, "ACTION_REJECTED")) {
+            stopped = "Not submitted: the import was cancelled in the wallet";
+          }
+        }
+      }
+    } catch (e: any) {
+      console.error("Error starting DSR import:", e);
+      plan.distributions.slice(imported.length).forEach(() => imported.push({ records: [], error: describeError(e) }));
+    }
+
+    await storePending(imported);
+    setRunning(false);
+    setProgress("");
+    onImported();
+  };
+
+  const retryStore = async () => {
+    if (!results) return;
+    setRunning(true);
+    await storePending(results.map(result => ({ ...result, records: result.records.map(entry => ({ ...entry })) })));
+    setRunning(false);
+    setProgress("");
+    onImported();
+  };
+
+  const downloadReport = () => {
+    const url = URL.createObjectURL(new Blob([reconciliationCsv(lines)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${report?.header.messageId || "dsr"}-reconciliation.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal dsr-import-modal nature-card">
+        <div className="modal-header">
+          <h2>Import DSR Sales Report</h2>
+          <button onClick={onClose} className="close-modal" disabled={running}>×</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="form-group">
+            <label>DDEX DSR flat file</label>
+            <input type="file" accept=".tsv,.txt,.dsr" onChange={handleFile} className="nature-input" disabled={locked} />
+          </div>
+          {parseError && <p className="dsr-import-error">{fileName}: {parseError}</p>}
+
+          {report && (
+            <>
+              <div className="dsr-import-summary">
+                <span><strong>{report.header.senderName || "Unknown sender"}</strong> · {report.header.messageId || "no message id"}</span>
+                <span>{report.header.usageStartDate} – {report.header.usageEndDate}</span>
+                <span>{report.salesLines.length} sales lines · {isrcTotals.length} ISRCs · {report.currency ?? "no currency"}</span>
+              </div>
+
+              {report.issues.length > 0 && (
+                <details className="dsr-import-issues">
+                  <summary>{report.issues.length} line(s) could not be read fully</summary>
+                  <ul>
+                    {report.issues.slice(0, SHOWN_ISSUES).map(issue => (
+                      <li key={`${issue.lineNumber}-${issue.message}`}>Line {issue.lineNumber}: {issue.message}</li>
+                    ))}
+                    {report.issues.length > SHOWN_ISSUES && <li>…and {report.issues.length - SHOWN_ISSUES} more</li>}
+                  </ul>
+                </details>
+              )}
+
+              <h3 className="dsr-import-heading">ISRC to NFT mapping</h3>
+              <div className="dsr-import-table">
+                <div className="dsr-import-row header mapping">
+                  <span>ISRC</span>
+                  <span>Title</span>
+                  <span>Revenue ({report.currency ?? "-"})</span>
+                  <span>NFT ID</span>
+                  <span>Split sheet</span>
+                </div>
+                {isrcTotals.map(total => {
+                  const value = mappings[total.isrc] ?? "";
+                  const nftId = validNftId(value);
+                  const template = nftId ? getSplitTemplate(chainId, nftId) : null;
+                  return (
+                    <div className="dsr-import-row mapping" key={total.isrc}>
+                      <span className="dsr-import-isrc">{total.isrc}</span>
+                      <span>{total.title ?? "-"}</span>
+                      <span>{formatRevenue(total.revenue)}</span>
+                      <input
+                        type="number"
+                        value={value}
+                        onChange={e => updateMapping(total.isrc, e.target.value)}
+                        placeholder="Token ID"
+                        className={`nature-input ${value && !nftId ? "invalid" : ""}`}
+                        disabled={locked}
+                      />
+                      <span className={template ? "" : "dsr-import-missing"}>
+                        {!nftId ? "-" : template ? `${template.payees.length} payee(s)` : "None saved"}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="form-grid dsr-import-conversion">
+                <div className="form-group">
+                  <label>Payout Token</label>
+                  <select value={token.address} onChange={e => setTokenAddress(e.target.value)} className="nature-input" disabled={locked}>
+                    {tokens.map(t => (
+                      <option key={t.address} value={t.address}>{t.symbol}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>{token.symbol} per 1 {report.currency ?? "unit"}</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={rateText}
+                    onChange={e => setRateText(e.target.value)}
+                    className="nature-input"
+                    disabled={locked}
+                  />
+                </div>
+              </div>
+              {rateError && <p className="dsr-import-error">{rateError}</p>}
+
+              {plan && plan.distributions.length > 0 && (
+                <>
+                  <h3 className="dsr-import-heading">Preview</h3>
+                  <div className="dsr-import-table">
+                    <div className="dsr-import-row header preview">
+                      <span>NFT</span>
+                      <span>ISRC</span>
+                      <span>Amount</span>
+                      <span>Payees</span>
+                    </div>
+                    {plan.distributions.map(planned => (
+                      <div className="dsr-import-row preview" key={planned.isrc}>
+                        <span>#{planned.nftId}</span>
+                        <span className="dsr-import-isrc">{planned.isrc}</span>
+                        <span>{formatAmount(planned.amount, token.decimals, { maxFractionDigits: 6, grouping: true })} {token.symbol}</span>
+                        <span>{planned.payees.length}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {plan && (
+                <>
+                  <h3 className="dsr-import-heading">Reconciliation</h3>
+                  <div className="dsr-import-counts">
+                    {(Object.keys(STATUS_LABELS) as LineStatus[]).filter(status => statusCounts[status]).map(status => (
+                      <span key={status} className={`dsr-line-status ${status}`}>
+                        {STATUS_LABELS[status]}: {statusCounts[status]}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="dsr-import-table dsr-import-lines">
+                    <div className="dsr-import-row header lines">
+                      <span>Line</span>
+                      <span>ISRC</span>
+                      <span>Revenue</span>
+                      <span>Status</span>
+                      <span>Detail</span>
+                    </div>
+                    {lines.map(line => (
+                      <div className="dsr-import-row lines" key={line.lineNumber}>
+                        <span>{line.lineNumber}</span>
+                        <span className="dsr-import-isrc">{line.isrc ?? "-"}</span>
+                        <span>{line.revenueText || "-"}</span>
+                        <span className={`dsr-line-status ${line.status}`}>{STATUS_LABELS[line.status]}</span>
+                        <span className="dsr-import-detail" title={line.distributionIds.join("\n")}>{line.detail}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          {progress && <p className="dsr-import-progress">{progress}</p>}
+          {!connected && report && <p className="dsr-import-error">Connect a wallet to create distributions</p>}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn nature-button" disabled={running}>
+            {results ? "Close" : "Cancel"}
+          </button>
+          {plan && (
+            <button onClick={downloadReport} className="nature-button outline">
+              Download Report
+            </button>
+          )}
+          {hasUnstored ? (
+            <button onClick={retryStore} disabled={running || !connected} className="submit-btn nature-button primary">
+              {running ? "Storing..." : "Retry Storing Records"}
+            </button>
+          ) : !results && (
+            <button
+              onClick={runImport}
+              disabled={running || !connected || !plan || plan.distributions.length === 0}
+              className="submit-btn nature-button primary"
+            >
+              {running ? "Processing with FHE..." : `Create ${payeeCount} Distribution${payeeCount === 1 ? "" : "s"}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
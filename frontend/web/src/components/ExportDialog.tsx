@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from "react";
+import {
+  AuditTrail,
+  buildExportRows,
+  collectAuditTrails,
+  EXPORT_MIME_TYPES,
+  EXPORTABLE_STATUSES,
+  ExportableStatus,
+  ExportFormat,
+  exportFileName,
+  filterForExport,
+  iifRoundedAway,
+  toCsvExport,
+  toIifExport,
+  toJsonExport
+} from "../accountingExport";
+import { RoyaltyDistribution } from "../distributions";
+
+interface ExportDialogProps {
+  chainId: number;
+  distributions: RoyaltyDistribution[];
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  iif: "QuickBooks (IIF)"
+};
+
+const STATUS_LABELS: Record<ExportableStatus, string> = {
+  pending: "Pending",
+  distributed: "Distributed",
+  failed: "Failed"
+};
+
+export default function ExportDialog({ chainId, distributions, onClose }: ExportDialogProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [statuses, setStatuses] = useState<ExportableStatus[]>(EXPORTABLE_STATUSES);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [expenseAccount, setExpenseAccount] = useState("Royalty Expense");
+  const [payableAccount, setPayableAccount] = useState("Royalties Payable");
+  const [includeAudit, setIncludeAudit] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState("");
+  const [error, setError] = useState("");
+
+  const filters = { from, to, statuses };
+  const matching = useMemo(() => filterForExport(distributions, filters), [distributions, from, to, statuses]);
+  const rangeInvalid = !!from && !!to && from > to;
+
+  const toggleStatus = (status: ExportableStatus) => {
+    setStatuses(statuses.includes(status)
+      ? statuses.filter(s => s !== status)
+      : EXPORTABLE_STATUSES.filter(s => s === status || statuses.includes(s)));
+  };
+
+  const runExport = async () => {
+    setRunning(true);
+    setError("");
+    try {
+      let trails = new Map<string, AuditTrail>();
+      if (includeAudit) {
+        setProgress("Scanning on-chain events...");
+        trails = await collectAuditTrails(chainId, matching, scanned => {
+          setProgress(`Scanning on-chain events... ${Math.floor(scanned * 100)}%`);
+        });
+      }
+
+      const rows = buildExportRows(matching, trails);
+      const content = format === "csv"
+        ? toCsvExport(rows)
+        : format === "json"
+          ? toJsonExport(rows, chainId, filters)
+          : toIifExport(rows, { expense: expenseAccount.trim(), payable: payableAccount.trim() });
+
+      const url = URL.createObjectURL(new Blob([content], { type: EXPORT_MIME_TYPES[format] }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = exportFileName(chainId, format);
+      link.click();
+      URL.revokeObjectURL(url);
+      const roundedAway = format === "iif" ? iifRoundedAway(rows).length : 0;
+      const leftOut = roundedAway > 0
+        ? `; ${roundedAway} with an amount under 0.005 ${roundedAway === 1 ? "was" : "were"} left out of the IIF file`
+        : "";
+      setProgress(`Exported ${rows.length} distribution${rows.length === 1 ? "" : "s"}${leftOut}`);
+    } catch (e: any) {
+      console.error("Error exporting distributions:", e);
+      setError(e.message || "Export failed");
+      setProgress("");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal export-modal nature-card">
+        <div className="modal-header">
+          <h2>Export Distributions</h2>
+          <button onClick={onClose} className="close-modal" disabled={running}>×</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="form-grid">
+            <div className="form-group">
+              <label>From</label>
+              <input type="date" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} className="nature-input" />
+            </div>
+            <div className="form-group">
+              <label>To</label>
+              <input type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} className="nature-input" />
+            </div>
+          </div>
+
+          <div className="export-statuses">
+            {EXPORTABLE_STATUSES.map(status => (
+              <label key={status} className="csv-import-checkbox">
+                <input type="checkbox" checked={statuses.includes(status)} onChange={() => toggleStatus(status)} />
+                {STATUS_LABELS[status]}
+              </label>
+            ))}
+          </div>
+
+          <div className="form-grid">
+            <div className="form-group">
+              <label>Format</label>
+              <select value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className="nature-input">
+                {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <label className="csv-import-checkbox">
+              <input type="checkbox" checked={includeAudit} onChange={e => setIncludeAudit(e.target.checked)} />
+              Include on-chain audit trail
+            </label>
+          </div>
+
+          {format === "iif" && (
+            <>
+              <div className="form-grid">
+                <div className="form-group">
+                  <label>Expense account</label>
+                  <input type="text" value={expenseAccount} onChange={e => setExpenseAccount(e.target.value)} className="nature-input" />
+                </div>
+                <div className="form-group">
+                  <label>Payable account</label>
+                  <input type="text" value={payableAccount} onChange={e => setPayableAccount(e.target.value)} className="nature-input" />
+                </div>
+              </div>
+              <p className="csv-import-hint">
+                Each distribution becomes a general journal entry under a sub-account per asset.
+                Amounts are rounded to two decimal places, with the exact amount in the memo; amounts that
+                round to 0.00 are left out.
+              </p>
+            </>
+          )}
+
+          {includeAudit && (
+            <p className="csv-import-hint">
+              Transaction hashes and block times are read from the adapter and royalty contract logs, which can take a while on a long chain history.
+            </p>
+          )}
+
+          <p className="export-count">
+            {rangeInvalid
+              ? "The start date is after the end date"
+              : `${matching.length} distribution${matching.length === 1 ? "" : "s"} match`}
+          </p>
+          {progress && <p className="dsr-import-progress">{progress}</p>}
+          {error && <p className="dsr-import-error">{error}</p>}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn nature-button" disabled={running}>
+            Close
+          </button>
+          <button
+            onClick={runExport}
+            disabled={running || rangeInvalid || matching.length === 0 || (format === "iif" && (!expenseAccount.trim() || !payableAccount.trim()))}
+            className="submit-btn nature-button primary"
+          >
+            {running ? "Exporting..." : "Export"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from "react";
+import { getDeployment, getSupportedChainIds, NetworkDeployment } from "../networks";
+
+interface NetworkGuardProps {
+  walletChainId: number;
+  onSwitch: (chainId: number) => Promise<void>;
+}
+
+export default function NetworkGuard({ walletChainId, onSwitch }: NetworkGuardProps) {
+  const [deployments, setDeployments] = useState<NetworkDeployment[]>([]);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    getSupportedChainIds()
+      .then(chainIds => Promise.all(chainIds.map(chainId => getDeployment(chainId))))
+      .then(loaded => setDeployments(loaded.filter((deployment): deployment is NetworkDeployment => deployment !== null)))
+      .catch(e => console.error("Error loading supported networks:", e));
+  }, []);
+
+  const switchTo = async (chainId: number) => {
+    setSwitching(true);
+    try {
+      await onSwitch(chainId);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="network-guard">
+      <span>
+        Your wallet is on chain {walletChainId}, where this app is not deployed. Transactions are disabled until you switch.
+      </span>
+      <div className="network-guard-actions">
+        {deployments.map(deployment => (
+          <button
+            key={deployment.chainId}
+            onClick={() => switchTo(deployment.chainId)}
+            disabled={switching}
+            className="nature-button small primary"
+          >
+            Switch to {deployment.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
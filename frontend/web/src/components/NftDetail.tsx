@@ -0,0 +1,81 @@
+import React from "react";
+import { Link, useParams } from "react-router-dom";
+import { filterDistributions, useDistributionFilters } from "../distributionFilters";
+import { RevealedShare, RoyaltyDistribution } from "../distributions";
+import { parseNftId } from "../fhevm";
+import DistributionFilterBar from "./DistributionFilterBar";
+import DistributionSummary from "./DistributionSummary";
+import DistributionTable from "./DistributionTable";
+import NftRoyaltyCount from "./NftRoyaltyCount";
+import RevenueChart from "./RevenueChart";
+
+interface NftDetailProps {
+  chainId: number;
+  connected: boolean;
+  distributions: RoyaltyDistribution[];
+  refreshing: boolean;
+  revealedShares: Record<string, RevealedShare>;
+  onExecute: (distributionId: string) => void;
+  onReveal: (dist: RoyaltyDistribution) => void;
+}
+
+export default function NftDetail({ chainId, connected, distributions, refreshing, revealedShares, onExecute, onReveal }: NftDetailProps) {
+  const { nftId: param = "" } = useParams();
+  const [filters, setFilters] = useDistributionFilters();
+
+  let nftId: string | null;
+  try {
+    nftId = parseNftId(param).toString();
+  } catch {
+    nftId = null;
+  }
+
+  if (!nftId) {
+    return (
+      <div className="detail-page">
+        <Link to="/" className="detail-back">← All distributions</Link>
+        <p className="detail-empty">"{param}" is not a valid NFT ID</p>
+      </div>
+    );
+  }
+
+  const forNft = distributions.filter(dist => dist.status !== "corrupt" && dist.nftId === nftId);
+  // Recipients stay encrypted unless published by a legacy record or revealed by their holder
+  const recipients = [...new Set(forNft.flatMap(dist => (dist.recipient ? [dist.recipient] : [])))];
+
+  return (
+    <div className="detail-page">
+      <Link to="/" className="detail-back">← All distributions</Link>
+      <div className="section-header">
+        <h2>NFT #{nftId}</h2>
+        <DistributionFilterBar filters={filters} onChange={setFilters} searchPlaceholder="Search recipient..." />
+      </div>
+
+      <div className="dashboard-grid">
+        <div className="dashboard-card nature-card">
+          <DistributionSummary distributions={forNft} />
+          {recipients.length > 0 && (
+            <div className="detail-links">
+              <span>Recipients:</span>
+              {recipients.map(recipient => (
+                <Link key={recipient} to={`/recipient/${recipient}`}>
+                  {recipient.substring(0, 6)}...{recipient.substring(38)}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+        <NftRoyaltyCount chainId={chainId} nftId={nftId} connected={connected} />
+        <RevenueChart chainId={chainId} distributions={forNft} groupings={["recipient", "none"]} />
+      </div>
+
+      <DistributionTable
+        distributions={filterDistributions(forNft, filters)}
+        revealedShares={revealedShares}
+        onExecute={onExecute}
+        onReveal={onReveal}
+        empty={<p>{refreshing ? "Loading distributions..." : `No royalty distributions found for NFT #${nftId}`}</p>}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { ENCRYPTED_AMOUNT_DECIMALS, formatAmount, MIN_ROYALTIES_PER_TOTAL_REVEAL } from "@royalties/sdk";
+import type { RevealedNftRoyaltyCount, RevealedNftRoyaltyTotal } from "@royalties/sdk";
+import { getRoyaltyClientReadOnly, getRoyaltyClientWithSigner } from "../contract";
+import { findPayoutToken, loadPayoutTokens } from "../payoutTokens";
+import { trackMinedTransaction } from "../txTracker";
+
+interface NftRoyaltyCountProps {
+  chainId: number;
+  nftId: string;
+  connected: boolean;
+}
+
+interface TokenTotal extends RevealedNftRoyaltyTotal {
+  token: string;
+  symbol: string;
+  // Royalties distributed since the last reveal; too few would let a reveal single one out
+  newRoyalties: number;
+}
+
+interface CountState extends RevealedNftRoyaltyCount {
+  // One entry per payout token the NFT has distributed royalties in
+  totals: TokenTotal[];
+  // False until a royalty for the NFT has been distributed, which creates its encrypted count
+  hasCount: boolean;
+}
+
+// How often to re-read the contract while the oracle has not answered yet
+const PENDING_POLL_MS = 12000;
+
+export default function NftRoyaltyCount({ chainId, nftId, connected }: NftRoyaltyCountProps) {
+  const [state, setState] = useState<CountState | null>(null);
+  // "count" or the payout token whose total is being requested
+  const [requesting, setRequesting] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const loadCount = async () => {
+    try {
+      const client = await getRoyaltyClientReadOnly(chainId);
+      if (!client) return;
+      const [revealed, handle, tokens, payoutTokens] = await Promise.all([
+        client.getRevealedNftRoyaltyCount(nftId),
+        client.getEncryptedNftRoyaltyCount(nftId),
+        client.getNftPayoutTokens(nftId),
+        loadPayoutTokens(chainId)
+      ]);
+      const totals = await Promise.all(tokens.map(async (token): Promise<TokenTotal> => ({
+        ...(await client.getRevealedNftRoyaltyTotal(nftId, token)),
+        newRoyalties: await client.getNewRoyaltiesSinceTotalReveal(nftId, token),
+        token,
+        // A token removed from the allow-list since keeps its total, shown under its address
+        symbol: findPayoutToken(payoutTokens, token)?.symbol ?? `${token.substring(0, 6)}...${token.substring(38)}`
+      })));
+      setState({ ...revealed, totals, hasCount: handle !== ethers.ZeroHash });
+    } catch (e) {
+      console.error("Error loading NFT royalty count:", e);
+    }
+  };
+
+  useEffect(() => {
+    setState(null);
+    setMessage(null);
+    loadCount();
+  }, [chainId, nftId]);
+
+  const isPending = !!state && (state.isPending || state.totals.some(total => total.isPending));
+
+  // The oracle answers in a later transaction, so keep re-reading until it has
+  useEffect(() => {
+    if (!isPending) {
+      setMessage(prev => (prev?.error ? prev : null));
+      return;
+    }
+    const timer = setInterval(loadCount, PENDING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isPending, chainId, nftId]);
+
+  const requestDecryption = async (target: "count" | TokenTotal) => {
+    setRequesting(target === "count" ? "count" : target.token);
+    setMessage({ error: false, text: "Confirm the decryption request in your wallet..." });
+    try {
+      const client = await getRoyaltyClientWithSigner();
+      const receipt = target === "count"
+        ? await client.requestNftRoyaltyCountDecryption(nftId)
+        : await client.requestNftRoyaltyTotalDecryption(nftId, target.token);
+      const label = target === "count" ? "royalty count" : `${target.symbol} royalty total`;
+      trackMinedTransaction(receipt, `Decrypt ${label} of NFT #${nftId}`)
+        .catch(e => console.error("Error tracking decryption request:", e));
+      setMessage(null);
+      await loadCount();
+    } catch (e: any) {
+      const text = e.message?.includes("user rejected")
+        ? "Transaction rejected by user"
+        : `Decryption request failed: ${e.shortMessage || e.message || "Unknown error"}`;
+      setMessage({ error: true, text });
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  return (
+    <div className="dashboard-card nature-card">
+      <h3>Distributed Royalties</h3>
+      {!state ? (
+        <p className="payout-balance-hint">Loading encrypted count...</p>
+      ) : !state.hasCount ? (
+        <p className="payout-balance-hint">No royalty for this NFT has been distributed yet</p>
+      ) : (
+        <>
+          <div className="stats-grid">
+            <div className="stat-item">
+              <div className="stat-value">{state.isRevealed ? state.count.toString() : "🔒"}</div>
+              <div className="stat-label">Royalties</div>
+            </div>
+            {state.totals.map(total => (
+              <div className="stat-item" key={total.token}>
+                <div className="stat-value">
+                  {total.isRevealed
+                    ? formatAmount(total.total, ENCRYPTED_AMOUNT_DECIMALS, { maxFractionDigits: 4, grouping: true })
+                    : "🔒"}
+                </div>
+                <div className="stat-label">Total {total.symbol}</div>
+              </div>
+            ))}
+          </div>
+          {(state.isRevealed || state.totals.some(total => total.isRevealed)) && (
+            <p className="payout-balance-hint">
+              As of the last decryption; royalties distributed since then are counted on the next one
+            </p>
+          )}
+          {isPending && (
+            <p className="payout-balance-message">Decryption pending, waiting for the oracle...</p>
+          )}
+          <div className="header-actions">
+            <button
+              onClick={() => requestDecryption("count")}
+              disabled={requesting !== null || !connected}
+              className="nature-button small primary"
+            >
+              {requesting === "count" ? "Requesting..." : state.isRevealed ? "Decrypt Count Again" : "Decrypt Count"}
+            </button>
+            {state.totals.map(total => (
+              <button
+                key={total.token}
+                onClick={() => requestDecryption(total)}
+                disabled={requesting !== null || !connected || total.newRoyalties < MIN_ROYALTIES_PER_TOTAL_REVEAL}
+                className="nature-button small"
+              >
+                {requesting === total.token ? "Requesting..." : `Decrypt ${total.symbol} Total`}
+              </button>
+            ))}
+          </div>
+          {state.totals.some(total => total.newRoyalties < MIN_ROYALTIES_PER_TOTAL_REVEAL) && (
+            <p className="payout-balance-hint">
+              A total is only decrypted once {MIN_ROYALTIES_PER_TOTAL_REVEAL} more royalties have joined it since its
+              last decryption, so no single royalty's amount can be worked out from it
+            </p>
+          )}
+          {!connected && <p className="payout-balance-hint">Connect a wallet to request decryption</p>}
+        </>
+      )}
+      {message && <p className={`payout-balance-message ${message.error ? "error" : ""}`}>{message.text}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from "react";
+import { formatAmount, parseAmount } from "@royalties/sdk";
+import { getRoyaltyClientReadOnly, getRoyaltyClientWithSigner } from "../contract";
+import {
+  depositPayout,
+  getWalletBalance,
+  loadPayoutTokens,
+  NATIVE_PAYOUT,
+  PayoutToken,
+  withdrawPayout
+} from "../payoutTokens";
+
+interface PayoutBalancesProps {
+  account: string;
+  chainId: number;
+  // False while the wallet is on a chain without a deployment, where transactions would fail
+  connected: boolean;
+}
+
+interface TokenBalance {
+  deposited: bigint;
+  wallet: bigint;
+}
+
+export default function PayoutBalances({ account, chainId, connected }: PayoutBalancesProps) {
+  const [tokens, setTokens] = useState<PayoutToken[]>([NATIVE_PAYOUT]);
+  const [balances, setBalances] = useState<Record<string, TokenBalance>>({});
+  const [selected, setSelected] = useState(NATIVE_PAYOUT.address);
+  const [amount, setAmount] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const token = tokens.find(t => t.address === selected) ?? NATIVE_PAYOUT;
+
+  const loadBalances = async () => {
+    try {
+      const [list, client] = await Promise.all([loadPayoutTokens(chainId), getRoyaltyClientReadOnly(chainId)]);
+      setTokens(list);
+      if (!client || !account) return;
+
+      const entries = await Promise.all(list.map(async t => {
+        const [deposited, wallet] = await Promise.all([
+          client.payoutBalanceOf(account, t.address),
+          getWalletBalance(chainId, t, account)
+        ]);
+        return [t.address, { deposited, wallet }] as const;
+      }));
+      setBalances(Object.fromEntries(entries));
+    } catch (e) {
+      console.error("Error loading payout balances:", e);
+    }
+  };
+
+  useEffect(() => {
+    setSelected(NATIVE_PAYOUT.address);
+    setBalances({});
+    loadBalances();
+  }, [account, chainId]);
+
+  const runAction = async (action: "deposit" | "withdraw") => {
+    let value: bigint;
+    try {
+      value = parseAmount(amount, token.decimals);
+      if (value === 0n) throw new Error("Amount must be greater than 0");
+    } catch (e: any) {
+      setMessage({ error: true, text: e.message });
+      return;
+    }
+
+    setBusy(true);
+    setMessage({ error: false, text: action === "deposit" ? "Confirm the deposit in your wallet..." : "Confirm the withdrawal in your wallet..." });
+    try {
+      const client = await getRoyaltyClientWithSigner();
+      if (action === "deposit") {
+        await depositPayout(client, token, value);
+      } else {
+        await withdrawPayout(client, token, value);
+      }
+      setAmount("");
+      setMessage({
+        error: false,
+        text: `${action === "deposit" ? "Deposited" : "Withdrew"} ${formatAmount(value, token.decimals)} ${token.symbol}`
+      });
+      await loadBalances();
+    } catch (e: any) {
+      const text = e.message?.includes("user rejected")
+        ? "Transaction rejected by user"
+        : `${action === "deposit" ? "Deposit" : "Withdrawal"} failed: ${e.shortMessage || e.message || "Unknown error"}`;
+      setMessage({ error: true, text });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="dashboard-card nature-card">
+      <h3>Payout Balances</h3>
+      <ul className="payout-balance-list">
+        {tokens.map(t => (
+          <li className="payout-balance-item" key={t.address}>
+            <span className="payout-balance-symbol">{t.symbol}</span>
+            <span title="Deposited for payouts or received from claimed royalties">
+              {balances[t.address] ? formatAmount(balances[t.address].deposited, t.decimals, { maxFractionDigits: 6, grouping: true }) : "-"}
+            </span>
+            <span className="payout-balance-wallet" title="In your wallet">
+              wallet {balances[t.address] ? formatAmount(balances[t.address].wallet, t.decimals, { maxFractionDigits: 4, grouping: true }) : "-"}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="payout-balance-form">
+        <select value={selected} onChange={e => setSelected(e.target.value)} className="nature-input" disabled={busy}>
+          {tokens.map(t => (
+            <option key={t.address} value={t.address}>{t.symbol}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          placeholder="0.00"
+          className="nature-input"
+          disabled={busy}
+        />
+        <button onClick={() => runAction("deposit")} disabled={busy || !account || !connected} className="nature-button small primary">
+          Deposit
+        </button>
+        <button onClick={() => runAction("withdraw")} disabled={busy || !account || !connected} className="nature-button small">
+          Withdraw
+        </button>
+      </div>
+      {!connected && <p className="payout-balance-hint">Switch to a supported network to deposit or withdraw</p>}
+      {token.supportsPermit && <p className="payout-balance-hint">{token.symbol} deposits use a signed permit, no approval needed</p>}
+      {message && <p className={`payout-balance-message ${message.error ? "error" : ""}`}>{message.text}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React from "react";
+import { ethers } from "ethers";
+import { Link, useParams } from "react-router-dom";
+import { normAddr } from "../contract";
+import { filterDistributions, useDistributionFilters } from "../distributionFilters";
+import { RevealedShare, RoyaltyDistribution } from "../distributions";
+import DistributionFilterBar from "./DistributionFilterBar";
+import DistributionSummary from "./DistributionSummary";
+import DistributionTable from "./DistributionTable";
+import RevenueChart from "./RevenueChart";
+
+interface RecipientDetailProps {
+  chainId: number;
+  distributions: RoyaltyDistribution[];
+  refreshing: boolean;
+  revealedShares: Record<string, RevealedShare>;
+  onExecute: (distributionId: string) => void;
+  onReveal: (dist: RoyaltyDistribution) => void;
+}
+
+export default function RecipientDetail({ chainId, distributions, refreshing, revealedShares, onExecute, onReveal }: RecipientDetailProps) {
+  const { address = "" } = useParams();
+  const [filters, setFilters] = useDistributionFilters();
+
+  if (!ethers.isAddress(address)) {
+    return (
+      <div className="detail-page">
+        <Link to="/" className="detail-back">← All distributions</Link>
+        <p className="detail-empty">"{address}" is not a valid address</p>
+      </div>
+    );
+  }
+
+  const recipient = ethers.getAddress(address);
+  // Only rows whose recipient is known: published by a legacy record or revealed by this holder
+  const forRecipient = distributions.filter(
+    dist => dist.status !== "corrupt" && !!dist.recipient && normAddr(dist.recipient) === normAddr(recipient)
+  );
+  const nftIds = [...new Set(forRecipient.flatMap(dist => (dist.nftId ? [dist.nftId] : [])))];
+
+  return (
+    <div className="detail-page">
+      <Link to="/" className="detail-back">← All distributions</Link>
+      <div className="section-header">
+        <h2 className="detail-address">{recipient}</h2>
+        <DistributionFilterBar filters={filters} onChange={setFilters} searchPlaceholder="Search NFT ID..." />
+      </div>
+
+      <div className="dashboard-grid">
+        <div className="dashboard-card nature-card">
+          <DistributionSummary distributions={forRecipient} />
+          {nftIds.length > 0 && (
+            <div className="detail-links">
+              <span>NFTs:</span>
+              {nftIds.map(nftId => (
+                <Link key={nftId} to={`/nft/${nftId}`}>#{nftId}</Link>
+              ))}
+            </div>
+          )}
+        </div>
+        <RevenueChart chainId={chainId} distributions={forRecipient} groupings={["nft", "none"]} />
+      </div>
+
+      <DistributionTable
+        distributions={filterDistributions(forRecipient, filters)}
+        revealedShares={revealedShares}
+        onExecute={onExecute}
+        onReveal={onReveal}
+        empty={<p>{refreshing ? "Loading distributions..." : "No royalty distributions found for this recipient"}</p>}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { BarElement, CategoryScale, Chart as ChartJS, Legend, LinearScale, Tooltip } from "chart.js";
+import { Bar } from "react-chartjs-2";
+import { assetSymbol, RoyaltyDistribution } from "../distributions";
+import { buildRevenueSeries, ChartGrouping, ChartInterval, ChartMetric, loadRoyaltyTimestamps } from "../revenueSeries";
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Legend, Tooltip);
+
+interface RevenueChartProps {
+  chainId: number;
+  distributions: RoyaltyDistribution[];
+  // Groupings offered in the "Split by" select; the first one is the default
+  groupings?: ChartGrouping[];
+}
+
+const INTERVAL_LABELS: Record<ChartInterval, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly"
+};
+
+const GROUPING_LABELS: Record<ChartGrouping, string> = {
+  none: "No split",
+  nft: "By NFT",
+  recipient: "By recipient"
+};
+
+const COLORS = ["#4CAF50", "#FF9800", "#2196F3", "#9C27B0", "#F44336"];
+const OTHER_COLOR = "#9E9E9E";
+
+export default function RevenueChart({ chainId, distributions, groupings = ["none", "nft", "recipient"] }: RevenueChartProps) {
+  const [bucketInterval, setBucketInterval] = useState<ChartInterval>("week");
+  const [metric, setMetric] = useState<ChartMetric>("amount");
+  const [grouping, setGrouping] = useState<ChartGrouping>(groupings[0]);
+  const [asset, setAsset] = useState("ETH");
+  const [timestamps, setTimestamps] = useState<Map<string, number>>(new Map());
+  // Visible bucket indices, inclusive; null shows the whole series
+  const [range, setRange] = useState<[number, number] | null>(null);
+
+  const assets = useMemo(
+    () => [...new Set(distributions.filter(dist => dist.status !== "corrupt").map(assetSymbol))].sort(),
+    [distributions]
+  );
+  const shownAsset = assets.includes(asset) ? asset : assets[0] ?? "ETH";
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRoyaltyTimestamps(chainId, distributions)
+      .then(loaded => { if (!cancelled) setTimestamps(loaded); })
+      .catch(e => console.error("Error loading royalty timestamps:", e));
+    return () => { cancelled = true; };
+  }, [chainId, distributions]);
+
+  const series = useMemo(
+    () => buildRevenueSeries(distributions, timestamps, { interval: bucketInterval, metric, grouping, asset: shownAsset }),
+    [distributions, timestamps, bucketInterval, metric, grouping, shownAsset]
+  );
+
+  // A new bucketing makes the old indices meaningless
+  useEffect(() => setRange(null), [bucketInterval, metric, grouping, shownAsset]);
+
+  const lastIndex = series.labels.length - 1;
+  const [from, to] = range && range[1] <= lastIndex ? range : [0, lastIndex];
+
+  const data = {
+    labels: series.labels.slice(from, to + 1),
+    datasets: series.datasets.map((dataset, index) => ({
+      label: dataset.label,
+      data: dataset.values.slice(from, to + 1),
+      backgroundColor: dataset.label === "Other" ? OTHER_COLOR : COLORS[index % COLORS.length]
+    }))
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: "index" as const, intersect: false },
+    plugins: {
+      legend: { display: grouping !== "none" },
+      tooltip: {
+        callbacks: {
+          label: (item: any) => `${item.dataset.label}: ${item.formattedValue}${metric === "amount" ? ` ${shownAsset}` : ""}`
+        }
+      }
+    },
+    scales: {
+      x: { stacked: true },
+      y: { stacked: true, beginAtZero: true, title: { display: true, text: metric === "amount" ? shownAsset : "Royalties" } }
+    },
+    // Clicking a bar zooms into the buckets around it
+    onClick: (_: unknown, elements: { index: number }[]) => {
+      if (elements.length === 0 || to - from < 4) return;
+      const center = from + elements[0].index;
+      const half = Math.max(2, Math.floor((to - from) / 4));
+      setRange([Math.max(0, center - half), Math.min(lastIndex, center + half)]);
+    }
+  };
+
+  return (
+    <div className="dashboard-card nature-card revenue-chart">
+      <div className="revenue-chart-header">
+        <h3>Royalty Volume</h3>
+        <div className="revenue-chart-controls">
+          <select value={bucketInterval} onChange={e => setBucketInterval(e.target.value as ChartInterval)} className="filter-select">
+            {Object.entries(INTERVAL_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select value={metric} onChange={e => setMetric(e.target.value as ChartMetric)} className="filter-select">
+            <option value="amount">Amount</option>
+            <option value="count">Count</option>
+          </select>
+          {metric === "amount" && assets.length > 1 && (
+            <select value={shownAsset} onChange={e => setAsset(e.target.value)} className="filter-select">
+              {assets.map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+            </select>
+          )}
+          {groupings.length > 1 && (
+            <select value={grouping} onChange={e => setGrouping(e.target.value as ChartGrouping)} className="filter-select">
+              {groupings.map(value => <option key={value} value={value}>{GROUPING_LABELS[value]}</option>)}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {series.labels.length === 0 ? (
+        <p className="revenue-chart-empty">No royalties to chart yet</p>
+      ) : (
+        <>
+          <div className="revenue-chart-canvas">
+            <Bar data={data} options={options} />
+          </div>
+          {lastIndex > 0 && (
+            <div className="revenue-chart-range">
+              <input
+                type="range"
+                min={0}
+                max={lastIndex}
+                value={from}
+                onChange={e => setRange([Math.min(Number(e.target.value), to), to])}
+                aria-label="Range start"
+              />
+              <input
+                type="range"
+                min={0}
+                max={lastIndex}
+                value={to}
+                onChange={e => setRange([from, Math.max(Number(e.target.value), from)])}
+                aria-label="Range end"
+              />
+              <span>{series.labels[from]} – {series.labels[to]}</span>
+              {(from > 0 || to < lastIndex) && (
+                <button onClick={() => setRange(null)} className="nature-button small">Reset Zoom</button>
+              )}
+            </div>
+          )}
+          <p className="revenue-chart-hint">
+            Dated by each royalty's on-chain submission block, or the record's timestamp where there is none. Click a bar to zoom in.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { formatAmount, FULL_SHARE_BPS, parseAmount } from "@royalties/sdk";
+import {
+  allocateSplit,
+  bpsToPercent,
+  emptyPayee,
+  percentToBps,
+  SPLIT_ROLES,
+  SplitPayee,
+  SplitRole,
+  totalShareBps
+} from "../splitSheets";
+
+interface SplitSheetEditorProps {
+  payees: SplitPayee[];
+  onChange: (payees: SplitPayee[]) => void;
+  // Total as typed by the user, in whole units of the asset
+  amount: string;
+  decimals: number;
+  symbol: string;
+}
+
+const ROLE_LABELS: Record<SplitRole, string> = {
+  writer: "Writer",
+  producer: "Producer",
+  performer: "Performer",
+  label: "Label",
+  other: "Other"
+};
+
+export default function SplitSheetEditor({ payees, onChange, amount, decimals, symbol }: SplitSheetEditorProps) {
+  // Share text being typed, so partial input like "12." survives until the field loses focus
+  const [shareDrafts, setShareDrafts] = useState<Record<number, string>>({});
+
+  const total = totalShareBps(payees);
+  const balanced = total === FULL_SHARE_BPS && payees.every(payee => payee.shareBps > 0);
+
+  let allocations: bigint[] | null = null;
+  if (balanced && amount) {
+    try {
+      allocations = allocateSplit(parseAmount(amount, decimals), decimals, payees);
+    } catch {
+      allocations = null;
+    }
+  }
+
+  const updatePayee = (index: number, patch: Partial<SplitPayee>) => {
+    onChange(payees.map((payee, i) => (i === index ? { ...payee, ...patch } : payee)));
+  };
+
+  const handleShareChange = (index: number, value: string) => {
+    setShareDrafts(prev => ({ ...prev, [index]: value }));
+    const bps = percentToBps(value);
+    updatePayee(index, { shareBps: bps ?? 0 });
+  };
+
+  const clearDraft = (index: number) => {
+    setShareDrafts(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  const removePayee = (index: number) => {
+    setShareDrafts({});
+    onChange(payees.filter((_, i) => i !== index));
+  };
+
+  // Equal parts in whole basis points; the first payees absorb the leftover points
+  const splitEvenly = () => {
+    const base = Math.floor(FULL_SHARE_BPS / payees.length);
+    const leftover = FULL_SHARE_BPS - base * payees.length;
+    setShareDrafts({});
+    onChange(payees.map((payee, i) => ({ ...payee, shareBps: base + (i < leftover ? 1 : 0) })));
+  };
+
+  return (
+    <div className="split-sheet">
+      <div className="split-sheet-header">
+        <span>Recipient</span>
+        <span>Role</span>
+        <span>Share (%)</span>
+        <span>Payout</span>
+        <span></span>
+      </div>
+
+      {payees.map((payee, index) => (
+        <div className="split-sheet-row" key={index}>
+          <input
+            type="text"
+            value={payee.recipient}
+            onChange={e => updatePayee(index, { recipient: e.target.value })}
+            placeholder="0x..."
+            className="nature-input"
+          />
+          <select
+            value={payee.role}
+            onChange={e => updatePayee(index, { role: e.target.value as SplitRole })}
+            className="nature-input"
+          >
+            {SPLIT_ROLES.map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={shareDrafts[index] ?? (payee.shareBps ? bpsToPercent(payee.shareBps) : "")}
+            onChange={e => handleShareChange(index, e.target.value)}
+            onBlur={() => clearDraft(index)}
+            placeholder="0"
+            className="nature-input"
+          />
+          <span className="split-sheet-payout">{allocations ? `${formatAmount(allocations[index], decimals)} ${symbol}` : "-"}</span>
+          <button
+            onClick={() => removePayee(index)}
+            disabled={payees.length === 1}
+            className="split-sheet-remove"
+            title="Remove payee"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div className="split-sheet-footer">
+        <div className="split-sheet-actions">
+          <button onClick={() => onChange([...payees, emptyPayee()])} className="nature-button">
+            Add Payee
+          </button>
+          <button onClick={splitEvenly} className="nature-button">
+            Split Evenly
+          </button>
+        </div>
+        <span className={`split-sheet-total ${balanced ? "balanced" : "unbalanced"}`}>
+          Total: {bpsToPercent(total)}% of 100%
+        </span>
+      </div>
+    </div>
+  );
+}
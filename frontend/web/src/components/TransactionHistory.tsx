@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from "react";
+import { getDeployment } from "../networks";
+import {
+  clearFinishedTransactions,
+  getTrackedTransactions,
+  onTrackedTransactionsChange,
+  TrackedTransaction
+} from "../txTracker";
+
+interface TransactionHistoryProps {
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<TrackedTransaction["status"], string> = {
+  pending: "Pending",
+  mined: "Mined",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  dropped: "Dropped",
+  replaced: "Replaced"
+};
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+export default function TransactionHistory({ onClose }: TransactionHistoryProps) {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(getTrackedTransactions());
+  const [explorers, setExplorers] = useState<Record<number, string>>({});
+
+  useEffect(() => onTrackedTransactionsChange(setTransactions), []);
+
+  useEffect(() => {
+    const missing = [...new Set(transactions.map(tx => tx.chainId))].filter(chainId => !(chainId in explorers));
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(async chainId => [chainId, (await getDeployment(chainId))?.explorerUrl ?? ""] as const))
+      .then(entries => setExplorers(prev => ({ ...prev, ...Object.fromEntries(entries) })))
+      .catch(e => console.error("Error loading explorer URLs:", e));
+  }, [transactions]);
+
+  const txLink = (tx: TrackedTransaction, hash: string) => {
+    const explorer = explorers[tx.chainId];
+    return explorer
+      ? <a href={`${explorer}/tx/${hash}`} target="_blank" rel="noreferrer">{shortHash(hash)}</a>
+      : <span>{shortHash(hash)}</span>;
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal tx-history nature-card">
+        <div className="modal-header">
+          <h2>Transactions</h2>
+          <button onClick={onClose} className="close-modal">×</button>
+        </div>
+
+        <div className="modal-body">
+          {transactions.length === 0 ? (
+            <p className="tx-history-empty">No transactions yet</p>
+          ) : (
+            <ul className="tx-history-list">
+              {transactions.map(tx => (
+                <li className="tx-history-item" key={tx.hash}>
+                  <div className="tx-history-main">
+                    <span className="tx-history-label">{tx.label}</span>
+                    <span className={`tx-status ${tx.status}`}>
+                      {STATUS_LABELS[tx.status]}
+                      {(tx.status === "mined" || tx.status === "confirmed") && ` (${tx.confirmations})`}
+                    </span>
+                  </div>
+                  <div className="tx-history-meta">
+                    {txLink(tx, tx.hash)}
+                    {tx.replacedBy && <> → {txLink(tx, tx.replacedBy)}</>}
+                    <span>{new Date(tx.submittedAt).toLocaleString()}</span>
+                  </div>
+                  {tx.error && <div className="tx-history-error">{tx.error}</div>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={clearFinishedTransactions} className="cancel-btn nature-button">
+            Clear Finished
+          </button>
+          <button onClick={onClose} className="submit-btn nature-button primary">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,39 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { DiscoveredWallet, getLastWalletId, getLegacyWallets, rememberWallet, walletId, watchWallets } from '../wallets';
 
-interface WalletInfo {
+export interface WalletInfo {
+  // EIP-6963 rdns for announced wallets, so the choice can be recognised on the next visit
+  id: string;
   name: string;
   provider: any;
   icon: string;
   isInstalled: boolean;
 }
 
+// Offered as install links when they have not announced themselves
+const KNOWN_WALLETS = [
+  {
+    id: 'io.metamask',
+    name: 'MetaMask',
+    icon: 'https://upload.wikimedia.org/wikipedia/commons/thumb/3/36/MetaMask_Fox.svg/1200px-MetaMask_Fox.svg.png',
+    url: 'https://metamask.io/'
+  },
+  {
+    id: 'com.okex.wallet',
+    name: 'OKX Wallet',
+    icon: 'https://www.okx.com/favicon.ico',
+    url: 'https://www.okx.com/web3'
+  },
+  {
+    id: 'com.binance.wallet',
+    name: 'Binance Wallet',
+    icon: 'https://upload.wikimedia.org/wikipedia/commons/thumb/5/57/Binance_Logo.png/600px-Binance_Logo.png',
+    url: 'https://www.bnbchain.org/en/binance-wallet'
+  }
+];
+
+const GENERIC_WALLET_ICON = 'https://cdn-icons-png.flaticon.com/512/126/126472.png';
+
 interface WalletSelectorProps {
   isOpen: boolean;
   onWalletSelect: (wallet: WalletInfo) => void;
@@ -16,6 +43,7 @@ interface WalletSelectorProps {
 const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect, onClose }) => {
   const [availableWallets, setAvailableWallets] = useState<WalletInfo[]>([]);
   const [showOtherWallets, setShowOtherWallets] = useState(false);
+  const [lastWalletId, setLastWalletId] = useState<string | null>(null);
   const [theme, setTheme] = useState<Record<string, string>>({});
   const modalRef = useRef<HTMLDivElement>(null);
 
@@ -253,150 +281,76 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
   ];
 
   useEffect(() => {
-    detectWallets();
-    
     if (!isOpen) return;
     
     const hour = new Date().getHours();
     const themeIndex = hour % themeStyles.length;
     setTheme(themeStyles[themeIndex]);
-  }, [isOpen]);
 
-  const detectWallets = () => {
-    const wallets: WalletInfo[] = [];
+    setLastWalletId(getLastWalletId());
+    return watchWallets(detectWallets);
+  }, [isOpen]);
 
-    const walletIcons: Record<string, string> = {
-      'MetaMask': 'https://upload.wikimedia.org/wikipedia/commons/thumb/3/36/MetaMask_Fox.svg/1200px-MetaMask_Fox.svg.png',
-      'OKX Wallet': 'https://www.okx.com/favicon.ico',
-      'Binance Wallet': 'https://upload.wikimedia.org/wikipedia/commons/thumb/5/57/Binance_Logo.png/600px-Binance_Logo.png',
-      'Other Wallets': 'https://cdn-icons-png.flaticon.com/512/126/126472.png'
-    };
+  const detectWallets = (discovered: DiscoveredWallet[]) => {
+    const wallets: WalletInfo[] = discovered.map(({ info, provider }) => ({
+      id: walletId(info),
+      name: info.name,
+      provider,
+      icon: info.icon,
+      isInstalled: true
+    }));
 
-    // MetaMask
-    if (typeof (window as any).ethereum !== 'undefined' && (window as any).ethereum.isMetaMask) {
-      wallets.push({
-        name: 'MetaMask',
-        provider: (window as any).ethereum,
-        icon: walletIcons['MetaMask'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'MetaMask',
-        provider: null,
-        icon: walletIcons['MetaMask'],
-        isInstalled: false
+    // Fall back to injected globals when nothing announces itself
+    if (wallets.length === 0) {
+      getLegacyWallets().forEach(({ id, provider }) => {
+        const known = KNOWN_WALLETS.find(wallet => wallet.id === id);
+        wallets.push({
+          id,
+          name: known?.name ?? 'Browser Wallet',
+          provider,
+          icon: known?.icon ?? GENERIC_WALLET_ICON,
+          isInstalled: true
+        });
       });
     }
 
-    // OKX Wallet
-    if (typeof (window as any).okxwallet !== 'undefined') {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: (window as any).okxwallet,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'OKX Wallet',
-        provider: null,
-        icon: walletIcons['OKX Wallet'],
-        isInstalled: false
-      });
-    }
+    // The last used wallet goes first
+    const lastId = getLastWalletId();
+    wallets.sort((a, b) => Number(b.id === lastId) - Number(a.id === lastId));
 
-    // Binance Wallet
-    if (typeof (window as any).BinanceChain !== 'undefined') {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: (window as any).BinanceChain,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: true
-      });
-    } else {
-      wallets.push({
-        name: 'Binance Wallet',
-        provider: null,
-        icon: walletIcons['Binance Wallet'],
-        isInstalled: false
-      });
-    }
+    KNOWN_WALLETS
+      .filter(known => !wallets.some(wallet => wallet.id === known.id))
+      .forEach(known => wallets.push({ id: known.id, name: known.name, provider: null, icon: known.icon, isInstalled: false }));
 
     wallets.push({
+      id: 'other',
       name: 'Other Wallets',
       provider: null,
-      icon: walletIcons['Other Wallets'],
+      icon: GENERIC_WALLET_ICON,
       isInstalled: true
     });
 
     setAvailableWallets(wallets);
   };
 
-  const handleWalletSelect = async (wallet: WalletInfo) => {
-    if (wallet.name === 'Other Wallets') {
+  const handleWalletSelect = (wallet: WalletInfo) => {
+    if (wallet.id === 'other') {
       setShowOtherWallets(true);
       return;
     }
 
     if (!wallet.isInstalled) {
       // Open wallet download page
-      const walletUrls: { [key: string]: string } = {
-        'MetaMask': 'https://metamask.io/',
-        'OKX Wallet': 'https://www.okx.com/web3',
-        'Binance Wallet': 'https://www.bnbchain.org/en/binance-wallet',
-      };
-      
-      const url = walletUrls[wallet.name];
+      const url = KNOWN_WALLETS.find(known => known.id === wallet.id)?.url;
       if (url) {
         window.open(url, '_blank');
       }
       return;
     }
 
-    try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
-      onWalletSelect(wallet);
-    } catch (error) {
-      console.error('Error switching network:', error);
-      // Continue anyway, let the main app handle the connection
-      onWalletSelect(wallet);
-    }
-  };
-
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
-    }
+    rememberWallet(wallet.id);
+    // The app checks the wallet's chain once connected and offers to switch if needed
+    onWalletSelect(wallet);
   };
 
   if (!isOpen) return null;
@@ -600,9 +554,9 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           position: 'relative',
           zIndex: 1
         }}>
-          {availableWallets.map((wallet, index) => (
+          {availableWallets.map(wallet => (
             <div
-              key={index}
+              key={wallet.id}
               onClick={() => handleWalletSelect(wallet)}
               style={{
                 borderRadius: '12px',
@@ -679,7 +633,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
                   opacity: 0.7,
                   color: wallet.isInstalled ? 'var(--text-color)' : 'var(--text-disabled)'
                 }}>
-                  {wallet.isInstalled ? 'Ready to connect' : 'Click to install'}
+                  {!wallet.isInstalled ? 'Click to install' : wallet.id === lastWalletId ? 'Last used' : 'Ready to connect'}
                 </div>
               </div>
               
@@ -708,7 +662,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            You will be asked to switch if your wallet is on an unsupported network
           </div>
         </div>
       </div>
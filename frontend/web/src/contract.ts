@@ -1,7 +1,11 @@
 // contract.ts
 import { ethers } from "ethers";
+import { MusicNftRoyaltiesClient } from "@royalties/sdk";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { getActiveChainId, getDeployment, requireDeployment } from "./networks";
+import { resolveRpcEndpoints, RpcPool } from "./rpcPool";
+import { getWalletProvider } from "./wallets";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
@@ -18,43 +22,34 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
+const readProviders = new Map<number, RpcPool>();
+
+export async function getReadProvider(chainId: number = getActiveChainId()): Promise<RpcPool> {
+  let provider = readProviders.get(chainId);
+  if (!provider) {
+    const deployment = await requireDeployment(chainId);
+    const endpoints = resolveRpcEndpoints(chainId, deployment.rpcUrls);
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`);
     }
+    provider = new RpcPool(endpoints, ethers.Network.from(chainId));
+    readProviders.set(chainId, provider);
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return provider;
+}
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const deployment = await getDeployment();
+    const address = deployment?.contractAddress;
+    if (!deployment || !address) {
+      return null;
+    }
+
+    const provider = await getReadProvider(deployment.chainId);
+    const contract = new ethers.Contract(address, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -66,21 +61,57 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+export async function getRoyaltyClientReadOnly(chainId: number = getActiveChainId()) {
+  const deployment = await getDeployment(chainId);
+  if (!deployment?.royaltyContractAddress) {
+    return null;
+  }
+  return new MusicNftRoyaltiesClient(deployment.royaltyContractAddress, await getReadProvider(chainId));
+}
+
+// Signers always act on the wallet's current chain, whatever the read side is pointed at.
+const getWalletSignerAndDeployment = async () => {
+  // The wallet picked in the selector, not whichever extension won `window.ethereum`
+  const walletProvider = getWalletProvider();
+  if (!walletProvider) {
+    throw new Error("No wallet connected");
+  }
+  const provider = new ethers.BrowserProvider(walletProvider);
+  const { chainId } = await provider.getNetwork();
+  const deployment = await getDeployment(Number(chainId));
+  if (!deployment) {
+    throw new Error(`Wallet is on chain ${chainId}, where this app is not deployed; switch networks to continue`);
   }
+  const signer = await provider.getSigner();
+  return { signer, deployment };
+};
+
+export async function getContractWithSigner() {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    const { signer, deployment } = await getWalletSignerAndDeployment();
+    if (!deployment.contractAddress) {
+      throw new Error(`UniversalAdapter is not deployed on ${deployment.name}`);
+    }
+    return new ethers.Contract(deployment.contractAddress, ABI, signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
   }
 }
 
+export async function getRoyaltyClientWithSigner() {
+  try {
+    const { signer, deployment } = await getWalletSignerAndDeployment();
+    if (!deployment.royaltyContractAddress) {
+      throw new Error(`MusicNftRoyalties is not deployed on ${deployment.name}`);
+    }
+    return new MusicNftRoyaltiesClient(deployment.royaltyContractAddress, signer);
+  } catch (error) {
+    console.error("Failed to create royalty client with signer:", error);
+    throw error;
+  }
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
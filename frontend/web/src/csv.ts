@@ -0,0 +1,78 @@
+// csv.ts
+export type CsvDelimiter = "," | ";" | "\t";
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t"];
+
+/**
+ * Guesses the delimiter from the first line: whichever candidate splits it into the most
+ * columns outside quotes. Ties go to the comma.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  let best: CsvDelimiter = ",";
+  for (const delimiter of CSV_DELIMITERS) {
+    if (firstLine.split(delimiter).length > firstLine.split(best).length) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may hold delimiters, line breaks and doubled quotes.
+ * Blank lines are dropped; a byte-order mark at the start is ignored.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === "\"" && input[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"" && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+// Spreadsheets run a cell starting with one of these as a formula, even from a CSV file.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (raw: string) => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+};
+
+/**
+ * Writes comma-separated rows, quoting only the cells that need it. Cells that a spreadsheet
+ * would evaluate as a formula are prefixed with an apostrophe so they open as text.
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCell).join(",")).join("\n") + "\n";
+}
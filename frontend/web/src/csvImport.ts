@@ -0,0 +1,247 @@
+// csvImport.ts
+import { ethers } from "ethers";
+import { MAX_PERIOD_LENGTH, parseAmount, toEncryptedAmount } from "@royalties/sdk";
+import { CsvDelimiter } from "./csv";
+import { parseNftId } from "./fhevm";
+
+export const CSV_FIELDS = ["nftId", "amount", "recipient", "period"] as const;
+
+export type CsvField = typeof CSV_FIELDS[number];
+
+export const REQUIRED_CSV_FIELDS: CsvField[] = ["nftId", "amount", "recipient"];
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  nftId: "NFT ID",
+  amount: "Amount",
+  recipient: "Recipient",
+  period: "Period"
+};
+
+export type DecimalSeparator = "." | ",";
+
+// How the columns of one sender's statements map onto distribution fields.
+export interface CsvColumnMapping {
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  decimalSeparator: DecimalSeparator;
+  // Zero-based column per field; period is optional
+  columns: Partial<Record<CsvField, number>>;
+}
+
+export interface CsvMappingProfile extends CsvColumnMapping {
+  name: string;
+  // Header text of each mapped column, used to find it again when a later file reorders columns
+  headers: Partial<Record<CsvField, string>>;
+  savedAt: number;
+}
+
+export interface CsvRow {
+  // 1-based record number in the file, header included
+  rowNumber: number;
+  nftId: number | null;
+  // Base units of the payout token
+  amount: bigint | null;
+  recipient: string | null;
+  period: string | null;
+  // Problems that keep the row from being imported
+  errors: string[];
+  // Things worth a second look that do not block the row
+  warnings: string[];
+}
+
+// Header names that usually hold each field, used to prefill the mapping of a new layout
+const FIELD_HINTS: Record<CsvField, RegExp> = {
+  nftId: /nft|token.?id/i,
+  amount: /amount|revenue|royalt|payable|net/i,
+  recipient: /recipient|wallet|address|payee/i,
+  period: /period|month|quarter/i
+};
+
+// Profiles describe file layouts rather than on-chain state, so they are shared by every chain.
+const PROFILES_KEY = "csv_import_profiles";
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase();
+
+/** Display names of the file's columns: its header cells, or "Column n" when it has none. */
+export function columnLabels(rows: string[][], hasHeader: boolean): string[] {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return Array.from({ length: width }, (_, index) => {
+    const header = hasHeader ? rows[0]?.[index]?.trim() : "";
+    return header || `Column ${index + 1}`;
+  });
+}
+
+export function guessColumns(headers: string[]): Partial<Record<CsvField, number>> {
+  const columns: Partial<Record<CsvField, number>> = {};
+  const used = new Set<number>();
+  for (const field of CSV_FIELDS) {
+    const index = headers.findIndex((header, column) => !used.has(column) && FIELD_HINTS[field].test(header));
+    if (index >= 0) {
+      columns[field] = index;
+      used.add(index);
+    }
+  }
+  return columns;
+}
+
+export function missingFields(mapping: CsvColumnMapping): CsvField[] {
+  return REQUIRED_CSV_FIELDS.filter(field => mapping.columns[field] === undefined);
+}
+
+/**
+ * The profile's mapping for a file with `headers`. Columns are found by their saved header
+ * text first and by position otherwise; a field whose header is gone is left unmapped.
+ */
+export function applyProfile(profile: CsvMappingProfile, headers: string[] | null): CsvColumnMapping {
+  const columns: Partial<Record<CsvField, number>> = {};
+  for (const field of CSV_FIELDS) {
+    const saved = profile.headers[field];
+    if (profile.hasHeader && headers && saved !== undefined) {
+      const index = headers.findIndex(header => normalizeHeader(header) === normalizeHeader(saved));
+      if (index >= 0) columns[field] = index;
+    } else if (profile.columns[field] !== undefined) {
+      columns[field] = profile.columns[field];
+    }
+  }
+  return { delimiter: profile.delimiter, hasHeader: profile.hasHeader, decimalSeparator: profile.decimalSeparator, columns };
+}
+
+/** Whether every required column of a header-based profile is present in `headers`. */
+export function profileMatches(profile: CsvMappingProfile, headers: string[]): boolean {
+  if (!profile.hasHeader) return false;
+  const present = new Set(headers.map(normalizeHeader));
+  return REQUIRED_CSV_FIELDS.every(field => {
+    const saved = profile.headers[field];
+    return saved !== undefined && present.has(normalizeHeader(saved));
+  });
+}
+
+/** Drops thousands separators and turns the statement's decimal separator into a point. */
+export function normalizeAmount(value: string, decimalSeparator: DecimalSeparator): string {
+  const compact = value.trim().replace(/[\s']/g, "");
+  return decimalSeparator === ","
+    ? compact.replace(/\./g, "").replace(",", ".")
+    : compact.replace(/,/g, "");
+}
+
+/**
+ * Reads and checks every data row against `mapping`, for a payout token with `decimals`
+ * decimals. Amounts must be positive and fit an encrypted amount; recipients must be
+ * addresses. Rows repeating an earlier row's NFT, recipient, amount and period are flagged.
+ */
+export function validateCsvRows(rows: string[][], mapping: CsvColumnMapping, decimals: number): CsvRow[] {
+  const firstRow = mapping.hasHeader ? 1 : 0;
+  const seen = new Map<string, number>();
+
+  return rows.slice(firstRow).map((cells, index): CsvRow => {
+    const cell = (field: CsvField) => {
+      const column = mapping.columns[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+    const row: CsvRow = {
+      rowNumber: firstRow + index + 1,
+      nftId: null,
+      amount: null,
+      recipient: null,
+      period: null,
+      errors: [],
+      warnings: []
+    };
+
+    const nftId = cell("nftId");
+    if (!nftId) {
+      row.errors.push("NFT ID is empty");
+    } else {
+      try {
+        row.nftId = parseNftId(nftId.replace(/^#/, ""));
+      } catch (e: any) {
+        row.errors.push(`${e.message} ("${nftId}")`);
+      }
+    }
+
+    const amount = cell("amount");
+    if (!amount) {
+      row.errors.push("Amount is empty");
+    } else {
+      try {
+        const value = parseAmount(normalizeAmount(amount, mapping.decimalSeparator), decimals);
+        if (value === 0n) throw new Error("Amount must be greater than 0");
+        toEncryptedAmount(value, decimals);
+        row.amount = value;
+      } catch (e: any) {
+        row.errors.push(`${e.message} ("${amount}")`);
+      }
+    }
+
+    const recipient = cell("recipient");
+    if (!ethers.isAddress(recipient)) {
+      row.errors.push(recipient ? `Recipient "${recipient}" is not a valid address` : "Recipient is empty");
+    } else if (ethers.getAddress(recipient) === ethers.ZeroAddress) {
+      row.errors.push("Recipient is the zero address");
+    } else {
+      row.recipient = ethers.getAddress(recipient);
+    }
+
+    const period = cell("period");
+    if (period.length > MAX_PERIOD_LENGTH) {
+      row.errors.push(`Period is longer than ${MAX_PERIOD_LENGTH} characters`);
+    } else if (period) {
+      row.period = period;
+    }
+
+    if (row.errors.length === 0) {
+      const key = [row.nftId, row.recipient, row.amount, row.period].join("|");
+      const earlier = seen.get(key);
+      if (earlier !== undefined) {
+        row.warnings.push(`Same NFT, recipient, amount and period as row ${earlier}`);
+      } else {
+        seen.set(key, row.rowNumber);
+      }
+    }
+    return row;
+  });
+}
+
+const readProfiles = (): Record<string, CsvMappingProfile> => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Error reading CSV import profiles:", e);
+    return {};
+  }
+};
+
+const writeProfiles = (profiles: Record<string, CsvMappingProfile>) => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.error("Error writing CSV import profiles:", e);
+  }
+};
+
+export function getCsvProfiles(): CsvMappingProfile[] {
+  return Object.values(readProfiles()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Saves `mapping` under `name`, replacing any profile of that name. */
+export function saveCsvProfile(name: string, mapping: CsvColumnMapping, labels: string[]): CsvMappingProfile {
+  const headers: Partial<Record<CsvField, string>> = {};
+  if (mapping.hasHeader) {
+    for (const field of CSV_FIELDS) {
+      const column = mapping.columns[field];
+      if (column !== undefined) headers[field] = labels[column];
+    }
+  }
+  const profile: CsvMappingProfile = { ...mapping, columns: { ...mapping.columns }, name, headers, savedAt: Date.now() };
+  const profiles = readProfiles();
+  profiles[name] = profile;
+  writeProfiles(profiles);
+  return profile;
+}
+
+export function deleteCsvProfile(name: string) {
+  const profiles = readProfiles();
+  delete profiles[name];
+  writeProfiles(profiles);
+}
@@ -0,0 +1,84 @@
+// distributionCache.ts
+import { normAddr } from "./contract";
+import type { RoyaltyDistribution, SyncState } from "./distributions";
+
+interface CachedDistributionList {
+  key: string;
+  chainId: number;
+  contract: string;
+  records: RoyaltyDistribution[];
+  savedAt: number;
+}
+
+const DB_NAME = "royalty_cache";
+// v2: amounts are stored as bigint base units instead of decimal ETH strings
+// v3: amount, recipient and NFT are optional, since new records keep them encrypted
+const DB_VERSION = 3;
+const STORE_NAME = "distributions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+        } else {
+          // Cached lists are only a head start; drop rows in an older shape and refetch
+          request.transaction!.objectStore(STORE_NAME).clear();
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(e => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const cacheKey = (chainId: number, contract: string) => `${chainId}:${normAddr(contract)}`;
+
+/** Last list saved for this chain and adapter, or null when nothing is cached yet. */
+export async function readCachedDistributions(chainId: number, contract: string): Promise<RoyaltyDistribution[] | null> {
+  try {
+    const db = await openDb();
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const entry: CachedDistributionList | undefined = await requestToPromise(store.get(cacheKey(chainId, contract)));
+    return entry ? entry.records : null;
+  } catch (e) {
+    console.error("Error reading distribution cache:", e);
+    return null;
+  }
+}
+
+export async function writeCachedDistributions(chainId: number, contract: string, records: RoyaltyDistribution[]) {
+  try {
+    const db = await openDb();
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const entry: CachedDistributionList = {
+      key: cacheKey(chainId, contract),
+      chainId,
+      contract: normAddr(contract),
+      // Sync state describes this session's view of the chain, so it is never persisted
+      records: records.map(({ syncState, ...record }) => record),
+      savedAt: Date.now()
+    };
+    await requestToPromise(store.put(entry));
+  } catch (e) {
+    console.error("Error writing distribution cache:", e);
+  }
+}
+
+export function withSyncState(records: RoyaltyDistribution[], syncState: SyncState): RoyaltyDistribution[] {
+  return records.map(record => ({ ...record, syncState }));
+}
@@ -0,0 +1,57 @@
+// distributionFilters.ts
+import { useSearchParams } from "react-router-dom";
+import { RoyaltyDistribution } from "./distributions";
+
+export type StatusFilter = "all" | RoyaltyDistribution["status"];
+
+export const STATUS_FILTERS: StatusFilter[] = ["all", "pending", "distributed", "failed", "corrupt"];
+
+export interface DistributionFilters {
+  // Matched against the NFT ID (or a legacy row's NFT reference) and the recipient address where those are known
+  search: string;
+  status: StatusFilter;
+}
+
+// Query-string names, kept short so shared links stay readable
+const SEARCH_PARAM = "q";
+const STATUS_PARAM = "status";
+
+export function filterDistributions(list: RoyaltyDistribution[], filters: DistributionFilters): RoyaltyDistribution[] {
+  const search = filters.search.toLowerCase();
+  return list.filter(dist => {
+    const matchesSearch = !search ||
+      !!(dist.nftId ?? dist.legacyNftId)?.toLowerCase().includes(search) ||
+      !!dist.recipient?.toLowerCase().includes(search);
+    const matchesFilter = filters.status === "all" || dist.status === filters.status;
+    return matchesSearch && matchesFilter;
+  });
+}
+
+/**
+ * The list filters, held in the URL query so a filtered view can be bookmarked or shared.
+ * Defaults are left out of the URL, and edits replace the history entry instead of adding one
+ * per keystroke.
+ */
+export function useDistributionFilters(): [DistributionFilters, (changes: Partial<DistributionFilters>) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const status = searchParams.get(STATUS_PARAM) as StatusFilter | null;
+  const filters: DistributionFilters = {
+    search: searchParams.get(SEARCH_PARAM) ?? "",
+    status: status && STATUS_FILTERS.includes(status) ? status : "all"
+  };
+
+  const setFilters = (changes: Partial<DistributionFilters>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      const { search, status } = { ...filters, ...changes };
+      next.delete(SEARCH_PARAM);
+      next.delete(STATUS_PARAM);
+      if (search) next.set(SEARCH_PARAM, search);
+      if (status !== "all") next.set(STATUS_PARAM, status);
+      return next;
+    }, { replace: true });
+  };
+
+  return [filters, setFilters];
+}
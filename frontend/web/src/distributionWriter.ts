@@ -0,0 +1,167 @@
+// distributionWriter.ts
+import { ethers } from "ethers";
+import { encodeDistributionRecord, FULL_SHARE_BPS, MusicNftRoyaltiesClient } from "@royalties/sdk";
+import type { StoredImportSource, StoredSplitAllocation } from "@royalties/sdk";
+import { normAddr } from "./contract";
+import { DISTRIBUTION_INDEX_KEY, distributionKey } from "./distributions";
+import { encryptRoyaltyInput } from "./fhevm";
+import { isNativePayout, PayoutToken } from "./payoutTokens";
+import { trackMinedTransaction, trackTransaction } from "./txTracker";
+
+export interface NewDistribution {
+  recipient: string;
+  nftId: number;
+  // Base units of `token`
+  amount: bigint;
+  token: PayoutToken;
+  // Absent for a sole recipient, who is encrypted with the full share
+  split?: StoredSplitAllocation;
+  source?: StoredImportSource;
+  period?: string;
+}
+
+// Records per setDataBatchAndAppend call in storeDistributionRecordsInBatches
+const STORE_BATCH_SIZE = 20;
+const UNSTORED_RECORDS_KEY = "unstored_distribution_records";
+
+// An encoded distribution record whose royalty is on chain but which is not stored yet.
+export interface PreparedRecord {
+  id: string;
+  bytes: Uint8Array;
+  royaltyId: string;
+}
+
+// A prepared record as kept in localStorage until it is stored.
+interface UnstoredRecord {
+  id: string;
+  bytes: string;
+  royaltyId: string;
+  // MusicNftRoyalties the royalty went to, which tells deployments apart
+  royaltyContract: string;
+}
+
+// Submitting the royalty and storing its record are two transactions, so every prepared record
+// is kept until it is stored. One that never is can be stored later instead of leaving an
+// unlisted royalty behind.
+const readUnstoredRecords = (): UnstoredRecord[] => {
+  try {
+    const raw = localStorage.getItem(UNSTORED_RECORDS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Error reading unstored distribution records:", e);
+    return [];
+  }
+};
+
+const writeUnstoredRecords = (records: UnstoredRecord[]) => {
+  try {
+    localStorage.setItem(UNSTORED_RECORDS_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.error("Error writing unstored distribution records:", e);
+  }
+};
+
+/** Records whose royalty was submitted to `royaltyContract` but which were never stored, oldest first. */
+export function getUnstoredRecords(royaltyContract: string): PreparedRecord[] {
+  return readUnstoredRecords()
+    .filter(record => normAddr(record.royaltyContract) === normAddr(royaltyContract))
+    .map(record => ({ id: record.id, bytes: ethers.getBytes(record.bytes), royaltyId: record.royaltyId }));
+}
+
+export function forgetUnstoredRecords(ids: string[]) {
+  const forgotten = new Set(ids);
+  writeUnstoredRecords(readUnstoredRecords().filter(record => !forgotten.has(record.id)));
+}
+
+export function newDistributionId(): string {
+  return `dist-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function newSplitSheetId(): string {
+  return `split-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Encrypts and submits the royalty for one payee, then encodes the record that points at it.
+ * The record only carries public metadata; the amount, recipient, NFT and share stay in the
+ * encrypted royalty. It still has to be written with `storeDistributionRecords`.
+ */
+export async function submitDistributionRoyalty(
+  royaltyClient: MusicNftRoyaltiesClient,
+  signerAddress: string,
+  distribution: NewDistribution
+): Promise<PreparedRecord> {
+  const { token } = distribution;
+  const encrypted = await encryptRoyaltyInput(royaltyClient.address, signerAddress, {
+    recipient: distribution.recipient,
+    shareBps: distribution.split?.shareBps ?? FULL_SHARE_BPS,
+    nftId: distribution.nftId,
+    amount: distribution.amount,
+    decimals: token.decimals
+  });
+
+  const submitted = await royaltyClient.submitEncryptedRoyalty(encrypted, token.address);
+  trackMinedTransaction(submitted.receipt, "Submit encrypted royalty")
+    .catch(e => console.error("Error tracking royalty submission:", e));
+
+  const royaltyId = submitted.royaltyId.toString();
+  const bytes = encodeDistributionRecord({
+    decimals: token.decimals,
+    ...(isNativePayout(token) ? {} : { payoutToken: { address: token.address, symbol: token.symbol } }),
+    timestamp: Math.floor(Date.now() / 1000),
+    status: "pending",
+    royaltyId,
+    encryptedData: submitted.receipt.hash,
+    ...(distribution.split ? { split: { sheetId: distribution.split.sheetId } } : {}),
+    ...(distribution.source ? { source: distribution.source } : {}),
+    ...(distribution.period ? { period: distribution.period } : {})
+  });
+  const id = newDistributionId();
+  writeUnstoredRecords([
+    ...readUnstoredRecords(),
+    { id, bytes: ethers.hexlify(bytes), royaltyId, royaltyContract: royaltyClient.address }
+  ]);
+  return { id, bytes, royaltyId };
+}
+
+/**
+ * Stores records and appends them to the on-chain index. Several records go out in a single
+ * `setDataBatchAndAppend`, so a batch is either fully listed or not at all.
+ */
+export async function storeDistributionRecords(adapter: ethers.Contract, records: PreparedRecord[]) {
+  if (records.length === 0) return;
+
+  if (records.length === 1) {
+    const [record] = records;
+    const tx = await adapter.setDataAndAppend(distributionKey(record.id), record.bytes, DISTRIBUTION_INDEX_KEY, record.id);
+    await trackTransaction(tx, "Create distribution");
+    forgetUnstoredRecords([record.id]);
+    return;
+  }
+
+  const tx = await adapter.setDataBatchAndAppend(
+    records.map(record => distributionKey(record.id)),
+    records.map(record => record.bytes),
+    DISTRIBUTION_INDEX_KEY,
+    records.map(record => record.id)
+  );
+  await trackTransaction(tx, `Create ${records.length} distributions`);
+  forgetUnstoredRecords(records.map(record => record.id));
+}
+
+/**
+ * Stores many records in chunks of STORE_BATCH_SIZE, so each transaction stays well inside
+ * the block gas limit. `onBatchStored` runs as each chunk lands, letting callers keep track of
+ * what is stored when a later chunk fails.
+ */
+export async function storeDistributionRecordsInBatches(
+  adapter: ethers.Contract,
+  records: PreparedRecord[],
+  onBatchStored: (batch: PreparedRecord[], storedCount: number) => void
+) {
+  for (let start = 0; start < records.length; start += STORE_BATCH_SIZE) {
+    const batch = records.slice(start, start + STORE_BATCH_SIZE);
+    await storeDistributionRecords(adapter, batch);
+    onBatchStored(batch, start + batch.length);
+  }
+}
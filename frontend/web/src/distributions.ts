@@ -0,0 +1,402 @@
+// distributions.ts
+import { ethers } from "ethers";
+import { decodeDistributionRecord, ETH_DECIMALS } from "@royalties/sdk";
+import type { MusicNftRoyaltiesClient, RoyaltyPayout, StoredImportSource, StoredPayoutToken } from "@royalties/sdk";
+import { normAddr } from "./contract";
+import { multicall } from "./multicall";
+import { getDeployment } from "./networks";
+
+// Lifecycle of the linked MusicNftRoyalties entry, as last seen through live events.
+export type RoyaltyProgress = "submitted" | "requested" | "distributed";
+
+// Whether a row shown from the local cache has been re-read from the chain this session.
+export type SyncState = "stale" | "confirmed";
+
+// Role and share are only known for legacy records that published them, or once revealed.
+export interface DistributionSplit {
+  sheetId: string;
+  role?: string;
+  shareBps?: number;
+}
+
+export interface RoyaltyDistribution {
+  id: string;
+  // Base units of the paid asset (wei for ETH). Amount, recipient and NFT are only known when
+  // a legacy record published them or the connected holder revealed their own royalty; the
+  // NFT also becomes public once the royalty is distributed.
+  amount?: bigint;
+  decimals: number;
+  // Set for royalties paid in an ERC-20; absent means ETH
+  payoutToken?: StoredPayoutToken;
+  timestamp: number;
+  recipient?: string;
+  // Free-text NFT reference of a legacy record that named no token id; such rows have no nftId
+  legacyNftId?: string;
+  // "corrupt" marks a stored record that failed schema validation; it is never written back
+  status: "pending" | "distributed" | "failed" | "corrupt";
+  nftId?: string;
+  royaltyId?: string;
+  encryptedData: string;
+  onChainStatus?: RoyaltyProgress;
+  syncState?: SyncState;
+  corruptReason?: string;
+  split?: DistributionSplit;
+  // Set when amount, recipient and NFT come from a record that stored them in cleartext
+  published?: boolean;
+  // Set for distributions created from an imported sales report or statement
+  source?: StoredImportSource;
+  period?: string;
+}
+
+interface DistributionCheckpoint {
+  format: number;
+  fromBlock: number;
+  lastBlock: number;
+  records: Record<string, RoyaltyDistribution>;
+  // Block of the last write seen for each record id, deletions included
+  writtenAt: Record<string, number>;
+}
+
+const KEY_PREFIX = "distribution_";
+export const DISTRIBUTION_INDEX_KEY = "distribution_keys";
+const CHECKPOINT_PREFIX = "royalty_checkpoint_";
+const SCAN_CHUNK_SIZE = 5000;
+const INDEX_PAGE_SIZE = 500;
+// Blocks re-scanned on every load. Records last written in them are dropped and replayed, so a
+// shallow reorg cannot leave stale records behind.
+const REORG_DEPTH = 12;
+// Bumped whenever the persisted row shape changes; older checkpoints are rescanned from scratch.
+const CHECKPOINT_FORMAT = 4;
+
+const checkpointKey = (chainId: number, address: string) => `${CHECKPOINT_PREFIX}${chainId}_${normAddr(address)}`;
+
+// Amounts are bigint, which JSON cannot hold, so they are persisted as decimal strings.
+const readCheckpoint = (chainId: number, address: string): DistributionCheckpoint | null => {
+  try {
+    const raw = localStorage.getItem(checkpointKey(chainId, address));
+    const checkpoint = raw ? JSON.parse(raw) : null;
+    if (!checkpoint || checkpoint.format !== CHECKPOINT_FORMAT) return null;
+    Object.values<RoyaltyDistribution>(checkpoint.records).forEach(record => {
+      if (record.amount !== undefined) record.amount = BigInt(record.amount);
+    });
+    return checkpoint;
+  } catch (e) {
+    console.error("Error reading distribution checkpoint:", e);
+    return null;
+  }
+};
+
+const writeCheckpoint = (chainId: number, address: string, checkpoint: DistributionCheckpoint) => {
+  try {
+    const serialized = JSON.stringify(checkpoint, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+    localStorage.setItem(checkpointKey(chainId, address), serialized);
+  } catch (e) {
+    console.error("Error writing distribution checkpoint:", e);
+  }
+};
+
+export function clearDistributionCheckpoint(chainId: number, address: string) {
+  localStorage.removeItem(checkpointKey(chainId, address));
+}
+
+export function assetSymbol(dist: RoyaltyDistribution): string {
+  return dist.payoutToken?.symbol ?? "ETH";
+}
+
+/** Whether the royalty behind `dist` is on chain and has not been sent for distribution yet. */
+export function canRequestDistribution(dist: RoyaltyDistribution): boolean {
+  return dist.status === "pending" && dist.royaltyId !== undefined &&
+    (dist.onChainStatus === undefined || dist.onChainStatus === "submitted");
+}
+
+export interface AssetTotal {
+  amount: bigint;
+  decimals: number;
+}
+
+// Amounts in different assets cannot be added up, so totals are kept per asset symbol. Only
+// amounts the viewer can see are counted.
+export function totalsByAsset(list: RoyaltyDistribution[]): Map<string, AssetTotal> {
+  return list.reduce((totals, dist) => {
+    if (dist.status === "corrupt" || dist.amount === undefined) return totals;
+    const symbol = assetSymbol(dist);
+    const current = totals.get(symbol);
+    totals.set(symbol, { amount: (current?.amount ?? 0n) + dist.amount, decimals: dist.decimals });
+    return totals;
+  }, new Map<string, AssetTotal>());
+}
+
+/** Where an imported distribution came from, e.g. "DSR MSG-1" or "statement.csv row 12", with its period. */
+export function importSourceTitle(dist: RoyaltyDistribution): string {
+  if (!dist.source) return "";
+  const origin = dist.source.format === "ddex-dsr"
+    ? `DSR ${dist.source.messageId}`
+    : `${dist.source.fileName} row ${dist.source.row}`;
+  return dist.period ? `${origin}, ${dist.period}` : origin;
+}
+
+export function distributionKey(id: string): string {
+  return `${KEY_PREFIX}${id}`;
+}
+
+export function distributionIdFromKey(key: string): string | null {
+  if (!key.startsWith(KEY_PREFIX) || key === DISTRIBUTION_INDEX_KEY) return null;
+  return key.substring(KEY_PREFIX.length);
+}
+
+/**
+ * Decodes a stored record into a row. Returns null only for an empty value (a deleted
+ * record); anything that fails validation comes back as a "corrupt" row instead of vanishing.
+ */
+export function parseDistribution(id: string, bytes: ethers.BytesLike): RoyaltyDistribution | null {
+  if (ethers.getBytes(bytes).length === 0) return null;
+
+  const decoded = decodeDistributionRecord(bytes);
+  if (!decoded.ok) {
+    console.error(`Corrupt distribution record ${id}: ${decoded.error}`);
+    return {
+      id,
+      decimals: ETH_DECIMALS,
+      timestamp: 0,
+      status: "corrupt",
+      encryptedData: decoded.raw,
+      corruptReason: decoded.error
+    };
+  }
+
+  const { record } = decoded;
+  const { published } = record;
+  return {
+    id,
+    decimals: record.decimals,
+    payoutToken: record.payoutToken,
+    timestamp: record.timestamp,
+    status: record.status,
+    royaltyId: record.royaltyId,
+    encryptedData: record.encryptedData,
+    split: record.split && { ...record.split, ...published?.split },
+    source: record.source,
+    period: record.period,
+    ...(published ? {
+      amount: BigInt(published.amount),
+      recipient: published.recipient,
+      nftId: published.nftId,
+      legacyNftId: published.legacyNftId,
+      published: true
+    } : {})
+  };
+}
+
+// What the connected holder decrypted of a royalty paid to them.
+export interface RevealedShare {
+  shareBps: number;
+  amount: bigint;
+  nftId: string;
+  // The revealing holder, who is the royalty's recipient
+  recipient: string;
+  // Whether the royalty has been paid out to the holder's payout balance
+  payout: RoyaltyPayout;
+}
+
+/**
+ * Fills in the payee fields of each royalty the connected holder revealed. Revealed values
+ * stay in memory: they are never written to the checkpoint or cache, where anyone later using
+ * the same browser could read them.
+ */
+export function withRevealedShares(
+  list: RoyaltyDistribution[],
+  revealed: Record<string, RevealedShare>
+): RoyaltyDistribution[] {
+  return list.map(dist => {
+    const share = revealed[dist.id];
+    if (!share) return dist;
+    return {
+      ...dist,
+      amount: share.amount,
+      recipient: share.recipient,
+      nftId: share.nftId,
+      ...(dist.split ? { split: { ...dist.split, shareBps: share.shareBps } } : {})
+    };
+  });
+}
+
+/**
+ * Adds the NFT of every linked royalty that has been distributed, which the contract decrypts
+ * publicly at that point, and marks the royalty distributed. The chain decides the status: the
+ * adapter record is metadata written at creation. Amounts and recipients stay encrypted.
+ */
+export async function withDistributedNftIds(
+  royalty: MusicNftRoyaltiesClient,
+  list: RoyaltyDistribution[]
+): Promise<RoyaltyDistribution[]> {
+  const provider = royalty.contract.runner?.provider;
+  const linked = list.filter(dist => dist.royaltyId && dist.status !== "corrupt");
+  if (!provider || linked.length === 0) return list;
+
+  const contract = new ethers.Contract(royalty.address, royalty.contract.interface, provider);
+  const results = await multicall<[bigint, boolean]>(
+    provider,
+    linked.map(dist => ({ contract, method: "getDecryptedRoyalty", args: [dist.royaltyId] }))
+  );
+
+  const nftIds = new Map<string, string>();
+  results.forEach((result, index) => {
+    if (!result.success) {
+      console.error(`Error loading royalty ${linked[index].royaltyId}:`, result.error);
+      return;
+    }
+    const [nftId, isRevealed] = result.value;
+    if (isRevealed) nftIds.set(linked[index].id, nftId.toString());
+  });
+  return list.map(dist => (
+    nftIds.has(dist.id)
+      ? { ...dist, nftId: nftIds.get(dist.id), status: "distributed", onChainStatus: "distributed" }
+      : dist
+  ));
+}
+
+// Binary search for the first block holding the adapter's code, used when the deployment
+// registry does not record a deployment block. This needs an RPC that serves historical
+// state; without one, scanning starts at block 0.
+export async function findDeploymentBlock(provider: ethers.Provider, address: string, latest: number): Promise<number> {
+  let low = 0;
+  let high = latest;
+  try {
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const code = await provider.getCode(address, mid);
+      if (code === "0x") {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+  } catch (e) {
+    console.error("Historical state unavailable, scanning from block 0:", e);
+    return 0;
+  }
+  return low;
+}
+
+/**
+ * Rebuilds the distribution list from the adapter's `DataStored` events instead of the
+ * shared `distribution_keys` index. Scanned block ranges and the records found in them
+ * are checkpointed in localStorage, so each load only queries blocks mined since the last one.
+ */
+export async function loadDistributionsFromEvents(contract: ethers.Contract): Promise<RoyaltyDistribution[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract is not connected to a provider");
+  }
+
+  const address = await contract.getAddress();
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const latest = await provider.getBlockNumber();
+
+  let checkpoint = readCheckpoint(chainId, address);
+  if (!checkpoint) {
+    const configured = (await getDeployment(chainId))?.deploymentBlock;
+    const fromBlock = configured ?? await findDeploymentBlock(provider, address, latest);
+    checkpoint = { format: CHECKPOINT_FORMAT, fromBlock, lastBlock: fromBlock - 1, records: {}, writtenAt: {} };
+  }
+
+  const start = Math.max(checkpoint.fromBlock, checkpoint.lastBlock - REORG_DEPTH + 1);
+  const { records, writtenAt } = checkpoint;
+  // Writes in the re-scanned blocks may have been orphaned; only the replay below can confirm them
+  const unconfirmed = new Set(Object.keys(writtenAt).filter(id => writtenAt[id] >= start));
+  unconfirmed.forEach(id => delete records[id]);
+
+  for (let from = start; from <= latest; from += SCAN_CHUNK_SIZE) {
+    const to = Math.min(from + SCAN_CHUNK_SIZE - 1, latest);
+    const logs = await contract.queryFilter(contract.filters.DataStored(), from, to);
+
+    for (const log of logs) {
+      if (!("args" in log)) continue;
+      const id = distributionIdFromKey(log.args.key);
+      if (!id) continue;
+
+      const record = parseDistribution(id, log.args.value);
+      if (record) {
+        records[id] = record;
+      } else {
+        delete records[id];
+      }
+      writtenAt[id] = log.blockNumber;
+      unconfirmed.delete(id);
+    }
+
+    checkpoint.lastBlock = to;
+    writeCheckpoint(chainId, address, checkpoint);
+  }
+
+  // A write that did not come back was orphaned; the record holds whatever an earlier block wrote
+  if (unconfirmed.size > 0) {
+    for (const id of unconfirmed) {
+      const record = parseDistribution(id, await contract.getData(distributionKey(id)));
+      if (record) records[id] = record;
+      writtenAt[id] = start - 1;
+    }
+    writeCheckpoint(chainId, address, checkpoint);
+  }
+
+  return Object.values(records).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Reads the distribution list from the adapter's on-chain index plus the legacy
+ * `distribution_keys` blob, batching every `getIndexEntries` and `getData` call through
+ * Multicall3. Used when the RPC refuses the log queries the event loader relies on.
+ */
+export async function loadDistributionsFromIndex(contract: ethers.Contract): Promise<RoyaltyDistribution[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract is not connected to a provider");
+  }
+
+  const [lengthResult, legacyResult] = await multicall(provider, [
+    { contract, method: "getIndexLength", args: [DISTRIBUTION_INDEX_KEY] },
+    { contract, method: "getData", args: [DISTRIBUTION_INDEX_KEY] }
+  ]);
+
+  const ids = new Set<string>();
+
+  if (legacyResult.success && ethers.getBytes(legacyResult.value as string).length > 0) {
+    try {
+      const legacyIds: string[] = JSON.parse(ethers.toUtf8String(legacyResult.value as string));
+      legacyIds.forEach(id => ids.add(id));
+    } catch (e) {
+      console.error("Error parsing distribution keys:", e);
+    }
+  }
+
+  const indexLength = lengthResult.success ? Number(lengthResult.value) : 0;
+  const pageRequests = [];
+  for (let offset = 0; offset < indexLength; offset += INDEX_PAGE_SIZE) {
+    pageRequests.push({ contract, method: "getIndexEntries", args: [DISTRIBUTION_INDEX_KEY, offset, INDEX_PAGE_SIZE] });
+  }
+  for (const page of await multicall<string[]>(provider, pageRequests)) {
+    if (page.success) {
+      page.value.forEach(id => ids.add(id));
+    } else {
+      console.error("Error loading distribution index page:", page.error);
+    }
+  }
+
+  const idList = [...ids];
+  const records = await multicall<string>(
+    provider,
+    idList.map(id => ({ contract, method: "getData", args: [distributionKey(id)] }))
+  );
+
+  const list: RoyaltyDistribution[] = [];
+  records.forEach((result, index) => {
+    if (!result.success) {
+      console.error(`Error loading distribution ${idList[index]}:`, result.error);
+      return;
+    }
+    const record = parseDistribution(idList[index], result.value);
+    if (record) list.push(record);
+  });
+
+  return list.sort((a, b) => b.timestamp - a.timestamp);
+}
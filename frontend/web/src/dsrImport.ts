@@ -0,0 +1,429 @@
+// dsrImport.ts
+import { ENCRYPTED_AMOUNT_DECIMALS, parseAmount } from "@royalties/sdk";
+import { toCsv } from "./csv";
+import type { PreparedRecord } from "./distributionWriter";
+import { allocateSplit, getSplitTemplate, SplitPayee } from "./splitSheets";
+
+// Precision revenue is summed at, so thousands of sub-cent sales lines add up exactly.
+export const REVENUE_DECIMALS = 18;
+// Precision of the rate converting the report's currency into the payout token.
+export const RATE_DECIMALS = 9;
+
+/**
+ * Column layouts assumed for DSR flat-file records when the file does not describe them
+ * itself with `#`-prefixed header rows. Records are matched on their family, so SU01, SU02
+ * and SU03 share the SU layout.
+ */
+const DEFAULT_LAYOUTS: Record<string, string[]> = {
+  HEAD: [
+    "RecordType", "MessageVersion", "Profile", "ProfileVersion", "MessageId", "MessageCreatedDateTime",
+    "FileNumber", "NumberOfFiles", "UsageStartDate", "UsageEndDate", "SenderPartyId", "SenderName",
+    "ServiceDescription", "RecipientPartyId", "RecipientName", "RepresentedRepertoire"
+  ],
+  SY: [
+    "RecordType", "SummaryRecordId", "CommercialModel", "UseType", "Territory", "ServiceDescription",
+    "Usages", "Users", "CurrencyOfReporting", "NetRevenue"
+  ],
+  RE: [
+    "RecordType", "BlockId", "ReleaseReference", "DspReleaseId", "ProprietaryReleaseId", "CatalogNumber",
+    "ICPN", "DisplayTitle", "DisplayArtistName"
+  ],
+  AS: [
+    "RecordType", "BlockId", "ResourceReference", "DspResourceId", "ISRC", "Title", "SubTitle",
+    "DisplayArtistName", "DisplayArtistPartyId", "Duration", "ResourceType"
+  ],
+  SU: [
+    "RecordType", "BlockId", "SalesTransactionId", "SummaryRecordId", "DspResourceId", "UseType",
+    "CommercialModel", "Territory", "NumberOfUsages", "CurrencyOfReporting", "AmountPayable"
+  ],
+  FOOT: ["RecordType", "NumberOfLinesInFile", "NumberOfLinesInReport", "NumberOfSummaryRecords", "NumberOfBlocksInFile"]
+};
+
+// Profiles name the payable amount and currency differently; the first non-empty one wins.
+const REVENUE_FIELDS = ["AmountPayable", "RoyaltyAmount", "NetRevenue", "Revenue"];
+const CURRENCY_FIELDS = ["CurrencyOfReporting", "CurrencyOfTransaction", "Currency"];
+const USAGE_FIELDS = ["NumberOfUsages", "Usages", "NumberOfStreams"];
+
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+const REVENUE_PATTERN = /^(-?)(\d*)(?:\.(\d*))?$/;
+const MAPPINGS_KEY_PREFIX = "isrc_mappings_";
+
+export interface DsrHeader {
+  messageId: string;
+  senderName: string;
+  usageStartDate: string;
+  usageEndDate: string;
+}
+
+export interface DsrSalesLine {
+  lineNumber: number;
+  isrc: string | null;
+  title: string | null;
+  // REVENUE_DECIMALS fixed point; negative for returns and adjustments
+  revenue: bigint | null;
+  revenueText: string;
+  currency: string | null;
+  usages: string | null;
+}
+
+export interface DsrIssue {
+  lineNumber: number;
+  message: string;
+}
+
+export interface DsrReport {
+  header: DsrHeader;
+  // Currency of the first priced sales line; lines in any other currency are not imported
+  currency: string | null;
+  salesLines: DsrSalesLine[];
+  issues: DsrIssue[];
+}
+
+export interface IsrcRevenue {
+  isrc: string;
+  title: string | null;
+  revenue: bigint;
+  lineNumbers: number[];
+}
+
+export type LineStatus = "planned" | "created" | "failed" | "unmapped" | "no-split" | "skipped";
+
+export interface LineReconciliation {
+  lineNumber: number;
+  isrc: string | null;
+  revenueText: string;
+  status: LineStatus;
+  nftId: string | null;
+  detail: string;
+  distributionIds: string[];
+}
+
+// One ISRC's revenue, converted to the payout token and split per the NFT's saved sheet.
+export interface PlannedDistribution {
+  isrc: string;
+  nftId: string;
+  amount: bigint;
+  payees: SplitPayee[];
+  amounts: bigint[];
+  lineNumbers: number[];
+}
+
+export interface ImportPlan {
+  distributions: PlannedDistribution[];
+  lines: LineReconciliation[];
+}
+
+// What happened to one planned distribution when the import ran.
+export interface ImportedDistribution {
+  // One entry per payee whose royalty was submitted, in payee order
+  records: { record: PreparedRecord; stored: boolean }[];
+  // Why the remaining payees were not submitted
+  error: string | null;
+}
+
+const recordFamily = (recordType: string) =>
+  recordType === "HEAD" || recordType === "FOOT" ? recordType : recordType.substring(0, 2);
+
+const pick = (fields: Record<string, string>, names: string[]): string | null => {
+  for (const name of names) {
+    if (fields[name]) return fields[name];
+  }
+  return null;
+};
+
+export function normalizeIsrc(value: string): string | null {
+  const isrc = value.replace(/[-\s]/g, "").toUpperCase();
+  return ISRC_PATTERN.test(isrc) ? isrc : null;
+}
+
+/** Reads a report amount such as "-0.000412" as REVENUE_DECIMALS fixed point, dropping any finer digits. */
+export function parseRevenue(value: string): bigint | null {
+  const match = REVENUE_PATTERN.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, whole, fraction = ""] = match;
+  const units = BigInt((whole || "0") + fraction.substring(0, REVENUE_DECIMALS).padEnd(REVENUE_DECIMALS, "0"));
+  return sign ? -units : units;
+}
+
+/**
+ * Parses a DDEX DSR flat file. Sales (SU) lines take their ISRC from their own ISRC column
+ * when the profile has one, otherwise from the single resource (AS) record of their block,
+ * and their currency from the line or its summary (SY) record. Lines that cannot be read
+ * are kept with null fields and explained in `issues`, so every line can be reconciled.
+ */
+export function parseDsr(text: string): DsrReport {
+  const rows = text.split(/\r?\n/);
+  const delimiter = rows.find(row => row.trim())?.includes("\t") ? "\t" : "|";
+  const layouts: Record<string, string[]> = {};
+  const issues: DsrIssue[] = [];
+  const summaryCurrencies = new Map<string, string>();
+  const blockResources = new Map<string, { isrc: string | null; title: string | null }[]>();
+  const sales: { lineNumber: number; fields: Record<string, string> }[] = [];
+  let head: Record<string, string> | null = null;
+
+  rows.forEach((row, index) => {
+    const lineNumber = index + 1;
+    if (!row.trim()) return;
+
+    const cells = row.split(delimiter).map(cell => cell.trim());
+    if (cells[0].startsWith("#")) {
+      layouts[cells[0].substring(1)] = ["RecordType", ...cells.slice(1)];
+      return;
+    }
+
+    const recordType = cells[0];
+    const family = recordFamily(recordType);
+    const layout = layouts[recordType] ?? layouts[family] ?? DEFAULT_LAYOUTS[family];
+    if (!layout) {
+      issues.push({ lineNumber, message: `Unknown record type "${recordType}"` });
+      return;
+    }
+    const fields: Record<string, string> = {};
+    layout.forEach((name, column) => {
+      fields[name] = cells[column] ?? "";
+    });
+
+    switch (family) {
+      case "HEAD":
+        head = fields;
+        break;
+      case "SY": {
+        const currency = pick(fields, CURRENCY_FIELDS);
+        if (fields.SummaryRecordId && currency) summaryCurrencies.set(fields.SummaryRecordId, currency);
+        break;
+      }
+      case "AS": {
+        const isrc = fields.ISRC ? normalizeIsrc(fields.ISRC) : null;
+        if (fields.ISRC && !isrc) issues.push({ lineNumber, message: `"${fields.ISRC}" is not a valid ISRC` });
+        const resources = blockResources.get(fields.BlockId) ?? [];
+        resources.push({ isrc, title: fields.Title || null });
+        blockResources.set(fields.BlockId, resources);
+        break;
+      }
+      case "SU":
+        sales.push({ lineNumber, fields });
+        break;
+    }
+  });
+
+  if (!head) {
+    throw new Error("Not a DDEX DSR file: it has no HEAD record");
+  }
+  const header = head as Record<string, string>;
+
+  const salesLines = sales.map(({ lineNumber, fields }): DsrSalesLine => {
+    let isrc: string | null = null;
+    let title: string | null = null;
+    if (fields.ISRC) {
+      isrc = normalizeIsrc(fields.ISRC);
+      if (!isrc) issues.push({ lineNumber, message: `"${fields.ISRC}" is not a valid ISRC` });
+    } else {
+      const resources = blockResources.get(fields.BlockId) ?? [];
+      if (resources.length === 1) {
+        ({ isrc, title } = resources[0]);
+      } else {
+        issues.push({
+          lineNumber,
+          message: resources.length === 0
+            ? `Block "${fields.BlockId}" has no sound recording to take an ISRC from`
+            : `Block "${fields.BlockId}" has ${resources.length} sound recordings; the sale cannot be attributed to one ISRC`
+        });
+      }
+    }
+
+    const revenueText = pick(fields, REVENUE_FIELDS) ?? "";
+    const revenue = parseRevenue(revenueText);
+    if (revenue === null) {
+      issues.push({ lineNumber, message: revenueText ? `"${revenueText}" is not an amount` : "No payable amount" });
+    }
+
+    return {
+      lineNumber,
+      isrc,
+      title,
+      revenue,
+      revenueText,
+      currency: pick(fields, CURRENCY_FIELDS) ?? summaryCurrencies.get(fields.SummaryRecordId) ?? null,
+      usages: pick(fields, USAGE_FIELDS)
+    };
+  });
+
+  return {
+    header: {
+      messageId: header.MessageId ?? "",
+      senderName: header.SenderName ?? "",
+      usageStartDate: header.UsageStartDate ?? "",
+      usageEndDate: header.UsageEndDate ?? ""
+    },
+    currency: salesLines.find(line => line.revenue !== null && line.currency)?.currency ?? null,
+    salesLines,
+    issues
+  };
+}
+
+const isImportable = (report: DsrReport, line: DsrSalesLine) =>
+  line.isrc !== null && line.revenue !== null && (!line.currency || line.currency === report.currency);
+
+/** Net revenue per ISRC over the lines that can be imported, in first-seen order. */
+export function aggregateByIsrc(report: DsrReport): IsrcRevenue[] {
+  const totals = new Map<string, IsrcRevenue>();
+  for (const line of report.salesLines) {
+    if (!isImportable(report, line)) continue;
+    const total = totals.get(line.isrc!) ?? { isrc: line.isrc!, title: null, revenue: 0n, lineNumbers: [] };
+    total.title = total.title ?? line.title;
+    total.revenue += line.revenue!;
+    total.lineNumbers.push(line.lineNumber);
+    totals.set(line.isrc!, total);
+  }
+  return [...totals.values()];
+}
+
+/**
+ * Converts REVENUE_DECIMALS revenue into base units of a token with `decimals` decimals at
+ * `rate` (RATE_DECIMALS fixed point), rounding down to a step an encrypted amount can hold.
+ */
+export function toPayoutAmount(revenue: bigint, rate: bigint, decimals: number): bigint {
+  const scale = REVENUE_DECIMALS + RATE_DECIMALS;
+  const product = revenue * rate;
+  let amount = decimals >= scale
+    ? product * 10n ** BigInt(decimals - scale)
+    : product / 10n ** BigInt(scale - decimals);
+  if (decimals > ENCRYPTED_AMOUNT_DECIMALS) {
+    amount -= amount % 10n ** BigInt(decimals - ENCRYPTED_AMOUNT_DECIMALS);
+  }
+  return amount;
+}
+
+export function parseRate(value: string): bigint {
+  const rate = parseAmount(value, RATE_DECIMALS);
+  if (rate === 0n) {
+    throw new Error("Rate must be greater than 0");
+  }
+  return rate;
+}
+
+/**
+ * Works out which distributions an import creates and what happens to every sales line.
+ * Each mapped ISRC becomes one split across the payees of its NFT's saved split sheet.
+ */
+export function planDsrImport(
+  chainId: number,
+  report: DsrReport,
+  mappings: Record<string, string>,
+  decimals: number,
+  rate: bigint
+): ImportPlan {
+  const outcomes = new Map<number, Pick<LineReconciliation, "status" | "nftId" | "detail">>();
+  const distributions: PlannedDistribution[] = [];
+
+  for (const group of aggregateByIsrc(report)) {
+    const nftId = mappings[group.isrc] || null;
+    const mark = (status: LineStatus, detail: string) =>
+      group.lineNumbers.forEach(lineNumber => outcomes.set(lineNumber, { status, nftId, detail }));
+
+    if (!nftId) {
+      mark("unmapped", "ISRC is not mapped to an NFT");
+      continue;
+    }
+    const template = getSplitTemplate(chainId, nftId);
+    if (!template) {
+      mark("no-split", `NFT #${nftId} has no saved split sheet`);
+      continue;
+    }
+    const amount = toPayoutAmount(group.revenue, rate, decimals);
+    if (amount <= 0n) {
+      mark("skipped", group.revenue > 0n ? "Revenue for this ISRC rounds down to nothing" : "Net revenue for this ISRC is not positive");
+      continue;
+    }
+    const amounts = allocateSplit(amount, decimals, template.payees);
+    if (amounts.some(part => part === 0n)) {
+      mark("skipped", `Revenue for this ISRC is too small to split across NFT #${nftId}'s payees`);
+      continue;
+    }
+
+    mark("planned", `${group.lineNumbers.length} line(s) for this ISRC, split across ${template.payees.length} payee(s)`);
+    distributions.push({ isrc: group.isrc, nftId, amount, payees: template.payees, amounts, lineNumbers: group.lineNumbers });
+  }
+
+  const lines = report.salesLines.map((line): LineReconciliation => {
+    const base = { lineNumber: line.lineNumber, isrc: line.isrc, revenueText: line.revenueText, distributionIds: [] };
+    const outcome = outcomes.get(line.lineNumber);
+    if (outcome) return { ...base, ...outcome };
+
+    let detail = "No ISRC for this sale";
+    if (line.isrc && line.revenue === null) detail = "No readable payable amount";
+    if (line.isrc && line.revenue !== null) detail = `Reported in ${line.currency}, not ${report.currency}`;
+    return { ...base, status: "skipped", nftId: null, detail };
+  });
+
+  return { distributions, lines };
+}
+
+/**
+ * The reconciliation once an import has run: lines of planned distributions move to
+ * "created" when every payee's record is stored, and to "failed" with the reason otherwise.
+ * `results` follows `plan.distributions`; distributions without a result keep their plan.
+ */
+export function reconcileImport(
+  plan: ImportPlan,
+  results: ImportedDistribution[],
+  storeError: string | null
+): LineReconciliation[] {
+  const outcomes = new Map<number, Pick<LineReconciliation, "status" | "detail" | "distributionIds">>();
+  plan.distributions.forEach((planned, index) => {
+    const result = results[index];
+    if (!result) return;
+
+    const storedIds = result.records.filter(entry => entry.stored).map(entry => entry.record.id);
+    const unstored = result.records.length - storedIds.length;
+    let status: LineStatus = "created";
+    let detail = `${storedIds.length} distribution(s) created for NFT #${planned.nftId}`;
+    if (result.error) {
+      status = "failed";
+      detail = result.records.length > 0
+        ? `${result.records.length} of ${planned.payees.length} payee royalties submitted, then: ${result.error}`
+        : result.error;
+    }
+    if (unstored > 0) {
+      status = "failed";
+      detail = `${unstored} royalty record(s) submitted but not stored${storeError ? `: ${storeError}` : ""}`;
+    }
+    planned.lineNumbers.forEach(lineNumber => outcomes.set(lineNumber, { status, detail, distributionIds: storedIds }));
+  });
+  return plan.lines.map(line => ({ ...line, ...outcomes.get(line.lineNumber) }));
+}
+
+export function getIsrcMappings(chainId: number): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(`${MAPPINGS_KEY_PREFIX}${chainId}`);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Error reading ISRC mappings:", e);
+    return {};
+  }
+}
+
+// Mappings are kept per chain, like split sheets, since NFT ids differ between networks.
+export function saveIsrcMappings(chainId: number, mappings: Record<string, string>) {
+  try {
+    localStorage.setItem(`${MAPPINGS_KEY_PREFIX}${chainId}`, JSON.stringify(mappings));
+  } catch (e) {
+    console.error("Error writing ISRC mappings:", e);
+  }
+}
+
+/** The reconciliation report as CSV, one row per sales line of the imported file. */
+export function reconciliationCsv(lines: LineReconciliation[]): string {
+  return toCsv([
+    ["line", "isrc", "revenue", "status", "nft_id", "distribution_ids", "detail"],
+    ...lines.map(line => [
+      String(line.lineNumber),
+      line.isrc ?? "",
+      line.revenueText,
+      line.status,
+      line.nftId ?? "",
+      line.distributionIds.join(" "),
+      line.detail
+    ])
+  ]);
+}
@@ -0,0 +1,126 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import { ENCRYPTED_AMOUNT_DECIMALS, FULL_SHARE_BPS, toEncryptedAmount } from "@royalties/sdk";
+import type { EncryptedRoyaltyInput } from "@royalties/sdk";
+import { createInstance, DecryptedResults, FhevmInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import { getActiveChainId, requireDeployment } from "./networks";
+import { getWalletProvider } from "./wallets";
+import type { Eip1193Provider } from "./wallets";
+
+export { ENCRYPTED_AMOUNT_DECIMALS, FULL_SHARE_BPS };
+
+const USER_DECRYPT_DURATION_DAYS = 1;
+const SEPOLIA_CHAIN_ID = 11155111;
+
+export interface RoyaltyInput {
+  recipient: string;
+  shareBps: number;
+  nftId: number;
+  // Base units of the paid asset, with the asset's decimals
+  amount: bigint;
+  decimals: number;
+}
+
+// One instance per chain, replaced when the wallet provider it was created with changes.
+const instances = new Map<number, { provider: Eip1193Provider; instance: Promise<FhevmInstance> }>();
+
+/**
+ * Relayer SDK instance for `chainId` (the wallet's chain by default), configured from the
+ * chain's `fhevm` entry in the deployment registry and talking through the connected wallet.
+ */
+export function getFhevmInstance(chainId: number = getActiveChainId()): Promise<FhevmInstance> {
+  const provider = getWalletProvider();
+  if (!provider) {
+    return Promise.reject(new Error("Connect a wallet to use FHE encryption"));
+  }
+
+  const cached = instances.get(chainId);
+  if (cached && cached.provider === provider) {
+    return cached.instance;
+  }
+
+  const instance = (async () => {
+    const deployment = await requireDeployment(chainId);
+    const fhevmConfig = deployment.fhevm ?? (chainId === SEPOLIA_CHAIN_ID ? SepoliaConfig : null);
+    if (!fhevmConfig) {
+      throw new Error(`No FHEVM configuration registered for chain ${chainId}`);
+    }
+    await initSDK();
+    return createInstance({ ...fhevmConfig, chainId, network: provider });
+  })();
+  instances.set(chainId, { provider, instance });
+  // Let the next caller retry if the relayer or WASM download failed.
+  instance.catch(() => {
+    if (instances.get(chainId)?.instance === instance) {
+      instances.delete(chainId);
+    }
+  });
+  return instance;
+}
+
+export function parseNftId(value: string): number {
+  const nftId = Number(value);
+  if (!Number.isInteger(nftId) || nftId < 0 || nftId > 0xffffffff) {
+    throw new Error("NFT ID must be a whole number between 0 and 4294967295");
+  }
+  return nftId;
+}
+
+/**
+ * Encrypts one royalty record for `MusicNftRoyalties.submitEncryptedRoyalty`. Handles are
+ * returned in the contract's argument order: owner, share, NFT id, amount.
+ */
+export async function encryptRoyaltyInput(
+  contractAddress: string,
+  userAddress: string,
+  input: RoyaltyInput
+): Promise<EncryptedRoyaltyInput> {
+  if (!ethers.isAddress(input.recipient)) {
+    throw new Error("Invalid recipient address");
+  }
+  if (!Number.isInteger(input.shareBps) || input.shareBps < 0 || input.shareBps > FULL_SHARE_BPS) {
+    throw new Error("Share must be between 0 and 10000 basis points");
+  }
+
+  const instance = await getFhevmInstance();
+  const encryptedInput = instance.createEncryptedInput(contractAddress, userAddress);
+  encryptedInput.addAddress(ethers.getAddress(input.recipient));
+  encryptedInput.add32(input.shareBps);
+  encryptedInput.add32(input.nftId);
+  encryptedInput.add64(toEncryptedAmount(input.amount, input.decimals));
+
+  return encryptedInput.encrypt();
+}
+
+/**
+ * Runs the user-decryption flow for handles the signer has ACL access to: a throwaway
+ * keypair is generated, its public key is authorised with an EIP-712 signature, and the
+ * relayer re-encrypts the values so only this browser can read them.
+ */
+export async function userDecryptHandles(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<DecryptedResults> {
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, USER_DECRYPT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  return instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    startTimestamp,
+    USER_DECRYPT_DURATION_DAYS
+  );
+}
@@ -0,0 +1,314 @@
+// liveUpdates.ts
+import { ethers } from "ethers";
+import { MusicNftRoyaltiesClient } from "@royalties/sdk";
+import type { RoyaltyEvent } from "@royalties/sdk";
+import { ABI, getReadProvider } from "./contract";
+import { distributionIdFromKey, parseDistribution, RoyaltyDistribution, RoyaltyProgress } from "./distributions";
+import { NetworkDeployment } from "./networks";
+
+export type LiveUpdate =
+  | { type: "distribution"; id: string; record: RoyaltyDistribution | null }
+  // `nftId` comes with "distributed", when the contract decrypts it publicly
+  | { type: "royalty"; royaltyId: string; progress: RoyaltyProgress; nftId?: string };
+
+export type LiveStatus = "connecting" | "live" | "polling" | "reconnecting" | "stopped";
+
+export interface LiveUpdateOptions {
+  onUpdate: (update: LiveUpdate) => void;
+  onStatusChange?: (status: LiveStatus) => void;
+  // First block to deliver; defaults to the last few blocks before the current head.
+  fromBlock?: number;
+}
+
+const POLL_INTERVAL_MS = 12000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const BACKFILL_CHUNK_SIZE = 5000;
+// Overlap kept when backfilling; updates are idempotent, so re-delivery is harmless.
+const OVERLAP_BLOCKS = 12;
+
+const PROGRESS_RANK: Record<RoyaltyProgress, number> = { submitted: 0, requested: 1, distributed: 2 };
+const PROGRESS_BY_EVENT: Partial<Record<RoyaltyEvent["name"], RoyaltyProgress>> = {
+  RoyaltySubmitted: "submitted",
+  DistributionRequested: "requested",
+  RoyaltyDistributed: "distributed"
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error("Timed out")), ms))
+  ]);
+
+/**
+ * Follows `DataStored` on the adapter and the royalty lifecycle events on
+ * MusicNftRoyalties. Uses the deployment's WebSocket endpoints when it has any,
+ * reconnecting with backoff and backfilling the blocks missed while disconnected;
+ * otherwise polls `eth_getLogs` through the read pool.
+ */
+class DistributionSubscription {
+  private readonly adapter = new ethers.Interface(ABI);
+  private readonly royalty: MusicNftRoyaltiesClient | null;
+  private readonly addresses: string[];
+  private readonly progress = new Map<string, RoyaltyProgress>();
+
+  private socket: ethers.WebSocketProvider | null = null;
+  private lastBlock = -1;
+  private stopped = false;
+  private reconnectAttempts = 0;
+  private wsIndex = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private backfilling: Promise<void> | null = null;
+
+  constructor(
+    private readonly deployment: NetworkDeployment,
+    private readonly readProvider: ethers.JsonRpcProvider,
+    private readonly options: LiveUpdateOptions
+  ) {
+    this.royalty = deployment.royaltyContractAddress
+      ? new MusicNftRoyaltiesClient(deployment.royaltyContractAddress, readProvider)
+      : null;
+    this.addresses = [deployment.contractAddress, deployment.royaltyContractAddress].filter(Boolean) as string[];
+  }
+
+  async start() {
+    const head = await this.readProvider.getBlockNumber();
+    if (this.stopped) return;
+    this.lastBlock = this.options.fromBlock !== undefined ? this.options.fromBlock - 1 : head;
+
+    if (this.deployment.wsUrls?.length) {
+      this.connect();
+    } else {
+      this.setStatus("polling");
+      this.poll();
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.closeSocket();
+    this.setStatus("stopped");
+  }
+
+  private setStatus(status: LiveStatus) {
+    this.options.onStatusChange?.(status);
+  }
+
+  private async poll() {
+    if (this.stopped) return;
+    try {
+      await this.backfill();
+    } catch (e) {
+      console.error("Error polling distribution events:", e);
+    }
+    if (!this.stopped) {
+      this.timer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+    }
+  }
+
+  private async connect() {
+    if (this.stopped) return;
+    this.setStatus(this.reconnectAttempts === 0 ? "connecting" : "reconnecting");
+
+    const urls = this.deployment.wsUrls!;
+    const url = urls[this.wsIndex % urls.length];
+    const network = ethers.Network.from(this.deployment.chainId);
+    const socket = new ethers.WebSocketProvider(url, network, { staticNetwork: network });
+    this.socket = socket;
+
+    // ethers leaves close handling to the caller, so a dropped socket is detected here
+    const websocket = socket.websocket as WebSocket;
+    websocket.onclose = () => this.handleDisconnect(socket);
+    websocket.onerror = () => this.handleDisconnect(socket);
+
+    try {
+      await withTimeout(socket.getBlockNumber(), HEARTBEAT_TIMEOUT_MS);
+      if (this.abandoned(socket)) return;
+      await socket.on({ address: this.addresses }, (log: ethers.Log) => this.handleLogs([log]));
+      if (this.abandoned(socket)) return;
+      await this.backfill();
+      if (this.abandoned(socket)) return;
+
+      this.reconnectAttempts = 0;
+      this.setStatus("live");
+      this.heartbeat = setInterval(() => this.checkHeartbeat(socket), HEARTBEAT_INTERVAL_MS);
+    } catch (e) {
+      console.error("Error subscribing to distribution events:", e);
+      this.handleDisconnect(socket);
+    }
+  }
+
+  // A stop() or a disconnect during one of connect()'s awaits has replaced `socket`; make sure it is gone
+  private abandoned(socket: ethers.WebSocketProvider): boolean {
+    if (!this.stopped && socket === this.socket) return false;
+    socket.destroy().catch(() => undefined);
+    return true;
+  }
+
+  private async checkHeartbeat(socket: ethers.WebSocketProvider) {
+    try {
+      const block = await withTimeout(socket.getBlockNumber(), HEARTBEAT_TIMEOUT_MS);
+      // The socket has delivered everything up to a couple of blocks behind the head
+      this.lastBlock = Math.max(this.lastBlock, block - 2);
+    } catch {
+      this.handleDisconnect(socket);
+    }
+  }
+
+  private handleDisconnect(socket: ethers.WebSocketProvider) {
+    if (socket !== this.socket || this.stopped) return;
+    this.closeSocket();
+
+    this.reconnectAttempts += 1;
+    this.wsIndex += 1;
+    this.setStatus("reconnecting");
+    const delay = Math.min(BASE_RECONNECT_DELAY_MS * 2 ** (this.reconnectAttempts - 1), MAX_RECONNECT_DELAY_MS);
+    this.timer = setTimeout(() => this.connect(), delay);
+  }
+
+  private closeSocket() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.destroy().catch(() => undefined);
+    }
+  }
+
+  // Fetches every log between the last delivered block and the head through the read pool.
+  private backfill(): Promise<void> {
+    if (!this.backfilling) {
+      this.backfilling = this.runBackfill().finally(() => {
+        this.backfilling = null;
+      });
+    }
+    return this.backfilling;
+  }
+
+  private async runBackfill() {
+    const latest = await this.readProvider.getBlockNumber();
+    const start = Math.max(0, this.lastBlock - OVERLAP_BLOCKS + 1);
+
+    for (let from = start; from <= latest && !this.stopped; from += BACKFILL_CHUNK_SIZE) {
+      const to = Math.min(from + BACKFILL_CHUNK_SIZE - 1, latest);
+      const logs = await this.readProvider.getLogs({ address: this.addresses, fromBlock: from, toBlock: to });
+      this.handleLogs(logs);
+      this.lastBlock = Math.max(this.lastBlock, to);
+    }
+  }
+
+  private handleLogs(logs: readonly ethers.Log[]) {
+    const ordered = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of ordered) {
+      if (log.removed) continue;
+      const address = log.address.toLowerCase();
+      if (address === this.deployment.contractAddress?.toLowerCase()) {
+        this.handleAdapterLog(log);
+      } else if (this.royalty && address === this.royalty.address.toLowerCase()) {
+        this.handleRoyaltyLog(log);
+      }
+    }
+  }
+
+  private handleAdapterLog(log: ethers.Log) {
+    let parsed;
+    try {
+      parsed = this.adapter.parseLog(log);
+    } catch {
+      return;
+    }
+    if (!parsed || parsed.name !== "DataStored") return;
+
+    const id = distributionIdFromKey(parsed.args.key);
+    if (!id) return;
+
+    const record = parseDistribution(id, parsed.args.value);
+    if (record?.royaltyId && this.progress.has(record.royaltyId)) {
+      record.onChainStatus = this.progress.get(record.royaltyId);
+    }
+    this.options.onUpdate({ type: "distribution", id, record });
+  }
+
+  private handleRoyaltyLog(log: ethers.Log) {
+    const event = this.royalty!.decodeEvent(log);
+    const progress = event && PROGRESS_BY_EVENT[event.name];
+    if (!event || !progress || !("royaltyId" in event)) return;
+
+    const royaltyId = event.royaltyId.toString();
+    const previous = this.progress.get(royaltyId);
+    // Overlapping backfills replay older events; never move a royalty backwards
+    if (previous && PROGRESS_RANK[previous] >= PROGRESS_RANK[progress]) return;
+
+    this.progress.set(royaltyId, progress);
+    if (progress !== "distributed") {
+      this.options.onUpdate({ type: "royalty", royaltyId, progress });
+      return;
+    }
+    this.royalty!.getDecryptedRoyalty(royaltyId)
+      .then(({ nftId, isRevealed }) => {
+        if (this.stopped) return;
+        const revealed = isRevealed ? { nftId: nftId.toString() } : {};
+        this.options.onUpdate({ type: "royalty", royaltyId, progress, ...revealed });
+      })
+      .catch(e => {
+        console.error("Error reading distributed royalty:", e);
+        if (!this.stopped) this.options.onUpdate({ type: "royalty", royaltyId, progress });
+      });
+  }
+}
+
+/** Starts following distribution changes on `deployment`; returns a function that stops it. */
+export function subscribeToDistributionUpdates(
+  deployment: NetworkDeployment,
+  options: LiveUpdateOptions
+): () => void {
+  let subscription: DistributionSubscription | null = null;
+  let cancelled = false;
+
+  getReadProvider(deployment.chainId)
+    .then(provider => {
+      if (cancelled) return;
+      subscription = new DistributionSubscription(deployment, provider, options);
+      return subscription.start();
+    })
+    .catch(e => {
+      console.error("Error starting live distribution updates:", e);
+      options.onStatusChange?.("stopped");
+    });
+
+  return () => {
+    cancelled = true;
+    subscription?.stop();
+  };
+}
+
+/** Folds a live update into the distribution list without reloading it. */
+export function applyLiveUpdate(list: RoyaltyDistribution[], update: LiveUpdate): RoyaltyDistribution[] {
+  if (update.type === "distribution") {
+    const previous = list.find(dist => dist.id === update.id);
+    const rest = list.filter(dist => dist.id !== update.id);
+    if (!update.record) return rest;
+    // A rewritten record only carries metadata; keep the NFT id already read from its royalty
+    const nftId = update.record.nftId ??
+      (previous?.royaltyId === update.record.royaltyId ? previous?.nftId : undefined);
+    return [...rest, { ...update.record, nftId, syncState: "confirmed" as const }]
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  return list.map(dist => {
+    if (dist.royaltyId !== update.royaltyId) return dist;
+    return {
+      ...dist,
+      ...(update.nftId !== undefined ? { nftId: update.nftId } : {}),
+      onChainStatus: update.progress,
+      status: update.progress === "distributed" ? "distributed" : dist.status
+    };
+  });
+}
@@ -0,0 +1,103 @@
+// multicall.ts
+import { ethers } from "ethers";
+import { config } from "./contract";
+import { getDeployment } from "./networks";
+
+// Canonical Multicall3 deployment, present at the same address on Sepolia and most public chains.
+export const CANONICAL_MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const DEFAULT_CHUNK_SIZE = 200;
+// Chunks in flight at once, so a large read does not burst the RPC endpoint's rate cap.
+const DEFAULT_CONCURRENCY = 2;
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getBlockNumber() view returns (uint256 blockNumber)"
+];
+
+export interface MulticallRequest {
+  contract: ethers.Contract;
+  method: string;
+  args?: unknown[];
+}
+
+export type MulticallResult<T = unknown> =
+  | { success: true; value: T }
+  | { success: false; error: string };
+
+export interface MulticallOptions {
+  chunkSize?: number;
+  concurrency?: number;
+  multicallAddress?: string;
+}
+
+// Local chains get their own Multicall3 from deploy.ts; everything else uses the canonical one.
+const resolveMulticallAddress = async (provider: ethers.Provider) => {
+  const { chainId } = await provider.getNetwork();
+  const deployment = await getDeployment(Number(chainId));
+  return deployment?.multicallAddress || CANONICAL_MULTICALL3;
+};
+
+// Whole number of at least 1, or `fallback` when the setting is not a number at all.
+const atLeastOne = (value: number, fallback: number) =>
+  Number.isFinite(value) ? Math.max(1, Math.floor(value)) : fallback;
+
+/**
+ * Runs many read-only calls through Multicall3's `aggregate3`, `chunkSize` calls per
+ * `eth_call` with at most `concurrency` calls in flight. Failed calls are reported per
+ * entry instead of failing the whole batch. `T` is the decoded value type the caller
+ * expects; single return values are unwrapped, several come back as the ethers Result.
+ */
+export async function multicall<T = unknown>(
+  provider: ethers.Provider,
+  requests: MulticallRequest[],
+  options: MulticallOptions = {}
+): Promise<MulticallResult<T>[]> {
+  const chunkSize = atLeastOne(
+    options.chunkSize ?? config.multicallChunkSize ?? DEFAULT_CHUNK_SIZE,
+    DEFAULT_CHUNK_SIZE
+  );
+  const concurrency = atLeastOne(options.concurrency ?? DEFAULT_CONCURRENCY, DEFAULT_CONCURRENCY);
+  const address = options.multicallAddress ?? await resolveMulticallAddress(provider);
+  const aggregator = new ethers.Contract(address, MULTICALL3_ABI, provider);
+
+  const chunks: MulticallRequest[][] = [];
+  for (let i = 0; i < requests.length; i += chunkSize) {
+    chunks.push(requests.slice(i, i + chunkSize));
+  }
+
+  const runChunk = async (chunk: MulticallRequest[]): Promise<MulticallResult<T>[]> => {
+    const calls = chunk.map(request => ({
+      target: request.contract.target,
+      allowFailure: true,
+      callData: request.contract.interface.encodeFunctionData(request.method, request.args ?? [])
+    }));
+
+    const responses = await aggregator.aggregate3.staticCall(calls);
+
+    return chunk.map((request, index): MulticallResult<T> => {
+      const [success, returnData] = responses[index];
+      if (!success) {
+        return { success: false, error: `${request.method} reverted` };
+      }
+      try {
+        const decoded = request.contract.interface.decodeFunctionResult(request.method, returnData);
+        return { success: true, value: decoded.length === 1 ? decoded[0] : decoded };
+      } catch (e: any) {
+        return { success: false, error: e.message || "Failed to decode result" };
+      }
+    });
+  };
+
+  // Each worker takes the next unclaimed chunk until none are left; results keep chunk order.
+  const chunkResults: MulticallResult<T>[][] = new Array(chunks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      chunkResults[index] = await runChunk(chunks[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return chunkResults.flat();
+}
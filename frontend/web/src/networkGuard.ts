@@ -0,0 +1,42 @@
+// networkGuard.ts
+import { ethers } from "ethers";
+import { getDeployment, requireDeployment } from "./networks";
+import { resolveRpcEndpoints } from "./rpcPool";
+import type { Eip1193Provider } from "./wallets";
+
+// EIP-3085 error code for a chain the wallet has not been told about
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
+const DEFAULT_NATIVE_CURRENCY = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+/** True when the deployment registry has an entry for `chainId`, so writes can target it. */
+export async function isSupportedChain(chainId: number): Promise<boolean> {
+  return (await getDeployment(chainId)) !== null;
+}
+
+/**
+ * Asks the wallet to move to `chainId`, first adding the network from the deployment
+ * registry when the wallet does not know it. A rejection by the user is thrown.
+ */
+export async function switchWalletChain(provider: Eip1193Provider, chainId: number) {
+  const hexChainId = ethers.toQuantity(chainId);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] });
+  } catch (e: any) {
+    // Some wallets wrap the original error instead of passing its code through
+    const code = e?.code ?? e?.data?.originalError?.code;
+    if (code !== UNRECOGNIZED_CHAIN_ERROR) throw e;
+
+    const deployment = await requireDeployment(chainId);
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId: hexChainId,
+        chainName: deployment.name,
+        nativeCurrency: deployment.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY,
+        rpcUrls: resolveRpcEndpoints(chainId, deployment.rpcUrls).map(endpoint => endpoint.url),
+        blockExplorerUrls: deployment.explorerUrl ? [deployment.explorerUrl] : undefined
+      }]
+    });
+  }
+}
@@ -0,0 +1,98 @@
+// networks.ts
+import configJson from "./config.json";
+import type { RpcEndpointConfig } from "./rpcPool";
+
+// FHEVM host contracts and relayer the relayer SDK needs for a chain
+export interface FhevmNetworkConfig {
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+  relayerUrl?: string;
+}
+
+export interface NetworkDeployment {
+  chainId: number;
+  name: string;
+  rpcUrls: RpcEndpointConfig[];
+  wsUrls?: string[];
+  explorerUrl?: string;
+  // Offered to wallets that do not know the chain yet; defaults to 18-decimal ETH
+  nativeCurrency?: { name: string; symbol: string; decimals: number };
+  // Absent on a chain whose network is known but where deploy/deploy.ts has not deployed yet
+  contractAddress?: string;
+  royaltyContractAddress?: string;
+  multicallAddress?: string;
+  deploymentBlock?: number;
+  deployer?: string;
+  // Omitted on Sepolia, where the relayer SDK's own preset applies
+  fhevm?: FhevmNetworkConfig;
+}
+
+type DeploymentRegistry = Record<string, Omit<NetworkDeployment, "chainId">>;
+
+// Written by deploy/deploy.ts into public/, so a new deployment is picked up without a rebuild.
+const REGISTRY_URL = `${import.meta.env.BASE_URL}deployments.json`;
+
+export const DEFAULT_CHAIN_ID: number = configJson.defaultChainId;
+
+let registryPromise: Promise<DeploymentRegistry> | null = null;
+let activeChainId = DEFAULT_CHAIN_ID;
+const chainListeners = new Set<(chainId: number) => void>();
+
+const loadRegistry = (): Promise<DeploymentRegistry> => {
+  if (!registryPromise) {
+    registryPromise = fetch(REGISTRY_URL, { cache: "no-cache" })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load ${REGISTRY_URL}: HTTP ${response.status}`);
+        }
+        return response.json();
+      })
+      .catch(e => {
+        registryPromise = null;
+        throw e;
+      });
+  }
+  return registryPromise;
+};
+
+export async function getSupportedChainIds(): Promise<number[]> {
+  const registry = await loadRegistry();
+  return Object.keys(registry).map(Number);
+}
+
+/** Deployment for `chainId`, or null when nothing is deployed there. */
+export async function getDeployment(chainId: number = activeChainId): Promise<NetworkDeployment | null> {
+  const registry = await loadRegistry();
+  const entry = registry[String(chainId)];
+  return entry ? { ...entry, chainId } : null;
+}
+
+export async function requireDeployment(chainId: number = activeChainId): Promise<NetworkDeployment> {
+  const deployment = await getDeployment(chainId);
+  if (!deployment) {
+    throw new Error(`No deployment registered for chain ${chainId}`);
+  }
+  return deployment;
+}
+
+export function getActiveChainId(): number {
+  return activeChainId;
+}
+
+/** Points read-only access at the wallet's chain; called whenever the wallet reports a chain. */
+export function setActiveChainId(chainId: number) {
+  if (chainId === activeChainId) return;
+  activeChainId = chainId;
+  chainListeners.forEach(listener => listener(chainId));
+}
+
+export function onActiveChainChange(listener: (chainId: number) => void): () => void {
+  chainListeners.add(listener);
+  return () => {
+    chainListeners.delete(listener);
+  };
+}
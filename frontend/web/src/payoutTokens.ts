@@ -0,0 +1,185 @@
+// payoutTokens.ts
+import { ethers } from "ethers";
+import { ETH_DECIMALS, MusicNftRoyaltiesClient, NATIVE_PAYOUT_TOKEN } from "@royalties/sdk";
+import { getReadProvider, getRoyaltyClientReadOnly, normAddr } from "./contract";
+import { multicall } from "./multicall";
+import { trackMinedTransaction, trackTransaction } from "./txTracker";
+
+export interface PayoutToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  // Whether the token implements EIP-2612, so deposits can skip the approve transaction
+  supportsPermit: boolean;
+}
+
+export const NATIVE_PAYOUT: PayoutToken = {
+  address: NATIVE_PAYOUT_TOKEN,
+  symbol: "ETH",
+  decimals: ETH_DECIMALS,
+  supportsPermit: false
+};
+
+export const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)"
+];
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ]
+};
+const PERMIT_VALIDITY_SECONDS = 20 * 60;
+
+const tokenLists = new Map<number, Promise<PayoutToken[]>>();
+
+/**
+ * ETH followed by the ERC-20s allow-listed on the chain's MusicNftRoyalties, with their
+ * symbol, decimals and permit support read in one multicall. Cached per chain.
+ */
+export function loadPayoutTokens(chainId: number): Promise<PayoutToken[]> {
+  let list = tokenLists.get(chainId);
+  if (!list) {
+    list = fetchPayoutTokens(chainId);
+    tokenLists.set(chainId, list);
+    // Let the next caller retry after a failed read
+    list.catch(() => tokenLists.delete(chainId));
+  }
+  return list;
+}
+
+const fetchPayoutTokens = async (chainId: number): Promise<PayoutToken[]> => {
+  const client = await getRoyaltyClientReadOnly(chainId);
+  if (!client) return [NATIVE_PAYOUT];
+
+  const addresses = await client.getPayoutTokens();
+  if (addresses.length === 0) return [NATIVE_PAYOUT];
+
+  const provider = await getReadProvider(chainId);
+  const requests = addresses.flatMap(address => {
+    const contract = new ethers.Contract(address, ERC20_ABI, provider);
+    return [
+      { contract, method: "symbol" },
+      { contract, method: "decimals" },
+      { contract, method: "DOMAIN_SEPARATOR" },
+      { contract, method: "nonces", args: [ethers.ZeroAddress] }
+    ];
+  });
+  const results = await multicall(provider, requests);
+
+  const tokens = addresses.map((address, index): PayoutToken | null => {
+    const [symbol, decimals, domain, nonces] = results.slice(index * 4, index * 4 + 4);
+    if (!symbol.success || !decimals.success) {
+      console.error(`Skipping payout token ${address}: symbol or decimals unreadable`);
+      return null;
+    }
+    return {
+      address,
+      symbol: symbol.value as string,
+      decimals: Number(decimals.value),
+      supportsPermit: domain.success && nonces.success
+    };
+  });
+  return [NATIVE_PAYOUT, ...tokens.filter((token): token is PayoutToken => token !== null)];
+};
+
+export function isNativePayout(token: Pick<PayoutToken, "address">): boolean {
+  return token.address === NATIVE_PAYOUT_TOKEN;
+}
+
+export function findPayoutToken(tokens: PayoutToken[], address: string | undefined): PayoutToken | undefined {
+  return tokens.find(token => normAddr(token.address) === normAddr(address ?? NATIVE_PAYOUT_TOKEN));
+}
+
+/** Balance of `account` held in its wallet, in the token's base units. */
+export async function getWalletBalance(chainId: number, token: PayoutToken, account: string): Promise<bigint> {
+  const provider = await getReadProvider(chainId);
+  if (isNativePayout(token)) {
+    return provider.getBalance(account);
+  }
+  return new ethers.Contract(token.address, ERC20_ABI, provider).balanceOf(account);
+}
+
+const signPermit = async (
+  signer: ethers.Signer,
+  token: ethers.Contract,
+  spender: string,
+  value: bigint,
+  deadline: number
+) => {
+  const owner = await signer.getAddress();
+  const { chainId } = await signer.provider!.getNetwork();
+
+  // EIP-5267 tokens publish their domain; older permit tokens almost always use version "1"
+  let name: string;
+  let version = "1";
+  try {
+    const domain = await token.eip712Domain();
+    name = domain.name;
+    version = domain.version;
+  } catch {
+    name = await token.name();
+  }
+
+  const nonce: bigint = await token.nonces(owner);
+  return signer.signTypedData(
+    { name, version, chainId, verifyingContract: await token.getAddress() },
+    PERMIT_TYPES,
+    { owner, spender, value, nonce, deadline }
+  );
+};
+
+/**
+ * Moves `amount` of `token` from the wallet into the royalty contract's payout balance.
+ * Permit tokens are deposited with a signature in one transaction; other tokens are
+ * approved first when the current allowance is too low.
+ */
+export async function depositPayout(client: MusicNftRoyaltiesClient, token: PayoutToken, amount: bigint) {
+  const signer = client.contract.runner as ethers.Signer;
+
+  if (isNativePayout(token)) {
+    const receipt = await client.depositEth(amount);
+    await trackMinedTransaction(receipt, "Deposit ETH");
+    return;
+  }
+
+  const erc20 = new ethers.Contract(token.address, ERC20_ABI, signer);
+  if (token.supportsPermit) {
+    const deadline = Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS;
+    try {
+      const signature = await signPermit(signer, erc20, client.address, amount, deadline);
+      const receipt = await client.depositWithPermit(token.address, amount, deadline, signature);
+      await trackMinedTransaction(receipt, `Deposit ${token.symbol}`);
+      return;
+    } catch (e: any) {
+      // A rejected signature is the user's answer; anything else falls back to approve
+      if (ethers.isError(e, "ACTION_REJECTED")) throw e;
+      console.error("Permit deposit failed, falling back to approve:", e);
+    }
+  }
+
+  const allowance: bigint = await erc20.allowance(await signer.getAddress(), client.address);
+  if (allowance < amount) {
+    const approval = await erc20.approve(client.address, amount);
+    await trackTransaction(approval, `Approve ${token.symbol}`);
+  }
+  const receipt = await client.deposit(token.address, amount);
+  await trackMinedTransaction(receipt, `Deposit ${token.symbol}`);
+}
+
+export async function withdrawPayout(client: MusicNftRoyaltiesClient, token: PayoutToken, amount: bigint) {
+  const receipt = await client.withdraw(token.address, amount);
+  await trackMinedTransaction(receipt, `Withdraw ${token.symbol}`);
+}
@@ -0,0 +1,171 @@
+// revenueSeries.ts
+import { ethers } from "ethers";
+import { getReadProvider, getRoyaltyClientReadOnly } from "./contract";
+import { assetSymbol, RoyaltyDistribution } from "./distributions";
+import { multicall } from "./multicall";
+
+export type ChartInterval = "day" | "week" | "month";
+
+export type ChartMetric = "amount" | "count";
+
+export type ChartGrouping = "none" | "nft" | "recipient";
+
+export interface SeriesOptions {
+  interval: ChartInterval;
+  metric: ChartMetric;
+  grouping: ChartGrouping;
+  // Amounts are only added up within one asset
+  asset: string;
+}
+
+export interface RevenueSeries {
+  // Start of each bucket in unix seconds, one per label, with no gaps between first and last
+  buckets: number[];
+  labels: string[];
+  datasets: { label: string; values: number[] }[];
+}
+
+// Groups beyond the largest few are folded into "Other" to keep the chart readable
+const MAX_GROUPS = 5;
+
+// EncryptedRoyalty.timestamp never changes, so reads are kept for the session.
+const royaltyTimestamps = new Map<string, number>();
+
+/**
+ * Block timestamps of the royalties behind `distributions`, read from
+ * `encryptedRoyalties(id).timestamp` in one multicall. Keyed by distribution id; rows
+ * without a royalty, or whose read fails, are left out.
+ */
+export async function loadRoyaltyTimestamps(chainId: number, distributions: RoyaltyDistribution[]): Promise<Map<string, number>> {
+  const linked = distributions.filter(dist => dist.royaltyId);
+  const missing = [...new Set(linked.map(dist => dist.royaltyId!))]
+    .filter(royaltyId => !royaltyTimestamps.has(`${chainId}:${royaltyId}`));
+
+  if (missing.length > 0) {
+    const client = await getRoyaltyClientReadOnly(chainId);
+    if (client) {
+      const provider = await getReadProvider(chainId);
+      const contract = new ethers.Contract(client.address, client.contract.interface, provider);
+      const results = await multicall<{ timestamp: bigint }>(provider, missing.map(royaltyId => ({
+        contract,
+        method: "encryptedRoyalties",
+        args: [royaltyId]
+      })));
+      results.forEach((result, index) => {
+        // Unknown ids read back as an empty struct with a zero timestamp
+        if (result.success && result.value.timestamp > 0n) {
+          royaltyTimestamps.set(`${chainId}:${missing[index]}`, Number(result.value.timestamp));
+        }
+      });
+    }
+  }
+
+  const timestamps = new Map<string, number>();
+  for (const dist of linked) {
+    const timestamp = royaltyTimestamps.get(`${chainId}:${dist.royaltyId}`);
+    if (timestamp !== undefined) timestamps.set(dist.id, timestamp);
+  }
+  return timestamps;
+}
+
+/** Local-time start of the day, week (from Monday) or month holding `date`. */
+const startOfBucket = (date: Date, interval: ChartInterval) => {
+  if (interval === "month") return new Date(date.getFullYear(), date.getMonth(), 1);
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (interval === "week") day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+};
+
+const nextBucket = (date: Date, interval: ChartInterval) => {
+  const next = new Date(date);
+  if (interval === "month") {
+    next.setMonth(next.getMonth() + 1);
+  } else {
+    next.setDate(next.getDate() + (interval === "week" ? 7 : 1));
+  }
+  return next;
+};
+
+const bucketLabel = (date: Date, interval: ChartInterval) => {
+  if (interval === "month") return date.toLocaleDateString(undefined, { year: "numeric", month: "short" });
+  return interval === "week" ? `Week of ${date.toLocaleDateString()}` : date.toLocaleDateString();
+};
+
+// Rows whose NFT or recipient is still encrypted are grouped together
+const ENCRYPTED_GROUP = "Encrypted";
+const OTHER_GROUP = "Other";
+
+// Recipients are grouped by full address, so two that share a shortened label stay apart
+const groupKey = (dist: RoyaltyDistribution, grouping: ChartGrouping) => {
+  if (grouping === "nft") {
+    if (dist.nftId !== undefined) return `NFT #${dist.nftId}`;
+    return dist.legacyNftId !== undefined ? `Unlinked: ${dist.legacyNftId}` : ENCRYPTED_GROUP;
+  }
+  if (grouping === "recipient") {
+    return dist.recipient !== undefined ? ethers.getAddress(dist.recipient.toLowerCase()) : ENCRYPTED_GROUP;
+  }
+  return "";
+};
+
+const groupLabel = (key: string, options: SeriesOptions) => {
+  if (!key) return options.metric === "count" ? "Royalties" : options.asset;
+  return ethers.isAddress(key) ? `${key.substring(0, 6)}...${key.substring(38)}` : key;
+};
+
+/**
+ * Buckets distributions by time and sums their amount or count, one dataset per group.
+ * Each row is dated by its royalty's on-chain timestamp from `timestamps` when known and
+ * by the record's own timestamp otherwise. Amounts the viewer cannot decrypt are left out.
+ * Sums are kept in base units and only converted to numbers for the chart.
+ */
+export function buildRevenueSeries(
+  distributions: RoyaltyDistribution[],
+  timestamps: Map<string, number>,
+  options: SeriesOptions
+): RevenueSeries {
+  const rows = distributions
+    .filter(dist => dist.status !== "corrupt")
+    .filter(dist => options.metric === "count" || (dist.amount !== undefined && assetSymbol(dist) === options.asset))
+    .map(dist => ({ dist, time: new Date((timestamps.get(dist.id) ?? dist.timestamp) * 1000) }));
+  if (rows.length === 0) return { buckets: [], labels: [], datasets: [] };
+
+  // Tokens sharing a symbol may differ in decimals, so amounts are brought to the finest one
+  const decimals = options.metric === "count" ? 0 : Math.max(...rows.map(({ dist }) => dist.decimals));
+  const value = (dist: RoyaltyDistribution) =>
+    options.metric === "count" ? 1n : dist.amount! * 10n ** BigInt(decimals - dist.decimals);
+  const toChartValue = (sum: bigint) => Number(ethers.formatUnits(sum, decimals));
+
+  // Keep the largest groups by overall value and fold the rest together
+  const groupTotals = new Map<string, bigint>();
+  rows.forEach(({ dist }) => {
+    const key = groupKey(dist, options.grouping);
+    groupTotals.set(key, (groupTotals.get(key) ?? 0n) + value(dist));
+  });
+  const ranked = [...groupTotals].sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0)).map(([key]) => key);
+  const kept = new Set(ranked.length > MAX_GROUPS ? ranked.slice(0, MAX_GROUPS - 1) : ranked);
+  const groups = ranked.filter(key => kept.has(key));
+  if (kept.size < ranked.length) groups.push(OTHER_GROUP);
+
+  const starts = rows.map(({ time }) => startOfBucket(time, options.interval).getTime());
+  const first = new Date(Math.min(...starts));
+  const last = Math.max(...starts);
+  const buckets: number[] = [];
+  const labels: string[] = [];
+  for (let date = first; date.getTime() <= last; date = nextBucket(date, options.interval)) {
+    buckets.push(date.getTime() / 1000);
+    labels.push(bucketLabel(date, options.interval));
+  }
+
+  const indexByStart = new Map(buckets.map((start, index) => [start * 1000, index]));
+  const sums = new Map(groups.map(group => [group, new Array<bigint>(buckets.length).fill(0n)]));
+  rows.forEach(({ dist }, row) => {
+    const key = groupKey(dist, options.grouping);
+    sums.get(kept.has(key) ? key : OTHER_GROUP)![indexByStart.get(starts[row])!] += value(dist);
+  });
+
+  return {
+    buckets,
+    labels,
+    datasets: groups.map(group => ({ label: groupLabel(group, options), values: sums.get(group)!.map(toChartValue) }))
+  };
+}
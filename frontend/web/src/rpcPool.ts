@@ -0,0 +1,227 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+
+export interface RpcEndpointConfig {
+  url: string;
+  maxRequestsPerSecond?: number;
+}
+
+export interface RpcEndpointStats {
+  url: string;
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  coolingDown: boolean;
+}
+
+interface EndpointState {
+  url: string;
+  maxRequestsPerSecond: number;
+  tokens: number;
+  lastRefill: number;
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+}
+
+const DEFAULT_MAX_REQUESTS_PER_SECOND = 10;
+const REQUEST_TIMEOUT_MS = 10000;
+// Weight of the newest sample in the latency and error-rate moving averages.
+const EWMA_WEIGHT = 0.3;
+const BASE_COOLDOWN_MS = 5000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+const INITIAL_LATENCY_MS = 500;
+// JSON-RPC error codes providers use for rate limiting inside an HTTP 200 response.
+const THROTTLED_RPC_CODES = new Set([-32005, 429]);
+// -32005 is EIP-1474's generic "limit exceeded": Infura, QuickNode and others also send it for an
+// eth_getLogs query whose range or result set is too large. Every endpoint would refuse that
+// query, so those errors reach the caller instead of cooling the whole pool down.
+const QUERY_LIMIT_MESSAGE = /more than \d+ results|block range|range (is )?too (large|wide)|response size/i;
+
+type JsonRpcReply = { error?: { code: number; message: string } };
+
+const isThrottled = ({ error }: JsonRpcReply) =>
+  error !== undefined && THROTTLED_RPC_CODES.has(error.code) && !QUERY_LIMIT_MESSAGE.test(error.message ?? "");
+
+const now = () => Date.now();
+
+/**
+ * JSON-RPC provider that spreads requests across several endpoints. Each endpoint keeps
+ * a latency and error-rate moving average plus a token bucket for its rate cap; requests
+ * go to the healthiest endpoint with budget left and fail over to the next one when a
+ * transport error, timeout, HTTP error or JSON-RPC rate-limit error occurs. Failing endpoints cool down with
+ * exponential backoff and are retried once the cooldown expires.
+ */
+export class RpcPool extends ethers.JsonRpcProvider {
+  private readonly endpoints: EndpointState[];
+
+  constructor(endpoints: RpcEndpointConfig[], network: ethers.Network) {
+    if (endpoints.length === 0) {
+      throw new Error("RpcPool needs at least one endpoint");
+    }
+    super(endpoints[0].url, network, { staticNetwork: network });
+
+    this.endpoints = endpoints.map(endpoint => {
+      const maxRequestsPerSecond = validRate(endpoint.maxRequestsPerSecond) ?? DEFAULT_MAX_REQUESTS_PER_SECOND;
+      return {
+        url: endpoint.url,
+        maxRequestsPerSecond,
+        tokens: maxRequestsPerSecond,
+        lastRefill: now(),
+        latencyMs: INITIAL_LATENCY_MS,
+        errorRate: 0,
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        cooldownUntil: 0
+      };
+    });
+  }
+
+  getStats(): RpcEndpointStats[] {
+    const timestamp = now();
+    return this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      latencyMs: Math.round(endpoint.latencyMs),
+      errorRate: endpoint.errorRate,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      coolingDown: endpoint.cooldownUntil > timestamp
+    }));
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const tried = new Set<EndpointState>();
+    let lastError: unknown = null;
+
+    while (tried.size < this.endpoints.length) {
+      const endpoint = await this.acquire(tried);
+      tried.add(endpoint);
+
+      const started = now();
+      try {
+        const result = await this.sendTo(endpoint, payload);
+        this.recordSuccess(endpoint, now() - started);
+        return result;
+      } catch (error) {
+        this.recordFailure(endpoint);
+        lastError = error;
+      }
+    }
+
+    throw lastError ?? new Error("All RPC endpoints failed");
+  }
+
+  private async sendTo(
+    endpoint: EndpointState,
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.body = payload;
+    request.setHeader("content-type", "application/json");
+    request.timeout = REQUEST_TIMEOUT_MS;
+    // Fail over instead of letting ethers retry a throttled endpoint in place.
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    const response = await request.send();
+    response.assertOk();
+
+    const body = response.bodyJson;
+    const replies: Array<ethers.JsonRpcResult & JsonRpcReply> = Array.isArray(body) ? body : [body];
+    // Some providers report throttling as a JSON-RPC error with HTTP 200; treat it like a 429.
+    const throttled = replies.find(isThrottled)?.error;
+    if (throttled) {
+      throw new Error(`RPC endpoint ${endpoint.url} is rate limited: ${throttled.message ?? throttled.code}`);
+    }
+    return replies;
+  }
+
+  // Picks the best-scoring endpoint that is not cooling down and still has rate budget,
+  // waiting for a token to refill when every candidate is at its cap.
+  private async acquire(exclude: Set<EndpointState>): Promise<EndpointState> {
+    for (;;) {
+      const timestamp = now();
+      const candidates = this.endpoints.filter(endpoint => !exclude.has(endpoint));
+      candidates.forEach(endpoint => this.refill(endpoint, timestamp));
+
+      const healthy = candidates.filter(endpoint => endpoint.cooldownUntil <= timestamp);
+      // When everything is cooling down, try the endpoint whose cooldown ends first.
+      const pool = healthy.length > 0
+        ? healthy
+        : [candidates.reduce((a, b) => (a.cooldownUntil <= b.cooldownUntil ? a : b))];
+
+      const ready = pool
+        .filter(endpoint => endpoint.tokens >= 1)
+        .sort((a, b) => this.score(a) - this.score(b));
+
+      if (ready.length > 0) {
+        ready[0].tokens -= 1;
+        return ready[0];
+      }
+
+      const waitMs = Math.min(...pool.map(endpoint => 1000 / endpoint.maxRequestsPerSecond));
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private refill(endpoint: EndpointState, timestamp: number) {
+    const elapsed = (timestamp - endpoint.lastRefill) / 1000;
+    endpoint.tokens = Math.min(
+      endpoint.maxRequestsPerSecond,
+      endpoint.tokens + elapsed * endpoint.maxRequestsPerSecond
+    );
+    endpoint.lastRefill = timestamp;
+  }
+
+  // Lower is better: latency inflated by how often the endpoint has been failing.
+  private score(endpoint: EndpointState) {
+    return endpoint.latencyMs * (1 + endpoint.errorRate * 10);
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number) {
+    endpoint.requests += 1;
+    endpoint.latencyMs = endpoint.latencyMs * (1 - EWMA_WEIGHT) + latencyMs * EWMA_WEIGHT;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_WEIGHT);
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  private recordFailure(endpoint: EndpointState) {
+    endpoint.requests += 1;
+    endpoint.failures += 1;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_WEIGHT) + EWMA_WEIGHT;
+    endpoint.consecutiveFailures += 1;
+    const cooldown = Math.min(BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+    endpoint.cooldownUntil = now() + cooldown;
+  }
+}
+
+/**
+ * Endpoint list for `chainId` from `VITE_RPC_URLS_<chainId>` (comma separated, optional
+ * `|<requests per second>` suffix per URL) or, when unset, from the chain's `rpcUrls` in
+ * the deployment registry. Keyed URLs belong in the environment, not in the registry.
+ */
+export function resolveRpcEndpoints(chainId: number, configured: RpcEndpointConfig[] = []): RpcEndpointConfig[] {
+  const fromEnv: string | undefined = import.meta.env[`VITE_RPC_URLS_${chainId}`];
+  if (fromEnv) {
+    return fromEnv
+      .split(",")
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [url, rate] = entry.split("|");
+        const maxRequestsPerSecond = validRate(Number(rate));
+        return maxRequestsPerSecond ? { url, maxRequestsPerSecond } : { url };
+      });
+  }
+  return configured;
+}
+
+// A rate cap of NaN, zero or below would stall the token bucket; callers fall back to the default.
+function validRate(rate: number | undefined): number | undefined {
+  return rate !== undefined && Number.isFinite(rate) && rate > 0 ? rate : undefined;
+}
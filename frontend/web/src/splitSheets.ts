@@ -0,0 +1,131 @@
+// splitSheets.ts
+import { ethers } from "ethers";
+import { FULL_SHARE_BPS, fromEncryptedAmount, toEncryptedAmount } from "@royalties/sdk";
+
+export const SPLIT_ROLES = ["writer", "producer", "performer", "label", "other"] as const;
+
+export type SplitRole = typeof SPLIT_ROLES[number];
+
+export interface SplitPayee {
+  recipient: string;
+  role: SplitRole;
+  shareBps: number;
+}
+
+export interface SplitTemplate {
+  nftId: string;
+  payees: SplitPayee[];
+  savedAt: number;
+}
+
+const TEMPLATES_KEY_PREFIX = "split_templates_";
+
+// Templates are kept per chain, since payees on one network say nothing about another.
+const templatesKey = (chainId: number) => `${TEMPLATES_KEY_PREFIX}${chainId}`;
+
+const readTemplates = (chainId: number): Record<string, SplitTemplate> => {
+  try {
+    const raw = localStorage.getItem(templatesKey(chainId));
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Error reading split templates:", e);
+    return {};
+  }
+};
+
+const writeTemplates = (chainId: number, templates: Record<string, SplitTemplate>) => {
+  try {
+    localStorage.setItem(templatesKey(chainId), JSON.stringify(templates));
+  } catch (e) {
+    console.error("Error writing split templates:", e);
+  }
+};
+
+export function emptyPayee(): SplitPayee {
+  return { recipient: "", role: "writer", shareBps: 0 };
+}
+
+export function totalShareBps(payees: SplitPayee[]): number {
+  return payees.reduce((sum, payee) => sum + payee.shareBps, 0);
+}
+
+/** Reads a percentage with up to two decimals ("33.34") as basis points, or null if it is not one. */
+export function percentToBps(value: string): number | null {
+  if (!/^\d{1,3}(\.\d{0,2})?$/.test(value.trim())) return null;
+  const bps = Math.round(Number(value) * 100);
+  return bps <= FULL_SHARE_BPS ? bps : null;
+}
+
+export function bpsToPercent(bps: number): string {
+  return (bps / 100).toFixed(2).replace(/\.?0+$/, "");
+}
+
+/** "writer · 50%" for a distribution created from a split sheet, with a lock for what is still encrypted. */
+export function splitLabel(split: { role?: string; shareBps?: number }): string {
+  return `${split.role ?? "split"} · ${split.shareBps === undefined ? "🔒" : `${bpsToPercent(split.shareBps)}%`}`;
+}
+
+/** Problems that keep a sheet from being used, in display order; empty when it is valid. */
+export function validateSplitSheet(payees: SplitPayee[]): string[] {
+  const issues: string[] = [];
+  if (payees.length === 0) {
+    issues.push("Add at least one payee");
+  }
+
+  const seen = new Set<string>();
+  payees.forEach((payee, index) => {
+    const row = `Payee ${index + 1}`;
+    if (!ethers.isAddress(payee.recipient)) {
+      issues.push(`${row}: enter a valid recipient address`);
+    } else {
+      const address = payee.recipient.toLowerCase();
+      if (seen.has(address)) issues.push(`${row}: recipient is listed more than once`);
+      seen.add(address);
+    }
+    if (!Number.isInteger(payee.shareBps) || payee.shareBps <= 0) {
+      issues.push(`${row}: share must be greater than 0%`);
+    }
+  });
+
+  const total = totalShareBps(payees);
+  if (payees.length > 0 && total !== FULL_SHARE_BPS) {
+    issues.push(`Shares add up to ${bpsToPercent(total)}%, not 100%`);
+  }
+  return issues;
+}
+
+/**
+ * Splits `amount` (base units of an asset with `decimals` decimals) across the payees of a
+ * valid sheet, in steps the encrypted amount can represent. Each payee's part is rounded
+ * down and the leftover goes to the largest share, so the parts always add up to `amount`.
+ */
+export function allocateSplit(amount: bigint, decimals: number, payees: SplitPayee[]): bigint[] {
+  const total = toEncryptedAmount(amount, decimals);
+  const parts = payees.map(payee => (total * BigInt(payee.shareBps)) / BigInt(FULL_SHARE_BPS));
+
+  const remainder = total - parts.reduce((sum, part) => sum + part, 0n);
+  const largest = payees.reduce((best, payee, index) => (payee.shareBps > payees[best].shareBps ? index : best), 0);
+  parts[largest] += remainder;
+
+  return parts.map(part => fromEncryptedAmount(part, decimals));
+}
+
+export function getSplitTemplate(chainId: number, nftId: string): SplitTemplate | null {
+  return readTemplates(chainId)[nftId] ?? null;
+}
+
+export function saveSplitTemplate(chainId: number, nftId: string, payees: SplitPayee[]) {
+  const templates = readTemplates(chainId);
+  templates[nftId] = {
+    nftId,
+    payees: payees.map(payee => ({ ...payee, recipient: ethers.getAddress(payee.recipient) })),
+    savedAt: Date.now()
+  };
+  writeTemplates(chainId, templates);
+}
+
+export function deleteSplitTemplate(chainId: number, nftId: string) {
+  const templates = readTemplates(chainId);
+  delete templates[nftId];
+  writeTemplates(chainId, templates);
+}
@@ -0,0 +1,236 @@
+// txTracker.ts
+import { ethers } from "ethers";
+import { getReadProvider } from "./contract";
+
+export type TrackedTxStatus = "pending" | "mined" | "confirmed" | "failed" | "dropped" | "replaced";
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  label: string;
+  status: TrackedTxStatus;
+  confirmations: number;
+  blockNumber?: number;
+  replacedBy?: string;
+  error?: string;
+  submittedAt: number;
+  updatedAt: number;
+}
+
+const STORAGE_KEY = "tx_history";
+const MAX_ENTRIES = 100;
+const POLL_INTERVAL_MS = 4000;
+// Confirmations after which a mined transaction is considered final.
+const REQUIRED_CONFIRMATIONS = 2;
+// A transaction no node knows about and whose nonce is still unused is dropped after this long.
+const DROP_AFTER_MS = 30 * 60 * 1000;
+
+const FINAL_STATUSES: TrackedTxStatus[] = ["confirmed", "failed", "dropped", "replaced"];
+
+const listeners = new Set<(transactions: TrackedTransaction[]) => void>();
+const watching = new Set<string>();
+
+const readHistory = (): TrackedTransaction[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Error reading transaction history:", e);
+    return [];
+  }
+};
+
+const writeHistory = (transactions: TrackedTransaction[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions.slice(0, MAX_ENTRIES)));
+  } catch (e) {
+    console.error("Error writing transaction history:", e);
+  }
+  listeners.forEach(listener => listener(transactions));
+};
+
+const updateEntry = (hash: string, patch: Partial<TrackedTransaction>) => {
+  const transactions = readHistory();
+  const index = transactions.findIndex(tx => tx.hash === hash);
+  if (index === -1) return;
+  const current = transactions[index];
+  // A final state reached by one watcher is never overwritten by a slower one
+  if (FINAL_STATUSES.includes(current.status) && patch.status && patch.status !== current.status) return;
+  transactions[index] = { ...current, ...patch, updatedAt: Date.now() };
+  writeHistory(transactions);
+};
+
+const addEntry = (entry: Omit<TrackedTransaction, "updatedAt">) => {
+  const transactions = readHistory().filter(tx => tx.hash !== entry.hash);
+  writeHistory([{ ...entry, updatedAt: Date.now() }, ...transactions]);
+};
+
+const isFinal = (hash: string) => {
+  const entry = readHistory().find(tx => tx.hash === hash);
+  return !entry || FINAL_STATUSES.includes(entry.status);
+};
+
+export function getTrackedTransactions(): TrackedTransaction[] {
+  return readHistory();
+}
+
+export function onTrackedTransactionsChange(listener: (transactions: TrackedTransaction[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function clearFinishedTransactions() {
+  writeHistory(readHistory().filter(tx => !FINAL_STATUSES.includes(tx.status)));
+}
+
+// Polls the chain's read pool until the transaction is final. Survives reloads, since
+// everything it needs is in the persisted entry.
+const watch = async (hash: string) => {
+  if (watching.has(hash)) return;
+  watching.add(hash);
+
+  try {
+    while (!isFinal(hash)) {
+      const entry = readHistory().find(tx => tx.hash === hash)!;
+      try {
+        await checkTransaction(entry);
+      } catch (e) {
+        console.error(`Error checking transaction ${hash}:`, e);
+      }
+      if (isFinal(hash)) break;
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } finally {
+    watching.delete(hash);
+  }
+};
+
+const checkTransaction = async (entry: TrackedTransaction) => {
+  const provider = await getReadProvider(entry.chainId);
+  const [receipt, latest] = await Promise.all([
+    provider.getTransactionReceipt(entry.hash),
+    provider.getBlockNumber()
+  ]);
+
+  if (receipt) {
+    const confirmations = Math.max(0, latest - receipt.blockNumber + 1);
+    const status: TrackedTxStatus = receipt.status === 0
+      ? "failed"
+      : confirmations >= REQUIRED_CONFIRMATIONS ? "confirmed" : "mined";
+    updateEntry(entry.hash, {
+      status,
+      confirmations,
+      blockNumber: receipt.blockNumber,
+      error: status === "failed" ? "Transaction reverted" : undefined
+    });
+    return;
+  }
+
+  // No receipt: either still in the mempool, replaced by another transaction with the
+  // same nonce, or gone entirely. A reorg can also move a mined transaction back here.
+  const [pendingTx, minedNonce] = await Promise.all([
+    provider.getTransaction(entry.hash),
+    provider.getTransactionCount(entry.from, "latest")
+  ]);
+
+  if (minedNonce > entry.nonce) {
+    // The pool may have answered from nodes at different heights; recheck before giving up on it
+    if (await provider.getTransactionReceipt(entry.hash)) return;
+    updateEntry(entry.hash, { status: "replaced", confirmations: 0, blockNumber: undefined });
+  } else if (!pendingTx && Date.now() - entry.submittedAt > DROP_AFTER_MS) {
+    updateEntry(entry.hash, { status: "dropped", confirmations: 0 });
+  } else if (entry.status !== "pending") {
+    updateEntry(entry.hash, { status: "pending", confirmations: 0, blockNumber: undefined });
+  }
+};
+
+/**
+ * Persists a freshly sent transaction and follows it to finality. Resolves with the receipt
+ * once it is mined successfully (or its sped-up replacement is), and rejects when it
+ * reverts or is replaced by a different transaction.
+ */
+export async function trackTransaction(
+  tx: ethers.TransactionResponse,
+  label: string
+): Promise<ethers.TransactionReceipt> {
+  const chainId = Number((await tx.provider.getNetwork()).chainId);
+  addEntry({
+    hash: tx.hash,
+    chainId,
+    from: tx.from,
+    nonce: tx.nonce,
+    label,
+    status: "pending",
+    confirmations: 0,
+    submittedAt: Date.now()
+  });
+  watch(tx.hash);
+
+  try {
+    // The wallet's own provider sees the transaction first and detects replacements
+    const receipt = (await tx.wait())!;
+    updateEntry(tx.hash, { status: "mined", confirmations: 1, blockNumber: receipt.blockNumber });
+    return receipt;
+  } catch (e: any) {
+    if (ethers.isError(e, "CALL_EXCEPTION")) {
+      updateEntry(tx.hash, { status: "failed", error: "Transaction reverted" });
+      throw e;
+    }
+    if (!ethers.isError(e, "TRANSACTION_REPLACED")) {
+      throw e;
+    }
+
+    updateEntry(tx.hash, { status: "replaced", replacedBy: e.hash });
+    if (e.reason !== "repriced") {
+      throw new Error(e.reason === "cancelled" ? "Transaction was cancelled" : "Transaction was replaced");
+    }
+
+    // Same call at a higher fee: the replacement carries on under the original label
+    const reverted = e.receipt.status === 0;
+    addEntry({
+      hash: e.hash,
+      chainId,
+      from: tx.from,
+      nonce: tx.nonce,
+      label,
+      status: reverted ? "failed" : "mined",
+      confirmations: 1,
+      blockNumber: e.receipt.blockNumber,
+      error: reverted ? "Transaction reverted" : undefined,
+      submittedAt: Date.now()
+    });
+    watch(e.hash);
+    if (reverted) {
+      throw new Error("Transaction reverted");
+    }
+    return e.receipt;
+  }
+}
+
+/** Records a transaction that an SDK call already waited for, and follows its confirmations. */
+export async function trackMinedTransaction(receipt: ethers.TransactionReceipt, label: string) {
+  const [tx, network] = await Promise.all([receipt.getTransaction(), receipt.provider.getNetwork()]);
+  addEntry({
+    hash: receipt.hash,
+    chainId: Number(network.chainId),
+    from: receipt.from,
+    nonce: tx.nonce,
+    label,
+    status: receipt.status === 0 ? "failed" : "mined",
+    confirmations: 1,
+    blockNumber: receipt.blockNumber,
+    submittedAt: Date.now()
+  });
+  watch(receipt.hash);
+}
+
+/** Restarts watchers for transactions that were still in flight when the page was closed. */
+export function resumeTracking() {
+  readHistory()
+    .filter(tx => !FINAL_STATUSES.includes(tx.status))
+    .forEach(tx => watch(tx.hash));
+}
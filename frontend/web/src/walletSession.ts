@@ -0,0 +1,180 @@
+// walletSession.ts
+import { Eip1193Provider, getLegacyWallets, setWalletProvider, walletId, watchWallets } from "./wallets";
+
+export interface WalletSession {
+  walletId: string;
+  provider: Eip1193Provider;
+  account: string;
+  chainId: number;
+}
+
+// Id of the connected wallet; only an explicit disconnect clears it, so reloads reconnect
+const SESSION_KEY = "wallet_session";
+// How long a restore waits for the remembered wallet to announce itself
+const DISCOVERY_TIMEOUT_MS = 1000;
+
+let session: WalletSession | null = null;
+let detachListeners: (() => void) | null = null;
+// Bumped by every connect and disconnect, so a slower silent restore cannot override them
+let generation = 0;
+const listeners = new Set<(session: WalletSession | null) => void>();
+
+const notify = () => {
+  listeners.forEach(listener => listener(session));
+};
+
+const readStoredWalletId = (): string | null => {
+  try {
+    return localStorage.getItem(SESSION_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeStoredWalletId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(SESSION_KEY, id);
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+  } catch (e) {
+    console.error("Error saving wallet session:", e);
+  }
+};
+
+const endSession = () => {
+  detachListeners?.();
+  detachListeners = null;
+  session = null;
+  setWalletProvider(null);
+};
+
+const startSession = (id: string, provider: Eip1193Provider, account: string, chainId: number) => {
+  endSession();
+  session = { walletId: id, provider, account, chainId };
+  setWalletProvider(provider);
+
+  const handleAccounts = (accounts: string[]) => {
+    if (!session) return;
+    if (accounts.length === 0) {
+      // Access was revoked or the wallet locked; the stored id stays so an unlocked wallet reconnects on reload
+      endSession();
+    } else {
+      session = { ...session, account: accounts[0] };
+    }
+    notify();
+  };
+  const handleChain = (chainId: string) => {
+    if (!session) return;
+    session = { ...session, chainId: Number(chainId) };
+    notify();
+  };
+
+  provider.on?.("accountsChanged", handleAccounts);
+  provider.on?.("chainChanged", handleChain);
+  detachListeners = () => {
+    provider.removeListener?.("accountsChanged", handleAccounts);
+    provider.removeListener?.("chainChanged", handleChain);
+  };
+};
+
+/** Waits briefly for the wallet with `id` to announce itself, then falls back to injected globals. */
+const findWalletProvider = (id: string): Promise<Eip1193Provider | null> =>
+  new Promise(resolve => {
+    let done = false;
+    let stopWatching: (() => void) | null = null;
+    const finish = (provider: Eip1193Provider | null) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      stopWatching?.();
+      resolve(provider);
+    };
+    const timer = setTimeout(
+      () => finish(getLegacyWallets().find(wallet => wallet.id === id)?.provider ?? null),
+      DISCOVERY_TIMEOUT_MS
+    );
+    stopWatching = watchWallets(wallets => {
+      const match = wallets.find(wallet => walletId(wallet.info) === id);
+      if (match) finish(match.provider);
+    });
+    // Already-announced wallets are reported before `watchWallets` returns
+    if (done) stopWatching();
+  });
+
+export function getWalletSession(): WalletSession | null {
+  return session;
+}
+
+export function onWalletSessionChange(listener: (session: WalletSession | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Asks `provider` for account access and makes it the session's wallet, remembered across reloads. */
+export async function connectWallet(id: string, provider: Eip1193Provider): Promise<WalletSession> {
+  const current = ++generation;
+  const accounts: string[] = await provider.request({ method: "eth_requestAccounts" });
+  const chainId = Number(await provider.request({ method: "eth_chainId" }));
+  if (accounts.length === 0) {
+    throw new Error("Wallet did not share any account");
+  }
+  if (current !== generation) {
+    throw new Error("Connection was superseded");
+  }
+
+  startSession(id, provider, accounts[0], chainId);
+  writeStoredWalletId(id);
+  notify();
+  return session!;
+}
+
+/**
+ * Reconnects the remembered wallet without a prompt, through `eth_accounts`. Resolves to
+ * null when nothing is remembered or the wallet no longer shares an account.
+ */
+export async function restoreWalletSession(): Promise<WalletSession | null> {
+  const id = readStoredWalletId();
+  if (!id || session) return session;
+
+  const current = generation;
+  const provider = await findWalletProvider(id);
+  if (!provider || current !== generation) return session;
+
+  const accounts: string[] = await provider.request({ method: "eth_accounts" });
+  if (accounts.length === 0 || current !== generation) return session;
+  const chainId = Number(await provider.request({ method: "eth_chainId" }));
+  if (current !== generation) return session;
+
+  startSession(id, provider, accounts[0], chainId);
+  notify();
+  return session;
+}
+
+/** Ends the session here and in other tabs, and drops the site's permission where the wallet supports it. */
+export function disconnectWallet() {
+  generation++;
+  const provider = session?.provider;
+  writeStoredWalletId(null);
+  endSession();
+  notify();
+  provider?.request({ method: "wallet_revokePermissions", params: [{ eth_accounts: {} }] }).catch(() => undefined);
+}
+
+if (typeof window !== "undefined") {
+  // Mirror connects and disconnects made in other tabs; account switches reach every tab from the wallet itself
+  window.addEventListener("storage", event => {
+    if (event.key !== SESSION_KEY || event.newValue === session?.walletId) return;
+    generation++;
+    if (session) {
+      endSession();
+      notify();
+    }
+    if (event.newValue) {
+      restoreWalletSession().catch(e => console.error("Error restoring wallet session:", e));
+    }
+  });
+}
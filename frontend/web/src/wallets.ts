@@ -0,0 +1,101 @@
+// wallets.ts
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<any>;
+  on?(event: string, listener: (...args: any[]) => void): void;
+  removeListener?(event: string, listener: (...args: any[]) => void): void;
+}
+
+// EIP-6963 provider info, as announced by the extension
+export interface WalletProviderInfo {
+  uuid: string;
+  name: string;
+  // Data URI of the wallet's own icon
+  icon: string;
+  // Reverse-DNS id, stable across page loads unlike `uuid`
+  rdns: string;
+}
+
+export interface DiscoveredWallet {
+  info: WalletProviderInfo;
+  provider: Eip1193Provider;
+}
+
+const LAST_WALLET_KEY = "last_wallet";
+
+const discovered = new Map<string, DiscoveredWallet>();
+const listeners = new Set<(wallets: DiscoveredWallet[]) => void>();
+let selectedProvider: Eip1193Provider | null = null;
+
+/** Id a wallet is remembered by: its rdns, or the per-load uuid when it has none. */
+export const walletId = (info: WalletProviderInfo) => info.rdns || info.uuid;
+
+if (typeof window !== "undefined") {
+  // Listen from module load so announcements made before the selector opens are not missed
+  window.addEventListener("eip6963:announceProvider", (event: Event) => {
+    const detail = (event as CustomEvent<DiscoveredWallet>).detail;
+    if (!detail?.info || !detail.provider) return;
+    discovered.set(walletId(detail.info), { info: detail.info, provider: detail.provider });
+    const wallets = getDiscoveredWallets();
+    listeners.forEach(listener => listener(wallets));
+  });
+}
+
+/** Wallets that have announced themselves through EIP-6963, one per extension. */
+export function getDiscoveredWallets(): DiscoveredWallet[] {
+  return [...discovered.values()];
+}
+
+/**
+ * Asks installed wallets to (re-)announce themselves and reports the list whenever a new
+ * one does. Returns a function that stops listening.
+ */
+export function watchWallets(listener: (wallets: DiscoveredWallet[]) => void): () => void {
+  listeners.add(listener);
+  listener(getDiscoveredWallets());
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Wallets found through the globals injected by extensions that predate EIP-6963, under
+ * the rdns their announcing versions use. These overwrite each other, so only one of
+ * several may show up.
+ */
+export function getLegacyWallets(): { id: string; provider: Eip1193Provider }[] {
+  const win = window as any;
+  const wallets: { id: string; provider: Eip1193Provider }[] = [];
+  if (win.ethereum?.isMetaMask) wallets.push({ id: "io.metamask", provider: win.ethereum });
+  if (win.okxwallet) wallets.push({ id: "com.okex.wallet", provider: win.okxwallet });
+  if (win.BinanceChain) wallets.push({ id: "com.binance.wallet", provider: win.BinanceChain });
+  if (win.ethereum && wallets.length === 0) wallets.push({ id: "injected", provider: win.ethereum });
+  return wallets;
+}
+
+/** Id of the wallet the user connected with last, if any. */
+export function getLastWalletId(): string | null {
+  try {
+    return localStorage.getItem(LAST_WALLET_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function rememberWallet(id: string) {
+  try {
+    localStorage.setItem(LAST_WALLET_KEY, id);
+  } catch (e) {
+    console.error("Error saving wallet choice:", e);
+  }
+}
+
+/** The provider of the connected wallet; signers are created from it. */
+export function getWalletProvider(): Eip1193Provider | null {
+  return selectedProvider;
+}
+
+export function setWalletProvider(provider: Eip1193Provider | null) {
+  selectedProvider = provider;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildExportRows,
+  ExportRow,
+  filterForExport,
+  iifRoundedAway,
+  toCsvExport,
+  toIifExport,
+  toJsonExport
+} from "../src/accountingExport";
+import { parseCsv } from "../src/csv";
+import { RoyaltyDistribution } from "../src/distributions";
+
+const RECIPIENT = "0x000000000000000000000000000000000000dEaD";
+const TOKEN = { address: "0x00000000000000000000000000000000000000Aa", symbol: "mUSDC" };
+const ACCOUNTS = { expense: "Royalty Expense", payable: "Royalties Payable" };
+
+// Local noon, so the day a record falls on does not depend on the machine's time zone
+const at = (date: string) => new Date(`${date}T12:00:00`).getTime() / 1000;
+
+const distribution = (overrides: Partial<RoyaltyDistribution>): RoyaltyDistribution => ({
+  id: "d1",
+  timestamp: at("2026-03-10"),
+  status: "distributed",
+  encryptedData: "0x",
+  decimals: 6,
+  payoutToken: TOKEN,
+  amount: 1234567n,
+  recipient: RECIPIENT,
+  nftId: "7",
+  ...overrides
+} as RoyaltyDistribution);
+
+const AUDIT = {
+  royaltySubmitted: { txHash: "0xabc", blockNumber: 12, blockTimestamp: at("2026-03-10") }
+};
+
+const rowsFor = (list: RoyaltyDistribution[]): ExportRow[] =>
+  buildExportRows(list, new Map(list.map(dist => [dist.id, AUDIT])));
+
+describe("filterForExport", () => {
+  const list = [
+    distribution({ id: "late", timestamp: at("2026-03-31") }),
+    distribution({ id: "early", timestamp: at("2026-03-01") }),
+    distribution({ id: "before", timestamp: at("2026-02-28") }),
+    distribution({ id: "pending", timestamp: at("2026-03-15"), status: "pending" }),
+    distribution({ id: "corrupt", timestamp: at("2026-03-15"), status: "corrupt" })
+  ];
+
+  it("keeps the inclusive date range and chosen statuses, oldest first", () => {
+    const result = filterForExport(list, { from: "2026-03-01", to: "2026-03-31", statuses: ["distributed"] });
+    expect(result.map(dist => dist.id)).toEqual(["early", "late"]);
+  });
+
+  it("treats empty dates as open ends and never exports corrupt records", () => {
+    const result = filterForExport(list, { from: "", to: "", statuses: ["pending", "distributed", "failed"] });
+    expect(result.map(dist => dist.id)).toEqual(["before", "early", "pending", "late"]);
+  });
+});
+
+describe("toCsvExport", () => {
+  it("writes one row per distribution with the audit columns", () => {
+    const [header, row] = parseCsv(toCsvExport(rowsFor([distribution({})])), ",");
+    const cell = (name: string) => row[header.indexOf(name)];
+
+    expect(cell("amount")).toBe("1.234567");
+    expect(cell("amount_base_units")).toBe("1234567");
+    expect(cell("asset")).toBe("mUSDC");
+    expect(cell("royalty_submitted_tx")).toBe("0xabc");
+    expect(cell("royalty_submitted_block")).toBe("12");
+    expect(cell("record_created_tx")).toBe("");
+  });
+
+  it("leaves encrypted payee fields empty", () => {
+    const [header, row] = parseCsv(
+      toCsvExport(rowsFor([distribution({ amount: undefined, recipient: undefined, nftId: undefined })])),
+      ","
+    );
+    expect(["amount", "recipient", "nft_id"].map(name => row[header.indexOf(name)])).toEqual(["", "", ""]);
+  });
+
+  it("neutralises cells a spreadsheet would run as a formula", () => {
+    const csv = toCsvExport(rowsFor([
+      distribution({ period: "=HYPERLINK(\"http://evil.test\")", split: { sheetId: "+1", role: "@SUM(A1)" } })
+    ]));
+    const [header, row] = parseCsv(csv, ",");
+
+    expect(row[header.indexOf("period")]).toBe("'=HYPERLINK(\"http://evil.test\")");
+    expect(row[header.indexOf("split_sheet_id")]).toBe("'+1");
+    expect(row[header.indexOf("split_role")]).toBe("'@SUM(A1)");
+  });
+});
+
+describe("toJsonExport", () => {
+  it("wraps the rows with the chain, filters and readable block times", () => {
+    const filters = { from: "2026-03-01", to: "", statuses: ["distributed" as const] };
+    const parsed = JSON.parse(toJsonExport(rowsFor([distribution({})]), 31337, filters));
+
+    expect(parsed).toMatchObject({ chainId: 31337, filters });
+    expect(parsed.distributions).toHaveLength(1);
+    expect(parsed.distributions[0]).toMatchObject({ id: "d1", amountBaseUnits: "1234567", shareBps: null });
+    expect(parsed.distributions[0].audit.royaltySubmitted.blockTime).toBe(
+      new Date(at("2026-03-10") * 1000).toISOString()
+    );
+  });
+});
+
+describe("toIifExport", () => {
+  const entries = (iif: string) => iif.trim().split("\r\n").map(line => line.split("\t"));
+
+  it("books a balanced journal entry per distribution, rounded to cents", () => {
+    const lines = entries(toIifExport(rowsFor([distribution({})]), ACCOUNTS));
+
+    expect(lines.slice(0, 3).map(line => line[0])).toEqual(["!TRNS", "!SPL", "!ENDTRNS"]);
+    const [trns, spl, end] = lines.slice(3);
+    expect(trns.slice(0, 7)).toEqual([
+      "TRNS", "", "GENERAL JOURNAL", "03/10/2026", "Royalty Expense:mUSDC", RECIPIENT, "1.23"
+    ]);
+    expect(spl.slice(4, 7)).toEqual(["Royalties Payable:mUSDC", RECIPIENT, "-1.23"]);
+    expect(trns[8]).toBe("NFT #7 royalty; 1.234567 mUSDC; distributed; tx 0xabc");
+    expect(end).toEqual(["ENDTRNS"]);
+  });
+
+  it("rounds half up", () => {
+    const iif = toIifExport(rowsFor([distribution({ amount: 1005000n })]), ACCOUNTS);
+    expect(entries(iif)[3][6]).toBe("1.01");
+  });
+
+  it("leaves out and reports amounts that round to 0.00", () => {
+    const rows = rowsFor([
+      distribution({ id: "dust", amount: 4999n }),
+      distribution({ id: "cent", amount: 5000n }),
+      distribution({ id: "zero", amount: 0n })
+    ]);
+    const bookedIds = entries(toIifExport(rows, ACCOUNTS))
+      .filter(line => line[0] === "TRNS")
+      .map(line => line[7]);
+
+    expect(bookedIds).toEqual(["cent"]);
+    expect(iifRoundedAway(rows).map(row => row.id)).toEqual(["dust"]);
+  });
+
+  it("skips rows whose amount is still encrypted and strips tabs from fields", () => {
+    const rows = rowsFor([
+      distribution({ id: "hidden", amount: undefined }),
+      distribution({ id: "shown", period: "2026\tQ1" })
+    ]);
+    const trns = entries(toIifExport(rows, ACCOUNTS)).filter(line => line[0] === "TRNS");
+
+    expect(trns).toHaveLength(1);
+    expect(trns[0][8]).toContain("2026 Q1");
+  });
+});
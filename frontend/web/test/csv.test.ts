@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { detectDelimiter, parseCsv, toCsv } from "../src/csv";
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter that splits the first line into the most columns", () => {
+    expect(detectDelimiter("nft;amount;recipient\n1,5;2;3")).toBe(";");
+    expect(detectDelimiter("nft\tamount\trecipient")).toBe("\t");
+    expect(detectDelimiter("nft,amount,recipient")).toBe(",");
+  });
+
+  it("ignores delimiters inside quotes and prefers the comma on a tie", () => {
+    expect(detectDelimiter("\"a;b;c\",d\r\n")).toBe(",");
+    expect(detectDelimiter("single column")).toBe(",");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted delimiters, doubled quotes and line breaks", () => {
+    expect(parseCsv("a,\"b,c\",\"say \"\"hi\"\"\"\n\"two\nlines\",x,y", ",")).toEqual([
+      ["a", "b,c", "say \"hi\""],
+      ["two\nlines", "x", "y"]
+    ]);
+  });
+
+  it("handles CRLF, a byte-order mark, blank lines and a missing final newline", () => {
+    expect(parseCsv("\uFEFFnft;amount\r\n\r\n1;2\r\n  \r\n3;4", ";")).toEqual([
+      ["nft", "amount"],
+      ["1", "2"],
+      ["3", "4"]
+    ]);
+  });
+
+  it("keeps empty cells, including rows of only delimiters", () => {
+    expect(parseCsv("a,,c\n,\n", ",")).toEqual([["a", "", "c"], ["", ""]]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only cells that need it and round-trips through parseCsv", () => {
+    const rows = [["id", "note"], ["1", "a, \"b\"\nc"], ["2", "plain"]];
+    const csv = toCsv(rows);
+
+    expect(csv).toBe("id,note\n1,\"a, \"\"b\"\"\nc\"\n2,plain\n");
+    expect(parseCsv(csv, ",")).toEqual(rows);
+  });
+
+  it("prefixes cells a spreadsheet would run as a formula", () => {
+    expect(toCsv([["=1+1", "+1", "-1", "@SUM(A1)", "\tx", "a=b"]])).toBe("'=1+1,'+1,'-1,'@SUM(A1),'\tx,a=b\n");
+    expect(toCsv([["=HYPERLINK(\"x\",\"y\")"]])).toBe("\"'=HYPERLINK(\"\"x\"\",\"\"y\"\")\"\n");
+  });
+});
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  applyProfile,
+  columnLabels,
+  CsvColumnMapping,
+  deleteCsvProfile,
+  getCsvProfiles,
+  guessColumns,
+  missingFields,
+  normalizeAmount,
+  profileMatches,
+  saveCsvProfile,
+  validateCsvRows
+} from "../src/csvImport";
+import { MemoryStorage } from "./memoryStorage";
+
+// The relayer bundle reads `window` as it loads; nothing here encrypts
+vi.mock("@zama-fhe/relayer-sdk/bundle", () => ({}));
+
+const RECIPIENT = "0x000000000000000000000000000000000000dEaD";
+const HEADERS = ["Token ID", "Net Revenue", "Payee Wallet", "Month"];
+
+const mapping = (overrides: Partial<CsvColumnMapping> = {}): CsvColumnMapping => ({
+  delimiter: ",",
+  hasHeader: true,
+  decimalSeparator: ".",
+  columns: { nftId: 0, amount: 1, recipient: 2, period: 3 },
+  ...overrides
+});
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("columnLabels", () => {
+  it("uses header cells, falling back to column numbers", () => {
+    expect(columnLabels([["nft", " ", "amount"], ["1", "2", "3", "4"]], true)).toEqual([
+      "nft",
+      "Column 2",
+      "amount",
+      "Column 4"
+    ]);
+    expect(columnLabels([["1", "2"]], false)).toEqual(["Column 1", "Column 2"]);
+  });
+});
+
+describe("guessColumns", () => {
+  it("maps each field to the first unused column whose header hints at it", () => {
+    expect(guessColumns(HEADERS)).toEqual({ nftId: 0, amount: 1, recipient: 2, period: 3 });
+    expect(guessColumns(["Royalty", "Notes"])).toEqual({ amount: 0 });
+  });
+});
+
+describe("missingFields", () => {
+  it("lists required fields without a column", () => {
+    expect(missingFields(mapping({ columns: { amount: 1, period: 3 } }))).toEqual(["nftId", "recipient"]);
+    expect(missingFields(mapping({ columns: { nftId: 0, amount: 1, recipient: 2 } }))).toEqual([]);
+  });
+});
+
+describe("normalizeAmount", () => {
+  it("drops thousands separators for either decimal separator", () => {
+    expect(normalizeAmount(" 1,234.50 ", ".")).toBe("1234.50");
+    expect(normalizeAmount("1.234,50", ",")).toBe("1234.50");
+    expect(normalizeAmount("1 234'567,5", ",")).toBe("1234567.5");
+  });
+});
+
+describe("validateCsvRows", () => {
+  it("reads valid rows into base units and checksummed addresses", () => {
+    const rows = validateCsvRows(
+      [HEADERS, ["#7", "1,234.5", RECIPIENT.toLowerCase(), " 2026-03 "]],
+      mapping(),
+      6
+    );
+
+    expect(rows).toEqual([{
+      rowNumber: 2,
+      nftId: 7,
+      amount: 1_234_500_000n,
+      recipient: RECIPIENT,
+      period: "2026-03",
+      errors: [],
+      warnings: []
+    }]);
+  });
+
+  it("explains every problem in a row", () => {
+    const [empty, invalid] = validateCsvRows(
+      [["", "", ""], ["-1", "0", "0x0000000000000000000000000000000000000000", "x".repeat(65)]],
+      mapping({ hasHeader: false }),
+      6
+    );
+
+    expect(empty.rowNumber).toBe(1);
+    expect(empty.errors).toEqual(["NFT ID is empty", "Amount is empty", "Recipient is empty"]);
+    expect(invalid.errors).toEqual([
+      "NFT ID must be a whole number between 0 and 4294967295 (\"-1\")",
+      "Amount must be greater than 0 (\"0\")",
+      "Recipient is the zero address",
+      "Period is longer than 64 characters"
+    ]);
+  });
+
+  it("refuses amounts with more precision than the token or an encrypted amount keeps", () => {
+    const rows = [["1", "0.0000000001", RECIPIENT]];
+    const headerless = mapping({ hasHeader: false });
+
+    const [forToken] = validateCsvRows(rows, headerless, 6);
+    expect(forToken.errors).toEqual(["Amount can have at most 6 decimal places (\"0.0000000001\")"]);
+    expect(forToken.amount).toBeNull();
+
+    const [forEncryption] = validateCsvRows(rows, headerless, 18);
+    expect(forEncryption.errors).toEqual(["Encrypted amounts keep at most 9 decimal places (\"0.0000000001\")"]);
+  });
+
+  it("warns about rows repeating an earlier one", () => {
+    const rows = validateCsvRows(
+      [["1", "5", RECIPIENT, "Q1"], ["1", "5.0", RECIPIENT, "Q1"], ["1", "5", RECIPIENT, "Q2"]],
+      mapping({ hasHeader: false }),
+      6
+    );
+    expect(rows.map(row => row.warnings)).toEqual([[], ["Same NFT, recipient, amount and period as row 1"], []]);
+  });
+});
+
+describe("profiles", () => {
+  it("find moved columns by header and leave missing ones unmapped", () => {
+    const profile = saveCsvProfile("Label A", mapping(), HEADERS);
+    expect(profile.headers).toEqual({
+      nftId: "Token ID",
+      amount: "Net Revenue",
+      recipient: "Payee Wallet",
+      period: "Month"
+    });
+
+    const reordered = ["payee wallet", "Extra", "TOKEN ID", "Net Revenue"];
+    expect(profileMatches(profile, reordered)).toBe(true);
+    expect(applyProfile(profile, reordered).columns).toEqual({ nftId: 2, amount: 3, recipient: 0 });
+    expect(profileMatches(profile, ["Token ID", "Net Revenue"])).toBe(false);
+  });
+
+  it("map headerless files by position and never match by header", () => {
+    const profile = saveCsvProfile("Positional", mapping({ hasHeader: false }), ["Column 1"]);
+
+    expect(profile.headers).toEqual({});
+    expect(profileMatches(profile, HEADERS)).toBe(false);
+    expect(applyProfile(profile, null)).toEqual(mapping({ hasHeader: false }));
+  });
+
+  it("are listed by name, replaced on save and deleted", () => {
+    saveCsvProfile("b", mapping(), HEADERS);
+    saveCsvProfile("a", mapping(), HEADERS);
+    saveCsvProfile("b", mapping({ delimiter: ";" }), HEADERS);
+    expect(getCsvProfiles().map(profile => [profile.name, profile.delimiter])).toEqual([["a", ","], ["b", ";"]]);
+
+    deleteCsvProfile("a");
+    expect(getCsvProfiles().map(profile => profile.name)).toEqual(["b"]);
+  });
+
+  it("read as empty when storage holds garbage", () => {
+    localStorage.setItem("csv_import_profiles", "{not json");
+    expect(getCsvProfiles()).toEqual([]);
+  });
+});
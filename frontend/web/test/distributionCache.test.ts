@@ -0,0 +1,99 @@
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RoyaltyDistribution } from "../src/distributions";
+import { MemoryIndexedDb } from "./memoryIndexedDb";
+
+type DistributionCacheModule = typeof import("../src/distributionCache");
+
+const ADAPTER = "0x00000000000000000000000000000000000000Ad";
+const OTHER_ADAPTER = "0x00000000000000000000000000000000000000bE";
+
+const row = (id: string, overrides: Partial<RoyaltyDistribution> = {}): RoyaltyDistribution => ({
+  id,
+  decimals: 18,
+  timestamp: 1700000000,
+  status: "pending",
+  encryptedData: ethers.ZeroHash,
+  ...overrides
+});
+
+let cache: DistributionCacheModule;
+let indexedDb: MemoryIndexedDb;
+
+// The relayer bundle reads `window` as it loads; nothing here encrypts
+vi.mock("@zama-fhe/relayer-sdk/bundle", () => ({}));
+
+beforeEach(async () => {
+  indexedDb = new MemoryIndexedDb();
+  vi.stubGlobal("indexedDB", indexedDb);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  // The module keeps its open database, so every test gets a fresh one
+  vi.resetModules();
+  cache = await import("../src/distributionCache");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("distribution cache", () => {
+  it("reads back the last saved list, to be shown as stale until revalidated", async () => {
+    expect(await cache.readCachedDistributions(31337, ADAPTER)).toBeNull();
+
+    await cache.writeCachedDistributions(31337, ADAPTER, [row("a", { amount: 10n ** 18n, syncState: "confirmed" })]);
+    await cache.writeCachedDistributions(31337, ADAPTER, [
+      row("a", { amount: 10n ** 18n, syncState: "confirmed" }),
+      row("b", { royaltyId: "2", syncState: "confirmed" })
+    ]);
+    const cached = await cache.readCachedDistributions(31337, ADAPTER);
+
+    // Sync state belongs to the session that saw the chain, so none is read back
+    expect(cached).toEqual([row("a", { amount: 10n ** 18n }), row("b", { royaltyId: "2" })]);
+    expect(cache.withSyncState(cached!, "stale").map(dist => dist.syncState)).toEqual(["stale", "stale"]);
+  });
+
+  it("keys lists by chain id and adapter address", async () => {
+    await cache.writeCachedDistributions(31337, ADAPTER, [row("local")]);
+    await cache.writeCachedDistributions(11155111, ADAPTER, [row("sepolia")]);
+    await cache.writeCachedDistributions(31337, OTHER_ADAPTER, [row("other")]);
+
+    expect(await cache.readCachedDistributions(31337, ADAPTER)).toEqual([row("local")]);
+    expect(await cache.readCachedDistributions(11155111, ADAPTER)).toEqual([row("sepolia")]);
+    expect(await cache.readCachedDistributions(31337, OTHER_ADAPTER)).toEqual([row("other")]);
+    expect(await cache.readCachedDistributions(1, ADAPTER)).toBeNull();
+  });
+
+  it("ignores the case of the adapter address", async () => {
+    await cache.writeCachedDistributions(31337, ADAPTER, [row("a")]);
+
+    expect(await cache.readCachedDistributions(31337, ADAPTER.toLowerCase())).toEqual([row("a")]);
+  });
+
+  it("drops lists saved in an older shape", async () => {
+    // A database left by a version that stored amounts as decimal strings
+    await new Promise<void>(resolve => {
+      const opening = indexedDb.open("royalty_cache", 2);
+      opening.onupgradeneeded = () => {
+        opening.result!.createObjectStore("distributions", { keyPath: "key" });
+      };
+      opening.onsuccess = () => {
+        opening.result!.transaction().objectStore("distributions")
+          .put({ key: `31337:${ADAPTER.toLowerCase()}`, records: [{ id: "a", amount: "1.5" }] });
+        resolve();
+      };
+    });
+
+    expect(await cache.readCachedDistributions(31337, ADAPTER)).toBeNull();
+  });
+
+  it("reads nothing and writes nothing while IndexedDB is unavailable, then recovers", async () => {
+    vi.stubGlobal("indexedDB", undefined);
+
+    await cache.writeCachedDistributions(31337, ADAPTER, [row("a")]);
+    expect(await cache.readCachedDistributions(31337, ADAPTER)).toBeNull();
+
+    vi.stubGlobal("indexedDB", indexedDb);
+    await cache.writeCachedDistributions(31337, ADAPTER, [row("a")]);
+    expect(await cache.readCachedDistributions(31337, ADAPTER)).toEqual([row("a")]);
+  });
+});
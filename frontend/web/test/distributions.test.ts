@@ -0,0 +1,136 @@
+import { ethers } from "ethers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeDistributionRecord } from "@royalties/sdk";
+import { findDeploymentBlock, loadDistributionsFromEvents } from "../src/distributions";
+import { MemoryStorage } from "./memoryStorage";
+
+const CHAIN_ID = 31337;
+const ADAPTER = "0x00000000000000000000000000000000000000Ad";
+
+interface Write {
+  blockNumber: number;
+  key: string;
+  value: string;
+}
+
+const record = (status: "pending" | "distributed", timestamp = 1700000000) =>
+  ethers.hexlify(
+    encodeDistributionRecord({ timestamp, status, royaltyId: "1", encryptedData: ethers.ZeroHash, decimals: 18 })
+  );
+
+// Adapter answering DataStored queries from an in-memory log, and getData from the last write
+class FakeAdapter {
+  writes: Write[] = [];
+  head = 0;
+  deployedAt = 0;
+  queries: [number, number][] = [];
+  historicalState = true;
+  filters = { DataStored: () => "DataStored" };
+  runner = {
+    provider: {
+      getNetwork: async () => ({ chainId: BigInt(CHAIN_ID) }),
+      getBlockNumber: async () => this.head,
+      getCode: async (_: string, block: number) => {
+        if (!this.historicalState) throw new Error("missing trie node");
+        return block >= this.deployedAt ? "0x60" : "0x";
+      }
+    }
+  };
+
+  write(blockNumber: number, id: string, value: string) {
+    this.writes.push({ blockNumber, key: `distribution_${id}`, value });
+    this.head = Math.max(this.head, blockNumber);
+  }
+
+  // Drops every write mined after `block`, as a reorg onto a shorter fork would
+  reorg(block: number) {
+    this.writes = this.writes.filter(write => write.blockNumber <= block);
+  }
+
+  async getAddress() {
+    return ADAPTER;
+  }
+
+  async queryFilter(_: unknown, from: number, to: number) {
+    this.queries.push([from, to]);
+    return this.writes
+      .filter(write => write.blockNumber >= from && write.blockNumber <= to)
+      .map(({ blockNumber, key, value }) => ({ blockNumber, args: { key, value } }));
+  }
+
+  async getData(key: string) {
+    return this.writes.filter(write => write.key === key).at(-1)?.value ?? "0x";
+  }
+}
+
+const load = (adapter: FakeAdapter) => loadDistributionsFromEvents(adapter as unknown as ethers.Contract);
+
+const registry = (entry: object) => {
+  const body = { [CHAIN_ID]: { name: "hardhat", rpcUrls: [], ...entry } };
+  vi.stubGlobal("fetch", async () => new Response(JSON.stringify(body)));
+};
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("loadDistributionsFromEvents", () => {
+  // The registry is fetched once per module load, so every test shares its deployment block
+  registry({ deploymentBlock: 100 });
+
+  it("scans from the deployment block, then only new blocks and the reorg window", async () => {
+    const adapter = new FakeAdapter();
+    adapter.write(100, "a", record("pending"));
+    adapter.write(150, "b", record("pending", 1700000100));
+
+    expect((await load(adapter)).map(dist => dist.id)).toEqual(["b", "a"]);
+    expect(adapter.queries).toEqual([[100, 150]]);
+
+    adapter.write(200, "a", record("distributed"));
+    const list = await load(adapter);
+
+    expect(adapter.queries[1]).toEqual([139, 200]);
+    expect(list.find(dist => dist.id === "a")?.status).toBe("distributed");
+  });
+
+  it("drops records whose writes were orphaned by a reorg", async () => {
+    const adapter = new FakeAdapter();
+    adapter.write(100, "a", record("pending"));
+    adapter.write(195, "a", record("distributed"));
+    adapter.write(198, "b", record("pending"));
+    adapter.head = 200;
+    await load(adapter);
+
+    // The fork drops both writes after block 190 and grows past the old head
+    adapter.reorg(190);
+    adapter.head = 201;
+    const list = await load(adapter);
+
+    expect(list.map(dist => [dist.id, dist.status])).toEqual([["a", "pending"]]);
+  });
+
+  it("removes records that the canonical chain deleted", async () => {
+    const adapter = new FakeAdapter();
+    adapter.write(100, "a", record("pending"));
+    await load(adapter);
+
+    adapter.write(105, "a", "0x");
+    expect(await load(adapter)).toEqual([]);
+  });
+});
+
+describe("findDeploymentBlock", () => {
+  it("finds the first block holding the contract's code", async () => {
+    const adapter = new FakeAdapter();
+    adapter.deployedAt = 1234;
+    expect(await findDeploymentBlock(adapter.runner.provider as unknown as ethers.Provider, ADAPTER, 5000)).toBe(1234);
+  });
+
+  it("starts from block 0 when the RPC keeps no historical state", async () => {
+    const adapter = new FakeAdapter();
+    adapter.deployedAt = 1234;
+    adapter.historicalState = false;
+    expect(await findDeploymentBlock(adapter.runner.provider as unknown as ethers.Provider, ADAPTER, 5000)).toBe(0);
+  });
+});
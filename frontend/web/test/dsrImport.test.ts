@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  aggregateByIsrc,
+  getIsrcMappings,
+  ImportedDistribution,
+  normalizeIsrc,
+  parseDsr,
+  parseRate,
+  parseRevenue,
+  planDsrImport,
+  reconcileImport,
+  reconciliationCsv,
+  saveIsrcMappings,
+  toPayoutAmount
+} from "../src/dsrImport";
+import type { PreparedRecord } from "../src/distributionWriter";
+import { saveSplitTemplate } from "../src/splitSheets";
+import { MemoryStorage } from "./memoryStorage";
+
+const CHAIN_ID = 31337;
+const WRITER = "0x00000000000000000000000000000000000000A1";
+const PRODUCER = "0x00000000000000000000000000000000000000b2";
+
+// Default pipe-delimited layout; the line number of each record is noted on the right
+const REPORT = [
+  "HEAD|dsrf/4.0|BasicAudio|1.0|MSG-1|2026-04-01T00:00:00|1|1|2026-03-01|2026-03-31|PADPIDA|Streamy", // 1
+  "SY01|SR1|SubscriptionModel|Stream|US|Streamy Premium|1000|10|USD|12.00", // 2
+  "RE01|B1|R1|DSPREL1", // 3
+  "AS01|B1|A1|DSPRES1|US-AB1-26-00001|First Song", // 4
+  "SU01|B1|ST1|SR1|DSPRES1|Stream|SubscriptionModel|US|600|USD|0.6", // 5
+  "SU01|B1|ST2|SR1|DSPRES1|Stream|SubscriptionModel|US|400||0.4", // 6
+  "AS01|B2|A2|DSPRES2|USAB12600002|Second Song", // 7
+  "SU01|B2|ST3|SR1|DSPRES2|Stream|SubscriptionModel|US|10|EUR|5", // 8
+  "SU01|B2|ST4|SR1|DSPRES2|Stream|SubscriptionModel|US|10|USD|-0.000412", // 9
+  "AS01|B3|A3|DSPRES3|NOT-AN-ISRC|Bad Code", // 10
+  "SU01|B3|ST5|SR1|DSPRES3|Stream|SubscriptionModel|US|1|USD|1", // 11
+  "SU01|B9|ST6|SR1|DSPRES9|Stream|SubscriptionModel|US|1|USD|", // 12
+  "FOOT|13|13|1|3" // 13
+].join("\r\n");
+
+const ETHER = 10n ** 18n;
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("parseRevenue", () => {
+  it("reads signed decimals at 18 decimal places, dropping finer digits", () => {
+    expect(parseRevenue("-0.000412")).toBe(-412_000_000_000_000n);
+    expect(parseRevenue(" 12 ")).toBe(12n * ETHER);
+    expect(parseRevenue(".5")).toBe(ETHER / 2n);
+    expect(parseRevenue("0.0000000000000000019")).toBe(1n);
+  });
+
+  it("refuses anything that is not a plain amount", () => {
+    for (const value of ["", "-", ".", "1e3", "1,5", "USD 1"]) {
+      expect(parseRevenue(value)).toBeNull();
+    }
+  });
+});
+
+describe("normalizeIsrc", () => {
+  it("strips separators and upper-cases", () => {
+    expect(normalizeIsrc("us-ab1-26-00001")).toBe("USAB12600001");
+    expect(normalizeIsrc("US AB1 26 00001")).toBe("USAB12600001");
+    expect(normalizeIsrc("NOT-AN-ISRC")).toBeNull();
+  });
+});
+
+describe("parseDsr", () => {
+  it("reads sales lines with ISRCs from their block and currencies from their summary", () => {
+    const report = parseDsr(REPORT);
+
+    expect(report.header).toEqual({
+      messageId: "MSG-1",
+      senderName: "Streamy",
+      usageStartDate: "2026-03-01",
+      usageEndDate: "2026-03-31"
+    });
+    expect(report.currency).toBe("USD");
+    expect(report.salesLines.map(line => [line.lineNumber, line.isrc, line.revenue, line.currency])).toEqual([
+      [5, "USAB12600001", (6n * ETHER) / 10n, "USD"],
+      [6, "USAB12600001", (4n * ETHER) / 10n, "USD"],
+      [8, "USAB12600002", 5n * ETHER, "EUR"],
+      [9, "USAB12600002", -412_000_000_000_000n, "USD"],
+      [11, null, ETHER, "USD"],
+      [12, null, null, "USD"]
+    ]);
+    expect(report.salesLines[0]).toMatchObject({ title: "First Song", usages: "600" });
+  });
+
+  it("explains every line it cannot fully read", () => {
+    expect(parseDsr(REPORT).issues).toEqual([
+      { lineNumber: 10, message: "\"NOT-AN-ISRC\" is not a valid ISRC" },
+      { lineNumber: 12, message: "Block \"B9\" has no sound recording to take an ISRC from" },
+      { lineNumber: 12, message: "No payable amount" }
+    ]);
+  });
+
+  it("uses layouts declared in the file and its own ISRC column", () => {
+    const report = parseDsr([
+      "#HEAD\tMessageId\tSenderName",
+      "#SU\tISRC\tRoyaltyAmount\tCurrency",
+      "HEAD\tMSG-2\tTunes",
+      "SU02\tGBXYZ2600001\t1.25\tGBP",
+      "SU02\tbad\t1\tGBP",
+      "ZZ01\tsomething"
+    ].join("\n"));
+
+    expect(report.header.messageId).toBe("MSG-2");
+    expect(report.salesLines[0]).toMatchObject({
+      isrc: "GBXYZ2600001",
+      revenue: (125n * ETHER) / 100n,
+      currency: "GBP"
+    });
+    expect(report.issues).toEqual([
+      { lineNumber: 6, message: "Unknown record type \"ZZ01\"" },
+      { lineNumber: 5, message: "\"bad\" is not a valid ISRC" }
+    ]);
+  });
+
+  it("refuses a file without a HEAD record", () => {
+    expect(() => parseDsr("SU01|B1|ST1")).toThrow("Not a DDEX DSR file: it has no HEAD record");
+  });
+});
+
+describe("aggregateByIsrc", () => {
+  it("nets importable lines per ISRC and skips other currencies", () => {
+    expect(aggregateByIsrc(parseDsr(REPORT))).toEqual([
+      { isrc: "USAB12600001", title: "First Song", revenue: ETHER, lineNumbers: [5, 6] },
+      { isrc: "USAB12600002", title: "Second Song", revenue: -412_000_000_000_000n, lineNumbers: [9] }
+    ]);
+  });
+});
+
+describe("toPayoutAmount", () => {
+  it("converts at the rate into the token's base units", () => {
+    expect(toPayoutAmount(ETHER, parseRate("1.5"), 6)).toBe(1_500_000n);
+    expect(toPayoutAmount(ETHER / 3n, parseRate("1"), 2)).toBe(33n);
+  });
+
+  it("rounds down to a step the encrypted amount can hold", () => {
+    expect(toPayoutAmount(ETHER / 3n, parseRate("1"), 18)).toBe(333_333_333_000_000_000n);
+  });
+
+  it("refuses a zero rate", () => {
+    expect(() => parseRate("0")).toThrow("Rate must be greater than 0");
+  });
+});
+
+describe("planDsrImport", () => {
+  beforeEach(() => {
+    saveSplitTemplate(CHAIN_ID, "7", [
+      { recipient: WRITER, role: "writer", shareBps: 7000 },
+      { recipient: PRODUCER, role: "producer", shareBps: 3000 }
+    ]);
+  });
+
+  it("splits each mapped ISRC across its NFT's sheet and accounts for every line", () => {
+    const plan = planDsrImport(CHAIN_ID, parseDsr(REPORT), { USAB12600001: "7" }, 6, parseRate("1.5"));
+
+    expect(plan.distributions).toHaveLength(1);
+    expect(plan.distributions[0]).toMatchObject({
+      isrc: "USAB12600001",
+      nftId: "7",
+      amount: 1_500_000n,
+      amounts: [1_050_000n, 450_000n],
+      lineNumbers: [5, 6]
+    });
+    expect(plan.lines.map(line => [line.lineNumber, line.status, line.detail])).toEqual([
+      [5, "planned", "2 line(s) for this ISRC, split across 2 payee(s)"],
+      [6, "planned", "2 line(s) for this ISRC, split across 2 payee(s)"],
+      [8, "skipped", "Reported in EUR, not USD"],
+      [9, "unmapped", "ISRC is not mapped to an NFT"],
+      [11, "skipped", "No ISRC for this sale"],
+      [12, "skipped", "No ISRC for this sale"]
+    ]);
+  });
+
+  it("skips NFTs without a split sheet and revenue that is not positive", () => {
+    const report = parseDsr(REPORT);
+    const withoutSheet = planDsrImport(CHAIN_ID, report, { USAB12600001: "8" }, 6, parseRate("1"));
+    expect(withoutSheet.lines[0]).toMatchObject({
+      status: "no-split",
+      nftId: "8",
+      detail: "NFT #8 has no saved split sheet"
+    });
+
+    const negative = planDsrImport(CHAIN_ID, report, { USAB12600002: "7" }, 6, parseRate("1"));
+    expect(negative.distributions).toEqual([]);
+    expect(negative.lines.find(line => line.lineNumber === 9)).toMatchObject({
+      status: "skipped",
+      detail: "Net revenue for this ISRC is not positive"
+    });
+  });
+});
+
+describe("reconcileImport", () => {
+  const record = (id: string) => ({ id } as PreparedRecord);
+
+  it("marks lines created, or failed with the reason", () => {
+    saveSplitTemplate(CHAIN_ID, "7", [{ recipient: WRITER, role: "writer", shareBps: 10000 }]);
+    const plan = planDsrImport(CHAIN_ID, parseDsr(REPORT), { USAB12600001: "7" }, 6, parseRate("1"));
+
+    const created: ImportedDistribution[] = [{ records: [{ record: record("r1"), stored: true }], error: null }];
+    expect(reconcileImport(plan, created, null)[0]).toMatchObject({
+      status: "created",
+      detail: "1 distribution(s) created for NFT #7",
+      distributionIds: ["r1"]
+    });
+
+    const unstored: ImportedDistribution[] = [{
+      records: [{ record: record("r1"), stored: true }, { record: record("r2"), stored: false }],
+      error: null
+    }];
+    expect(reconcileImport(plan, unstored, "out of gas")[1]).toMatchObject({
+      status: "failed",
+      detail: "1 royalty record(s) submitted but not stored: out of gas",
+      distributionIds: ["r1"]
+    });
+
+    const rejected: ImportedDistribution[] = [{ records: [], error: "User rejected" }];
+    expect(reconcileImport(plan, rejected, null)[0]).toMatchObject({ status: "failed", detail: "User rejected" });
+    expect(reconcileImport(plan, [], null)).toEqual(plan.lines);
+  });
+
+  it("writes the reconciliation as CSV", () => {
+    const plan = planDsrImport(CHAIN_ID, parseDsr(REPORT), {}, 6, parseRate("1"));
+    const csv = reconciliationCsv(plan.lines).split("\n");
+
+    expect(csv[0]).toBe("line,isrc,revenue,status,nft_id,distribution_ids,detail");
+    expect(csv[1]).toBe("5,USAB12600001,0.6,unmapped,,,ISRC is not mapped to an NFT");
+    // Negative revenue would otherwise open as a formula
+    expect(csv[4]).toBe("9,USAB12600002,'-0.000412,unmapped,,,ISRC is not mapped to an NFT");
+  });
+});
+
+describe("ISRC mappings", () => {
+  it("are kept per chain", () => {
+    saveIsrcMappings(CHAIN_ID, { USAB12600001: "7" });
+    expect(getIsrcMappings(CHAIN_ID)).toEqual({ USAB12600001: "7" });
+    expect(getIsrcMappings(1)).toEqual({});
+  });
+
+  it("read as empty when storage holds garbage", () => {
+    localStorage.setItem(`isrc_mappings_${CHAIN_ID}`, "{not json");
+    expect(getIsrcMappings(CHAIN_ID)).toEqual({});
+  });
+});
@@ -0,0 +1,206 @@
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeDistributionRecord } from "@royalties/sdk";
+import { ABI } from "../src/contract";
+import { RoyaltyDistribution } from "../src/distributions";
+import { applyLiveUpdate, LiveStatus, LiveUpdate, subscribeToDistributionUpdates } from "../src/liveUpdates";
+import { NetworkDeployment } from "../src/networks";
+
+const ADAPTER = "0x00000000000000000000000000000000000000Ad";
+const HEAD = 100;
+
+// vi.mock factories run before the module body, so the fakes they hand out are hoisted with them
+const { FakeSocket, readProvider } = vi.hoisted(() => {
+  // Stands in for ethers' WebSocketProvider; each test decides when its first request answers
+  class FakeSocket {
+    static created: FakeSocket[] = [];
+    static ready: Promise<void> = Promise.resolve();
+
+    websocket: { onclose?: () => void; onerror?: () => void } = {};
+    subscribed = false;
+    destroyed = false;
+
+    constructor(public url: string) {
+      FakeSocket.created.push(this);
+    }
+
+    async getBlockNumber() {
+      await FakeSocket.ready;
+      return readProvider.head;
+    }
+
+    async on() {
+      this.subscribed = true;
+    }
+
+    async destroy() {
+      this.destroyed = true;
+    }
+  }
+
+  // Read pool answering getLogs from an in-memory log and recording each range it was asked for
+  const readProvider = {
+    head: 0,
+    logs: [] as ethers.Log[],
+    ranges: [] as [number, number][],
+    getBlockNumber: async () => readProvider.head,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+      readProvider.ranges.push([fromBlock, toBlock]);
+      return readProvider.logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    }
+  };
+
+  return { FakeSocket, readProvider };
+});
+
+// The relayer bundle reads `window` as it loads; nothing here encrypts
+vi.mock("@zama-fhe/relayer-sdk/bundle", () => ({}));
+vi.mock("ethers", async importOriginal => {
+  const actual = await importOriginal<typeof import("ethers")>();
+  return { ...actual, ethers: { ...actual.ethers, WebSocketProvider: FakeSocket } };
+});
+vi.mock("../src/contract", async importOriginal => ({
+  ...(await importOriginal<typeof import("../src/contract")>()),
+  getReadProvider: async () => readProvider
+}));
+
+const deployment: NetworkDeployment = {
+  chainId: 31337,
+  name: "hardhat",
+  rpcUrls: [],
+  wsUrls: ["ws://first", "ws://second"],
+  contractAddress: ADAPTER
+};
+
+const storedLog = (blockNumber: number, id: string): ethers.Log => {
+  const value = encodeDistributionRecord({
+    timestamp: 1700000000,
+    status: "pending",
+    royaltyId: "1",
+    encryptedData: ethers.ZeroHash,
+    decimals: 18
+  });
+  const { data, topics } = new ethers.Interface(ABI).encodeEventLog("DataStored", [
+    ethers.ZeroAddress,
+    `distribution_${id}`,
+    value
+  ]);
+  return { address: ADAPTER, blockNumber, index: 0, removed: false, data, topics } as unknown as ethers.Log;
+};
+
+const row = (overrides: Partial<RoyaltyDistribution>): RoyaltyDistribution => ({
+  id: "a",
+  decimals: 18,
+  timestamp: 1700000000,
+  status: "pending",
+  encryptedData: ethers.ZeroHash,
+  ...overrides
+});
+
+describe("subscribeToDistributionUpdates", () => {
+  let statuses: LiveStatus[];
+  let updates: LiveUpdate[];
+
+  const subscribe = () =>
+    subscribeToDistributionUpdates(deployment, {
+      onUpdate: update => updates.push(update),
+      onStatusChange: status => statuses.push(status)
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    FakeSocket.created = [];
+    FakeSocket.ready = Promise.resolve();
+    readProvider.head = HEAD;
+    readProvider.logs = [];
+    readProvider.ranges = [];
+    statuses = [];
+    updates = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reconnects to the next endpoint and backfills the blocks it missed", async () => {
+    const stop = subscribe();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(statuses).toEqual(["connecting", "live"]);
+    expect(readProvider.ranges).toEqual([[89, 100]]);
+
+    // A write lands while the socket is down
+    readProvider.head = 150;
+    readProvider.logs.push(storedLog(120, "x"));
+    FakeSocket.created[0].websocket.onclose!();
+
+    expect(FakeSocket.created[0].destroyed).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(FakeSocket.created.map(socket => socket.url)).toEqual(["ws://first", "ws://second"]);
+    expect(statuses).toEqual(["connecting", "live", "reconnecting", "reconnecting", "live"]);
+    expect(readProvider.ranges[1]).toEqual([89, 150]);
+    expect(updates).toMatchObject([{ type: "distribution", id: "x", record: { royaltyId: "1" } }]);
+    stop();
+  });
+
+  it("does not go live when stopped while connecting", async () => {
+    let answer!: () => void;
+    FakeSocket.ready = new Promise(resolve => (answer = resolve));
+    const stop = subscribe();
+    await vi.advanceTimersByTimeAsync(0);
+
+    stop();
+    answer();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(statuses).toEqual(["connecting", "stopped"]);
+    expect(FakeSocket.created).toHaveLength(1);
+    expect(FakeSocket.created[0]).toMatchObject({ subscribed: false, destroyed: true });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe("applyLiveUpdate", () => {
+  it("inserts, replaces and removes records, newest first", () => {
+    const older = row({ id: "a", timestamp: 1 });
+    const newer = row({ id: "b", timestamp: 2 });
+
+    let list = applyLiveUpdate([older], { type: "distribution", id: "b", record: newer });
+    expect(list.map(dist => dist.id)).toEqual(["b", "a"]);
+    expect(list[0].syncState).toBe("confirmed");
+
+    list = applyLiveUpdate(list, { type: "distribution", id: "a", record: row({ id: "a", timestamp: 3 }) });
+    expect(list.map(dist => [dist.id, dist.timestamp])).toEqual([["a", 3], ["b", 2]]);
+
+    list = applyLiveUpdate(list, { type: "distribution", id: "a", record: null });
+    expect(list.map(dist => dist.id)).toEqual(["b"]);
+  });
+
+  it("keeps the NFT id read from the royalty when its record is rewritten", () => {
+    const list = [row({ royaltyId: "1", nftId: "7" })];
+
+    const same = applyLiveUpdate(list, { type: "distribution", id: "a", record: row({ royaltyId: "1" }) });
+    const other = applyLiveUpdate(list, { type: "distribution", id: "a", record: row({ royaltyId: "2" }) });
+
+    expect(same[0].nftId).toBe("7");
+    expect(other[0].nftId).toBeUndefined();
+  });
+
+  it("moves the royalty's row along its on-chain progress", () => {
+    const list = [row({ id: "a", royaltyId: "1" }), row({ id: "b", royaltyId: "2" })];
+
+    const requested = applyLiveUpdate(list, { type: "royalty", royaltyId: "1", progress: "requested" });
+    expect(requested[0]).toMatchObject({ onChainStatus: "requested", status: "pending" });
+    expect(requested[1]).toBe(list[1]);
+
+    const distributed = applyLiveUpdate(requested, {
+      type: "royalty",
+      royaltyId: "1",
+      progress: "distributed",
+      nftId: "7"
+    });
+    expect(distributed[0]).toMatchObject({ onChainStatus: "distributed", status: "distributed", nftId: "7" });
+  });
+});
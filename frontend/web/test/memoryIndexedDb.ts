@@ -0,0 +1,89 @@
+// In-memory IndexedDB standing in for the browser's under Node: object stores keyed by their
+// keyPath, values kept as structured clones, and requests that answer after the caller has
+// attached its handlers, as real ones do
+interface MemoryRequest<T> {
+  result?: T;
+  error: Error | null;
+  transaction?: { objectStore: (name: string) => MemoryObjectStore };
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: (event: { oldVersion: number }) => void;
+}
+
+const request = <T>(run: () => T): MemoryRequest<T> => {
+  const pending: MemoryRequest<T> = { error: null };
+  queueMicrotask(() => {
+    try {
+      pending.result = run();
+      pending.onsuccess?.();
+    } catch (e) {
+      pending.error = e as Error;
+      pending.onerror?.();
+    }
+  });
+  return pending;
+};
+
+class MemoryObjectStore {
+  constructor(private readonly keyPath: string, private readonly rows: Map<unknown, unknown>) {}
+
+  get(key: unknown) {
+    return request(() => structuredClone(this.rows.get(key)));
+  }
+
+  put(value: Record<string, unknown>) {
+    return request(() => {
+      this.rows.set(value[this.keyPath], structuredClone(value));
+      return value[this.keyPath];
+    });
+  }
+
+  clear() {
+    return request(() => this.rows.clear());
+  }
+}
+
+class MemoryDatabase {
+  version = 0;
+  private readonly stores = new Map<string, { keyPath: string; rows: Map<unknown, unknown> }>();
+
+  createObjectStore(name: string, { keyPath }: { keyPath: string }) {
+    this.stores.set(name, { keyPath, rows: new Map() });
+    return this.objectStore(name);
+  }
+
+  transaction() {
+    return { objectStore: (name: string) => this.objectStore(name) };
+  }
+
+  private objectStore(name: string) {
+    const store = this.stores.get(name);
+    if (!store) throw new Error(`No object store named ${name}`);
+    return new MemoryObjectStore(store.keyPath, store.rows);
+  }
+}
+
+export class MemoryIndexedDb {
+  private readonly databases = new Map<string, MemoryDatabase>();
+
+  open(name: string, version: number) {
+    const db = this.databases.get(name) ?? new MemoryDatabase();
+    this.databases.set(name, db);
+    const opening: MemoryRequest<MemoryDatabase> = { error: null, result: db };
+    queueMicrotask(() => {
+      if (version < db.version) {
+        opening.error = new Error(`${name} is already at version ${db.version}`);
+        opening.onerror?.();
+        return;
+      }
+      if (version > db.version) {
+        const oldVersion = db.version;
+        db.version = version;
+        opening.transaction = db.transaction();
+        opening.onupgradeneeded?.({ oldVersion });
+      }
+      opening.onsuccess?.();
+    });
+    return opening;
+  }
+}
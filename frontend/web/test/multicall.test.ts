@@ -0,0 +1,144 @@
+import { ChildProcess, spawn } from "child_process";
+import { createServer } from "net";
+import path from "path";
+import { ethers } from "ethers";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { multicall, MulticallRequest } from "../src/multicall";
+import { Multicall3__factory } from "../../../types/factories/contracts/Multicall3__factory";
+import { MockERC20__factory } from "../../../types/factories/contracts/MockERC20__factory";
+
+const ROOT = path.resolve(__dirname, "../../..");
+// First account of the Hardhat node's default mnemonic
+const DEPLOYER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+// Counts eth_call requests in flight so the chunk concurrency limit can be observed
+class CountingProvider extends ethers.JsonRpcProvider {
+  inFlight = 0;
+  maxInFlight = 0;
+  calls = 0;
+
+  async call(tx: ethers.TransactionRequest): Promise<string> {
+    this.calls++;
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    try {
+      return await super.call(tx);
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
+
+const freePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+// Local Hardhat node, the chain deploy.ts gives its own Multicall3 (chain id 31337)
+async function startHardhatNode(port: number): Promise<ChildProcess> {
+  const node = spawn(
+    process.execPath,
+    [path.join(ROOT, "node_modules/hardhat/internal/cli/cli.js"), "node", "--port", String(port)],
+    { cwd: ROOT, stdio: ["ignore", "pipe", "pipe"] }
+  );
+  await new Promise<void>((resolve, reject) => {
+    let output = "";
+    node.stdout!.on("data", chunk => {
+      output += chunk;
+      if (output.includes("Started HTTP")) resolve();
+    });
+    node.once("exit", code => reject(new Error(`Hardhat node exited with code ${code}: ${output}`)));
+  });
+  return node;
+}
+
+describe("multicall", () => {
+  let node: ChildProcess;
+  let provider: CountingProvider;
+  let multicallAddress: string;
+  let token: ethers.Contract;
+  let missing: ethers.Contract;
+
+  beforeAll(async () => {
+    const port = await freePort();
+    node = await startHardhatNode(port);
+    provider = new CountingProvider(`http://127.0.0.1:${port}`, 31337, { staticNetwork: true });
+
+    const deployer = new ethers.Wallet(DEPLOYER_KEY, provider);
+    const aggregator = await new Multicall3__factory(deployer).deploy();
+    await aggregator.waitForDeployment();
+    multicallAddress = await aggregator.getAddress();
+
+    const mock = await new MockERC20__factory(deployer).deploy("Mock Dai", "mDAI", 18);
+    await mock.waitForDeployment();
+    token = new ethers.Contract(await mock.getAddress(), mock.interface, provider);
+    // A selector the token does not implement, so the call reverts inside aggregate3
+    missing = new ethers.Contract(token.target, ["function missing() view returns (uint256)"], provider);
+  }, 60000);
+
+  afterAll(() => {
+    node?.kill();
+  });
+
+  const requestsFor = (count: number): MulticallRequest[] =>
+    Array.from({ length: count }, (_, index) =>
+      index % 2 === 0 ? { contract: token, method: "symbol" } : { contract: token, method: "decimals" }
+    );
+
+  it("returns decoded values in request order and reports reverts per entry", async () => {
+    const results = await multicall(
+      provider,
+      [
+        { contract: token, method: "symbol" },
+        { contract: missing, method: "missing" },
+        { contract: token, method: "decimals" },
+        { contract: token, method: "balanceOf", args: [ethers.ZeroAddress] }
+      ],
+      { multicallAddress, chunkSize: 3 }
+    );
+
+    expect(results).toEqual([
+      { success: true, value: "mDAI" },
+      { success: false, error: "missing reverted" },
+      { success: true, value: 18n },
+      { success: true, value: 0n }
+    ]);
+  });
+
+  it("keeps order across chunks and sends one eth_call per chunk", async () => {
+    provider.calls = 0;
+    const results = await multicall<string | bigint>(provider, requestsFor(7), { multicallAddress, chunkSize: 2 });
+
+    expect(provider.calls).toBe(4);
+    expect(results.map(result => result.success && result.value)).toEqual([
+      "mDAI", 18n, "mDAI", 18n, "mDAI", 18n, "mDAI"
+    ]);
+  });
+
+  for (const chunkSize of [0, -3, NaN]) {
+    it(`treats a chunk size of ${chunkSize} as a valid size instead of looping`, async () => {
+      const results = await multicall(provider, requestsFor(3), { multicallAddress, chunkSize });
+      expect(results.every(result => result.success)).toBe(true);
+      expect(results).toHaveLength(3);
+    });
+  }
+
+  it("keeps at most `concurrency` chunks in flight", async () => {
+    provider.calls = 0;
+    provider.maxInFlight = 0;
+    const results = await multicall(provider, requestsFor(10), { multicallAddress, chunkSize: 1, concurrency: 3 });
+
+    expect(results).toHaveLength(10);
+    expect(provider.calls).toBe(10);
+    expect(provider.maxInFlight).toBe(3);
+  });
+
+  it("returns nothing for no requests", async () => {
+    expect(await multicall(provider, [], { multicallAddress })).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { buildRevenueSeries, SeriesOptions } from "../src/revenueSeries";
+import { RoyaltyDistribution } from "../src/distributions";
+
+// Two recipients that shorten to the same 0x1234...1234 label
+const ALICE = "0x12340000000000000000000000000000000a1234";
+const BOB = "0x12341111111111111111111111111111111b1234";
+
+const at = (date: string) => new Date(`${date}T12:00:00`).getTime() / 1000;
+
+const distribution = (overrides: Partial<RoyaltyDistribution>): RoyaltyDistribution => ({
+  id: "d1",
+  timestamp: at("2026-03-10"),
+  status: "distributed",
+  encryptedData: "0x",
+  decimals: 18,
+  amount: 10n ** 17n,
+  recipient: ALICE,
+  nftId: "7",
+  ...overrides
+} as RoyaltyDistribution);
+
+const options = (overrides: Partial<SeriesOptions> = {}): SeriesOptions => ({
+  interval: "month",
+  metric: "amount",
+  grouping: "none",
+  asset: "ETH",
+  ...overrides
+});
+
+describe("buildRevenueSeries", () => {
+  it("adds amounts in base units, so decimal fractions sum exactly", () => {
+    const series = buildRevenueSeries(
+      [
+        distribution({ id: "a", amount: 10n ** 17n }),
+        distribution({ id: "b", amount: 2n * 10n ** 17n }),
+        distribution({ id: "c", amount: 1n, timestamp: at("2026-05-02") })
+      ],
+      new Map(),
+      options()
+    );
+
+    expect(series.buckets).toHaveLength(3);
+    expect(series.datasets).toEqual([{ label: "ETH", values: [0.3, 0, 1e-18] }]);
+  });
+
+  it("keeps recipients that share a shortened label apart", () => {
+    const series = buildRevenueSeries(
+      [
+        distribution({ id: "a", recipient: ethers.getAddress(ALICE), amount: 3n * 10n ** 18n }),
+        distribution({ id: "b", recipient: BOB, amount: 10n ** 18n }),
+        distribution({ id: "c", recipient: ALICE, amount: 10n ** 18n }),
+        distribution({ id: "d", recipient: undefined, amount: undefined })
+      ],
+      new Map(),
+      options({ grouping: "recipient" })
+    );
+
+    expect(series.datasets).toEqual([
+      { label: "0x1234...1234", values: [4] },
+      { label: "0x1234...1234", values: [1] }
+    ]);
+  });
+
+  it("brings tokens sharing a symbol to the finer precision before adding", () => {
+    const series = buildRevenueSeries(
+      [
+        distribution({ id: "a", decimals: 6, amount: 1_500_000n }),
+        distribution({ id: "b", decimals: 18, amount: 25n * 10n ** 16n })
+      ],
+      new Map(),
+      options()
+    );
+    expect(series.datasets[0].values).toEqual([1.75]);
+  });
+
+  it("counts every readable row and dates linked rows by their royalty", () => {
+    const series = buildRevenueSeries(
+      [
+        distribution({ id: "a", nftId: "7" }),
+        distribution({ id: "b", nftId: undefined, amount: undefined }),
+        distribution({ id: "c", nftId: undefined, legacyNftId: "abc" }),
+        distribution({ id: "d", status: "corrupt" })
+      ],
+      new Map([["a", at("2026-04-01")]]),
+      options({ metric: "count", grouping: "nft" })
+    );
+
+    expect(series.buckets).toHaveLength(2);
+    // Equal totals keep the order the groups were first seen in
+    expect(series.datasets).toEqual([
+      { label: "NFT #7", values: [0, 1] },
+      { label: "Encrypted", values: [1, 0] },
+      { label: "Unlinked: abc", values: [1, 0] }
+    ]);
+  });
+
+  it("folds groups beyond the largest four into Other", () => {
+    const list = [1, 2, 3, 4, 5, 6].map(nft =>
+      distribution({ id: `d${nft}`, nftId: String(nft), amount: BigInt(nft) * 10n ** 18n })
+    );
+    const series = buildRevenueSeries(list, new Map(), options({ grouping: "nft" }));
+
+    expect(series.datasets.map(dataset => dataset.label)).toEqual(["NFT #6", "NFT #5", "NFT #4", "NFT #3", "Other"]);
+    expect(series.datasets[4].values).toEqual([3]);
+  });
+
+  it("returns an empty series when nothing is readable", () => {
+    expect(buildRevenueSeries([distribution({ amount: undefined })], new Map(), options())).toEqual({
+      buckets: [],
+      labels: [],
+      datasets: []
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveRpcEndpoints, RpcPool } from "../src/rpcPool";
+
+type Handler = (payload: any, res: ServerResponse) => void;
+
+const NETWORK = ethers.Network.from(31337);
+
+const servers: Server[] = [];
+
+// Local JSON-RPC endpoint whose response to each request is decided by `handler`
+async function startStub(handler: Handler): Promise<{ url: string; hits: () => number }> {
+  let hits = 0;
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      hits++;
+      handler(JSON.parse(body), res);
+    });
+  });
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, hits: () => hits };
+}
+
+const reply = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const answer = (result: string): Handler => (payload, res) => {
+  const items = Array.isArray(payload) ? payload : [payload];
+  reply(res, 200, items.map(item => ({ jsonrpc: "2.0", id: item.id, result })));
+};
+
+const rejectWith = (code: number): Handler => (payload, res) => {
+  const items = Array.isArray(payload) ? payload : [payload];
+  reply(res, 200, items.map(item => ({ jsonrpc: "2.0", id: item.id, error: { code, message: "rate limited" } })));
+};
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+describe("RpcPool", () => {
+  it("fails over when an endpoint answers HTTP 429", async () => {
+    const throttled = await startStub((_payload, res) => reply(res, 429, { error: "Too Many Requests" }));
+    const healthy = await startStub(answer("0x2a"));
+    const pool = new RpcPool([{ url: throttled.url }, { url: healthy.url }], NETWORK);
+
+    expect(await pool.send("eth_blockNumber", [])).toBe("0x2a");
+
+    const [throttledStats, healthyStats] = pool.getStats();
+    expect(throttledStats).toMatchObject({ failures: 1, coolingDown: true });
+    expect(healthyStats).toMatchObject({ failures: 0, requests: 1, coolingDown: false });
+  });
+
+  for (const code of [-32005, 429]) {
+    it(`fails over when an endpoint returns JSON-RPC error ${code} with HTTP 200`, async () => {
+      const throttled = await startStub(rejectWith(code));
+      const healthy = await startStub(answer("0x2a"));
+      const pool = new RpcPool([{ url: throttled.url }, { url: healthy.url }], NETWORK);
+
+      expect(await pool.send("eth_blockNumber", [])).toBe("0x2a");
+      expect(throttled.hits()).toBe(1);
+      expect(pool.getStats()[0]).toMatchObject({ failures: 1, coolingDown: true });
+    });
+  }
+
+  it("passes other JSON-RPC errors through without failing over", async () => {
+    const reverting = await startStub((payload, res) => {
+      const id = Array.isArray(payload) ? payload[0].id : payload.id;
+      reply(res, 200, [{ jsonrpc: "2.0", id, error: { code: 3, message: "execution reverted" } }]);
+    });
+    const other = await startStub(answer("0x2a"));
+    const pool = new RpcPool([{ url: reverting.url }, { url: other.url }], NETWORK);
+
+    await expect(pool.send("eth_call", [])).rejects.toThrow();
+    expect(other.hits()).toBe(0);
+    expect(pool.getStats()[0]).toMatchObject({ failures: 0, coolingDown: false });
+  });
+
+  it("passes a -32005 log query limit through without failing over", async () => {
+    const limited = await startStub((payload, res) => {
+      const id = Array.isArray(payload) ? payload[0].id : payload.id;
+      const error = { code: -32005, message: "query returned more than 10000 results" };
+      reply(res, 200, [{ jsonrpc: "2.0", id, error }]);
+    });
+    const other = await startStub(answer("0x2a"));
+    const pool = new RpcPool([{ url: limited.url }, { url: other.url }], NETWORK);
+
+    await expect(pool.send("eth_getLogs", [{ fromBlock: "0x0", toBlock: "latest" }])).rejects.toThrow(
+      "more than 10000 results"
+    );
+    expect(other.hits()).toBe(0);
+    expect(pool.getStats()[0]).toMatchObject({ failures: 0, coolingDown: false });
+  });
+
+  it("throws the last error once every endpoint has failed", async () => {
+    const first = await startStub(rejectWith(-32005));
+    const second = await startStub((_payload, res) => reply(res, 503, {}));
+    const pool = new RpcPool([{ url: first.url }, { url: second.url }], NETWORK);
+
+    await expect(pool.send("eth_blockNumber", [])).rejects.toThrow();
+    expect(first.hits() + second.hits()).toBe(2);
+  });
+
+  it("still serves requests when the configured rate is zero or not a number", async () => {
+    const stub = await startStub(answer("0x1"));
+    for (const maxRequestsPerSecond of [0, NaN, -5]) {
+      const pool = new RpcPool([{ url: stub.url, maxRequestsPerSecond }], NETWORK);
+      expect(await pool.send("eth_blockNumber", [])).toBe("0x1");
+    }
+  });
+
+  it("needs at least one endpoint", () => {
+    expect(() => new RpcPool([], NETWORK)).toThrow("RpcPool needs at least one endpoint");
+  });
+});
+
+describe("resolveRpcEndpoints", () => {
+  it("reads endpoints and rate caps from the environment", () => {
+    vi.stubEnv("VITE_RPC_URLS_31337", " http://a.test|5 , http://b.test ,");
+    expect(resolveRpcEndpoints(31337, [{ url: "http://registry.test" }])).toEqual([
+      { url: "http://a.test", maxRequestsPerSecond: 5 },
+      { url: "http://b.test" }
+    ]);
+  });
+
+  it("drops rate caps that are zero or not a number", () => {
+    vi.stubEnv("VITE_RPC_URLS_31337", "http://a.test|0,http://b.test|fast");
+    expect(resolveRpcEndpoints(31337)).toEqual([{ url: "http://a.test" }, { url: "http://b.test" }]);
+  });
+
+  it("falls back to the registry endpoints", () => {
+    expect(resolveRpcEndpoints(31337, [{ url: "http://registry.test" }])).toEqual([{ url: "http://registry.test" }]);
+  });
+});
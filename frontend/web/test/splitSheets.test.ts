@@ -0,0 +1,81 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { allocateSplit, percentToBps, SplitPayee, totalShareBps, validateSplitSheet } from "../src/splitSheets";
+
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const BOB = "0x00000000000000000000000000000000000000b2";
+const CAROL = "0x00000000000000000000000000000000000000c3";
+
+const payee = (recipient: string, shareBps: number): SplitPayee => ({ recipient, role: "writer", shareBps });
+
+describe("percentToBps", () => {
+  it("reads up to two decimals as basis points", () => {
+    expect(percentToBps("50")).toBe(5000);
+    expect(percentToBps("33.34")).toBe(3334);
+    expect(percentToBps(" 0.5 ")).toBe(50);
+    expect(percentToBps("100")).toBe(10000);
+  });
+
+  it("rounds away the float error of the percent input", () => {
+    // 0.29 * 100 and 4.35 * 100 are not whole numbers in floating point
+    expect(percentToBps("0.29")).toBe(29);
+    expect(percentToBps("4.35")).toBe(435);
+    expect(percentToBps("57.01")).toBe(5701);
+  });
+
+  it("rejects anything that is not a percentage up to 100", () => {
+    for (const value of ["", "abc", "-5", "1.234", "100.01", "1e2", "1000"]) {
+      expect(percentToBps(value), value).toBeNull();
+    }
+  });
+});
+
+describe("validateSplitSheet", () => {
+  it("accepts shares that sum to 10000 bps", () => {
+    const payees = [payee(ALICE, 3333), payee(BOB, 3333), payee(CAROL, 3334)];
+    expect(totalShareBps(payees)).toBe(10000);
+    expect(validateSplitSheet(payees)).toEqual([]);
+  });
+
+  it("rejects shares that do not sum to 10000 bps", () => {
+    expect(validateSplitSheet([payee(ALICE, 5000), payee(BOB, 4999)])).toEqual(["Shares add up to 99.99%, not 100%"]);
+    expect(validateSplitSheet([payee(ALICE, 6000), payee(BOB, 5000)])).toEqual(["Shares add up to 110%, not 100%"]);
+  });
+
+  it("rejects a recipient listed twice, whatever its case", () => {
+    const issues = validateSplitSheet([payee(BOB, 5000), payee(BOB.toLowerCase(), 5000)]);
+    expect(issues).toEqual(["Payee 2: recipient is listed more than once"]);
+  });
+
+  it("reports each row's problems in order", () => {
+    expect(validateSplitSheet([])).toEqual(["Add at least one payee"]);
+    expect(validateSplitSheet([payee("nope", 10000), payee(ALICE, 0)])).toEqual([
+      "Payee 1: enter a valid recipient address",
+      "Payee 2: share must be greater than 0%"
+    ]);
+  });
+});
+
+describe("allocateSplit", () => {
+  it("gives the rounding remainder to the largest share", () => {
+    const parts = allocateSplit(100n, 9, [payee(ALICE, 3333), payee(BOB, 3334), payee(CAROL, 3333)]);
+    expect(parts).toEqual([33n, 34n, 33n]);
+  });
+
+  it("always adds up to the amount", () => {
+    const payees = [payee(ALICE, 1), payee(BOB, 4999), payee(CAROL, 5000)];
+    for (const amount of [1n, 7n, 9999n, 123456789n]) {
+      const parts = allocateSplit(amount, 9, payees);
+      expect(parts.reduce((sum, part) => sum + part, 0n)).toBe(amount);
+    }
+  });
+
+  it("splits in steps the encrypted amount can represent", () => {
+    const parts = allocateSplit(ethers.parseEther("1"), 18, [payee(ALICE, 3333), payee(BOB, 6667)]);
+    expect(parts).toEqual([ethers.parseEther("0.3333"), ethers.parseEther("0.6667")]);
+
+    // 1 gwei is the smallest step and cannot be halved; on a tie the first largest share takes it
+    const uneven = allocateSplit(ethers.parseUnits("1", "gwei"), 18, [payee(ALICE, 5000), payee(BOB, 5000)]);
+    expect(uneven).toEqual([ethers.parseUnits("1", "gwei"), 0n]);
+  });
+});
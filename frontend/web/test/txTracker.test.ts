@@ -0,0 +1,169 @@
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryStorage } from "./memoryStorage";
+import {
+  getTrackedTransactions,
+  onTrackedTransactionsChange,
+  resumeTracking,
+  TrackedTransaction,
+  trackMinedTransaction,
+  trackTransaction
+} from "../src/txTracker";
+
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const HASH = ethers.id("tx");
+const REPLACEMENT = ethers.id("replacement");
+
+// Read pool answering from an in-memory chain: mined receipts, the mempool and each sender's next nonce
+const { chain } = vi.hoisted(() => {
+  const chain = {
+    head: 0,
+    receipts: new Map<string, { blockNumber: number; status: number }>(),
+    mempool: new Set<string>(),
+    nonces: new Map<string, number>(),
+    getBlockNumber: async () => chain.head,
+    getTransactionReceipt: async (hash: string) => chain.receipts.get(hash) ?? null,
+    getTransaction: async (hash: string) => (chain.mempool.has(hash) ? { hash } : null),
+    getTransactionCount: async (from: string) => chain.nonces.get(from) ?? 0,
+    getNetwork: async () => ({ chainId: 31337n })
+  };
+  return { chain };
+});
+
+// The relayer bundle reads `window` as it loads; nothing here encrypts
+vi.mock("@zama-fhe/relayer-sdk/bundle", () => ({}));
+vi.mock("../src/contract", async importOriginal => ({
+  ...(await importOriginal<typeof import("../src/contract")>()),
+  getReadProvider: async () => chain
+}));
+
+const statusOf = (hash: string) => getTrackedTransactions().find(tx => tx.hash === hash)?.status;
+
+const sent = (wait: () => Promise<unknown>) =>
+  ({ hash: HASH, from: ALICE, nonce: 3, provider: chain, wait } as unknown as ethers.TransactionResponse);
+
+const mined = (hash: string, blockNumber: number, status = 1) => {
+  chain.receipts.set(hash, { blockNumber, status });
+  chain.head = Math.max(chain.head, blockNumber);
+  chain.mempool.delete(hash);
+  return {
+    hash,
+    from: ALICE,
+    blockNumber,
+    status,
+    provider: chain,
+    getTransaction: async () => ({ nonce: 3 })
+  } as unknown as ethers.TransactionReceipt;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  chain.head = 10;
+  chain.receipts.clear();
+  chain.mempool.clear();
+  chain.nonces.clear();
+});
+
+afterEach(async () => {
+  // Let every watcher reach a final state so none carries over into the next test
+  chain.nonces.set(ALICE, 100);
+  await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+  vi.useRealTimers();
+});
+
+describe("txTracker", () => {
+  it("counts confirmations until the transaction is final", async () => {
+    await trackMinedTransaction(mined(HASH, 10), "Distribute royalty #1");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getTrackedTransactions()[0]).toMatchObject({ status: "mined", confirmations: 1, blockNumber: 10 });
+
+    chain.head = 11;
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(getTrackedTransactions()[0]).toMatchObject({ status: "confirmed", confirmations: 2 });
+
+    // Final: later blocks no longer touch the entry
+    chain.head = 20;
+    await vi.advanceTimersByTimeAsync(8000);
+    expect(getTrackedTransactions()[0].confirmations).toBe(2);
+  });
+
+  it("marks a transaction replaced once its nonce is used by another", async () => {
+    chain.mempool.add(HASH);
+    trackTransaction(sent(() => new Promise(() => undefined)), "Submit royalty");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statusOf(HASH)).toBe("pending");
+
+    chain.mempool.delete(HASH);
+    chain.nonces.set(ALICE, 4);
+    await vi.advanceTimersByTimeAsync(4000);
+
+    expect(statusOf(HASH)).toBe("replaced");
+  });
+
+  it("marks a transaction dropped when no node has seen it for half an hour", async () => {
+    trackTransaction(sent(() => new Promise(() => undefined)), "Submit royalty");
+    await vi.advanceTimersByTimeAsync(29 * 60 * 1000);
+    expect(statusOf(HASH)).toBe("pending");
+
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(statusOf(HASH)).toBe("dropped");
+  });
+
+  it("follows a sped-up replacement under the original label", async () => {
+    const replacement = mined(REPLACEMENT, 10);
+    const replaced = ethers.makeError("transaction was replaced", "TRANSACTION_REPLACED", {
+      cancelled: false,
+      reason: "repriced",
+      hash: REPLACEMENT,
+      replacement: {} as ethers.TransactionResponse,
+      receipt: replacement
+    });
+
+    await expect(trackTransaction(sent(() => Promise.reject(replaced)), "Submit royalty")).resolves.toBe(replacement);
+    expect(getTrackedTransactions()).toMatchObject([
+      { hash: REPLACEMENT, label: "Submit royalty", status: "mined" },
+      { hash: HASH, status: "replaced", replacedBy: REPLACEMENT }
+    ]);
+  });
+
+  it("rejects when the transaction is cancelled", async () => {
+    const cancelled = ethers.makeError("transaction was replaced", "TRANSACTION_REPLACED", {
+      cancelled: true,
+      reason: "cancelled",
+      hash: REPLACEMENT,
+      replacement: {} as ethers.TransactionResponse,
+      receipt: mined(REPLACEMENT, 10)
+    });
+
+    await expect(trackTransaction(sent(() => Promise.reject(cancelled)), "Submit royalty")).rejects.toThrow(
+      "Transaction was cancelled"
+    );
+    expect(statusOf(HASH)).toBe("replaced");
+  });
+
+  it("resumes transactions left in flight in localStorage", async () => {
+    const stored: TrackedTransaction[] = [
+      { hash: HASH, chainId: 31337, from: ALICE, nonce: 3, label: "Submit royalty", status: "pending",
+        confirmations: 0, submittedAt: Date.now(), updatedAt: Date.now() },
+      { hash: REPLACEMENT, chainId: 31337, from: ALICE, nonce: 2, label: "Older", status: "confirmed",
+        confirmations: 2, blockNumber: 5, submittedAt: Date.now(), updatedAt: Date.now() }
+    ];
+    localStorage.setItem("tx_history", JSON.stringify(stored));
+    const changes: TrackedTransaction[][] = [];
+    const unsubscribe = onTrackedTransactionsChange(transactions => changes.push(transactions));
+
+    mined(HASH, 9);
+    resumeTracking();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getTrackedTransactions().map(tx => [tx.hash, tx.status])).toEqual([
+      [HASH, "confirmed"],
+      [REPLACEMENT, "confirmed"]
+    ]);
+    expect(changes).toHaveLength(1);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,195 @@
+import { EventEmitter } from "events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryStorage } from "./memoryStorage";
+
+type WalletSessionModule = typeof import("../src/walletSession");
+type WalletsModule = typeof import("../src/wallets");
+
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const BOB = "0x00000000000000000000000000000000000000b2";
+const METAMASK = "io.metamask";
+
+// EIP-1193 provider answering from a fixed account list and recording every request
+class FakeProvider extends EventEmitter {
+  methods: string[] = [];
+
+  constructor(public accounts: string[] = [ALICE], public chainId = "0x7a69") {
+    super();
+  }
+
+  async request({ method }: { method: string }) {
+    this.methods.push(method);
+    if (method === "eth_requestAccounts" || method === "eth_accounts") return this.accounts;
+    if (method === "eth_chainId") return this.chainId;
+    return null;
+  }
+}
+
+let walletSession: WalletSessionModule;
+let wallets: WalletsModule;
+
+// Answers every discovery request the way an installed EIP-6963 wallet does
+const announce = (provider: FakeProvider, rdns = METAMASK) => {
+  window.addEventListener("eip6963:requestProvider", () => {
+    window.dispatchEvent(new CustomEvent("eip6963:announceProvider", {
+      detail: { info: { uuid: "uuid-1", name: "MetaMask", icon: "", rdns }, provider }
+    }));
+  });
+};
+
+// A `storage` event as another tab's write to `key` raises it here
+const storageEvent = (key: string, newValue: string | null) =>
+  Object.assign(new Event("storage"), { key, newValue });
+
+beforeEach(async () => {
+  vi.stubGlobal("window", new EventTarget());
+  vi.stubGlobal("localStorage", new MemoryStorage());
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  // Both modules keep state and attach window listeners when loaded, so every test gets fresh ones
+  vi.resetModules();
+  walletSession = await import("../src/walletSession");
+  wallets = await import("../src/wallets");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("connectWallet", () => {
+  it("starts a remembered session and follows the wallet's account and chain", async () => {
+    const provider = new FakeProvider();
+    const changes: (string | null)[] = [];
+    walletSession.onWalletSessionChange(session => changes.push(session && `${session.account}@${session.chainId}`));
+
+    const session = await walletSession.connectWallet(METAMASK, provider);
+
+    expect(session).toEqual({ walletId: METAMASK, provider, account: ALICE, chainId: 31337 });
+    expect(localStorage.getItem("wallet_session")).toBe(METAMASK);
+    expect(wallets.getWalletProvider()).toBe(provider);
+
+    provider.emit("accountsChanged", [BOB]);
+    provider.emit("chainChanged", "0x1");
+    expect(walletSession.getWalletSession()).toMatchObject({ account: BOB, chainId: 1 });
+    expect(changes).toEqual([`${ALICE}@31337`, `${BOB}@31337`, `${BOB}@1`]);
+  });
+
+  it("ends the session when the wallet locks, but reconnects on the next load", async () => {
+    const provider = new FakeProvider();
+    await walletSession.connectWallet(METAMASK, provider);
+
+    provider.emit("accountsChanged", []);
+
+    expect(walletSession.getWalletSession()).toBeNull();
+    expect(wallets.getWalletProvider()).toBeNull();
+    expect(provider.listenerCount("accountsChanged")).toBe(0);
+    expect(localStorage.getItem("wallet_session")).toBe(METAMASK);
+  });
+
+  it("refuses a wallet that shares no account", async () => {
+    await expect(walletSession.connectWallet(METAMASK, new FakeProvider([]))).rejects.toThrow(
+      "Wallet did not share any account"
+    );
+    expect(walletSession.getWalletSession()).toBeNull();
+  });
+
+  it("gives way to a disconnect made while the wallet was prompting", async () => {
+    const pending = walletSession.connectWallet(METAMASK, new FakeProvider());
+    walletSession.disconnectWallet();
+
+    await expect(pending).rejects.toThrow("Connection was superseded");
+    expect(walletSession.getWalletSession()).toBeNull();
+    expect(localStorage.getItem("wallet_session")).toBeNull();
+  });
+});
+
+describe("restoreWalletSession", () => {
+  it("does nothing when no wallet is remembered", async () => {
+    expect(await walletSession.restoreWalletSession()).toBeNull();
+  });
+
+  it("reconnects an announced wallet without prompting", async () => {
+    const provider = new FakeProvider();
+    announce(provider);
+    localStorage.setItem("wallet_session", METAMASK);
+
+    const session = await walletSession.restoreWalletSession();
+
+    expect(session).toMatchObject({ walletId: METAMASK, account: ALICE, chainId: 31337 });
+    expect(provider.methods).toEqual(["eth_accounts", "eth_chainId"]);
+  });
+
+  it("falls back to injected globals once discovery times out", async () => {
+    vi.useFakeTimers();
+    const provider = new FakeProvider();
+    Object.assign(window, { ethereum: Object.assign(provider, { isMetaMask: true }) });
+    localStorage.setItem("wallet_session", METAMASK);
+
+    const restoring = walletSession.restoreWalletSession();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await restoring).toMatchObject({ walletId: METAMASK, provider });
+  });
+
+  it("stays disconnected when the wallet no longer shares an account", async () => {
+    announce(new FakeProvider([]));
+    localStorage.setItem("wallet_session", METAMASK);
+
+    expect(await walletSession.restoreWalletSession()).toBeNull();
+    expect(localStorage.getItem("wallet_session")).toBe(METAMASK);
+  });
+
+  it("gives way to a connect made while it was restoring", async () => {
+    announce(new FakeProvider([ALICE]));
+    localStorage.setItem("wallet_session", METAMASK);
+
+    const restoring = walletSession.restoreWalletSession();
+    const connecting = walletSession.connectWallet("com.okex.wallet", new FakeProvider([BOB]));
+    await Promise.all([restoring, connecting]);
+
+    expect(walletSession.getWalletSession()).toMatchObject({ walletId: "com.okex.wallet", account: BOB });
+    expect(localStorage.getItem("wallet_session")).toBe("com.okex.wallet");
+  });
+});
+
+describe("disconnectWallet", () => {
+  it("forgets the wallet and revokes the site's permission", async () => {
+    const provider = new FakeProvider();
+    await walletSession.connectWallet(METAMASK, provider);
+
+    walletSession.disconnectWallet();
+
+    expect(walletSession.getWalletSession()).toBeNull();
+    expect(localStorage.getItem("wallet_session")).toBeNull();
+    expect(provider.listenerCount("chainChanged")).toBe(0);
+    expect(provider.methods).toContain("wallet_revokePermissions");
+  });
+});
+
+describe("other tabs", () => {
+  it("mirror a disconnect", async () => {
+    await walletSession.connectWallet(METAMASK, new FakeProvider());
+
+    window.dispatchEvent(storageEvent("wallet_session", null));
+
+    expect(walletSession.getWalletSession()).toBeNull();
+  });
+
+  it("mirror a connect by restoring the same wallet", async () => {
+    announce(new FakeProvider([BOB]));
+    const restored = new Promise(resolve => walletSession.onWalletSessionChange(resolve));
+
+    localStorage.setItem("wallet_session", METAMASK);
+    window.dispatchEvent(storageEvent("wallet_session", METAMASK));
+
+    expect(await restored).toMatchObject({ walletId: METAMASK, account: BOB });
+  });
+
+  it("ignore writes to other keys", async () => {
+    await walletSession.connectWallet(METAMASK, new FakeProvider());
+
+    window.dispatchEvent(storageEvent("last_wallet", null));
+
+    expect(walletSession.getWalletSession()).not.toBeNull();
+  });
+});
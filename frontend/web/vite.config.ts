@@ -1,8 +1,21 @@
+import path from "path";
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // The contract SDK and typechain bindings live in the Hardhat project at the repo root
+    alias: {
+      "@royalties/sdk": path.resolve(__dirname, "../../src/sdk"),
+    },
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [path.resolve(__dirname, "../..")]
+    }
+  },
   define: {
     'process.env': process.env
   },
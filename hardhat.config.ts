@@ -2,6 +2,7 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/migrateAdapterRecords";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -0,0 +1,315 @@
+import { ContractTransactionReceipt, Log, Signature, ZeroAddress } from "ethers";
+import type { BigNumberish, BytesLike, ContractRunner, SignatureLike } from "ethers";
+import type { MusicNftRoyalties } from "../../types/contracts/MusicNftRoyalties";
+import { MusicNftRoyalties__factory } from "../../types/factories/contracts/MusicNftRoyalties__factory";
+
+// euint64 cannot hold large wei values, so encrypted amounts are carried in gwei.
+export const ENCRYPTED_AMOUNT_DECIMALS = 9;
+export const FULL_SHARE_BPS = 10000;
+// Mirrors MusicNftRoyalties.MIN_ROYALTIES_PER_TOTAL_REVEAL.
+export const MIN_ROYALTIES_PER_TOTAL_REVEAL = 3;
+// Payout token address the contract uses for native ETH.
+export const NATIVE_PAYOUT_TOKEN = ZeroAddress;
+
+/** Handles in `submitEncryptedRoyalty` argument order: owner, share, NFT id, amount. */
+export interface EncryptedRoyaltyInput {
+  handles: BytesLike[];
+  inputProof: BytesLike;
+}
+
+export interface SubmittedRoyalty {
+  royaltyId: bigint;
+  timestamp: bigint;
+  receipt: ContractTransactionReceipt;
+}
+
+export interface DecryptedRoyalty {
+  nftId: bigint;
+  isRevealed: boolean;
+}
+
+/** Result of the last NFT royalty count decryption; `isPending` while a request awaits the oracle. */
+export interface RevealedNftRoyaltyCount {
+  count: bigint;
+  isRevealed: boolean;
+  isPending: boolean;
+}
+
+/** Last decrypted total of an NFT's royalties in one payout token, at ENCRYPTED_AMOUNT_DECIMALS. */
+export interface RevealedNftRoyaltyTotal {
+  total: bigint;
+  isRevealed: boolean;
+  isPending: boolean;
+}
+
+/** Payout state of a royalty; `isPending` while `holder`'s payout request awaits the oracle. */
+export interface RoyaltyPayout {
+  isPaid: boolean;
+  isPending: boolean;
+}
+
+export interface HolderRoyaltyHandles {
+  share: string;
+  nftId: string;
+  amount: string;
+}
+
+export type RoyaltyEvent =
+  | { name: "RoyaltySubmitted"; royaltyId: bigint; timestamp: bigint; log: Log }
+  | { name: "DistributionRequested"; royaltyId: bigint; log: Log }
+  | { name: "RoyaltyDistributed"; royaltyId: bigint; log: Log }
+  | { name: "HolderAccessGranted"; royaltyId: bigint; holder: string; log: Log }
+  | { name: "NftRoyaltyCountRequested"; nftId: bigint; requestId: bigint; log: Log }
+  | { name: "NftRoyaltyCountDecrypted"; nftId: bigint; count: bigint; log: Log }
+  | { name: "NftRoyaltyTotalRequested"; nftId: bigint; token: string; requestId: bigint; log: Log }
+  | { name: "NftRoyaltyTotalDecrypted"; nftId: bigint; token: string; total: bigint; log: Log }
+  | { name: "PayoutRequested"; royaltyId: bigint; holder: string; log: Log }
+  | { name: "RoyaltyPaid"; royaltyId: bigint; holder: string; token: string; amount: bigint; log: Log }
+  | { name: "RoyaltyPayoutUnfunded"; royaltyId: bigint; holder: string; log: Log };
+
+export const ROYALTY_EVENT_NAMES = [
+  "RoyaltySubmitted",
+  "DistributionRequested",
+  "RoyaltyDistributed",
+  "HolderAccessGranted",
+  "NftRoyaltyCountRequested",
+  "NftRoyaltyCountDecrypted",
+  "NftRoyaltyTotalRequested",
+  "NftRoyaltyTotalDecrypted",
+  "PayoutRequested",
+  "RoyaltyPaid",
+  "RoyaltyPayoutUnfunded",
+] as const;
+
+/**
+ * Typed wrapper around a deployed MusicNftRoyalties contract. Encryption is left to the
+ * caller (relayer SDK in the browser, the hardhat fhevm plugin in scripts); this client
+ * only deals with submitting handles, reading state and decoding events.
+ */
+export class MusicNftRoyaltiesClient {
+  readonly contract: MusicNftRoyalties;
+
+  constructor(address: string, runner: ContractRunner) {
+    this.contract = MusicNftRoyalties__factory.connect(address, runner);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  /** Submits a royalty paid in ETH, or in `payoutToken` when it is an allow-listed ERC-20. */
+  async submitEncryptedRoyalty(
+    input: EncryptedRoyaltyInput,
+    payoutToken: string = NATIVE_PAYOUT_TOKEN
+  ): Promise<SubmittedRoyalty> {
+    if (input.handles.length !== 4) {
+      throw new Error(`Expected 4 encrypted handles, got ${input.handles.length}`);
+    }
+    const [owner, share, nftId, amount] = input.handles;
+    const tx = payoutToken === NATIVE_PAYOUT_TOKEN
+      ? await this.contract.submitEncryptedRoyalty(owner, share, nftId, amount, input.inputProof)
+      : await this.contract.submitEncryptedTokenRoyalty(owner, share, nftId, amount, input.inputProof, payoutToken);
+    const receipt = await this.waitForReceipt(tx.wait());
+
+    const submitted = this.decodeEvents(receipt.logs).find(
+      (event): event is Extract<RoyaltyEvent, { name: "RoyaltySubmitted" }> => event.name === "RoyaltySubmitted"
+    );
+    if (!submitted) {
+      throw new Error("RoyaltySubmitted event not found in receipt");
+    }
+    return { royaltyId: submitted.royaltyId, timestamp: submitted.timestamp, receipt };
+  }
+
+  async requestRoyaltyDistribution(royaltyId: BigNumberish): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.requestRoyaltyDistribution(royaltyId);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  async requestHolderAccess(royaltyId: BigNumberish): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.requestHolderAccess(royaltyId);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  async getHolderRoyalty(royaltyId: BigNumberish, holder: string): Promise<HolderRoyaltyHandles> {
+    const [share, nftId, amount] = await this.contract.getHolderRoyalty(royaltyId, holder);
+    return { share, nftId, amount };
+  }
+
+  async getDecryptedRoyalty(royaltyId: BigNumberish): Promise<DecryptedRoyalty> {
+    const [nftId, isRevealed] = await this.contract.getDecryptedRoyalty(royaltyId);
+    return { nftId, isRevealed };
+  }
+
+  async getRoyaltyCount(): Promise<bigint> {
+    return this.contract.royaltyCount();
+  }
+
+  async getEncryptedNftRoyaltyCount(nftId: BigNumberish): Promise<string> {
+    return this.contract.getEncryptedNftRoyaltyCount(nftId);
+  }
+
+  async requestNftRoyaltyCountDecryption(nftId: BigNumberish): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.requestNftRoyaltyCountDecryption(nftId);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  async getRevealedNftRoyaltyCount(nftId: BigNumberish): Promise<RevealedNftRoyaltyCount> {
+    const [count, isRevealed, isPending] = await this.contract.getRevealedNftRoyaltyCount(nftId);
+    return { count, isRevealed, isPending };
+  }
+
+  /** Payout tokens the NFT has distributed royalties in; each has its own total. */
+  async getNftPayoutTokens(nftId: BigNumberish): Promise<string[]> {
+    return this.contract.getNftPayoutTokens(nftId);
+  }
+
+  async requestNftRoyaltyTotalDecryption(
+    nftId: BigNumberish,
+    token: string = NATIVE_PAYOUT_TOKEN
+  ): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.requestNftRoyaltyTotalDecryption(nftId, token);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  async getRevealedNftRoyaltyTotal(
+    nftId: BigNumberish,
+    token: string = NATIVE_PAYOUT_TOKEN
+  ): Promise<RevealedNftRoyaltyTotal> {
+    const [total, isRevealed, isPending] = await this.contract.getRevealedNftRoyaltyTotal(nftId, token);
+    return { total, isRevealed, isPending };
+  }
+
+  /** Royalties added to the NFT's total in `token` since its last decryption; it takes MIN_ROYALTIES_PER_TOTAL_REVEAL to decrypt again. */
+  async getNewRoyaltiesSinceTotalReveal(nftId: BigNumberish, token: string = NATIVE_PAYOUT_TOKEN): Promise<number> {
+    return Number(await this.contract.getNewRoyaltiesSinceTotalReveal(nftId, token));
+  }
+
+  /** Sum of the NFT's distributed royalty amounts in `token` as of its last total decryption, at ENCRYPTED_AMOUNT_DECIMALS. */
+  async calculateTotalRoyalties(nftId: BigNumberish, token: string = NATIVE_PAYOUT_TOKEN): Promise<bigint> {
+    return this.contract.calculateTotalRoyalties(nftId, token);
+  }
+
+  /** Asks the oracle to pay a distributed royalty to the caller, which only pays out if the caller is its holder. */
+  async requestRoyaltyPayout(royaltyId: BigNumberish): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.requestRoyaltyPayout(royaltyId);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  async getRoyaltyPayout(royaltyId: BigNumberish, holder: string): Promise<RoyaltyPayout> {
+    const [isPaid, isPending] = await this.contract.getRoyaltyPayout(royaltyId, holder);
+    return { isPaid, isPending };
+  }
+
+  async getPayoutTokens(): Promise<string[]> {
+    return this.contract.getPayoutTokens();
+  }
+
+  async getRoyaltyPayoutToken(royaltyId: BigNumberish): Promise<string> {
+    return this.contract.royaltyPayoutToken(royaltyId);
+  }
+
+  async setPayoutToken(token: string, allowed: boolean): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.setPayoutToken(token, allowed);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  async payoutBalanceOf(account: string, token: string = NATIVE_PAYOUT_TOKEN): Promise<bigint> {
+    return this.contract.payoutBalanceOf(account, token);
+  }
+
+  async depositEth(amount: bigint): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.depositEth({ value: amount });
+    return this.waitForReceipt(tx.wait());
+  }
+
+  /** Deposits an ERC-20 the caller has already approved this contract to spend. */
+  async deposit(token: string, amount: bigint): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.deposit(token, amount);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  /** Deposits an EIP-2612 token using a permit signed for this contract, in one transaction. */
+  async depositWithPermit(
+    token: string,
+    amount: bigint,
+    deadline: BigNumberish,
+    signature: SignatureLike
+  ): Promise<ContractTransactionReceipt> {
+    const { v, r, s } = Signature.from(signature);
+    const tx = await this.contract.depositWithPermit(token, amount, deadline, v, r, s);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  async withdraw(token: string, amount: bigint): Promise<ContractTransactionReceipt> {
+    const tx = await this.contract.withdraw(token, amount);
+    return this.waitForReceipt(tx.wait());
+  }
+
+  decodeEvent(log: Log): RoyaltyEvent | null {
+    let parsed;
+    try {
+      parsed = this.contract.interface.parseLog(log);
+    } catch {
+      return null;
+    }
+    if (!parsed) return null;
+
+    switch (parsed.name) {
+      case "RoyaltySubmitted":
+        return { name: parsed.name, royaltyId: parsed.args.id, timestamp: parsed.args.timestamp, log };
+      case "DistributionRequested":
+      case "RoyaltyDistributed":
+        return { name: parsed.name, royaltyId: parsed.args.id, log };
+      case "HolderAccessGranted":
+        return { name: parsed.name, royaltyId: parsed.args.id, holder: parsed.args.holder, log };
+      case "NftRoyaltyCountRequested":
+        return { name: parsed.name, nftId: parsed.args.nftId, requestId: parsed.args.requestId, log };
+      case "NftRoyaltyCountDecrypted":
+        return { name: parsed.name, nftId: parsed.args.nftId, count: parsed.args.count, log };
+      case "NftRoyaltyTotalRequested":
+        return { name: parsed.name, nftId: parsed.args.nftId, token: parsed.args.token, requestId: parsed.args.requestId, log };
+      case "NftRoyaltyTotalDecrypted":
+        return { name: parsed.name, nftId: parsed.args.nftId, token: parsed.args.token, total: parsed.args.total, log };
+      case "PayoutRequested":
+      case "RoyaltyPayoutUnfunded":
+        return { name: parsed.name, royaltyId: parsed.args.id, holder: parsed.args.holder, log };
+      case "RoyaltyPaid":
+        return {
+          name: parsed.name,
+          royaltyId: parsed.args.id,
+          holder: parsed.args.holder,
+          token: parsed.args.token,
+          amount: parsed.args.amount,
+          log,
+        };
+      default:
+        return null;
+    }
+  }
+
+  decodeEvents(logs: readonly Log[]): RoyaltyEvent[] {
+    return logs
+      .filter((log) => log.address.toLowerCase() === this.address.toLowerCase())
+      .map((log) => this.decodeEvent(log))
+      .filter((event): event is RoyaltyEvent => event !== null);
+  }
+
+  async queryEvents(fromBlock: number, toBlock: number | "latest" = "latest"): Promise<RoyaltyEvent[]> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("Contract runner has no provider");
+    }
+    const logs = await provider.getLogs({ address: this.address, fromBlock, toBlock });
+    return this.decodeEvents(logs);
+  }
+
+  private async waitForReceipt(
+    pending: Promise<ContractTransactionReceipt | null>
+  ): Promise<ContractTransactionReceipt> {
+    const receipt = await pending;
+    if (!receipt) {
+      throw new Error("Transaction was not mined");
+    }
+    return receipt;
+  }
+}
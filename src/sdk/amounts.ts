@@ -0,0 +1,77 @@
+import { formatUnits } from "ethers";
+import { ENCRYPTED_AMOUNT_DECIMALS } from "./MusicNftRoyaltiesClient";
+
+export const ETH_DECIMALS = 18;
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+const AMOUNT_PATTERN = /^(\d+)(?:\.(\d*))?$/;
+
+export interface FormatAmountOptions {
+  // Digits kept after the point; smaller non-zero amounts are shown as "<0.0…1".
+  maxFractionDigits?: number;
+  // Group the whole part with thousands separators.
+  grouping?: boolean;
+}
+
+/**
+ * Parses user input such as "1.25" into base units of a token with `decimals` decimals.
+ * Unlike `parseUnits`, refuses signs, exponents and digits beyond the token's precision
+ * instead of rounding or throwing a low-level error.
+ */
+export function parseAmount(value: string, decimals: number): bigint {
+  const match = AMOUNT_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error("Amount must be a positive decimal number");
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Amount can have at most ${decimals} decimal places`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+}
+
+/** Formats base units for display without going through floating point. */
+export function formatAmount(value: bigint, decimals: number, options: FormatAmountOptions = {}): string {
+  const { maxFractionDigits = decimals, grouping = false } = options;
+  const negative = value < 0n;
+  const absolute = negative ? -value : value;
+
+  const [whole, fraction = ""] = formatUnits(absolute, decimals).split(".");
+  const shownFraction = fraction.substring(0, maxFractionDigits).replace(/0+$/, "");
+  const shownWhole = grouping ? whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",") : whole;
+
+  if (absolute > 0n && whole === "0" && shownFraction === "") {
+    const smallest = maxFractionDigits > 0 ? `0.${"0".repeat(maxFractionDigits - 1)}1` : "1";
+    return `${negative ? ">-" : "<"}${smallest}`;
+  }
+  return `${negative ? "-" : ""}${shownWhole}${shownFraction ? `.${shownFraction}` : ""}`;
+}
+
+/**
+ * Converts base units to the fixed-point precision used for encrypted amounts. Throws when
+ * the amount has more precision than the encrypted value keeps, or does not fit in euint64.
+ */
+export function toEncryptedAmount(amount: bigint, decimals: number): bigint {
+  let scaled: bigint;
+  if (decimals <= ENCRYPTED_AMOUNT_DECIMALS) {
+    scaled = amount * 10n ** BigInt(ENCRYPTED_AMOUNT_DECIMALS - decimals);
+  } else {
+    const divisor = 10n ** BigInt(decimals - ENCRYPTED_AMOUNT_DECIMALS);
+    if (amount % divisor !== 0n) {
+      throw new Error(`Encrypted amounts keep at most ${ENCRYPTED_AMOUNT_DECIMALS} decimal places`);
+    }
+    scaled = amount / divisor;
+  }
+  if (scaled < 0n || scaled > MAX_UINT64) {
+    throw new Error("Amount is too large to encrypt");
+  }
+  return scaled;
+}
+
+/** Inverse of `toEncryptedAmount`: decrypted fixed-point value back to base units. */
+export function fromEncryptedAmount(value: bigint, decimals: number): bigint {
+  if (decimals >= ENCRYPTED_AMOUNT_DECIMALS) {
+    return value * 10n ** BigInt(decimals - ENCRYPTED_AMOUNT_DECIMALS);
+  }
+  return value / 10n ** BigInt(ENCRYPTED_AMOUNT_DECIMALS - decimals);
+}
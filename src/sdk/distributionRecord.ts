@@ -0,0 +1,380 @@
+import { hexlify, isAddress, toUtf8Bytes, toUtf8String } from "ethers";
+import type { BytesLike } from "ethers";
+import { ETH_DECIMALS, parseAmount } from "./amounts";
+import { FULL_SHARE_BPS } from "./MusicNftRoyaltiesClient";
+
+/**
+ * On-chain layout of a distribution record stored under `distribution_<id>`.
+ *
+ * v1: the original unversioned JSON written by the first releases; `status` was optional
+ *     and numbers were not always written as numbers. Unversioned records that link a
+ *     royalty but hold no amount come from the releases that already kept the payee
+ *     encrypted; they are read as metadata-only records of the current version, paid in ETH.
+ * v2: adds `version`, makes `status` required and pins every field to one type. Records
+ *     created from a split sheet also carry `split`, linking each payee's row to its sheet.
+ *     A v1 record whose `nftId` was free text instead of a token id keeps that text as
+ *     `legacyNftId` and has no `nftId`: it is unlinked from any NFT rather than corrupt.
+ * v3: stores `amount` as an integer in the asset's base units (wei for ETH) next to the
+ *     asset's `decimals`, instead of a decimal ETH string. Royalties paid in an ERC-20
+ *     carry `payoutToken`; records without it are paid in ETH. Imported records carry
+ *     `source`, naming the report and line the revenue came from, and may carry the
+ *     statement `period` it was earned in.
+ * v4: keeps only metadata that is public anyway. The amount, recipient, NFT id and split
+ *     share of new records exist only encrypted in the linked royalty, so `royaltyId` is
+ *     required and `split` names just the sheet. Records migrated from v1-v3 carry what
+ *     they had already written in cleartext under `published`.
+ */
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export const MAX_PERIOD_LENGTH = 64;
+
+export type StoredStatus = "pending" | "distributed" | "failed";
+
+export interface StoredDistributionV1 {
+  amount: string | number;
+  timestamp: number | string;
+  recipient: string;
+  nftId: string | number;
+  status?: string;
+  royaltyId?: string;
+  encryptedData?: string;
+}
+
+export interface StoredSplitAllocation {
+  sheetId: string;
+  role: string;
+  shareBps: number;
+}
+
+export interface StoredDistributionV2 {
+  version: 2;
+  amount: string;
+  timestamp: number;
+  recipient: string;
+  // Exactly one of the two is set.
+  nftId?: string;
+  legacyNftId?: string;
+  status: StoredStatus;
+  royaltyId?: string;
+  encryptedData: string;
+  split?: StoredSplitAllocation;
+}
+
+export interface StoredPayoutToken {
+  address: string;
+  symbol: string;
+}
+
+export type StoredImportSource =
+  // MessageId from the report's HEAD record.
+  | { format: "ddex-dsr"; messageId: string; isrc: string }
+  // 1-based row of the uploaded file.
+  | { format: "csv"; fileName: string; row: number };
+
+export interface StoredDistributionV3 extends Omit<StoredDistributionV2, "version"> {
+  version: 3;
+  // Base units of the asset, as a decimal integer string.
+  amount: string;
+  decimals: number;
+  payoutToken?: StoredPayoutToken;
+  source?: StoredImportSource;
+  // Free-form statement period, e.g. "2026-Q3".
+  period?: string;
+}
+
+export interface StoredSplitReference {
+  sheetId: string;
+}
+
+// Cleartext a v1-v3 record wrote before amounts were kept encrypted only.
+export interface StoredPublishedFields {
+  amount: string;
+  recipient: string;
+  nftId?: string;
+  legacyNftId?: string;
+  split?: Omit<StoredSplitAllocation, "sheetId">;
+}
+
+export interface StoredDistributionV4 {
+  version: 4;
+  timestamp: number;
+  status: StoredStatus;
+  royaltyId?: string;
+  // Hash of the transaction that submitted the royalty.
+  encryptedData: string;
+  decimals: number;
+  payoutToken?: StoredPayoutToken;
+  split?: StoredSplitReference;
+  source?: StoredImportSource;
+  period?: string;
+  published?: StoredPublishedFields;
+}
+
+export type StoredDistribution = StoredDistributionV4;
+
+export type DecodeResult =
+  | { ok: true; record: StoredDistribution; migratedFrom?: number }
+  | { ok: false; error: string; raw: string };
+
+const STORED_STATUSES: StoredStatus[] = ["pending", "distributed", "failed"];
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+const INTEGER_PATTERN = /^\d+$/;
+// Highest precision an ERC-20 is expected to declare.
+const MAX_DECIMALS = 36;
+
+type Validator = (value: Record<string, unknown>) => string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isImportSource = (value: unknown): value is StoredImportSource => {
+  if (!isObject(value)) return false;
+  switch (value.format) {
+    case "ddex-dsr":
+      return typeof value.messageId === "string" && typeof value.isrc === "string";
+    case "csv":
+      return typeof value.fileName === "string" && typeof value.row === "number" && Number.isInteger(value.row);
+    default:
+      return false;
+  }
+};
+
+const validateV1: Validator = value => {
+  const issues: string[] = [];
+  if (!(typeof value.amount === "string" || typeof value.amount === "number")) issues.push("amount is missing");
+  if (!(typeof value.timestamp === "number" || typeof value.timestamp === "string")) issues.push("timestamp is missing");
+  if (typeof value.recipient !== "string") issues.push("recipient is missing");
+  if (!(typeof value.nftId === "string" || typeof value.nftId === "number")) issues.push("nftId is missing");
+  if (value.status !== undefined && typeof value.status !== "string") issues.push("status is not a string");
+  return issues;
+};
+
+// Fields whose shape is the same in every versioned record.
+const validateCommonFields: Validator = value => {
+  const issues: string[] = [];
+  if (typeof value.timestamp !== "number" || !Number.isInteger(value.timestamp) || value.timestamp <= 0) {
+    issues.push("timestamp is not a positive integer");
+  }
+  if (!STORED_STATUSES.includes(value.status as StoredStatus)) {
+    issues.push(`status "${String(value.status)}" is not one of ${STORED_STATUSES.join(", ")}`);
+  }
+  if (value.royaltyId !== undefined && (typeof value.royaltyId !== "string" || !INTEGER_PATTERN.test(value.royaltyId))) {
+    issues.push("royaltyId is not a numeric string");
+  }
+  if (typeof value.encryptedData !== "string") {
+    issues.push("encryptedData is not a string");
+  }
+  return issues;
+};
+
+const validateShareBps = (shareBps: unknown, field: string) =>
+  typeof shareBps !== "number" || !Number.isInteger(shareBps) || shareBps <= 0 || shareBps > FULL_SHARE_BPS
+    ? [`${field} is not between 1 and ${FULL_SHARE_BPS}`]
+    : [];
+
+// Cleartext payee fields, top-level in v2 and v3 and under `published` in v4.
+const validatePayeeFields = (value: Record<string, unknown>, prefix = ""): string[] => {
+  const issues: string[] = [];
+  if (typeof value.recipient !== "string" || !isAddress(value.recipient)) {
+    issues.push(`${prefix}recipient is not an address`);
+  }
+  const unlinked = value.nftId === undefined && typeof value.legacyNftId === "string" && value.legacyNftId !== "";
+  if (!unlinked && (typeof value.nftId !== "string" || !INTEGER_PATTERN.test(value.nftId))) {
+    issues.push(`${prefix}nftId is not a numeric string`);
+  }
+  return issues;
+};
+
+// Split rows in v2 and v3, which still carried the payee's role and share.
+const validateSplitAllocation: Validator = value => {
+  if (value.split === undefined) return [];
+  const split = value.split;
+  if (!isObject(split) || typeof split.sheetId !== "string" || typeof split.role !== "string") {
+    return ["split is missing its sheet id or role"];
+  }
+  return validateShareBps(split.shareBps, "split.shareBps");
+};
+
+// Asset fields added in v3.
+const validateAssetFields: Validator = value => {
+  const issues: string[] = [];
+  if (typeof value.decimals !== "number" || !Number.isInteger(value.decimals) ||
+    value.decimals < 0 || value.decimals > MAX_DECIMALS) {
+    issues.push(`decimals is not an integer between 0 and ${MAX_DECIMALS}`);
+  }
+  if (value.payoutToken !== undefined) {
+    const token = value.payoutToken;
+    if (!isObject(token) || typeof token.address !== "string" || !isAddress(token.address) ||
+      typeof token.symbol !== "string") {
+      issues.push("payoutToken is not an address and symbol");
+    }
+  }
+  if (value.source !== undefined && !isImportSource(value.source)) {
+    issues.push("source is not a DSR line or CSV row reference");
+  }
+  if (value.period !== undefined && (typeof value.period !== "string" || value.period.length > MAX_PERIOD_LENGTH)) {
+    issues.push(`period is not a string of at most ${MAX_PERIOD_LENGTH} characters`);
+  }
+  return issues;
+};
+
+const validateV2: Validator = value => {
+  const issues: string[] = [];
+  if (typeof value.amount !== "string" || !DECIMAL_PATTERN.test(value.amount)) {
+    issues.push("amount is not a decimal string");
+  }
+  return [...issues, ...validateCommonFields(value), ...validatePayeeFields(value), ...validateSplitAllocation(value)];
+};
+
+const validateV3: Validator = value => {
+  const issues: string[] = [];
+  if (typeof value.amount !== "string" || !INTEGER_PATTERN.test(value.amount)) {
+    issues.push("amount is not an integer string");
+  }
+  return [
+    ...issues,
+    ...validateAssetFields(value),
+    ...validateCommonFields(value),
+    ...validatePayeeFields(value),
+    ...validateSplitAllocation(value),
+  ];
+};
+
+// Payee fields a v4 record may only hold encrypted in its royalty, or under `published`.
+const ENCRYPTED_ONLY_FIELDS = ["amount", "recipient", "nftId", "legacyNftId"];
+
+const validateV4: Validator = value => {
+  const issues = [...validateAssetFields(value), ...validateCommonFields(value)];
+  ENCRYPTED_ONLY_FIELDS.filter(field => value[field] !== undefined)
+    .forEach(field => issues.push(`${field} is only stored encrypted`));
+  if (value.split !== undefined && (!isObject(value.split) || typeof value.split.sheetId !== "string")) {
+    issues.push("split is missing its sheet id");
+  }
+  if (value.published === undefined) {
+    // Without a royalty the record would point at nothing: its payee only exists encrypted
+    if (value.royaltyId === undefined) issues.push("royaltyId is required when nothing is published");
+    return issues;
+  }
+  const published = value.published;
+  if (!isObject(published)) return [...issues, "published is not an object"];
+  if (typeof published.amount !== "string" || !INTEGER_PATTERN.test(published.amount)) {
+    issues.push("published.amount is not an integer string");
+  }
+  issues.push(...validatePayeeFields(published, "published."));
+  if (published.split !== undefined) {
+    if (!isObject(published.split) || typeof published.split.role !== "string") {
+      issues.push("published.split is missing its role");
+    } else {
+      issues.push(...validateShareBps(published.split.shareBps, "published.split.shareBps"));
+    }
+  }
+  return issues;
+};
+
+const VALIDATORS: Record<number, Validator> = { 1: validateV1, 2: validateV2, 3: validateV3, 4: validateV4 };
+
+// Each migration lifts a record that passed its own version's validator to the next version.
+const MIGRATIONS: Record<number, (value: Record<string, unknown>) => Record<string, unknown>> = {
+  1: value => {
+    const legacy = value as unknown as StoredDistributionV1;
+    const nftId = String(legacy.nftId).replace(/^#/, "").trim();
+    return {
+      version: 2,
+      amount: String(legacy.amount).trim(),
+      timestamp: Number(legacy.timestamp),
+      recipient: legacy.recipient.trim(),
+      ...(INTEGER_PATTERN.test(nftId) ? { nftId } : { legacyNftId: String(legacy.nftId).trim() }),
+      status: legacy.status ?? "pending",
+      ...(legacy.royaltyId !== undefined ? { royaltyId: String(legacy.royaltyId) } : {}),
+      encryptedData: legacy.encryptedData ?? "",
+    };
+  },
+  2: value => {
+    // v2 amounts were ETH; anything below one wei could never have been paid out
+    const [whole, fraction = ""] = (value.amount as string).split(".");
+    return {
+      ...value,
+      version: 3,
+      amount: parseAmount(`${whole}.${fraction.substring(0, ETH_DECIMALS)}`, ETH_DECIMALS).toString(),
+      decimals: ETH_DECIMALS,
+    };
+  },
+  3: value => {
+    // What v3 wrote is already public; keep it, but apart from the metadata new records carry
+    const { amount, recipient, nftId, legacyNftId, split, ...rest } = value as unknown as StoredDistributionV3;
+    return {
+      ...rest,
+      version: 4,
+      ...(split ? { split: { sheetId: split.sheetId } } : {}),
+      published: {
+        amount,
+        recipient,
+        ...(nftId !== undefined ? { nftId } : { legacyNftId }),
+        ...(split ? { split: { role: split.role, shareBps: split.shareBps } } : {}),
+      },
+    };
+  },
+};
+
+const versionOf = (value: Record<string, unknown>) => (value.version === undefined ? 1 : value.version);
+
+// Written after the payee moved into the royalty but before records were versioned.
+const isUnversionedMetadata = (value: Record<string, unknown>) =>
+  value.version === undefined && value.amount === undefined && value.royaltyId !== undefined;
+
+/** Parses, validates and migrates raw record bytes to the current schema version. */
+export function decodeDistributionRecord(bytes: BytesLike): DecodeResult {
+  let raw = "";
+  try {
+    raw = toUtf8String(bytes);
+  } catch {
+    return { ok: false, error: "Record is not valid UTF-8", raw: hexlify(bytes) };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Record is not valid JSON", raw };
+  }
+  if (!isObject(value)) {
+    return { ok: false, error: "Record is not a JSON object", raw };
+  }
+
+  const original = versionOf(value);
+  if (typeof original !== "number" || !VALIDATORS[original]) {
+    return { ok: false, error: `Unknown schema version ${String(value.version)}`, raw };
+  }
+
+  let current = value;
+  let version = original;
+  if (isUnversionedMetadata(value)) {
+    // Already laid out like a current record, so no migration applies
+    current = { ...value, version: CURRENT_SCHEMA_VERSION, decimals: ETH_DECIMALS };
+    version = CURRENT_SCHEMA_VERSION;
+  }
+  for (; ; version++) {
+    const issues = VALIDATORS[version](current);
+    if (issues.length > 0) {
+      return { ok: false, error: `Schema v${version}: ${issues.join("; ")}`, raw };
+    }
+    if (version === CURRENT_SCHEMA_VERSION) break;
+    current = MIGRATIONS[version](current);
+  }
+
+  return {
+    ok: true,
+    record: current as unknown as StoredDistribution,
+    ...(original !== CURRENT_SCHEMA_VERSION ? { migratedFrom: original } : {}),
+  };
+}
+
+/** Serializes a record at the current schema version, refusing to write one that would not validate. */
+export function encodeDistributionRecord(record: Omit<StoredDistribution, "version">): Uint8Array {
+  const value = { ...record, version: CURRENT_SCHEMA_VERSION };
+  const issues = VALIDATORS[CURRENT_SCHEMA_VERSION](value);
+  if (issues.length > 0) {
+    throw new Error(`Invalid distribution record: ${issues.join("; ")}`);
+  }
+  return toUtf8Bytes(JSON.stringify(value));
+}
@@ -0,0 +1,40 @@
+export {
+  ENCRYPTED_AMOUNT_DECIMALS,
+  FULL_SHARE_BPS,
+  MIN_ROYALTIES_PER_TOTAL_REVEAL,
+  MusicNftRoyaltiesClient,
+  NATIVE_PAYOUT_TOKEN,
+  ROYALTY_EVENT_NAMES,
+} from "./MusicNftRoyaltiesClient";
+export type {
+  DecryptedRoyalty,
+  EncryptedRoyaltyInput,
+  HolderRoyaltyHandles,
+  RevealedNftRoyaltyCount,
+  RevealedNftRoyaltyTotal,
+  RoyaltyEvent,
+  RoyaltyPayout,
+  SubmittedRoyalty,
+} from "./MusicNftRoyaltiesClient";
+export {
+  CURRENT_SCHEMA_VERSION,
+  decodeDistributionRecord,
+  encodeDistributionRecord,
+  MAX_PERIOD_LENGTH,
+} from "./distributionRecord";
+export type {
+  DecodeResult,
+  StoredDistribution,
+  StoredDistributionV1,
+  StoredDistributionV2,
+  StoredDistributionV3,
+  StoredDistributionV4,
+  StoredImportSource,
+  StoredPayoutToken,
+  StoredPublishedFields,
+  StoredSplitAllocation,
+  StoredSplitReference,
+  StoredStatus,
+} from "./distributionRecord";
+export { ETH_DECIMALS, formatAmount, fromEncryptedAmount, parseAmount, toEncryptedAmount } from "./amounts";
+export type { FormatAmountOptions } from "./amounts";
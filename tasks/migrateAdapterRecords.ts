@@ -0,0 +1,283 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getBytes, toUtf8String } from "ethers";
+// Only types at the top level: the SDK pulls in the generated typechain factories, and this file is
+// loaded with the config, so a value import would stop `hardhat typechain` from running once types/ is gone.
+import type { StoredDistribution } from "../src/sdk";
+import type { UniversalAdapter } from "../types/contracts/UniversalAdapter";
+
+const REGISTRY_PATH = path.join(__dirname, "..", "frontend", "web", "public", "deployments.json");
+const DISTRIBUTION_PREFIX = "distribution_";
+const DISTRIBUTION_INDEX_KEY = "distribution_keys";
+const INDEX_PAGE_SIZE = 500;
+const SCAN_CHUNK_SIZE = 5000;
+const MAX_NFT_ID = 0xffffffff;
+
+type MigrationEntry =
+  | { status: "submitted"; txHash: string }
+  | { status: "migrated"; royaltyId: string; txHash: string; recordTxHash?: string }
+  | { status: "skipped"; reason: string }
+  | { status: "failed"; error: string };
+
+interface MigrationReport {
+  chainId: number;
+  adapter: string;
+  royalties: string;
+  startedAt: string;
+  updatedAt: string;
+  entries: Record<string, MigrationEntry>;
+}
+
+interface MigrateArgs {
+  adapter?: string;
+  royalties?: string;
+  report?: string;
+  fromBlock?: number;
+  dryRun: boolean;
+}
+
+const readRegistryEntry = (chainId: number) => {
+  if (!fs.existsSync(REGISTRY_PATH)) return undefined;
+  return JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8"))[chainId.toString()];
+};
+
+// Written through a temp file so an interrupted run never leaves a truncated report behind.
+const writeReport = (reportPath: string, report: MigrationReport) => {
+  report.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(`${reportPath}.tmp`, JSON.stringify(report, null, 2) + "\n");
+  fs.renameSync(`${reportPath}.tmp`, reportPath);
+};
+
+const skipReasonFor = (
+  record: StoredDistribution,
+  toEncryptedAmount: (amount: bigint, decimals: number) => bigint,
+): string | null => {
+  if (record.royaltyId !== undefined) {
+    return `already linked to royalty ${record.royaltyId}`;
+  }
+  const { published } = record;
+  if (!published) {
+    return "no published payee to migrate";
+  }
+  if (published.nftId === undefined) {
+    return `not linked to an NFT (legacy reference "${published.legacyNftId}")`;
+  }
+  if (Number(published.nftId) > MAX_NFT_ID) {
+    return `nftId ${published.nftId} does not fit in euint32`;
+  }
+  try {
+    toEncryptedAmount(BigInt(published.amount), record.decimals);
+  } catch (e: any) {
+    return `amount ${published.amount} cannot be encrypted: ${e.message}`;
+  }
+  return null;
+};
+
+// Ids come from the on-chain index, the legacy `distribution_keys` blob and `DataStored`
+// events, since older records may only be reachable through one of them.
+const collectDistributionIds = async (hre: HardhatRuntimeEnvironment, adapter: UniversalAdapter, fromBlock: number) => {
+  const ids = new Set<string>();
+
+  const indexLength = Number(await adapter.getIndexLength(DISTRIBUTION_INDEX_KEY));
+  for (let offset = 0; offset < indexLength; offset += INDEX_PAGE_SIZE) {
+    (await adapter.getIndexEntries(DISTRIBUTION_INDEX_KEY, offset, INDEX_PAGE_SIZE)).forEach((id) => ids.add(id));
+  }
+
+  const legacy = await adapter.getData(DISTRIBUTION_INDEX_KEY);
+  if (getBytes(legacy).length > 0) {
+    try {
+      (JSON.parse(toUtf8String(legacy)) as string[]).forEach((id) => ids.add(id));
+    } catch (e) {
+      console.warn("Ignoring unreadable legacy distribution_keys blob:", e);
+    }
+  }
+
+  const latest = await hre.ethers.provider.getBlockNumber();
+  for (let from = fromBlock; from <= latest; from += SCAN_CHUNK_SIZE) {
+    const to = Math.min(from + SCAN_CHUNK_SIZE - 1, latest);
+    const events = await adapter.queryFilter(adapter.filters.DataStored(), from, to);
+    for (const event of events) {
+      const key = event.args.key;
+      if (key.startsWith(DISTRIBUTION_PREFIX) && key !== DISTRIBUTION_INDEX_KEY) {
+        ids.add(key.substring(DISTRIBUTION_PREFIX.length));
+      }
+    }
+  }
+
+  return [...ids];
+};
+
+task("royalties:migrate-adapter", "Re-submits UniversalAdapter distribution records to MusicNftRoyalties as encrypted royalties")
+  .addOptionalParam("adapter", "UniversalAdapter address (defaults to the deployment registry)")
+  .addOptionalParam("royalties", "MusicNftRoyalties address (defaults to the deployment registry)")
+  .addOptionalParam("report", "Mapping report path; an existing report is resumed")
+  .addOptionalParam("fromBlock", "First block to scan for DataStored events", undefined, types.int)
+  .addFlag("dryRun", "List what would be migrated without sending transactions")
+  .setAction(async (args: MigrateArgs, hre) => {
+    const { decodeDistributionRecord, encodeDistributionRecord, formatAmount, FULL_SHARE_BPS, MusicNftRoyaltiesClient, toEncryptedAmount } =
+      await import("../src/sdk");
+    const { UniversalAdapter__factory } = await import("../types/factories/contracts/UniversalAdapter__factory");
+
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const registered = readRegistryEntry(chainId);
+
+    const adapterAddress = args.adapter ?? registered?.contractAddress;
+    const royaltiesAddress = args.royalties ?? registered?.royaltyContractAddress;
+    if (!adapterAddress || !royaltiesAddress) {
+      throw new Error(`No adapter or royalty contract for chain ${chainId}; pass --adapter and --royalties`);
+    }
+
+    const [signer] = await hre.ethers.getSigners();
+    const adapter = UniversalAdapter__factory.connect(adapterAddress, signer);
+    const royalties = new MusicNftRoyaltiesClient(royaltiesAddress, signer);
+
+    const reportPath = path.resolve(args.report ?? path.join("migrations", `adapter-to-royalties-${chainId}.json`));
+    let report: MigrationReport = {
+      chainId,
+      adapter: adapterAddress,
+      royalties: royaltiesAddress,
+      startedAt: new Date().toISOString(),
+      updatedAt: "",
+      entries: {},
+    };
+    const save = () => {
+      if (!args.dryRun) writeReport(reportPath, report);
+    };
+    if (fs.existsSync(reportPath)) {
+      report = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+      if (report.chainId !== chainId || report.royalties.toLowerCase() !== royaltiesAddress.toLowerCase()) {
+        throw new Error(`${reportPath} belongs to another network or royalty contract`);
+      }
+      console.log(`Resuming from ${reportPath}`);
+    }
+
+    const ids = await collectDistributionIds(hre, adapter, args.fromBlock ?? registered?.deploymentBlock ?? 0);
+    console.log(`Found ${ids.length} distribution records on ${adapterAddress}`);
+
+    if (!args.dryRun) {
+      await hre.fhevm.initializeCLIApi();
+    }
+
+    const readRecord = async (id: string) => decodeDistributionRecord(await adapter.getData(`${DISTRIBUTION_PREFIX}${id}`));
+
+    // Writes the royalty id back into the adapter record, which is what the UI reads the link from. The
+    // payee now lives encrypted in the royalty, so the cleartext the legacy record published is dropped.
+    const linkRecord = async (id: string, record: StoredDistribution, royaltyId: string, txHash: string) => {
+      const { version, published, ...metadata } = record;
+      const tx = await adapter.setData(`${DISTRIBUTION_PREFIX}${id}`, encodeDistributionRecord({ ...metadata, royaltyId }));
+      await tx.wait();
+      report.entries[id] = { status: "migrated", royaltyId, txHash, recordTxHash: tx.hash };
+      save();
+      console.log(`${id}: migrated to royalty ${royaltyId} (${txHash}), record updated in ${tx.hash}`);
+    };
+
+    const counts = { migrated: 0, skipped: 0, failed: 0 };
+    for (const id of ids) {
+      const previous = report.entries[id];
+      if (previous?.status === "skipped" || (previous?.status === "migrated" && previous.recordTxHash)) {
+        continue;
+      }
+
+      try {
+        // Royalty submitted by an earlier run: only the record still needs its royalty id
+        let settled: { royaltyId: string; txHash: string } | undefined =
+          previous?.status === "migrated" ? { royaltyId: previous.royaltyId, txHash: previous.txHash } : undefined;
+
+        // A run that died between sending and recording: settle it from the receipt instead of re-sending
+        if (previous?.status === "submitted") {
+          const receipt = await hre.ethers.provider.getTransactionReceipt(previous.txHash);
+          const submitted = receipt?.status === 1
+            ? royalties.decodeEvents(receipt.logs).find((event) => event.name === "RoyaltySubmitted")
+            : undefined;
+          if (submitted) {
+            settled = { royaltyId: submitted.royaltyId.toString(), txHash: previous.txHash };
+          } else if (!receipt && (await hre.ethers.provider.getTransaction(previous.txHash))) {
+            console.warn(`${id}: ${previous.txHash} is still pending; rerun once it is mined`);
+            continue;
+          }
+        }
+
+        const decoded = await readRecord(id);
+        if (settled) {
+          if (!decoded.ok) {
+            throw new Error(`record became unreadable after royalty ${settled.royaltyId} was submitted: ${decoded.error}`);
+          }
+          if (args.dryRun) {
+            console.log(`${id}: would link the record to royalty ${settled.royaltyId}`);
+            continue;
+          }
+          await linkRecord(id, decoded.record, settled.royaltyId, settled.txHash);
+          counts.migrated++;
+          continue;
+        }
+
+        const skipReason = decoded.ok ? skipReasonFor(decoded.record, toEncryptedAmount) : `corrupt record: ${decoded.error}`;
+        if (!decoded.ok || skipReason) {
+          console.log(`${id}: skipped (${skipReason})`);
+          report.entries[id] = { status: "skipped", reason: skipReason as string };
+          save();
+          counts.skipped++;
+          continue;
+        }
+
+        const { record } = decoded;
+        const published = record.published!;
+        if (args.dryRun) {
+          const asset = record.payoutToken?.symbol ?? "ETH";
+          console.log(
+            `${id}: would migrate nft ${published.nftId}, ${formatAmount(BigInt(published.amount), record.decimals)} ${asset} to ${published.recipient}`,
+          );
+          continue;
+        }
+
+        const input = hre.fhevm.createEncryptedInput(royaltiesAddress, signer.address);
+        input.addAddress(published.recipient);
+        input.add32(FULL_SHARE_BPS);
+        input.add32(Number(published.nftId));
+        input.add64(toEncryptedAmount(BigInt(published.amount), record.decimals));
+        const { handles, inputProof } = await input.encrypt();
+
+        const [owner, share, nftId, amount] = handles;
+        const tx = record.payoutToken
+          ? await royalties.contract.submitEncryptedTokenRoyalty(
+              owner,
+              share,
+              nftId,
+              amount,
+              inputProof,
+              record.payoutToken.address,
+            )
+          : await royalties.contract.submitEncryptedRoyalty(owner, share, nftId, amount, inputProof);
+        report.entries[id] = { status: "submitted", txHash: tx.hash };
+        save();
+
+        const receipt = await tx.wait();
+        const submitted = receipt && royalties.decodeEvents(receipt.logs).find((event) => event.name === "RoyaltySubmitted");
+        if (!submitted) {
+          throw new Error(`RoyaltySubmitted event not found in ${tx.hash}`);
+        }
+
+        await linkRecord(id, record, submitted.royaltyId.toString(), tx.hash);
+        counts.migrated++;
+      } catch (e: any) {
+        // A failed record write keeps the royalty: the next run only retries the write
+        if (report.entries[id]?.status !== "submitted") {
+          report.entries[id] = { status: "failed", error: e.shortMessage ?? e.message ?? String(e) };
+        }
+        save();
+        console.error(`${id}: failed`, e);
+        counts.failed++;
+      }
+    }
+
+    if (args.dryRun) {
+      console.log("Dry run: no transactions sent and no report written");
+      return;
+    }
+    console.log(
+      `Migrated ${counts.migrated}, skipped ${counts.skipped}, failed ${counts.failed}. Report: ${path.relative(process.cwd(), reportPath)}`,
+    );
+  });
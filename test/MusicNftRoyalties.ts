@@ -0,0 +1,401 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { encodeDistributionRecord, MIN_ROYALTIES_PER_TOTAL_REVEAL } from "../src/sdk";
+import { MockERC20, MockERC20Permit, MusicNftRoyalties, UniversalAdapter } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  payer: HardhatEthersSigner;
+  holder: HardhatEthersSigner;
+  stranger: HardhatEthersSigner;
+};
+
+const ETH = ethers.ZeroAddress;
+const USD = (value: string) => ethers.parseUnits(value, 6);
+// Encrypted amounts carry 9 decimals whatever the payout token
+const encryptedUnits = (value: string) => ethers.parseUnits(value, 9);
+
+async function deployFixture() {
+  const royalties = (await (await ethers.getContractFactory("MusicNftRoyalties")).deploy()) as MusicNftRoyalties;
+  const usd = (await (
+    await ethers.getContractFactory("MockERC20Permit")
+  ).deploy("Mock USD", "mUSD", 6)) as MockERC20Permit;
+  const plain = (await (await ethers.getContractFactory("MockERC20")).deploy("Mock Plain", "mPLN", 18)) as MockERC20;
+  return { royalties, royaltiesAddress: await royalties.getAddress(), usd, plain };
+}
+
+describe("MusicNftRoyalties", function () {
+  let signers: Signers;
+  let royalties: MusicNftRoyalties;
+  let royaltiesAddress: string;
+  let usd: MockERC20Permit;
+  let plain: MockERC20;
+
+  before(async function () {
+    const [admin, payer, holder, stranger] = await ethers.getSigners();
+    signers = { admin, payer, holder, stranger };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs against the FHEVM mock on the Hardhat network");
+      this.skip();
+    }
+    ({ royalties, royaltiesAddress, usd, plain } = await deployFixture());
+    await usd.mint(signers.payer.address, USD("1000"));
+    await plain.mint(signers.payer.address, ethers.parseEther("10"));
+  });
+
+  const submitRoyalty = async (owner: string, nftId: number, amount: bigint, token: string = ETH) => {
+    const input = await fhevm
+      .createEncryptedInput(royaltiesAddress, signers.payer.address)
+      .addAddress(owner)
+      .add32(10000)
+      .add32(nftId)
+      .add64(amount)
+      .encrypt();
+    const [encOwner, encShare, encNftId, encAmount] = input.handles;
+    const tx =
+      token === ETH
+        ? await royalties
+            .connect(signers.payer)
+            .submitEncryptedRoyalty(encOwner, encShare, encNftId, encAmount, input.inputProof)
+        : await royalties
+            .connect(signers.payer)
+            .submitEncryptedTokenRoyalty(encOwner, encShare, encNftId, encAmount, input.inputProof, token);
+    await tx.wait();
+    return royalties.royaltyCount();
+  };
+
+  const distribute = async (royaltyId: bigint) => {
+    await (await royalties.connect(signers.payer).requestRoyaltyDistribution(royaltyId)).wait();
+    await fhevm.awaitDecryptionOracle();
+  };
+
+  const signPermit = async (owner: HardhatEthersSigner, value: bigint, deadline: bigint) => {
+    const { chainId } = await ethers.provider.getNetwork();
+    const signature = await owner.signTypedData(
+      { name: "Mock USD", version: "1", chainId, verifyingContract: await usd.getAddress() },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { owner: owner.address, spender: royaltiesAddress, value, nonce: await usd.nonces(owner.address), deadline },
+    );
+    return ethers.Signature.from(signature);
+  };
+
+  const deadline = async () => BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 3600);
+
+  describe("token allow-list", function () {
+    it("only lets the admin allow tokens and records their decimals", async function () {
+      await expect(royalties.connect(signers.payer).setPayoutToken(await usd.getAddress(), true)).to.be.revertedWith(
+        "Not admin",
+      );
+
+      await expect(royalties.setPayoutToken(await usd.getAddress(), true))
+        .to.emit(royalties, "PayoutTokenUpdated")
+        .withArgs(await usd.getAddress(), true);
+      expect(await royalties.getPayoutTokens()).to.deep.equal([await usd.getAddress()]);
+      expect(await royalties.payoutTokenDecimals(await usd.getAddress())).to.equal(6);
+
+      await royalties.setPayoutToken(await usd.getAddress(), false);
+      expect(await royalties.getPayoutTokens()).to.deep.equal([]);
+    });
+
+    it("rejects ETH as a token and deposits of tokens that are not allowed", async function () {
+      await expect(royalties.setPayoutToken(ETH, true)).to.be.revertedWith("Invalid token");
+
+      await plain.connect(signers.payer).approve(royaltiesAddress, ethers.parseEther("1"));
+      await expect(
+        royalties.connect(signers.payer).deposit(await plain.getAddress(), ethers.parseEther("1")),
+      ).to.be.revertedWith("Token not allowed");
+    });
+  });
+
+  describe("deposits", function () {
+    beforeEach(async function () {
+      await royalties.setPayoutToken(await usd.getAddress(), true);
+      await royalties.setPayoutToken(await plain.getAddress(), true);
+    });
+
+    it("credits ETH and approved token deposits", async function () {
+      await expect(royalties.connect(signers.payer).depositEth({ value: ethers.parseEther("2") }))
+        .to.emit(royalties, "PayoutDeposited")
+        .withArgs(signers.payer.address, ETH, ethers.parseEther("2"));
+
+      await plain.connect(signers.payer).approve(royaltiesAddress, ethers.parseEther("3"));
+      await royalties.connect(signers.payer).deposit(await plain.getAddress(), ethers.parseEther("3"));
+
+      expect(await royalties.payoutBalanceOf(signers.payer.address, ETH)).to.equal(ethers.parseEther("2"));
+      expect(await royalties.payoutBalanceOf(signers.payer.address, await plain.getAddress())).to.equal(
+        ethers.parseEther("3"),
+      );
+    });
+
+    it("deposits with a permit in one transaction", async function () {
+      const value = USD("250");
+      const permitDeadline = await deadline();
+      const { v, r, s } = await signPermit(signers.payer, value, permitDeadline);
+
+      await royalties.connect(signers.payer).depositWithPermit(await usd.getAddress(), value, permitDeadline, v, r, s);
+
+      expect(await royalties.payoutBalanceOf(signers.payer.address, await usd.getAddress())).to.equal(value);
+      expect(await usd.balanceOf(royaltiesAddress)).to.equal(value);
+    });
+
+    it("still deposits when someone front-ran the permit", async function () {
+      const value = USD("100");
+      const permitDeadline = await deadline();
+      const { v, r, s } = await signPermit(signers.payer, value, permitDeadline);
+
+      // The signature is public in the mempool, so anyone can submit it first
+      await usd
+        .connect(signers.stranger)
+        .permit(signers.payer.address, royaltiesAddress, value, permitDeadline, v, r, s);
+
+      await royalties.connect(signers.payer).depositWithPermit(await usd.getAddress(), value, permitDeadline, v, r, s);
+      expect(await royalties.payoutBalanceOf(signers.payer.address, await usd.getAddress())).to.equal(value);
+    });
+
+    it("rejects a permit that was already used for a deposit", async function () {
+      const value = USD("100");
+      const permitDeadline = await deadline();
+      const { v, r, s } = await signPermit(signers.payer, value, permitDeadline);
+      await royalties.connect(signers.payer).depositWithPermit(await usd.getAddress(), value, permitDeadline, v, r, s);
+
+      await expect(
+        royalties.connect(signers.payer).depositWithPermit(await usd.getAddress(), value, permitDeadline, v, r, s),
+      ).to.be.revertedWithCustomError(usd, "ERC20InsufficientAllowance");
+      expect(await royalties.payoutBalanceOf(signers.payer.address, await usd.getAddress())).to.equal(value);
+    });
+
+    it("withdraws up to the balance and no more", async function () {
+      await royalties.connect(signers.payer).depositEth({ value: ethers.parseEther("1") });
+
+      await expect(royalties.connect(signers.payer).withdraw(ETH, ethers.parseEther("1") + 1n)).to.be.revertedWith(
+        "Insufficient balance",
+      );
+      await expect(royalties.connect(signers.stranger).withdraw(ETH, 1n)).to.be.revertedWith("Insufficient balance");
+
+      await expect(royalties.connect(signers.payer).withdraw(ETH, ethers.parseEther("0.4"))).to.changeEtherBalances(
+        [signers.payer, royalties],
+        [ethers.parseEther("0.4"), -ethers.parseEther("0.4")],
+      );
+      expect(await royalties.payoutBalanceOf(signers.payer.address, ETH)).to.equal(ethers.parseEther("0.6"));
+    });
+  });
+
+  describe("token royalties", function () {
+    it("only accepts allow-listed payout tokens", async function () {
+      await expect(
+        submitRoyalty(signers.holder.address, 7, encryptedUnits("1"), await usd.getAddress()),
+      ).to.be.revertedWith("Token not allowed");
+
+      await royalties.setPayoutToken(await usd.getAddress(), true);
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, encryptedUnits("1"), await usd.getAddress());
+
+      expect(await royalties.royaltyPayoutToken(royaltyId)).to.equal(await usd.getAddress());
+      expect(await royalties.royaltySubmitter(royaltyId)).to.equal(signers.payer.address);
+    });
+
+    it("keeps one total per NFT and payout token", async function () {
+      await royalties.setPayoutToken(await usd.getAddress(), true);
+      for (const amount of ["0.5", "0.5", "0.5"]) {
+        await distribute(await submitRoyalty(signers.holder.address, 7, encryptedUnits(amount)));
+      }
+      for (const amount of ["20", "3", "2"]) {
+        await distribute(
+          await submitRoyalty(signers.holder.address, 7, encryptedUnits(amount), await usd.getAddress()),
+        );
+      }
+
+      expect(await royalties.getNftPayoutTokens(7)).to.deep.equal([ETH, await usd.getAddress()]);
+
+      await royalties.requestNftRoyaltyTotalDecryption(7, ETH);
+      await royalties.requestNftRoyaltyTotalDecryption(7, await usd.getAddress());
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await royalties.calculateTotalRoyalties(7, ETH)).to.equal(encryptedUnits("1.5"));
+      expect(await royalties.calculateTotalRoyalties(7, await usd.getAddress())).to.equal(encryptedUnits("25"));
+      const [total, isRevealed, isPending] = await royalties.getRevealedNftRoyaltyTotal(7, await usd.getAddress());
+      expect([total, isRevealed, isPending]).to.deep.equal([encryptedUnits("25"), true, false]);
+
+      await expect(royalties.requestNftRoyaltyTotalDecryption(8, ETH)).to.be.revertedWith("No royalties in token");
+    });
+
+    it("only reveals a total again once enough royalties have joined it", async function () {
+      expect(await royalties.MIN_ROYALTIES_PER_TOTAL_REVEAL()).to.equal(MIN_ROYALTIES_PER_TOTAL_REVEAL);
+      for (let i = 0; i < MIN_ROYALTIES_PER_TOTAL_REVEAL; i++) {
+        await distribute(await submitRoyalty(signers.holder.address, 7, encryptedUnits("1")));
+      }
+      await royalties.requestNftRoyaltyTotalDecryption(7, ETH);
+      await fhevm.awaitDecryptionOracle();
+      expect(await royalties.getNewRoyaltiesSinceTotalReveal(7, ETH)).to.equal(0);
+
+      // Revealing again after one more royalty would give away its amount by difference
+      await distribute(await submitRoyalty(signers.holder.address, 7, encryptedUnits("4.2")));
+      expect(await royalties.getNewRoyaltiesSinceTotalReveal(7, ETH)).to.equal(1);
+      await expect(royalties.requestNftRoyaltyTotalDecryption(7, ETH)).to.be.revertedWith(
+        "Too few new royalties to reveal",
+      );
+    });
+  });
+
+  describe("non-holders", function () {
+    it("cannot decrypt the submitted royalty and get zeros from holder access", async function () {
+      const amount = encryptedUnits("4.2");
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, amount);
+      const stored = await royalties.encryptedRoyalties(royaltyId);
+
+      for (const [type, handle] of [
+        [FhevmType.euint64, stored.encryptedAmount],
+        [FhevmType.euint32, stored.encryptedShare],
+        [FhevmType.euint32, stored.encryptedNftId],
+      ] as const) {
+        let decrypted = true;
+        try {
+          await fhevm.userDecryptEuint(type, handle, royaltiesAddress, signers.stranger);
+        } catch {
+          decrypted = false;
+        }
+        expect(decrypted).to.equal(false);
+      }
+
+      await royalties.connect(signers.stranger).requestHolderAccess(royaltyId);
+      const access = await royalties.getHolderRoyalty(royaltyId, signers.stranger.address);
+      for (const [type, handle] of [
+        [FhevmType.euint64, access.amount],
+        [FhevmType.euint32, access.share],
+        [FhevmType.euint32, access.nftId],
+      ] as const) {
+        expect(await fhevm.userDecryptEuint(type, handle, royaltiesAddress, signers.stranger)).to.equal(0n);
+      }
+
+      await royalties.connect(signers.holder).requestHolderAccess(royaltyId);
+      const own = await royalties.getHolderRoyalty(royaltyId, signers.holder.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, own.amount, royaltiesAddress, signers.holder)).to.equal(
+        amount,
+      );
+    });
+
+    it("cannot request the distribution of a royalty they did not submit", async function () {
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, encryptedUnits("4.2"));
+
+      for (const caller of [signers.stranger, signers.holder, signers.admin]) {
+        await expect(royalties.connect(caller).requestRoyaltyDistribution(royaltyId)).to.be.revertedWith(
+          "Not right holder",
+        );
+      }
+      await expect(royalties.connect(signers.payer).requestRoyaltyDistribution(royaltyId))
+        .to.emit(royalties, "DistributionRequested")
+        .withArgs(royaltyId);
+      await expect(royalties.connect(signers.payer).requestRoyaltyDistribution(royaltyId + 1n)).to.be.revertedWith(
+        "Not right holder",
+      );
+    });
+
+    it("cannot read a single distributed royalty through the NFT's total", async function () {
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, encryptedUnits("4.2"));
+      await distribute(royaltyId);
+
+      // Distribution makes the NFT public, but not the amount
+      expect(await royalties.getDecryptedRoyalty(royaltyId)).to.deep.equal([7n, true]);
+      await expect(royalties.connect(signers.stranger).requestNftRoyaltyTotalDecryption(7, ETH)).to.be.revertedWith(
+        "Too few new royalties to reveal",
+      );
+    });
+
+    it("finds no amount or recipient in the adapter record", async function () {
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, encryptedUnits("4.2"));
+      const adapter = (await (await ethers.getContractFactory("UniversalAdapter")).deploy()) as UniversalAdapter;
+      const metadata = {
+        timestamp: 1700000000,
+        status: "pending" as const,
+        royaltyId: royaltyId.toString(),
+        encryptedData: ethers.ZeroHash,
+        decimals: 18,
+      };
+
+      expect(() => encodeDistributionRecord({ ...metadata, amount: "4200000000" } as never)).to.throw(
+        "amount is only stored encrypted",
+      );
+      expect(() => encodeDistributionRecord({ ...metadata, recipient: signers.holder.address } as never)).to.throw(
+        "recipient is only stored encrypted",
+      );
+
+      await adapter.setDataAndAppend("distribution_1", encodeDistributionRecord(metadata), "distribution_keys", "1");
+      const stored = ethers.toUtf8String(await adapter.getData("distribution_1")).toLowerCase();
+      expect(stored).to.not.include(signers.holder.address.substring(2).toLowerCase());
+      expect(stored).to.not.include("4.2");
+      expect(stored).to.not.include("4200000000");
+    });
+  });
+
+  describe("holder payouts", function () {
+    beforeEach(async function () {
+      await royalties.setPayoutToken(await usd.getAddress(), true);
+    });
+
+    it("pays the holder from the submitter's deposit in the royalty's token", async function () {
+      await usd.connect(signers.payer).approve(royaltiesAddress, USD("100"));
+      await royalties.connect(signers.payer).deposit(await usd.getAddress(), USD("100"));
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, encryptedUnits("12.5"), await usd.getAddress());
+
+      await expect(royalties.connect(signers.holder).requestRoyaltyPayout(royaltyId)).to.be.revertedWith(
+        "Not distributed",
+      );
+      await distribute(royaltyId);
+
+      await royalties.connect(signers.holder).requestRoyaltyPayout(royaltyId);
+      expect(await royalties.getRoyaltyPayout(royaltyId, signers.holder.address)).to.deep.equal([false, true]);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await royalties.getRoyaltyPayout(royaltyId, signers.holder.address)).to.deep.equal([true, false]);
+      expect(await royalties.payoutBalanceOf(signers.holder.address, await usd.getAddress())).to.equal(USD("12.5"));
+      expect(await royalties.payoutBalanceOf(signers.payer.address, await usd.getAddress())).to.equal(USD("87.5"));
+      await expect(royalties.connect(signers.holder).requestRoyaltyPayout(royaltyId)).to.be.revertedWith(
+        "Already paid",
+      );
+
+      await royalties.connect(signers.holder).withdraw(await usd.getAddress(), USD("12.5"));
+      expect(await usd.balanceOf(signers.holder.address)).to.equal(USD("12.5"));
+    });
+
+    it("pays nothing to anyone but the holder", async function () {
+      await royalties.connect(signers.payer).depositEth({ value: ethers.parseEther("1") });
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, encryptedUnits("0.25"));
+      await distribute(royaltyId);
+
+      await royalties.connect(signers.stranger).requestRoyaltyPayout(royaltyId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await royalties.payoutBalanceOf(signers.stranger.address, ETH)).to.equal(0);
+      expect(await royalties.payoutBalanceOf(signers.payer.address, ETH)).to.equal(ethers.parseEther("1"));
+      expect(await royalties.isRoyaltyPaid(royaltyId)).to.equal(false);
+    });
+
+    it("leaves an unfunded payout claimable after a top-up", async function () {
+      const royaltyId = await submitRoyalty(signers.holder.address, 7, encryptedUnits("0.25"));
+      await distribute(royaltyId);
+
+      await royalties.connect(signers.holder).requestRoyaltyPayout(royaltyId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await royalties.isRoyaltyPaid(royaltyId)).to.equal(false);
+
+      await royalties.connect(signers.payer).depositEth({ value: ethers.parseEther("1") });
+      await royalties.connect(signers.holder).requestRoyaltyPayout(royaltyId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await royalties.isRoyaltyPaid(royaltyId)).to.equal(true);
+      expect(await royalties.payoutBalanceOf(signers.holder.address, ETH)).to.equal(ethers.parseEther("0.25"));
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import {
+  ENCRYPTED_AMOUNT_DECIMALS,
+  formatAmount,
+  fromEncryptedAmount,
+  parseAmount,
+  toEncryptedAmount,
+} from "../src/sdk";
+
+describe("amounts", function () {
+  describe("parseAmount", function () {
+    it("parses decimals into base units without floating point", function () {
+      expect(parseAmount("1.25", 6)).to.equal(1_250_000n);
+      expect(parseAmount(" 0.1 ", 18)).to.equal(100_000_000_000_000_000n);
+      expect(parseAmount("12345678901234567890", 0)).to.equal(12345678901234567890n);
+      expect(parseAmount("7.", 2)).to.equal(700n);
+    });
+
+    it("refuses signs, exponents and text", function () {
+      for (const value of ["-1", "+1", "1e18", "", ".5", "1,5", "abc"]) {
+        expect(() => parseAmount(value, 18), value).to.throw("Amount must be a positive decimal number");
+      }
+    });
+
+    it("refuses more decimal places than the token has", function () {
+      expect(() => parseAmount("1.0000001", 6)).to.throw("Amount can have at most 6 decimal places");
+    });
+  });
+
+  describe("formatAmount", function () {
+    it("formats base units, trimming trailing zeros", function () {
+      expect(formatAmount(1_250_000n, 6)).to.equal("1.25");
+      expect(formatAmount(10n ** 18n, 18)).to.equal("1");
+      expect(formatAmount(0n, 18)).to.equal("0");
+      expect(formatAmount(-1_500_000n, 6)).to.equal("-1.5");
+    });
+
+    it("limits fraction digits and groups thousands", function () {
+      expect(formatAmount(1_234_567_891n, 6, { maxFractionDigits: 2, grouping: true })).to.equal("1,234.56");
+    });
+
+    it("shows amounts too small for the fraction digits as below the smallest step", function () {
+      expect(formatAmount(1n, 18, { maxFractionDigits: 4 })).to.equal("<0.0001");
+      expect(formatAmount(-1n, 18, { maxFractionDigits: 4 })).to.equal(">-0.0001");
+      expect(formatAmount(1n, 18, { maxFractionDigits: 0 })).to.equal("<1");
+    });
+  });
+
+  describe("toEncryptedAmount", function () {
+    it("scales to the encrypted precision", function () {
+      expect(ENCRYPTED_AMOUNT_DECIMALS).to.equal(9);
+      expect(toEncryptedAmount(1_500_000n, 6)).to.equal(1_500_000_000n);
+      expect(toEncryptedAmount(10n ** 18n, 18)).to.equal(10n ** 9n);
+      expect(toEncryptedAmount(5n, 0)).to.equal(5_000_000_000n);
+    });
+
+    it("refuses precision the encrypted value cannot keep", function () {
+      expect(() => toEncryptedAmount(10n ** 18n + 1n, 18)).to.throw("Encrypted amounts keep at most 9 decimal places");
+    });
+
+    it("refuses amounts beyond euint64", function () {
+      const max = 2n ** 64n - 1n;
+      expect(toEncryptedAmount(max, 9)).to.equal(max);
+      expect(() => toEncryptedAmount(max + 1n, 9)).to.throw("Amount is too large to encrypt");
+      expect(() => toEncryptedAmount(-1n, 9)).to.throw("Amount is too large to encrypt");
+    });
+  });
+
+  describe("fromEncryptedAmount", function () {
+    it("inverts toEncryptedAmount for representable amounts", function () {
+      for (const [amount, decimals] of [
+        [1_500_000n, 6],
+        [123_000_000_000n * 10n ** 9n, 18],
+        [42n, 0],
+      ] as const) {
+        expect(fromEncryptedAmount(toEncryptedAmount(amount, decimals), decimals)).to.equal(amount);
+      }
+    });
+
+    it("rounds down below the token's precision", function () {
+      expect(fromEncryptedAmount(1_999n, 6)).to.equal(1n);
+    });
+  });
+});
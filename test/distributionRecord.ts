@@ -0,0 +1,223 @@
+import { expect } from "chai";
+import { toUtf8Bytes, toUtf8String } from "ethers";
+import {
+  CURRENT_SCHEMA_VERSION,
+  decodeDistributionRecord,
+  encodeDistributionRecord,
+  MAX_PERIOD_LENGTH,
+} from "../src/sdk";
+
+const RECIPIENT = "0x000000000000000000000000000000000000dEaD";
+
+const decode = (value: unknown) => decodeDistributionRecord(toUtf8Bytes(JSON.stringify(value)));
+
+describe("distributionRecord", function () {
+  describe("decodeDistributionRecord", function () {
+    it("migrates a v1 record through every version", function () {
+      const result = decode({ amount: "0.5", timestamp: "1700000000", recipient: ` ${RECIPIENT} `, nftId: "#7" });
+
+      expect(result).to.deep.equal({
+        ok: true,
+        migratedFrom: 1,
+        record: {
+          version: CURRENT_SCHEMA_VERSION,
+          timestamp: 1700000000,
+          status: "pending",
+          encryptedData: "",
+          decimals: 18,
+          published: { amount: "500000000000000000", recipient: RECIPIENT, nftId: "7" },
+        },
+      });
+    });
+
+    it("keeps a free-text v1 NFT reference as an unlinked legacy id instead of failing", function () {
+      const result = decode({ amount: 1, timestamp: 1700000000, recipient: RECIPIENT, nftId: "abc" });
+
+      expect(result.ok).to.equal(true);
+      if (!result.ok) return;
+      expect(result.record.published).to.deep.equal({
+        amount: "1000000000000000000",
+        recipient: RECIPIENT,
+        legacyNftId: "abc",
+      });
+    });
+
+    it("moves the payee of a v3 record under published and keeps the split sheet", function () {
+      const result = decode({
+        version: 3,
+        amount: "2500000",
+        decimals: 6,
+        payoutToken: { address: RECIPIENT, symbol: "mUSD" },
+        timestamp: 1700000000,
+        recipient: RECIPIENT,
+        nftId: "7",
+        status: "distributed",
+        royaltyId: "3",
+        encryptedData: "0x",
+        split: { sheetId: "split-1", role: "writer", shareBps: 5000 },
+        period: "2026-Q3",
+      });
+
+      expect(result.ok && result.record).to.deep.equal({
+        version: 4,
+        decimals: 6,
+        payoutToken: { address: RECIPIENT, symbol: "mUSD" },
+        timestamp: 1700000000,
+        status: "distributed",
+        royaltyId: "3",
+        encryptedData: "0x",
+        split: { sheetId: "split-1" },
+        period: "2026-Q3",
+        published: { amount: "2500000", recipient: RECIPIENT, nftId: "7", split: { role: "writer", shareBps: 5000 } },
+      });
+    });
+
+    it("converts a v2 ETH amount to wei, dropping digits below one wei", function () {
+      const result = decode({
+        version: 2,
+        amount: "1.0000000000000000019",
+        timestamp: 1700000000,
+        recipient: RECIPIENT,
+        nftId: "7",
+        status: "pending",
+        royaltyId: "4",
+        encryptedData: "0x",
+        split: { sheetId: "split-2", role: "producer", shareBps: 2500 },
+      });
+
+      expect(result).to.deep.equal({
+        ok: true,
+        migratedFrom: 2,
+        record: {
+          version: 4,
+          timestamp: 1700000000,
+          status: "pending",
+          royaltyId: "4",
+          encryptedData: "0x",
+          decimals: 18,
+          split: { sheetId: "split-2" },
+          published: {
+            amount: "1000000000000000001",
+            recipient: RECIPIENT,
+            nftId: "7",
+            split: { role: "producer", shareBps: 2500 },
+          },
+        },
+      });
+    });
+
+    it("keeps a v1 status and numbers written as strings", function () {
+      const result = decode({ amount: 2, timestamp: "1700000000", recipient: RECIPIENT, nftId: 9, status: "failed" });
+
+      expect(result.ok && result.record).to.include({ timestamp: 1700000000, status: "failed" });
+      expect(result.ok && result.record.published).to.deep.equal({
+        amount: "2000000000000000000",
+        recipient: RECIPIENT,
+        nftId: "9",
+      });
+    });
+
+    it("reads the metadata unversioned releases wrote once the payee was encrypted", function () {
+      const metadata = { timestamp: 1700000000, status: "pending", royaltyId: "4", encryptedData: "0x" };
+
+      expect(decode(metadata)).to.deep.equal({
+        ok: true,
+        migratedFrom: 1,
+        record: { ...metadata, version: CURRENT_SCHEMA_VERSION, decimals: 18 },
+      });
+    });
+
+    it("validates the asset fields of a v3 record", function () {
+      const result = decode({
+        version: 3,
+        amount: "1.5",
+        decimals: 99,
+        payoutToken: { address: "usdc" },
+        timestamp: 1700000000,
+        recipient: RECIPIENT,
+        nftId: "7",
+        status: "pending",
+        encryptedData: "",
+        period: "x".repeat(MAX_PERIOD_LENGTH + 1),
+      });
+
+      expect(!result.ok && result.error)
+        .to.include("amount is not an integer string")
+        .and.include("decimals is not an integer between 0 and")
+        .and.include("payoutToken is not an address and symbol")
+        .and.include(`period is not a string of at most ${MAX_PERIOD_LENGTH} characters`);
+    });
+
+    it("validates what a current record publishes", function () {
+      const result = decode({
+        version: 4,
+        timestamp: 1700000000,
+        status: "distributed",
+        encryptedData: "0x",
+        decimals: 18,
+        split: { role: "writer" },
+        published: { amount: "0.5", recipient: RECIPIENT, nftId: "7", split: { role: "writer", shareBps: 0 } },
+      });
+
+      expect(!result.ok && result.error)
+        .to.include("split is missing its sheet id")
+        .and.include("published.amount is not an integer string")
+        .and.include("published.split.shareBps is not between 1 and 10000");
+    });
+
+    it("reports why a record is corrupt instead of dropping it", function () {
+      expect(decodeDistributionRecord(toUtf8Bytes("not json"))).to.deep.equal({
+        ok: false,
+        error: "Record is not valid JSON",
+        raw: "not json",
+      });
+      expect(decode({ version: 9 })).to.include({ ok: false, error: "Unknown schema version 9" });
+
+      const invalid = decode({ version: 2, amount: "1", timestamp: 1, recipient: "bob", nftId: "7", status: "done" });
+      expect(invalid.ok).to.equal(false);
+      expect(!invalid.ok && invalid.error)
+        .to.match(/^Schema v2: /)
+        .and.include("recipient is not an address")
+        .and.include('status "done" is not one of pending, distributed, failed');
+    });
+
+    it("rejects a current record that links no royalty and publishes nothing", function () {
+      const result = decode({ version: 4, timestamp: 1, status: "pending", encryptedData: "", decimals: 18 });
+      expect(result.ok).to.equal(false);
+      expect(!result.ok && result.error).to.equal("Schema v4: royaltyId is required when nothing is published");
+    });
+  });
+
+  describe("encodeDistributionRecord", function () {
+    const metadata = {
+      timestamp: 1700000000,
+      status: "pending" as const,
+      royaltyId: "1",
+      encryptedData: "0x",
+      decimals: 18,
+    };
+
+    it("round-trips a metadata-only record at the current version", function () {
+      const bytes = encodeDistributionRecord(metadata);
+      expect(JSON.parse(toUtf8String(bytes)).version).to.equal(CURRENT_SCHEMA_VERSION);
+      expect(decodeDistributionRecord(bytes)).to.deep.equal({
+        ok: true,
+        record: { ...metadata, version: CURRENT_SCHEMA_VERSION },
+      });
+    });
+
+    it("refuses to write a record that would not validate", function () {
+      expect(() => encodeDistributionRecord({ ...metadata, status: "done" as any })).to.throw(
+        'status "done" is not one of pending, distributed, failed',
+      );
+    });
+
+    it("refuses payee fields outside published", function () {
+      for (const field of ["amount", "recipient", "nftId", "legacyNftId"]) {
+        expect(() => encodeDistributionRecord({ ...metadata, [field]: "1" })).to.throw(
+          `${field} is only stored encrypted`,
+        );
+      }
+    });
+  });
+});
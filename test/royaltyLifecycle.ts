@@ -0,0 +1,86 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { decodeDistributionRecord, encodeDistributionRecord, MusicNftRoyaltiesClient } from "../src/sdk";
+import { UniversalAdapter } from "../types";
+
+// Follows a royalty the way the app handles it: created with its adapter record, distributed by
+// its submitter, then counted on the NFT page
+describe("royalty lifecycle", function () {
+  let submitter: HardhatEthersSigner;
+  let holder: HardhatEthersSigner;
+  let client: MusicNftRoyaltiesClient;
+  let adapter: UniversalAdapter;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This test suite only runs against the FHEVM mock on the Hardhat network");
+      this.skip();
+    }
+    [, submitter, holder] = await ethers.getSigners();
+    const royalties = await (await ethers.getContractFactory("MusicNftRoyalties")).deploy();
+    client = new MusicNftRoyaltiesClient(await royalties.getAddress(), submitter);
+    adapter = (await (await ethers.getContractFactory("UniversalAdapter")).deploy()) as UniversalAdapter;
+  });
+
+  const create = async (id: string, nftId: number, amount: bigint) => {
+    const input = await fhevm
+      .createEncryptedInput(client.address, submitter.address)
+      .addAddress(holder.address)
+      .add32(10000)
+      .add32(nftId)
+      .add64(amount)
+      .encrypt();
+    const { royaltyId, timestamp } = await client.submitEncryptedRoyalty(input);
+    const record = encodeDistributionRecord({
+      timestamp: Number(timestamp),
+      status: "pending",
+      royaltyId: royaltyId.toString(),
+      encryptedData: ethers.ZeroHash,
+      decimals: 18,
+    });
+    await (
+      await adapter.connect(submitter).setDataAndAppend(`distribution_${id}`, record, "distribution_keys", id)
+    ).wait();
+    return royaltyId;
+  };
+
+  const storedRoyaltyId = async (id: string) => {
+    const decoded = decodeDistributionRecord(await adapter.getData(`distribution_${id}`));
+    if (!decoded.ok) throw new Error(decoded.error);
+    return decoded.record.royaltyId!;
+  };
+
+  it("counts created royalties on their NFT once they are distributed", async function () {
+    await create("1", 7, 1_000_000_000n);
+    await create("2", 7, 2_000_000_000n);
+
+    // Until a royalty is distributed, the NFT has no count to decrypt
+    expect(await client.getEncryptedNftRoyaltyCount(7)).to.equal(ethers.ZeroHash);
+    await expect(client.requestNftRoyaltyCountDecryption(7)).to.be.revertedWith("NFT not found");
+
+    for (const id of ["1", "2"]) {
+      const royaltyId = await storedRoyaltyId(id);
+      const receipt = await client.requestRoyaltyDistribution(royaltyId);
+      expect(client.decodeEvents(receipt.logs).map((event) => event.name)).to.deep.equal(["DistributionRequested"]);
+    }
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await client.getDecryptedRoyalty(await storedRoyaltyId("1"))).to.deep.equal({ nftId: 7n, isRevealed: true });
+    expect(await client.getNftPayoutTokens(7)).to.deep.equal([ethers.ZeroAddress]);
+
+    await client.requestNftRoyaltyCountDecryption(7);
+    expect(await client.getRevealedNftRoyaltyCount(7)).to.deep.equal({ count: 0n, isRevealed: false, isPending: true });
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await client.getRevealedNftRoyaltyCount(7)).to.deep.equal({ count: 2n, isRevealed: true, isPending: false });
+  });
+
+  it("refuses a distribution requested by anyone but the submitter", async function () {
+    const royaltyId = await create("1", 7, 1_000_000_000n);
+    const asHolder = new MusicNftRoyaltiesClient(client.address, holder);
+
+    await expect(asHolder.requestRoyaltyDistribution(royaltyId)).to.be.revertedWith("Not right holder");
+    expect(await client.getDecryptedRoyalty(royaltyId)).to.deep.equal({ nftId: 0n, isRevealed: false });
+  });
+});
@@ -0,0 +1,1437 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface MusicNftRoyaltiesInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ENCRYPTED_AMOUNT_DECIMALS"
+      | "MIN_ROYALTIES_PER_TOTAL_REVEAL"
+      | "NATIVE_TOKEN"
+      | "admin"
+      | "calculateTotalRoyalties"
+      | "decryptNftRoyaltyCount"
+      | "decryptNftRoyaltyTotal"
+      | "decryptedRoyalties"
+      | "deposit"
+      | "depositEth"
+      | "depositWithPermit"
+      | "distributeRoyalty"
+      | "encryptedRoyalties"
+      | "getDecryptedRoyalty"
+      | "getEncryptedNftRoyaltyCount"
+      | "getHolderRoyalty"
+      | "getNewRoyaltiesSinceTotalReveal"
+      | "getNftPayoutTokens"
+      | "getPayoutTokens"
+      | "getRevealedNftRoyaltyCount"
+      | "getRevealedNftRoyaltyTotal"
+      | "getRoyaltyPayout"
+      | "isPayoutToken"
+      | "isRoyaltyPaid"
+      | "payRoyalty"
+      | "payoutBalanceOf"
+      | "payoutTokenDecimals"
+      | "protocolId"
+      | "requestHolderAccess"
+      | "requestNftRoyaltyCountDecryption"
+      | "requestNftRoyaltyTotalDecryption"
+      | "requestRoyaltyDistribution"
+      | "requestRoyaltyPayout"
+      | "royaltyCount"
+      | "royaltyPayoutToken"
+      | "royaltySubmitter"
+      | "setPayoutToken"
+      | "submitEncryptedRoyalty"
+      | "submitEncryptedTokenRoyalty"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "DistributionRequested"
+      | "HolderAccessGranted"
+      | "NftRoyaltyCountDecrypted"
+      | "NftRoyaltyCountRequested"
+      | "NftRoyaltyTotalDecrypted"
+      | "NftRoyaltyTotalRequested"
+      | "PayoutDeposited"
+      | "PayoutRequested"
+      | "PayoutTokenUpdated"
+      | "PayoutWithdrawn"
+      | "RoyaltyDistributed"
+      | "RoyaltyPaid"
+      | "RoyaltyPayoutUnfunded"
+      | "RoyaltySubmitted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ENCRYPTED_AMOUNT_DECIMALS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_ROYALTIES_PER_TOTAL_REVEAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "NATIVE_TOKEN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "admin", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "calculateTotalRoyalties",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptNftRoyaltyCount",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptNftRoyaltyTotal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptedRoyalties",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deposit",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositEth",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositWithPermit",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "distributeRoyalty",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedRoyalties",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptedRoyalty",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedNftRoyaltyCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getHolderRoyalty",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getNewRoyaltiesSinceTotalReveal",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getNftPayoutTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPayoutTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedNftRoyaltyCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRevealedNftRoyaltyTotal",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoyaltyPayout",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPayoutToken",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isRoyaltyPaid",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "payRoyalty",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "payoutBalanceOf",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "payoutTokenDecimals",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestHolderAccess",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestNftRoyaltyCountDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestNftRoyaltyTotalDecryption",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRoyaltyDistribution",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRoyaltyPayout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "royaltyCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "royaltyPayoutToken",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "royaltySubmitter",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPayoutToken",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedRoyalty",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedTokenRoyalty",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [AddressLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "ENCRYPTED_AMOUNT_DECIMALS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_ROYALTIES_PER_TOTAL_REVEAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "NATIVE_TOKEN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "admin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "calculateTotalRoyalties",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptNftRoyaltyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptNftRoyaltyTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptedRoyalties",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "deposit", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "depositEth", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "depositWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "distributeRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedRoyalties",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptedRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedNftRoyaltyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getHolderRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getNewRoyaltiesSinceTotalReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getNftPayoutTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPayoutTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedNftRoyaltyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRevealedNftRoyaltyTotal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoyaltyPayout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPayoutToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isRoyaltyPaid",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "payRoyalty", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "payoutBalanceOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "payoutTokenDecimals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestHolderAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestNftRoyaltyCountDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestNftRoyaltyTotalDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRoyaltyDistribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRoyaltyPayout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "royaltyCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "royaltyPayoutToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "royaltySubmitter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPayoutToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedTokenRoyalty",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DistributionRequestedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HolderAccessGrantedEvent {
+  export type InputTuple = [id: BigNumberish, holder: AddressLike];
+  export type OutputTuple = [id: bigint, holder: string];
+  export interface OutputObject {
+    id: bigint;
+    holder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NftRoyaltyCountDecryptedEvent {
+  export type InputTuple = [nftId: BigNumberish, count: BigNumberish];
+  export type OutputTuple = [nftId: bigint, count: bigint];
+  export interface OutputObject {
+    nftId: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NftRoyaltyCountRequestedEvent {
+  export type InputTuple = [nftId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [nftId: bigint, requestId: bigint];
+  export interface OutputObject {
+    nftId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NftRoyaltyTotalDecryptedEvent {
+  export type InputTuple = [
+    nftId: BigNumberish,
+    token: AddressLike,
+    total: BigNumberish
+  ];
+  export type OutputTuple = [nftId: bigint, token: string, total: bigint];
+  export interface OutputObject {
+    nftId: bigint;
+    token: string;
+    total: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NftRoyaltyTotalRequestedEvent {
+  export type InputTuple = [
+    nftId: BigNumberish,
+    token: AddressLike,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [nftId: bigint, token: string, requestId: bigint];
+  export interface OutputObject {
+    nftId: bigint;
+    token: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutDepositedEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [account: string, token: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutRequestedEvent {
+  export type InputTuple = [id: BigNumberish, holder: AddressLike];
+  export type OutputTuple = [id: bigint, holder: string];
+  export interface OutputObject {
+    id: bigint;
+    holder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutTokenUpdatedEvent {
+  export type InputTuple = [token: AddressLike, allowed: boolean];
+  export type OutputTuple = [token: string, allowed: boolean];
+  export interface OutputObject {
+    token: string;
+    allowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutWithdrawnEvent {
+  export type InputTuple = [
+    account: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [account: string, token: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltyDistributedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltyPaidEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    holder: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    holder: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    holder: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltyPayoutUnfundedEvent {
+  export type InputTuple = [id: BigNumberish, holder: AddressLike];
+  export type OutputTuple = [id: bigint, holder: string];
+  export interface OutputObject {
+    id: bigint;
+    holder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoyaltySubmittedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MusicNftRoyalties extends BaseContract {
+  connect(runner?: ContractRunner | null): MusicNftRoyalties;
+  waitForDeployment(): Promise<this>;
+
+  interface: MusicNftRoyaltiesInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ENCRYPTED_AMOUNT_DECIMALS: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_ROYALTIES_PER_TOTAL_REVEAL: TypedContractMethod<[], [bigint], "view">;
+
+  NATIVE_TOKEN: TypedContractMethod<[], [string], "view">;
+
+  admin: TypedContractMethod<[], [string], "view">;
+
+  calculateTotalRoyalties: TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  decryptNftRoyaltyCount: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptNftRoyaltyTotal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptedRoyalties: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { nftId: bigint; isRevealed: boolean }],
+    "view"
+  >;
+
+  deposit: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  depositEth: TypedContractMethod<[], [void], "payable">;
+
+  depositWithPermit: TypedContractMethod<
+    [
+      token: AddressLike,
+      amount: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  distributeRoyalty: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedRoyalties: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint] & {
+        id: bigint;
+        encryptedOwner: string;
+        encryptedShare: string;
+        encryptedNftId: string;
+        encryptedAmount: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getDecryptedRoyalty: TypedContractMethod<
+    [royaltyId: BigNumberish],
+    [[bigint, boolean] & { nftId: bigint; isRevealed: boolean }],
+    "view"
+  >;
+
+  getEncryptedNftRoyaltyCount: TypedContractMethod<
+    [nftId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getHolderRoyalty: TypedContractMethod<
+    [royaltyId: BigNumberish, holder: AddressLike],
+    [
+      [string, string, string] & {
+        share: string;
+        nftId: string;
+        amount: string;
+      }
+    ],
+    "view"
+  >;
+
+  getNewRoyaltiesSinceTotalReveal: TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getNftPayoutTokens: TypedContractMethod<
+    [nftId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getPayoutTokens: TypedContractMethod<[], [string[]], "view">;
+
+  getRevealedNftRoyaltyCount: TypedContractMethod<
+    [nftId: BigNumberish],
+    [
+      [bigint, boolean, boolean] & {
+        count: bigint;
+        isRevealed: boolean;
+        isPending: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getRevealedNftRoyaltyTotal: TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [
+      [bigint, boolean, boolean] & {
+        total: bigint;
+        isRevealed: boolean;
+        isPending: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getRoyaltyPayout: TypedContractMethod<
+    [royaltyId: BigNumberish, holder: AddressLike],
+    [[boolean, boolean] & { isPaid: boolean; isPending: boolean }],
+    "view"
+  >;
+
+  isPayoutToken: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  isRoyaltyPaid: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  payRoyalty: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  payoutBalanceOf: TypedContractMethod<
+    [account: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  payoutTokenDecimals: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  requestHolderAccess: TypedContractMethod<
+    [royaltyId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestNftRoyaltyCountDecryption: TypedContractMethod<
+    [nftId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestNftRoyaltyTotalDecryption: TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestRoyaltyDistribution: TypedContractMethod<
+    [royaltyId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestRoyaltyPayout: TypedContractMethod<
+    [royaltyId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  royaltyCount: TypedContractMethod<[], [bigint], "view">;
+
+  royaltyPayoutToken: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  royaltySubmitter: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  setPayoutToken: TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedRoyalty: TypedContractMethod<
+    [
+      encryptedOwner: BytesLike,
+      encryptedShare: BytesLike,
+      encryptedNftId: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedTokenRoyalty: TypedContractMethod<
+    [
+      encryptedOwner: BytesLike,
+      encryptedShare: BytesLike,
+      encryptedNftId: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      payoutToken: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  withdraw: TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ENCRYPTED_AMOUNT_DECIMALS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_ROYALTIES_PER_TOTAL_REVEAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "NATIVE_TOKEN"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "admin"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "calculateTotalRoyalties"
+  ): TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptNftRoyaltyCount"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptNftRoyaltyTotal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptedRoyalties"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { nftId: bigint; isRevealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "deposit"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "depositEth"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositWithPermit"
+  ): TypedContractMethod<
+    [
+      token: AddressLike,
+      amount: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "distributeRoyalty"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedRoyalties"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string, string, bigint] & {
+        id: bigint;
+        encryptedOwner: string;
+        encryptedShare: string;
+        encryptedNftId: string;
+        encryptedAmount: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecryptedRoyalty"
+  ): TypedContractMethod<
+    [royaltyId: BigNumberish],
+    [[bigint, boolean] & { nftId: bigint; isRevealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedNftRoyaltyCount"
+  ): TypedContractMethod<[nftId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getHolderRoyalty"
+  ): TypedContractMethod<
+    [royaltyId: BigNumberish, holder: AddressLike],
+    [
+      [string, string, string] & {
+        share: string;
+        nftId: string;
+        amount: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getNewRoyaltiesSinceTotalReveal"
+  ): TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getNftPayoutTokens"
+  ): TypedContractMethod<[nftId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getPayoutTokens"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRevealedNftRoyaltyCount"
+  ): TypedContractMethod<
+    [nftId: BigNumberish],
+    [
+      [bigint, boolean, boolean] & {
+        count: bigint;
+        isRevealed: boolean;
+        isPending: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRevealedNftRoyaltyTotal"
+  ): TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [
+      [bigint, boolean, boolean] & {
+        total: bigint;
+        isRevealed: boolean;
+        isPending: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoyaltyPayout"
+  ): TypedContractMethod<
+    [royaltyId: BigNumberish, holder: AddressLike],
+    [[boolean, boolean] & { isPaid: boolean; isPending: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isPayoutToken"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isRoyaltyPaid"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "payRoyalty"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "payoutBalanceOf"
+  ): TypedContractMethod<
+    [account: AddressLike, token: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "payoutTokenDecimals"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestHolderAccess"
+  ): TypedContractMethod<[royaltyId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestNftRoyaltyCountDecryption"
+  ): TypedContractMethod<[nftId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestNftRoyaltyTotalDecryption"
+  ): TypedContractMethod<
+    [nftId: BigNumberish, token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestRoyaltyDistribution"
+  ): TypedContractMethod<[royaltyId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestRoyaltyPayout"
+  ): TypedContractMethod<[royaltyId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "royaltyCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "royaltyPayoutToken"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "royaltySubmitter"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "setPayoutToken"
+  ): TypedContractMethod<
+    [token: AddressLike, allowed: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedRoyalty"
+  ): TypedContractMethod<
+    [
+      encryptedOwner: BytesLike,
+      encryptedShare: BytesLike,
+      encryptedNftId: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedTokenRoyalty"
+  ): TypedContractMethod<
+    [
+      encryptedOwner: BytesLike,
+      encryptedShare: BytesLike,
+      encryptedNftId: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      payoutToken: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<
+    [token: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DistributionRequested"
+  ): TypedContractEvent<
+    DistributionRequestedEvent.InputTuple,
+    DistributionRequestedEvent.OutputTuple,
+    DistributionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HolderAccessGranted"
+  ): TypedContractEvent<
+    HolderAccessGrantedEvent.InputTuple,
+    HolderAccessGrantedEvent.OutputTuple,
+    HolderAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NftRoyaltyCountDecrypted"
+  ): TypedContractEvent<
+    NftRoyaltyCountDecryptedEvent.InputTuple,
+    NftRoyaltyCountDecryptedEvent.OutputTuple,
+    NftRoyaltyCountDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NftRoyaltyCountRequested"
+  ): TypedContractEvent<
+    NftRoyaltyCountRequestedEvent.InputTuple,
+    NftRoyaltyCountRequestedEvent.OutputTuple,
+    NftRoyaltyCountRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NftRoyaltyTotalDecrypted"
+  ): TypedContractEvent<
+    NftRoyaltyTotalDecryptedEvent.InputTuple,
+    NftRoyaltyTotalDecryptedEvent.OutputTuple,
+    NftRoyaltyTotalDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NftRoyaltyTotalRequested"
+  ): TypedContractEvent<
+    NftRoyaltyTotalRequestedEvent.InputTuple,
+    NftRoyaltyTotalRequestedEvent.OutputTuple,
+    NftRoyaltyTotalRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutDeposited"
+  ): TypedContractEvent<
+    PayoutDepositedEvent.InputTuple,
+    PayoutDepositedEvent.OutputTuple,
+    PayoutDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutRequested"
+  ): TypedContractEvent<
+    PayoutRequestedEvent.InputTuple,
+    PayoutRequestedEvent.OutputTuple,
+    PayoutRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutTokenUpdated"
+  ): TypedContractEvent<
+    PayoutTokenUpdatedEvent.InputTuple,
+    PayoutTokenUpdatedEvent.OutputTuple,
+    PayoutTokenUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutWithdrawn"
+  ): TypedContractEvent<
+    PayoutWithdrawnEvent.InputTuple,
+    PayoutWithdrawnEvent.OutputTuple,
+    PayoutWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltyDistributed"
+  ): TypedContractEvent<
+    RoyaltyDistributedEvent.InputTuple,
+    RoyaltyDistributedEvent.OutputTuple,
+    RoyaltyDistributedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltyPaid"
+  ): TypedContractEvent<
+    RoyaltyPaidEvent.InputTuple,
+    RoyaltyPaidEvent.OutputTuple,
+    RoyaltyPaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltyPayoutUnfunded"
+  ): TypedContractEvent<
+    RoyaltyPayoutUnfundedEvent.InputTuple,
+    RoyaltyPayoutUnfundedEvent.OutputTuple,
+    RoyaltyPayoutUnfundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoyaltySubmitted"
+  ): TypedContractEvent<
+    RoyaltySubmittedEvent.InputTuple,
+    RoyaltySubmittedEvent.OutputTuple,
+    RoyaltySubmittedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DistributionRequested(uint256)": TypedContractEvent<
+      DistributionRequestedEvent.InputTuple,
+      DistributionRequestedEvent.OutputTuple,
+      DistributionRequestedEvent.OutputObject
+    >;
+    DistributionRequested: TypedContractEvent<
+      DistributionRequestedEvent.InputTuple,
+      DistributionRequestedEvent.OutputTuple,
+      DistributionRequestedEvent.OutputObject
+    >;
+
+    "HolderAccessGranted(uint256,address)": TypedContractEvent<
+      HolderAccessGrantedEvent.InputTuple,
+      HolderAccessGrantedEvent.OutputTuple,
+      HolderAccessGrantedEvent.OutputObject
+    >;
+    HolderAccessGranted: TypedContractEvent<
+      HolderAccessGrantedEvent.InputTuple,
+      HolderAccessGrantedEvent.OutputTuple,
+      HolderAccessGrantedEvent.OutputObject
+    >;
+
+    "NftRoyaltyCountDecrypted(uint256,uint32)": TypedContractEvent<
+      NftRoyaltyCountDecryptedEvent.InputTuple,
+      NftRoyaltyCountDecryptedEvent.OutputTuple,
+      NftRoyaltyCountDecryptedEvent.OutputObject
+    >;
+    NftRoyaltyCountDecrypted: TypedContractEvent<
+      NftRoyaltyCountDecryptedEvent.InputTuple,
+      NftRoyaltyCountDecryptedEvent.OutputTuple,
+      NftRoyaltyCountDecryptedEvent.OutputObject
+    >;
+
+    "NftRoyaltyCountRequested(uint256,uint256)": TypedContractEvent<
+      NftRoyaltyCountRequestedEvent.InputTuple,
+      NftRoyaltyCountRequestedEvent.OutputTuple,
+      NftRoyaltyCountRequestedEvent.OutputObject
+    >;
+    NftRoyaltyCountRequested: TypedContractEvent<
+      NftRoyaltyCountRequestedEvent.InputTuple,
+      NftRoyaltyCountRequestedEvent.OutputTuple,
+      NftRoyaltyCountRequestedEvent.OutputObject
+    >;
+
+    "NftRoyaltyTotalDecrypted(uint256,address,uint64)": TypedContractEvent<
+      NftRoyaltyTotalDecryptedEvent.InputTuple,
+      NftRoyaltyTotalDecryptedEvent.OutputTuple,
+      NftRoyaltyTotalDecryptedEvent.OutputObject
+    >;
+    NftRoyaltyTotalDecrypted: TypedContractEvent<
+      NftRoyaltyTotalDecryptedEvent.InputTuple,
+      NftRoyaltyTotalDecryptedEvent.OutputTuple,
+      NftRoyaltyTotalDecryptedEvent.OutputObject
+    >;
+
+    "NftRoyaltyTotalRequested(uint256,address,uint256)": TypedContractEvent<
+      NftRoyaltyTotalRequestedEvent.InputTuple,
+      NftRoyaltyTotalRequestedEvent.OutputTuple,
+      NftRoyaltyTotalRequestedEvent.OutputObject
+    >;
+    NftRoyaltyTotalRequested: TypedContractEvent<
+      NftRoyaltyTotalRequestedEvent.InputTuple,
+      NftRoyaltyTotalRequestedEvent.OutputTuple,
+      NftRoyaltyTotalRequestedEvent.OutputObject
+    >;
+
+    "PayoutDeposited(address,address,uint256)": TypedContractEvent<
+      PayoutDepositedEvent.InputTuple,
+      PayoutDepositedEvent.OutputTuple,
+      PayoutDepositedEvent.OutputObject
+    >;
+    PayoutDeposited: TypedContractEvent<
+      PayoutDepositedEvent.InputTuple,
+      PayoutDepositedEvent.OutputTuple,
+      PayoutDepositedEvent.OutputObject
+    >;
+
+    "PayoutRequested(uint256,address)": TypedContractEvent<
+      PayoutRequestedEvent.InputTuple,
+      PayoutRequestedEvent.OutputTuple,
+      PayoutRequestedEvent.OutputObject
+    >;
+    PayoutRequested: TypedContractEvent<
+      PayoutRequestedEvent.InputTuple,
+      PayoutRequestedEvent.OutputTuple,
+      PayoutRequestedEvent.OutputObject
+    >;
+
+    "PayoutTokenUpdated(address,bool)": TypedContractEvent<
+      PayoutTokenUpdatedEvent.InputTuple,
+      PayoutTokenUpdatedEvent.OutputTuple,
+      PayoutTokenUpdatedEvent.OutputObject
+    >;
+    PayoutTokenUpdated: TypedContractEvent<
+      PayoutTokenUpdatedEvent.InputTuple,
+      PayoutTokenUpdatedEvent.OutputTuple,
+      PayoutTokenUpdatedEvent.OutputObject
+    >;
+
+    "PayoutWithdrawn(address,address,uint256)": TypedContractEvent<
+      PayoutWithdrawnEvent.InputTuple,
+      PayoutWithdrawnEvent.OutputTuple,
+      PayoutWithdrawnEvent.OutputObject
+    >;
+    PayoutWithdrawn: TypedContractEvent<
+      PayoutWithdrawnEvent.InputTuple,
+      PayoutWithdrawnEvent.OutputTuple,
+      PayoutWithdrawnEvent.OutputObject
+    >;
+
+    "RoyaltyDistributed(uint256)": TypedContractEvent<
+      RoyaltyDistributedEvent.InputTuple,
+      RoyaltyDistributedEvent.OutputTuple,
+      RoyaltyDistributedEvent.OutputObject
+    >;
+    RoyaltyDistributed: TypedContractEvent<
+      RoyaltyDistributedEvent.InputTuple,
+      RoyaltyDistributedEvent.OutputTuple,
+      RoyaltyDistributedEvent.OutputObject
+    >;
+
+    "RoyaltyPaid(uint256,address,address,uint256)": TypedContractEvent<
+      RoyaltyPaidEvent.InputTuple,
+      RoyaltyPaidEvent.OutputTuple,
+      RoyaltyPaidEvent.OutputObject
+    >;
+    RoyaltyPaid: TypedContractEvent<
+      RoyaltyPaidEvent.InputTuple,
+      RoyaltyPaidEvent.OutputTuple,
+      RoyaltyPaidEvent.OutputObject
+    >;
+
+    "RoyaltyPayoutUnfunded(uint256,address)": TypedContractEvent<
+      RoyaltyPayoutUnfundedEvent.InputTuple,
+      RoyaltyPayoutUnfundedEvent.OutputTuple,
+      RoyaltyPayoutUnfundedEvent.OutputObject
+    >;
+    RoyaltyPayoutUnfunded: TypedContractEvent<
+      RoyaltyPayoutUnfundedEvent.InputTuple,
+      RoyaltyPayoutUnfundedEvent.OutputTuple,
+      RoyaltyPayoutUnfundedEvent.OutputObject
+    >;
+
+    "RoyaltySubmitted(uint256,uint256)": TypedContractEvent<
+      RoyaltySubmittedEvent.InputTuple,
+      RoyaltySubmittedEvent.OutputTuple,
+      RoyaltySubmittedEvent.OutputObject
+    >;
+    RoyaltySubmitted: TypedContractEvent<
+      RoyaltySubmittedEvent.InputTuple,
+      RoyaltySubmittedEvent.OutputTuple,
+      RoyaltySubmittedEvent.OutputObject
+    >;
+  };
+}
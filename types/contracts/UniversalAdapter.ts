@@ -0,0 +1,324 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface UniversalAdapterInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "appendToIndex"
+      | "getData"
+      | "getIndexEntries"
+      | "getIndexLength"
+      | "isAvailable"
+      | "setData"
+      | "setDataAndAppend"
+      | "setDataBatch"
+      | "setDataBatchAndAppend"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "DataStored" | "IndexAppended"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "appendToIndex",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "getData", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getIndexEntries",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getIndexLength",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setData",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDataAndAppend",
+    values: [string, BytesLike, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDataBatch",
+    values: [string[], BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDataBatchAndAppend",
+    values: [string[], BytesLike[], string, string[]]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "appendToIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getIndexEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getIndexLength",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setDataAndAppend",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDataBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDataBatchAndAppend",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DataStoredEvent {
+  export type InputTuple = [sender: AddressLike, key: string, value: BytesLike];
+  export type OutputTuple = [sender: string, key: string, value: string];
+  export interface OutputObject {
+    sender: string;
+    key: string;
+    value: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IndexAppendedEvent {
+  export type InputTuple = [
+    sender: AddressLike,
+    indexKey: string,
+    entry: string,
+    length: BigNumberish
+  ];
+  export type OutputTuple = [
+    sender: string,
+    indexKey: string,
+    entry: string,
+    length: bigint
+  ];
+  export interface OutputObject {
+    sender: string;
+    indexKey: string;
+    entry: string;
+    length: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface UniversalAdapter extends BaseContract {
+  connect(runner?: ContractRunner | null): UniversalAdapter;
+  waitForDeployment(): Promise<this>;
+
+  interface: UniversalAdapterInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  appendToIndex: TypedContractMethod<
+    [indexKey: string, entry: string],
+    [void],
+    "nonpayable"
+  >;
+
+  getData: TypedContractMethod<[key: string], [string], "view">;
+
+  getIndexEntries: TypedContractMethod<
+    [indexKey: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getIndexLength: TypedContractMethod<[indexKey: string], [bigint], "view">;
+
+  isAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  setData: TypedContractMethod<
+    [key: string, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setDataAndAppend: TypedContractMethod<
+    [key: string, value: BytesLike, indexKey: string, entry: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setDataBatch: TypedContractMethod<
+    [keys: string[], values: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setDataBatchAndAppend: TypedContractMethod<
+    [keys: string[], values: BytesLike[], indexKey: string, entries: string[]],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "appendToIndex"
+  ): TypedContractMethod<
+    [indexKey: string, entry: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getData"
+  ): TypedContractMethod<[key: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getIndexEntries"
+  ): TypedContractMethod<
+    [indexKey: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getIndexLength"
+  ): TypedContractMethod<[indexKey: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "setData"
+  ): TypedContractMethod<[key: string, value: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setDataAndAppend"
+  ): TypedContractMethod<
+    [key: string, value: BytesLike, indexKey: string, entry: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDataBatch"
+  ): TypedContractMethod<
+    [keys: string[], values: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDataBatchAndAppend"
+  ): TypedContractMethod<
+    [keys: string[], values: BytesLike[], indexKey: string, entries: string[]],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "DataStored"
+  ): TypedContractEvent<
+    DataStoredEvent.InputTuple,
+    DataStoredEvent.OutputTuple,
+    DataStoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "IndexAppended"
+  ): TypedContractEvent<
+    IndexAppendedEvent.InputTuple,
+    IndexAppendedEvent.OutputTuple,
+    IndexAppendedEvent.OutputObject
+  >;
+
+  filters: {
+    "DataStored(address,string,bytes)": TypedContractEvent<
+      DataStoredEvent.InputTuple,
+      DataStoredEvent.OutputTuple,
+      DataStoredEvent.OutputObject
+    >;
+    DataStored: TypedContractEvent<
+      DataStoredEvent.InputTuple,
+      DataStoredEvent.OutputTuple,
+      DataStoredEvent.OutputObject
+    >;
+
+    "IndexAppended(address,string,string,uint256)": TypedContractEvent<
+      IndexAppendedEvent.InputTuple,
+      IndexAppendedEvent.OutputTuple,
+      IndexAppendedEvent.OutputObject
+    >;
+    IndexAppended: TypedContractEvent<
+      IndexAppendedEvent.InputTuple,
+      IndexAppendedEvent.OutputTuple,
+      IndexAppendedEvent.OutputObject
+    >;
+  };
+}
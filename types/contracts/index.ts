@@ -2,4 +2,8 @@
 /* tslint:disable */
 /* eslint-disable */
 export type { CsrFeedbackFHE } from "./CsrFeedbackFHE";
+export type { MockERC20 } from "./MockERC20";
+export type { MockERC20Permit } from "./MockERC20Permit";
+export type { Multicall3 } from "./Multicall3";
+export type { MusicNftRoyalties } from "./MusicNftRoyalties";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,647 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MockERC20Permit,
+  MockERC20PermitInterface,
+} from "../../contracts/MockERC20Permit";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "tokenDecimals",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "allowance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSpender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2612ExpiredSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC2612InvalidSigner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentNonce",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidAccountNonce",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "v",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "r",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x61018060408181523462000422576200162e803803809162000022828662000426565b84398201606083820312620004225782516001600160401b039290838111620004225782620000539186016200046d565b906020928386015185811162000422578291620000729188016200046d565b9501519260ff841684036200042257815190828201828110878211176200033657835260019283835281830193603160f81b85528551888111620003365760038054918383811c9316801562000417575b868410146200040357601f92838111620003bb575b50808684821160011462000356575f916200034a575b505f1982841b1c191690841b1781555b8a51918a8311620003365760049b8c548581811c911680156200032b575b888210146200031857828111620002d0575b508691841160011462000269579383949184925f956200025d575b50501b925f19911b1c19161788555b6200016385620004c8565b93610120948552620001758462000663565b95610140968752838151910120938460e0525190209761010098808a524660a0528251938401947f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f86528385015260608401524660808401523060a084015260a0835260c0830197838910908911176200024a57508690525190206080523060c052610160928352610e7c9485620007b2863960805185610a22015260a05185610aee015260c051856109ec015260e05185610a7101525184610a970152518361039a015251826103c4015251816105ef0152f35b604190634e487b7160e01b5f525260245ffd5b015193505f8062000149565b9190601f198416928d5f5284885f20945f5b8a89838310620002b857505050106200029e575b50505050811b01885562000158565b01519060f8845f19921b161c191690555f8080806200028f565b8686015189559097019694850194889350016200027b565b8d5f52875f208380870160051c8201928a88106200030e575b0160051c019086905b828110620003025750506200012e565b5f8155018690620002f2565b92508192620002e9565b60228e634e487b7160e01b5f525260245ffd5b90607f16906200011c565b634e487b7160e01b5f52604160045260245ffd5b90508901515f620000ee565b5f8481528881208794509190601f198416908a8e5b838310620003a35750505083116200038b575b5050811b018155620000fe565b8b01515f1983861b60f8161c191690555f806200037e565b840151855589969094019392830192018a8e6200036b565b825f52865f208480840160051c820192898510620003f9575b0160051c019085905b828110620003ed575050620000d8565b5f8155018590620003dd565b92508192620003d4565b634e487b7160e01b5f52602260045260245ffd5b92607f1692620000c3565b5f80fd5b601f909101601f19168101906001600160401b038211908210176200033657604052565b5f5b8381106200045c5750505f910152565b81810151838201526020016200044c565b81601f82011215620004225780516001600160401b038111620003365760405192620004a4601f8301601f19166020018562000426565b818452602082840101116200042257620004c591602080850191016200044a565b90565b8051602091908281101562000547575090601f825111620005055780825192015190808310620004f757501790565b825f19910360031b1b161790565b604490620005399260405193849263305a27a960e01b8452806004850152825192839182602487015286860191016200044a565b601f01601f19168101030190fd5b6001600160401b03811162000336576005928354926001938481811c9116801562000658575b838210146200040357601f811162000624575b5081601f8411600114620005be57509282939183925f94620005b2575b50501b915f199060031b1c191617905560ff90565b015192505f806200059d565b919083601f198116875f52845f20945f905b88838310620006095750505010620005f0575b505050811b01905560ff90565b01515f1960f88460031b161c191690555f8080620005e3565b858701518855909601959485019487935090810190620005d0565b855f5284601f845f209201871c820191601f8601881c015b8281106200064c57505062000580565b5f81550185906200063c565b90607f16906200056d565b805160209081811015620006905750601f825111620005055780825192015190808310620004f757501790565b906001600160401b0382116200033657600654926001938481811c91168015620007a6575b838210146200040357601f81116200076f575b5081601f84116001146200070757509282939183925f94620006fb575b50501b915f199060031b1c19161760065560ff90565b015192505f80620006e5565b919083601f19811660065f52845f20945f905b888383106200075457505050106200073b575b505050811b0160065560ff90565b01515f1960f88460031b161c191690555f80806200072d565b8587015188559096019594850194879350908101906200071a565b60065f5284601f845f20920160051c820191601f860160051c015b8281106200079a575050620006c8565b5f81550185906200078a565b90607f1690620006b556fe6080604090808252600480361015610015575f80fd5b5f3560e01c91826306fdde031461074c57508163095ea7b31461072357816318160ddd1461070557816323b872dd14610613578163313ce567146105d65781633644e515146105b357816340c10f191461050e57816370a08231146104d85781637ecebe00146104a157816384b0196e1461038357816395d89b4114610297578163a9059cbb14610267578163d505accf14610106575063dd62ed3e146100ba575f80fd5b346101025780600319360112610102576020906100d5610859565b6100dd61086f565b9060018060a01b038091165f5260018452825f2091165f528252805f20549051908152f35b5f80fd5b9050346101025760e036600319011261010257610121610859565b61012961086f565b906044359260643560843560ff81168103610102578142116102505760018060a01b039081851692835f526007602052885f209081549160018301905589519060208201927f6e71edae12b1b97f4d1f60370fef10105fa2faae0126114a169c64845d6126c98452868c840152858a1660608401528a608084015260a083015260c082015260c0815260e0810181811067ffffffffffffffff82111761023d578a5251902061020d91610204916101de6109e9565b908b519161190160f01b83526002830152602282015260c43591604260a4359220610d5f565b90929192610dec565b1681810361022257610220868686610b14565b005b86516325c0072360e11b815292830152602482015260449150fd5b604187634e487b7160e01b5f525260245ffd5b865163313c898160e11b8152808401839052602490fd5b8234610102578060031936011261010257602090610290610286610859565b602435903361090f565b5160018152f35b905034610102575f36600319011261010257815191825f83546102b981610885565b90818452602095600191876001821691825f1461035c575050600114610300575b5050506102fc92916102ed9103856108ed565b5192828493845283019061081b565b0390f35b5f90815286935091907f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b5b82841061034457505050820101816102ed6102fc6102da565b8054848a01860152889550879490930192810161032b565b60ff19168782015293151560051b860190930193508492506102ed91506102fc90506102da565b905034610102575f366003190112610102576103be7f0000000000000000000000000000000000000000000000000000000000000000610ba1565b916103e87f0000000000000000000000000000000000000000000000000000000000000000610ca2565b815191602091602084019484861067ffffffffffffffff87111761048e5750610443826020928761043699989795525f85528151988998600f60f81b8a5260e0868b015260e08a019061081b565b918883039089015261081b565b914660608701523060808701525f60a087015285830360c087015251918281520192915f5b82811061047757505050500390f35b835185528695509381019392810192600101610468565b604190634e487b7160e01b5f525260245ffd5b8234610102576020366003190112610102576020906001600160a01b036104c6610859565b165f5260078252805f20549051908152f35b8234610102576020366003190112610102576020906001600160a01b036104fd610859565b165f525f8252805f20549051908152f35b8234610102578060031936011261010257610527610859565b6001600160a01b0316916024359190831561059e576002549083820180921161058b57505f927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9260209260025585855284835280852082815401905551908152a3005b601190634e487b7160e01b5f525260245ffd5b5f602492519163ec442f0560e01b8352820152fd5b8234610102575f366003190112610102576020906105cf6109e9565b9051908152f35b8234610102575f366003190112610102576020905160ff7f0000000000000000000000000000000000000000000000000000000000000000168152f35b9050346101025760603660031901126101025761062e610859565b61063661086f565b906044359260018060a01b038216805f526001602052855f20335f52602052855f2054915f198310610671575b60208761029088888861090f565b8583106106d95781156106c35733156106ad57505f90815260016020908152868220338352815290869020918590039091558290610290610663565b6024905f885191634a1406b160e11b8352820152fd5b6024905f88519163e602df0560e01b8352820152fd5b8651637dc7a0d960e11b8152339181019182526020820193909352604081018690528291506060010390fd5b8234610102575f366003190112610102576020906002549051908152f35b8234610102578060031936011261010257602090610290610742610859565b6024359033610b14565b8334610102575f3660031901126101025760035490825f61076c84610885565b808352602094600190866001821691825f146107f957505060011461079e575b50506102fc92916102ed9103856108ed565b9085925060035f527fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b915f925b8284106107e157505050820101816102ed61078c565b8054848a0186015288955087949093019281016107cb565b60ff19168682015292151560051b850190920192508391506102ed905061078c565b91908251928382525f5b848110610845575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610825565b600435906001600160a01b038216820361010257565b602435906001600160a01b038216820361010257565b90600182811c921680156108b3575b602083101461089f57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610894565b6040810190811067ffffffffffffffff8211176108d957604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176108d957604052565b916001600160a01b038084169283156109d157169283156109b957825f525f60205260405f2054908282106109875750817fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92602092855f525f84520360405f2055845f5260405f20818154019055604051908152a3565b60405163391434e360e21b81526001600160a01b03919091166004820152602481019190915260448101829052606490fd5b60405163ec442f0560e01b81525f6004820152602490fd5b604051634b637e8f60e11b81525f6004820152602490fd5b307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161480610aeb575b15610a44577f000000000000000000000000000000000000000000000000000000000000000090565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f000000000000000000000000000000000000000000000000000000000000000060408201527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260a0815260c0810181811067ffffffffffffffff8211176108d95760405251902090565b507f00000000000000000000000000000000000000000000000000000000000000004614610a1b565b6001600160a01b03908116918215610b895716918215610b715760207f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92591835f526001825260405f20855f5282528060405f2055604051908152a3565b604051634a1406b160e11b81525f6004820152602490fd5b60405163e602df0560e01b81525f6004820152602490fd5b60ff8114610bdf5760ff811690601f8211610bcd5760405191610bc3836108bd565b8252602082015290565b604051632cd44ac360e21b8152600490fd5b50604051600554815f610bf183610885565b80835292602090600190818116908115610c7e5750600114610c1f575b5050610c1c925003826108ed565b90565b91509260055f527f036b6384b5eca791c62761152d0c79bb0604c104a5fb6f4eb0703f3154bb3db0935f925b828410610c665750610c1c9450505081016020015f80610c0e565b85548785018301529485019486945092810192610c4b565b91505060209250610c1c94915060ff191682840152151560051b8201015f80610c0e565b60ff8114610cc45760ff811690601f8211610bcd5760405191610bc3836108bd565b50604051600654815f610cd683610885565b80835292602090600190818116908115610c7e5750600114610d00575050610c1c925003826108ed565b91509260065f527ff652222313e28459528d920b65115c16c04f3efc82aaedc97be59f3f377c0d3f935f925b828410610d475750610c1c9450505081016020015f80610c0e565b85548785018301529485019486945092810192610d2c565b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411610de1579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa15610dd6575f516001600160a01b03811615610dcc57905f905f90565b505f906001905f90565b6040513d5f823e3d90fd5b5050505f9160039190565b6004811015610e5b5780610dfe575050565b60018103610e185760405163f645eedf60e01b8152600490fd5b60028103610e395760405163fce698f760e01b815260048101839052602490fd5b600314610e435750565b602490604051906335e2f38360e21b82526004820152fd5b634e487b7160e01b5f52602160045260245ffdfea164736f6c6343000818000a";
+
+type MockERC20PermitConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockERC20PermitConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockERC20Permit__factory extends ContractFactory {
+  constructor(...args: MockERC20PermitConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name: string,
+    symbol: string,
+    tokenDecimals: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name,
+      symbol,
+      tokenDecimals,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name: string,
+    symbol: string,
+    tokenDecimals: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      name,
+      symbol,
+      tokenDecimals,
+      overrides || {}
+    ) as Promise<
+      MockERC20Permit & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockERC20Permit__factory {
+    return super.connect(runner) as MockERC20Permit__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockERC20PermitInterface {
+    return new Interface(_abi) as MockERC20PermitInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockERC20Permit {
+    return new Contract(address, _abi, runner) as unknown as MockERC20Permit;
+  }
+}
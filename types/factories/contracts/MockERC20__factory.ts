@@ -0,0 +1,431 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type { MockERC20, MockERC20Interface } from "../../contracts/MockERC20";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "tokenDecimals",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "allowance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientAllowance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "ERC20InvalidSpender",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234620003235762000ae9803803806200001d8162000327565b9283398101606082820312620003235781516001600160401b03908181116200032357826200004e9185016200034d565b906020928385015182811162000323576040916200006e9187016200034d565b9401519360ff85168503620003235782518281116200022e576003918254916001958684811c9416801562000318575b8885101462000304578190601f94858111620002b1575b5088908583116001146200024e575f9262000242575b50505f1982861b1c191690861b1783555b80519384116200022e5760049586548681811c9116801562000223575b828210146200021057838111620001c8575b50809285116001146200015e57509383949184925f9562000152575b50501b925f19911b1c19161790555b60805260405161072b9081620003be82396080518161031d0152f35b015193505f8062000127565b92919084601f198116885f52855f20955f905b89838310620001ad575050501062000193575b50505050811b01905562000136565b01519060f8845f19921b161c191690555f80808062000184565b85870151895590970196948501948893509081019062000171565b875f52815f208480880160051c82019284891062000206575b0160051c019087905b828110620001fa5750506200010b565b5f8155018790620001ea565b92508192620001e1565b602288634e487b7160e01b5f525260245ffd5b90607f1690620000f9565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000cb565b90889350601f19831691875f528a5f20925f5b8c8282106200029a575050841162000282575b505050811b018355620000dc565b01515f1983881b60f8161c191690555f808062000274565b8385015186558c9790950194938401930162000261565b909150855f52885f208580850160051c8201928b8610620002fa575b918a91869594930160051c01915b828110620002eb575050620000b5565b5f81558594508a9101620002db565b92508192620002cd565b634e487b7160e01b5f52602260045260245ffd5b93607f16936200009e565b5f80fd5b6040519190601f01601f191682016001600160401b038111838210176200022e57604052565b919080601f84011215620003235782516001600160401b0381116200022e5760209062000383601f8201601f1916830162000327565b9281845282828701011162000323575f5b818110620003a95750825f9394955001015290565b85810183015184820184015282016200039456fe6080604090808252600480361015610015575f80fd5b5f3560e01c91826306fdde03146104f957508163095ea7b31461045157816318160ddd1461043357816323b872dd14610341578163313ce5671461030457816340c10f191461025f57816370a082311461022957816395d89b411461010a57508063a9059cbb146100da5763dd62ed3e1461008e575f80fd5b346100d657806003193601126100d6576020906100a9610618565b6100b161062e565b9060018060a01b038091165f5260018452825f2091165f528252805f20549051908152f35b5f80fd5b50346100d657806003193601126100d6576020906101036100f9610618565b6024359033610644565b5160018152f35b82346100d6575f3660031901126100d6578051905f835460018160011c906001831692831561021f575b602093848410811461020c578388529081156101f0575060011461019c575b505050829003601f01601f191682019267ffffffffffffffff84118385101761018957508291826101859252826105d1565b0390f35b604190634e487b7160e01b5f525260245ffd5b5f878152929350837f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b5b8385106101dc5750505050830101848080610153565b8054888601830152930192849082016101c6565b60ff1916878501525050151560051b8401019050848080610153565b602289634e487b7160e01b5f525260245ffd5b91607f1691610134565b82346100d65760203660031901126100d6576020906001600160a01b0361024e610618565b165f525f8252805f20549051908152f35b82346100d657806003193601126100d657610278610618565b6001600160a01b031691602435919083156102ef57600254908382018092116102dc57505f927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9260209260025585855284835280852082815401905551908152a3005b601190634e487b7160e01b5f525260245ffd5b5f602492519163ec442f0560e01b8352820152fd5b82346100d6575f3660031901126100d6576020905160ff7f0000000000000000000000000000000000000000000000000000000000000000168152f35b9050346100d65760603660031901126100d65761035c610618565b61036461062e565b906044359260018060a01b038216805f526001602052855f20335f52602052855f2054915f19831061039f575b602087610103888888610644565b8583106104075781156103f15733156103db57505f90815260016020908152868220338352815290869020918590039091558290610103610391565b6024905f885191634a1406b160e11b8352820152fd5b6024905f88519163e602df0560e01b8352820152fd5b8651637dc7a0d960e11b8152339181019182526020820193909352604081018690528291506060010390fd5b82346100d6575f3660031901126100d6576020906002549051908152f35b82346100d657806003193601126100d65761046a610618565b6024359033156104e3576001600160a01b03169081156104cd5760209350335f5260018452825f20825f52845280835f205582519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925843392a35160018152f35b8251634a1406b160e11b81525f81860152602490fd5b825163e602df0560e01b81525f81860152602490fd5b83346100d6575f3660031901126100d6575f60035460018160011c90600183169283156105c7575b602093848410811461020c578388529081156101f0575060011461057157505050829003601f01601f191682019267ffffffffffffffff84118385101761018957508291826101859252826105d1565b60035f908152929350837fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b5b8385106105b35750505050830101848080610153565b80548886018301529301928490820161059d565b91607f1691610521565b602080825282518183018190529093925f5b82811061060457505060409293505f838284010152601f8019910116010190565b8181018601518482016040015285016105e3565b600435906001600160a01b03821682036100d657565b602435906001600160a01b03821682036100d657565b916001600160a01b0380841692831561070657169283156106ee57825f525f60205260405f2054908282106106bc5750817fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92602092855f525f84520360405f2055845f5260405f20818154019055604051908152a3565b60405163391434e360e21b81526001600160a01b03919091166004820152602481019190915260448101829052606490fd5b60405163ec442f0560e01b81525f6004820152602490fd5b604051634b637e8f60e11b81525f6004820152602490fdfea164736f6c6343000818000a";
+
+type MockERC20ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockERC20ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockERC20__factory extends ContractFactory {
+  constructor(...args: MockERC20ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name: string,
+    symbol: string,
+    tokenDecimals: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      name,
+      symbol,
+      tokenDecimals,
+      overrides || {}
+    );
+  }
+  override deploy(
+    name: string,
+    symbol: string,
+    tokenDecimals: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      name,
+      symbol,
+      tokenDecimals,
+      overrides || {}
+    ) as Promise<
+      MockERC20 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockERC20__factory {
+    return super.connect(runner) as MockERC20__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockERC20Interface {
+    return new Interface(_abi) as MockERC20Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MockERC20 {
+    return new Contract(address, _abi, runner) as unknown as MockERC20;
+  }
+}
@@ -0,0 +1,138 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  Multicall3,
+  Multicall3Interface,
+} from "../../contracts/Multicall3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "allowFailure",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "callData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Call3[]",
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "returnData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Result[]",
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getBlockNumber",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCurrentBlockTimestamp",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576103db908161001b8239f35b5f80fdfe608060408181526004916004361015610016575f80fd5b5f3560e01c9081630f28c97d1461031c5750806342cbb15c14610302576382ad56cb14610041575f80fd5b6020806003193601126102b25767ffffffffffffffff906004358281116102b257366023820112156102b2578060040135928084116102b257602436818660051b850101116102b2576100a061009b86949597989661038e565b610368565b948386526100ad8461038e565b601f19959086015f5b8181106102d35750503681900360821901905f5b868110610174578a8a8a8a83519280840191818552835180935285850182878560051b8801019501965f925b8584106101035787870388f35b909192939495603f1988820301845285808a51805115158452015191848282015282519283868301525f5b84811061015f575050600192829185601f6060935f858286010152011601019a0194019401929795949391906100f6565b8181018401518382016060015289930161012e565b848160059c9b999a9c1b83010135838112156102b2578201858101356001600160a01b03811681036102b25760649081830135604219843603018112156102b25783019088820135908a82116102b25760448093019082360382136102b2578f515f9384938491839181908337810182815203925af1923d156102c8573d8a81116102b657918091838f8f61021091601f829998011601610368565b9081525f81963d92013e5b0135801590811581036102b257906102ab575b1561026c57505090610255838e60019594610247610334565b94151585528d8501526103a6565b52610260818d6103a6565b500199979698996100ca565b7f4d756c746963616c6c333a2063616c6c206661696c656400000000000000000088918f8b8f601792519562461bcd60e51b8752860152840152820152fd5b508361022e565b5f80fd5b8960418a634e487b7160e01b5f52525ffd5b91908060609361021b565b98898982809a9b9d9c6102e79a969a610334565b925f84526060838501520101520199979698999591956100b6565b50346102b2575f3660031901126102b25760209051438152f35b346102b2575f3660031901126102b257602090428152f35b604051906040820182811067ffffffffffffffff82111761035457604052565b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f1916820167ffffffffffffffff81118382101761035457604052565b67ffffffffffffffff81116103545760051b60200190565b80518210156103ba5760209160051b010190565b634e487b7160e01b5f52603260045260245ffdfea164736f6c6343000818000a";
+
+type Multicall3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: Multicall3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Multicall3__factory extends ContractFactory {
+  constructor(...args: Multicall3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      Multicall3 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): Multicall3__factory {
+    return super.connect(runner) as Multicall3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): Multicall3Interface {
+    return new Interface(_abi) as Multicall3Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Multicall3 {
+    return new Contract(address, _abi, runner) as unknown as Multicall3;
+  }
+}
@@ -0,0 +1,1247 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MusicNftRoyalties,
+  MusicNftRoyaltiesInterface,
+} from "../../contracts/MusicNftRoyalties";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "DistributionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "HolderAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "NftRoyaltyCountDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "NftRoyaltyCountRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "total",
+        type: "uint64",
+      },
+    ],
+    name: "NftRoyaltyTotalDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "NftRoyaltyTotalRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "PayoutRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "PayoutTokenUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "RoyaltyDistributed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RoyaltyPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "RoyaltyPayoutUnfunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "RoyaltySubmitted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ENCRYPTED_AMOUNT_DECIMALS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_ROYALTIES_PER_TOTAL_REVEAL",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "NATIVE_TOKEN",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "calculateTotalRoyalties",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptNftRoyaltyCount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptNftRoyaltyTotal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptedRoyalties",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "depositEth",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "v",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "r",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "depositWithPermit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "distributeRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedRoyalties",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "eaddress",
+        name: "encryptedOwner",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedShare",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedNftId",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "royaltyId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptedRoyalty",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedNftRoyaltyCount",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "royaltyId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "getHolderRoyalty",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "share",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "nftId",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getNewRoyaltiesSinceTotalReveal",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+    ],
+    name: "getNftPayoutTokens",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPayoutTokens",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+    ],
+    name: "getRevealedNftRoyaltyCount",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isPending",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "getRevealedNftRoyaltyTotal",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "total",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isPending",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "royaltyId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "getRoyaltyPayout",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isPaid",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isPending",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isPayoutToken",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isRoyaltyPaid",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "payRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "payoutBalanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "payoutTokenDecimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "royaltyId",
+        type: "uint256",
+      },
+    ],
+    name: "requestHolderAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+    ],
+    name: "requestNftRoyaltyCountDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nftId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "requestNftRoyaltyTotalDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "royaltyId",
+        type: "uint256",
+      },
+    ],
+    name: "requestRoyaltyDistribution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "royaltyId",
+        type: "uint256",
+      },
+    ],
+    name: "requestRoyaltyPayout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "royaltyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "royaltyPayoutToken",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "royaltySubmitter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "setPayoutToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEaddress",
+        name: "encryptedOwner",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedShare",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedNftId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEaddress",
+        name: "encryptedOwner",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedShare",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedNftId",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "address",
+        name: "payoutToken",
+        type: "address",
+      },
+    ],
+    name: "submitEncryptedTokenRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000165575f60606200001762000169565b82815282602082015282604082015201526200003262000169565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970390828254161790553390601254161760125560405161361990816200019e8239f35b5f80fd5b60405190608082016001600160401b038111838210176200018957604052565b634e487b7160e01b5f52604160045260245ffdfe60806040818152600480361015610014575f80fd5b5f925f3560e01c90816312a62cff1461209457508063193420ee1461207c5780631bc74e2e14611ff45780631e9ed27a14611fad57806321beeb6b14611f55578063247167e014611f005780632771b12e14611ee357806331f7d96414611ec857838163439370b114611e5f5750806343d6a56514611e2157806347e7ef2414611dfc5780634d7fa8c714611d9f5780634f49570914611d6357806362fa005e14611cf25780636ab2b81a14611c65578063755a463914611bb557806379804f0e14611b995780637cf7da2814611b435780637d5dd47c146117db578063a62af7d114611682578063a9e1ac55146117a3578063ad45a0da14611771578063ad9099071461173f578063b1fe48de146116cb578063bec8352614611682578063c1322cb8146113c0578063c5bcec4814611022578063c5dd85b314611002578063d0e2ddf414610fe6578063d4814d4414610ec3578063da1f12ab14610ea6578063df7d914214610bf0578063dfb6b9d314610ba3578063e3decbcd146109ef578063e7b6b5d7146109c3578063f239aeaa146107cc578063f3fef3a3146105f1578063f485ab5714610230578063f851a440146102035763faff7bfd146101da575f80fd5b346101ff5760203660031901126101ff57602092818392358252845220549051908152f35b8280fd5b50503461022c578160031936011261022c5760125490516001600160a01b039091168152602090f35b5080fd5b50346101ff5760209182600319360112610537578135928385526002815260019260ff84848820015416156105be578486526019825260ff838720541661058e57848652601a8252828620335f52825260ff835f20541661055c578486528382526102b6838720826102a53388840154612f75565b9101546102b061315b565b9161326e565b6102c03082613202565b8351916102cc8361218f565b85835283830191843684376102e08461292b565b525f5f805160206135ed8339815191529283549460018060a01b03805f805160206135cd8339815191525416803b15610558575f8a518092637d6e912360e11b82528b89830152818381610337602482018a6130b1565b03925af1801561054e5761053b575b505f805160206135ad8339815191525416803b15610537578389518092633263b83b60e01b825289888301526060602483015281838161038960648201896130b1565b630c9a107760e11b604483015203925af1801561052d57908491610519575b508690525f8051602061356d833981519152808852888420546105095786845287528783209051916001600160401b0383116104f657600160401b83116104f65781548383558084106104cf575b5090835286832089845b8481106104bd5750505050508254915f1983146104aa5750508501905582516104669161042c8261218f565b86825233848301528752601b8352838720600190825181550190602060018060a01b03910151166001600160601b0360a01b825416179055565b838552601a815281852090335f52525f209060ff1982541617905533907f35e70bcabb183ad21fb5f8219ea4769ed526f381e55f60717178d5df6ec65b938380a380f35b634e487b7160e01b825260119052602490fd5b89845194019381840155018a90610400565b8285528a848a872092830192015b8281106104eb5750506103f6565b5f8155018b906104dd565b634e487b7160e01b845260418552602484fd5b8851633f06d22b60e01b81528590fd5b61052290612168565b6101ff57825f6103a8565b89513d86823e3d90fd5b8380fd5b610546919450612168565b5f925f610346565b8a513d5f823e3d90fd5b5f80fd5b915162461bcd60e51b815291820152600e60248201526d5061796f75742070656e64696e6760901b6044820152606490fd5b915162461bcd60e51b815291820152600c60248201526b105b1c9958591e481c185a5960a21b6044820152606490fd5b915162461bcd60e51b815291820152600f60248201526e139bdd08191a5cdd1c9a589d5d1959608a1b6044820152606490fd5b5090346101ff57806003193601126101ff5761060b61213c565b9160243591821515806107a6575b1561076c57338552602091601783528186209460018060a01b031694855f528352815f20610648858254612390565b9055846106ed578580808087335af13d156106e8573d610667816121e6565b90610674855192836121c5565b815287853d92013e5b156106b15750907f219e32d66c2f953f02b07838ef5662afcaa9e2bb7394e7cfec915014353226e2915b519283523392a380f35b82606492519162461bcd60e51b83528201526013602482015272115512081d1c985b9cd9995c8819985a5b1959606a1b6044820152fd5b61067d565b815163a9059cbb60e01b84820152336024820152604480820186905281529060808201906001600160401b0382118383101761075957508291610754917f219e32d66c2f953f02b07838ef5662afcaa9e2bb7394e7cfec915014353226e2959452866132c0565b6106a7565b604190634e487b7160e01b5f525260245ffd5b906020606492519162461bcd60e51b83528201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152fd5b50338552601760205280852060018060a01b0385165f5260205282815f20541015610619565b5091903461022c5760c036600319011261022c576084356001600160401b0381116101ff576107fe90369085016122df565b9160a4356001600160a01b03811690819003610558578085526020926013845261082d60ff8488205416612a6d565b61084261083b368784612201565b883561331a565b61088561087d61085e610856368a87612201565b602435613402565b9361087561086d368b84612201565b604435613402565b983691612201565b6064356134b7565b61088f3083613202565b6108993084613202565b6108a33088613202565b6108ad3082613202565b5f5496600188018098116109b057986005929188999a7f124d571d0377d2dee395b5b5bfc44785e4a0eae2d9b8db1be43e904553c52022995f558751956108f3876121aa565b8b8752898701948552888701908152606087019182526080870192835260a08701944286528c5f5260018b52895f209751885551600188015551600287015551600386015551908401555191015561097e825161094f8161218f565b5f815260018582015f8152885f5260028752855f209251835551151591019060ff801983541691151516179055565b60158352815f206001600160601b0360a01b918282541617905560188352815f2090339082541617905551428152a280f35b60118a634e487b7160e01b5f525260245ffd5b50346101ff5760203660031901126101ff578160209360ff923581526019855220541690519015158152f35b5091903461022c5760a036600319011261022c576084356001600160401b0381116101ff57610a2190369085016122df565b91610a37610a30368585612201565b863561331a565b92610a6361087d610a4c610856368588612201565b94610a5b61086d368684612201565b933691612201565b93610a6e3082613202565b610a783085613202565b610a823083613202565b610a8c3086613202565b5f549460018601809611610b9057908596976005927f124d571d0377d2dee395b5b5bfc44785e4a0eae2d9b8db1be43e904553c52022975f55855194610ad1866121aa565b898652602097888701948552878701908152606087019182526080870192835260a08701944286528b5f5260018a52885f2097518855516001880155516002870155516003860155519084015551910155610b5f8151610b308161218f565b5f815260018482015f8152875f5260028652845f209251835551151591019060ff801983541691151516179055565b60158252805f206001600160601b0360a01b9081815416905560188352815f2090339082541617905551428152a280f35b601188634e487b7160e01b5f525260245ffd5b50503461022c578060031936011261022c57602091610bc061213c565b82610bc9612152565b6001600160a01b03928316845260178652922091165f908152908352819020549051908152f35b5091903461022c57602090816003193601126101ff57833580845260188352818420549092906001600160a01b039081163303610e705783855260018083528386209060028452610c4960ff82878a20015416156125cb565b845191610c558361218f565b818352600385840191863684370154610c6d8461292b565b525f905f805160206135ed83398151915293845495805f805160206135cd8339815191525416803b15610558578951637d6e912360e11b8152808e018a9052905f908290818381610cc1602482018a6130b1565b03925af1801561054e57610e5d575b505f805160206135ad8339815191525416803b15610537578851633263b83b60e01b8152808d01889052606060248201529084908290818381610d1660648201896130b1565b631f57751f60e21b604483015203925af1801561052d57908491610e49575b508690525f8051602061356d83398151915280885288842054610e395786845287528783209051916001600160401b038311610e2657600160401b8311610e26578154838355808410610dff575b5090835286832084845b848110610ded5750505050508254905f198214610dda575001905584526011905282208190557f378514350c4bbcf672d056c7987dd2d2c980ce4c582249530d8992acc682dc328280a280f35b634e487b7160e01b815260118a52602490fd5b89845194019381840155018590610d8d565b82855285848a872092830192015b828110610e1b575050610d83565b5f8155018690610e0d565b634e487b7160e01b845260418c52602484fd5b8851633f06d22b60e01b81528c90fd5b610e5290612168565b6101ff57825f610d35565b610e68919450612168565b5f925f610cd0565b825162461bcd60e51b8152808701839052601060248201526f2737ba103934b3b43a103437b63232b960811b6044820152606490fd5b50503461022c578160031936011261022c57602090516127118152f35b50503461022c577f271e0bf0d2a1a8291905ae61248ac43fd7481e4a5de12910a0c44dca37fc14b7610ef436612255565b929190818652602091600c8352610f68610f0f87892061230c565b92835189526008855287892092610f498686019860018060a01b0395868b51165f528852610f4260ff8c5f205416612333565b8383612c56565b8952600c85525f6001898b208281550155848082518301019101612371565b918051885260068452868820828751165f5284526001600160401b03875f20931692836001600160401b03198254161790558051885260078452868820828751165f528452865f2060ff19906001828254161790558151895260088552878920838851165f528552875f20908154169055519451169451908152a380f35b50503461022c578160031936011261022c576020905160098152f35b83823461022c57602036600319011261022c5761101f9035612938565b80f35b5091903461022c578060031936011261022c57823561103f612152565b818452602090600582528385209360018060a01b039182811695865f528452815f205490811561138557600361107d9163ffffffff92839189612688565b161061134257858852600a8552828820875f528552825f205416858852600b8552828820875f528552825f209063ffffffff198254161790558151906110c28261218f565b600180835285830191863684376110d88461292b565b525f915f805160206135ed83398151915293845496805f805160206135cd8339815191525416803b15610558578751637d6e912360e11b8152808f018b9052905f90829081838161112c602482018a6130b1565b03925af1801561133857611325575b505f805160206135ad8339815191525416803b15611321578651633263b83b60e01b8152808e0189905260606024820152908590829081838161118160648201896130b1565b633520535160e21b604483015203925af1801561131757908591611303575b508790525f8051602061356d833981519152808952868520546112f35787855288528584209051916001600160401b0383116112e057600160401b83116112e05781548383558084106112b9575b50908452878420845b8381106112a85750505050508154905f198214610dda57509060017f61ec7846b6ae526cbb792e922e878903d8d57b5956bd3e61e9a58867f2bd998b9594939201905561128381516112488161218f565b8681528785820152838952600c8552828920600190825181550190602060018060a01b03910151166001600160601b0360a01b825416179055565b84875260088352808720865f528352805f20600160ff1982541617905551908152a380f35b8251828201559189019184016111f7565b82865284848b882092830192015b8281106112d55750506111ee565b5f81550185906112c7565b634e487b7160e01b855260418d52602485fd5b8651633f06d22b60e01b81528d90fd5b61130c90612168565b61053757835f6111a0565b87513d87823e3d90fd5b8480fd5b611330919550612168565b5f935f61113b565b88513d5f823e3d90fd5b825162461bcd60e51b8152808a01869052601f60248201527f546f6f20666577206e657720726f79616c7469657320746f2072657665616c006044820152606490fd5b825162461bcd60e51b8152808a0186905260156024820152742737903937bcb0b63a34b2b99034b7103a37b5b2b760591b6044820152606490fd5b5091903461022c576020806003193601126101ff5783359182845284825280842054908115611648578051916113f58361218f565b6001808452848401918536843761140b8561292b565b525f905f805160206135ed8339815191529283549560018060a01b03805f805160206135cd8339815191525416803b15610558578751637d6e912360e11b8152808e018b9052905f908290818381611466602482018a6130b1565b03925af1801561133857611635575b505f805160206135ad8339815191525416803b15611321578651633263b83b60e01b8152808d018990526060602482015290859082908183816114bb60648201896130b1565b63755a463960e01b604483015203925af1801561131757908591611621575b508790525f8051602061356d833981519152808952868520546116115787855288528584209051916001600160401b0383116115fe57600160401b83116115fe5781548383558084106115d7575b50908452878420845b8381106115c65750505050508154905f1982146115b357507f45b0d8fe7307b59dd90a83401be815c1110a4630ddd9b1a6ea0fd91b00ae060d9596975060010190558051838101908682528481526115888161218f565b5190208287526011845281872055848652600f8352808620805460ff1916600117905551908152a280f35b634e487b7160e01b815260118952602490fd5b825182820155918901918401611531565b82865284848b882092830192015b8281106115f3575050611528565b5f81550185906115e5565b634e487b7160e01b855260418c52602485fd5b8651633f06d22b60e01b81528c90fd5b61162a90612168565b61053757835f6114da565b611640919550612168565b5f935f611475565b5162461bcd60e51b81526020818701818152600d918101919091526c139195081b9bdd08199bdd5b99609a1b604082015281906060010390fd5b50346101ff5760203660031901126101ff579181923581526002602052206116c760ff6001835493015416925192839283909291602090604083019483521515910152565b0390f35b5082903461022c578260031936011261022c576116e661213c565b602435918215158303610537576012546001600160a01b0316330361171057509061101f916126d6565b606490602086519162461bcd60e51b835282015260096024820152682737ba1030b236b4b760b91b6044820152fd5b50346101ff5760203660031901126101ff5735825260156020908152918190205490516001600160a01b039091168152f35b50346101ff5760203660031901126101ff5735825260186020908152918190205490516001600160a01b039091168152f35b5091346117d857816003193601126117d8575063ffffffff6117d06020936117c9612152565b9035612688565b915191168152f35b80fd5b50346101ff576117ea36612255565b9382865260209160118352828288205496611806881515612333565b878952600195868352848a209360028452611836868c2093828a86019461183160ff875416156125cb565b612c56565b61184f8151918563ffffffff998a9483010191016125af565b16808355815460ff1916881790915589528682528389205415611ae3575b80548952868252838920545f8051602061358d833981519152548551639cd07acb60e01b8152808a01899052602481018a90526001600160a01b039290918590839060449082905f9088165af1908115611ad9575f91611aa8575b6118df9250818115611a98575b15611a8e576131ae565b82548b52888452858b205581548a526118fc858b20543090613202565b888a5260158352848a2054169281548a5260058352848a20845f528352845f205415611a08575b6119529082548b5260058452858b20855f52845288865f20549101549080156119fa575b81156119ea576131ae565b81548a5260058352848a20845f528352845f20558054895260058252838920835f52825261198330855f2054613202565b548852600a8152828820915f52525f209283549282841601908282116119d75750169063ffffffff19161790557f713ea879fbe993061baedbc9450dcf78792d63d13cc03880ca97fc6e9593a0038280a280f35b634e487b7160e01b875260119052602486fd5b90506119f461315b565b906131ae565b50611a0361315b565b611947565b611a1061315b565b82548b5260058452858b20855f528452855f205581548a5260098352848a20805490600160401b821015611a7b57888201808255821015611a68575f9081528490200180546001600160a01b03191685179055611923565b60328a634e487b7160e01b5f525260245ffd5b60418a634e487b7160e01b5f525260245ffd5b90506119f4613109565b9050611aa2613109565b906118d5565b90508482813d8311611ad2575b611abf81836121c5565b81010312610558576118df9151906118c8565b503d611ab5565b87513d5f823e3d90fd5b611aeb613109565b81548a52878352848a20558054601054600160401b811015611b30578088611b16920160105561260a565b819291549060031b91821b915f19901b191617905561186d565b634e487b7160e01b8b526041895260248bfd5b5091903461022c57602036600319011261022c57606092358252600d60205263ffffffff818320541691600e60205260ff8281818420541692600f60205220541690825193845215156020840152151590820152f35b50503461022c578160031936011261022c576020905160038152f35b50503461022c577f9557b489451e0184949559cb909620c835ce3cc76620b8771c96670724786f16611c1c91611bea36612255565b92919490858752611c0e6020946011865282611c08868b2054612ee2565b98612c56565b8380825183010191016125af565b90848652600d835263ffffffff8187209216918263ffffffff19825416179055600e835280862060ff1990600182825416179055600f845281872090815416905551908152a280f35b8284346117d857806003193601126117d8578151918291601454808552602080950194601483527fce6d7b5282bd9a3661ae061feed1dbda4e52ab073b1f9285be6e155d9c38d4ec92905b828210611cd2576116c78686611cc8828b03836121c5565b519182918261229b565b83546001600160a01b031687529586019560019384019390910190611cb0565b5090346101ff57602091602060031936011261053757358352600960205280832092815180936020865492838152019583526020832092905b828210611d43576116c78686611cc8828b03836121c5565b83546001600160a01b031687529586019560019384019390910190611d2b565b50503461022c57602036600319011261022c5760209160ff9082906001600160a01b03611d8e61213c565b168152601685522054169051908152f35b5090346101ff5760203660031901126101ff578060c09383358152600160205220805492600182015492600283015490600560038501549385015494015494815196875260208701528501526060840152608083015260a0820152f35b50503461022c573660031901126117d85761101f611e1861213c565b60243590612aad565b50503461022c57602036600319011261022c5760209160ff9082906001600160a01b03611e4c61213c565b1681526013855220541690519015158152f35b808481600319360112611ec557611e7734151561256e565b33825260176020528082205f8052602052805f20611e963482546123b1565b9055513481527fb827ed6fbd37026a47a12af386e564cd17cf745078e99c11bd19fe1afb1b652560203392a380f35b50fd5b50503461022c578160031936011261022c5751908152602090f35b50503461022c578160031936011261022c57602091549051908152f35b50346101ff57816003193601126101ff5781606093611f1d612152565b923581526003602052209060018060a01b03165f52602052805f20805491600260018301549201549181519384526020840152820152f35b5082903461022c578260031936011261022c57611f70612152565b9035825260196020528260ff818420541692601a602052209060018060a01b03165f5260205260ff825f2054168251911515825215156020820152f35b50346101ff57816003193601126101ff5781602093611fca612152565b9235815260068552209060018060a01b03165f5282526001600160401b03815f2054169051908152f35b5091903461022c578060031936011261022c5760609235612013612152565b818452602090600682528385209060018060a01b031690815f528252836001600160401b03815f2054169584815260078452818120835f52845260ff825f2054169481526008845220905f52815260ff835f205416918351948552151590840152151590820152f35b83346117d85761101f61208e36612255565b916123be565b8483346105585760c0366003190112610558576120af61213c565b92602435916064359060ff8216809203610558576001600160a01b038616803b1561055857835f60e4928195839563d505accf60e01b855233908501523060248501528860448501526044356064850152608484015260843560a484015260a43560c48401525af1612127575b5061101f9192612aad565b61101f925061213590612168565b5f9161211c565b600435906001600160a01b038216820361055857565b602435906001600160a01b038216820361055857565b6001600160401b03811161217b57604052565b634e487b7160e01b5f52604160045260245ffd5b604081019081106001600160401b0382111761217b57604052565b60c081019081106001600160401b0382111761217b57604052565b90601f801991011681019081106001600160401b0382111761217b57604052565b6001600160401b03811161217b57601f01601f191660200190565b92919261220d826121e6565b9161221b60405193846121c5565b829481845281830111610558578281602093845f960137010152565b9080601f830112156105585781602061225293359101612201565b90565b606060031982011261055857600435916001600160401b03602435818111610558578361228491600401612237565b926044359182116105585761225291600401612237565b60209060206040818301928281528551809452019301915f5b8281106122c2575050505090565b83516001600160a01b0316855293810193928101926001016122b4565b9181601f84011215610558578235916001600160401b038311610558576020838186019501011161055857565b906040516123198161218f565b825481526001909201546001600160a01b03166020830152565b1561233a57565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b9081602091031261055857516001600160401b03811681036105585790565b9190820391821161239d57565b634e487b7160e01b5f52601160045260245ffd5b9190820180921161239d57565b919091805f526020601b81526040916123ef6123db845f2061230c565b946123e886511515612333565b8683612c56565b5f52601b81525f6001838220828155015582515f52601a8152815f20908084019160018060a01b0390818451165f52825261243f845f209660ff1997888154169055838082518301019101612371565b906001600160401b038216158015612559575b6125505785515f526015835280855f2054169580515f526018845261247d8783885f20541694612e3e565b92805f5260178552865f20885f52855283875f20541061251c577ff3f83c9d88dc83497cc705129934b4aa146d32ecd677e6ed32c57009a077067e9596979882515f52601986526001895f20918254161790555f5260178452865f20885f528452865f206124ec848254612390565b9055818651165f5260178452865f20885f528452865f2061250e8482546123b1565b9055519451169451908152a4565b50945094505050925051915116907fef1fd640ee6fcb647bd650c6a9f37c7f989172d824d19b8cce061cdca83a96995f80a3565b50505050505050565b5085515f526019835260ff855f205416612452565b1561257557565b60405162461bcd60e51b8152602060048201526012602482015271139bdd1a1a5b99c81d1bc819195c1bdcda5d60721b6044820152606490fd5b90816020910312610558575163ffffffff811681036105585790565b156125d257565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b60105481101561263f5760105f527f1b6847dc741a1b0cd08d278845f9d819d87b734759afb55fe2de5cb82a9ae67201905f90565b634e487b7160e01b5f52603260045260245ffd5b60145481101561263f5760145f527fce6d7b5282bd9a3661ae061feed1dbda4e52ab073b1f9285be6e155d9c38d4ec01905f90565b805f52600a60205260405f209160018060a01b031691825f5260205263ffffffff918260405f205416915f52600b60205260405f20905f526020528160405f205416900390811161239d5790565b6001600160a01b038181169283156128f657835f526020916013835260405f209160ff83541692811515809415151461255057805460ff191660ff8315151617905515612807575060405163313ce56760e01b81528281600481885afa9081156127fc575f916127c5575b50845f526016835260ff60405f20911660ff19825416179055601454600160401b81101561217b577f60d450f9fba6f163c4d4f6329637ebd4b3d6c2d87f36229cf43b40d45753f7db9361279e8260016127bc9401601455612653565b90919060018060a01b038084549260031b9316831b921b1916179055565b604051908152a2565b90508281813d83116127f5575b6127dc81836121c5565b81010312610558575160ff81168103610558575f612741565b503d6127d2565b6040513d5f823e3d90fd5b9392505f5b60148054808310156128ca579086918661282585612653565b949054600395861b1c161461283f5750505060010161280c565b5f979192939697199687820191821161239d5761279e8361286261286f94612653565b905490881b1c1691612653565b81549586156128b6577f60d450f9fba6f163c4d4f6329637ebd4b3d6c2d87f36229cf43b40d45753f7db9601926128a584612653565b81939154921b1b19169055556127bc565b634e487b7160e01b5f52603160045260245ffd5b5050507f60d450f9fba6f163c4d4f6329637ebd4b3d6c2d87f36229cf43b40d45753f7db9293506127bc565b60405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b2103a37b5b2b760991b6044820152606490fd5b80511561263f5760200190565b80151580612a62575b15612a2b57805f52600360205260405f20335f5260205260405f208054612a27576129ff90825f5260016020526129f760405f206129f76129cd612989336001850154612f75565b6129a06002850154612999613109565b908361326e565b865560046129bb60038601546129b4613109565b908461326e565b946001880195865501546102b061315b565b93600281019485556129e181543090613202565b6129ec308454613202565b6129f7308654613202565b339054613202565b33907ffb0224c901e9129ed7c3d5c4461545557d7d117c1dc35308ab1b72e49587d7825f80a3565b5050565b60405162461bcd60e51b815260206004820152600f60248201526e496e76616c696420726f79616c747960881b6044820152606490fd5b505f54811115612941565b15612a7457565b60405162461bcd60e51b8152602060048201526011602482015270151bdad95b881b9bdd08185b1b1bddd959607a1b6044820152606490fd5b60018060a01b031690815f5260209060138252604091612ad260ff845f205416612a6d565b612add82151561256e565b82516370a0823160e01b80825230600483015290928284602481895afa938415612c4c575f94612c1d575b508451906323b872dd60e01b8483015233602483015230604483015260648201526064815260a08101908082106001600160401b0383111761217b57612b50918652866132c0565b83519081523060048201528181602481885afa908115612c13575f91612bc6575b507fb827ed6fbd37026a47a12af386e564cd17cf745078e99c11bd19fe1afb1b652592612b9d91612390565b92335f5260178252805f20855f528252805f20612bbb8582546123b1565b9055519283523392a3565b90508181813d8311612c0c575b612bdd81836121c5565b8101031261055857517fb827ed6fbd37026a47a12af386e564cd17cf745078e99c11bd19fe1afb1b6525612b71565b503d612bd3565b84513d5f823e3d90fd5b9093508281813d8311612c45575b612c3581836121c5565b810103126105585751925f612b08565b503d612c2b565b85513d5f823e3d90fd5b9190825f525f8051602061356d83398151915291602091838352604093845f205415612e1c57855f528352835f209084518083868295549384815201905f52865f20925f5b88828210612e0657505050612cb2925003836121c5565b80518085019081861161239d57860180911161239d57612d535f8694612d0189612d669681519681612ced89935180928d8087019101613090565b8201908a82015203888101875201856121c5565b612d7560018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b87526060600488015260648701906130b1565b60031993848783030160248801526130e4565b918483030160448501526130e4565b03925af1918215612dfc575f92612dc5575b505015612db557507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311612df5575b612ddc81836121c5565b8101031261055857518015158103610558575f80612d87565b503d612dd2565b83513d5f823e3d90fd5b8554845260019586019588955093019201612c9b565b845163d66ca67560e01b8152600490fd5b60ff16604d811161239d57600a0a90565b906001600160a01b031680612ecd575060ff60125b166009811015612e995760090360ff811161239d57612e7190612e2d565b908115612e85576001600160401b03160490565b634e487b7160e01b5f52601260045260245ffd5b906001600160401b0316906008190160ff811161239d57612eb990612e2d565b9081810291818304149015171561239d5790565b5f52601660205260ff8060405f205416612e53565b601054905f5b828110612f245760405162461bcd60e51b815260206004820152600d60248201526c139195081b9bdd08199bdd5b99609a1b6044820152606490fd5b81612f2e8261260a565b919054916003926040519060209081830193861b1c83528152612f508161218f565b51902014612f615750600101612ee8565b9250612f6d915061260a565b9054911b1c90565b90811561300a575b5f8051602061358d8339815191525460405163f77f3f1d60e01b815260048101939093526001600160a01b039182166024840152600160f81b6044840152602091839160649183915f91165af19081156127fc575f91612fdb575090565b90506020813d602011613002575b81612ff6602093836121c5565b81010312610558575190565b3d9150612fe9565b90505f602060018060a01b035f8051602061358d8339815191525416604460405180948193639cd07acb60e01b8352816004840152600760248401525af180156127fc575f9061305d575b919050612f7d565b506020813d602011613088575b81613077602093836121c5565b810103126105585760209051613055565b3d915061306a565b5f5b8381106130a15750505f910152565b8181015183820152602001613092565b9081518082526020808093019301915f5b8281106130d0575050505090565b8351855293810193928101926001016130c2565b906020916130fd81518092818552858086019101613090565b601f01601f1916010190565b5f8051602061358d83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156127fc575f91612fdb575090565b5f8051602061358d83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156127fc575f91612fdb575090565b90602090606460018060a01b035f8051602061358d8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156127fc575f91612fdb575090565b5f805160206135cd833981519152546001600160a01b031691823b1561055857604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af180156127fc576132635750565b61326c90612168565b565b9060646020925f60018060a01b035f8051602061358d83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156127fc575f91612fdb575090565b905f602091828151910182855af1156127fc575f513d61331157506001600160a01b0381163b155b6132ef5750565b604051635274afe760e01b81526001600160a01b039091166004820152602490fd5b600114156132e8565b5f8051602061358d8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f9082906133729060848301906130e4565b6007606483015203925af19081156127fc575f916133d0575b5080925f805160206135cd8339815191525416803b1561055857604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101613252565b90506020813d6020116133fa575b816133eb602093836121c5565b8101031261055857515f61338b565b3d91506133de565b5f8051602061358d8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061345a9060848301906130e4565b6004606483015203925af19081156127fc575f916133d0575080925f805160206135cd8339815191525416803b1561055857604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101613252565b5f8051602061358d8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061350f9060848301906130e4565b6005606483015203925af19081156127fc575f916133d0575080925f805160206135cd8339815191525416803b1561055857604051630f8e573b60e21b815260048101929092523360248301525f9082908183816044810161325256fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000a";
+
+type MusicNftRoyaltiesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MusicNftRoyaltiesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MusicNftRoyalties__factory extends ContractFactory {
+  constructor(...args: MusicNftRoyaltiesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MusicNftRoyalties & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MusicNftRoyalties__factory {
+    return super.connect(runner) as MusicNftRoyalties__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MusicNftRoyaltiesInterface {
+    return new Interface(_abi) as MusicNftRoyaltiesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MusicNftRoyalties {
+    return new Contract(address, _abi, runner) as unknown as MusicNftRoyalties;
+  }
+}
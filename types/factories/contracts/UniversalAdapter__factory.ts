@@ -0,0 +1,313 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  UniversalAdapter,
+  UniversalAdapterInterface,
+} from "../../contracts/UniversalAdapter";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "DataStored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "indexKey",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "entry",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "IndexAppended",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "indexKey",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "entry",
+        type: "string",
+      },
+    ],
+    name: "appendToIndex",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "getData",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "indexKey",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getIndexEntries",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "entries",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "indexKey",
+        type: "string",
+      },
+    ],
+    name: "getIndexLength",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "indexKey",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "entry",
+        type: "string",
+      },
+    ],
+    name: "setDataAndAppend",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "keys",
+        type: "string[]",
+      },
+      {
+        internalType: "bytes[]",
+        name: "values",
+        type: "bytes[]",
+      },
+    ],
+    name: "setDataBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "keys",
+        type: "string[]",
+      },
+      {
+        internalType: "bytes[]",
+        name: "values",
+        type: "bytes[]",
+      },
+      {
+        internalType: "string",
+        name: "indexKey",
+        type: "string",
+      },
+      {
+        internalType: "string[]",
+        name: "entries",
+        type: "string[]",
+      },
+    ],
+    name: "setDataBatchAndAppend",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610c03908161001b8239f35b5f80fdfe60406080815260049081361015610014575f80fd5b5f3560e01c8063200b3e3614610445578063430537bd1461036b5780636c67bdfa1461031c5780637c4d5f33146102cd5780637d2c7f2b1461023057806382be2db5146101a6578063856c71dd1461018b578063ae55c8881461010a5763bfb8829a1461007f575f80fd5b3461010657366003190112610106576001600160401b038135818111610106576100ac903690840161053f565b91602435918211610106576100c39136910161053f565b906100d18151835114610604565b5f5b815181101561010457806100fe6100ec60019385610642565b516100f78387610642565b51906108d9565b016100d3565b005b5f80fd5b5034610106576020366003190112610106578135906001600160401b0382116101065761017561015a60206101486101879661016e963691016104d3565b818551938285809451938492016105be565b81015f8152030190208251938480926106d8565b038361049e565b519182916020835260208301906105df565b0390f35b5034610106575f366003190112610106576020905160018152f35b8234610106576080366003190112610106576001600160401b03908035828111610106576101d790369083016104d3565b90602435838111610106576101ef90369083016104d3565b906044358481116101065761020790369083016104d3565b916064359485116101065761022561022b92610104963691016104d3565b936108d9565b610a3a565b5090346101065760603660031901126101065780356001600160401b0381116101065761027091610263913691016104d3565b6044359060243590610769565b81519060208083016020845282518091526020858501958260051b8601019301915f955b8287106102a15785850386f35b9091929382806102bd600193603f198a820301865288516105df565b9601920196019592919092610294565b503461010657366003190112610106576001600160401b038135818111610106576102fb90369084016104d3565b906024359081116101065761010492610316913691016104d3565b90610a3a565b503461010657366003190112610106576001600160401b0381358181116101065761034a90369084016104d3565b906024359081116101065761010492610365913691016104d3565b906108d9565b8234610106576080366003190112610106576001600160401b039080358281116101065761039c903690830161053f565b90602435838111610106576103b4903690830161053f565b92604435818111610106576103cc90369084016104d3565b91606435918211610106576103e39136910161053f565b906103fa835185518114908161043a575b50610604565b5f5b8351811015610104578061042061041560019387610642565b516100f78389610642565b61043461042d8286610642565b5184610a3a565b016103fc565b9050835114866103f4565b50346101065760203660031901126101065781356001600160401b03811161010657602061047a819461048c933691016104d3565b818451938285809451938492016105be565b81016001815203019020549051908152f35b90601f801991011681019081106001600160401b038211176104bf57604052565b634e487b7160e01b5f52604160045260245ffd5b81601f82011215610106578035906001600160401b0382116104bf5760405192610507601f8401601f19166020018561049e565b8284526020838301011161010657815f926020809301838601378301015290565b6001600160401b0381116104bf5760051b60200190565b81601f820112156101065780359160209161055984610528565b93610567604051958661049e565b808552838086019160051b8301019280841161010657848301915b8483106105925750505050505090565b82356001600160401b0381116101065786916105b3848480948901016104d3565b815201920191610582565b5f5b8381106105cf5750505f910152565b81810151838201526020016105c0565b906020916105f8815180928185528580860191016105be565b601f01601f1916010190565b1561060b57565b60405162461bcd60e51b815260206004820152600f60248201526e098cadccee8d040dad2e6dac2e8c6d608b1b6044820152606490fd5b80518210156106565760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b9190820391821161067757565b634e487b7160e01b5f52601160045260245ffd5b8054821015610656575f5260205f2001905f90565b90600182811c921680156106ce575b60208310146106ba57565b634e487b7160e01b5f52602260045260245ffd5b91607f16916106af565b80545f93926106e6826106a0565b918282526020936001916001811690815f1461074a575060011461070c575b5050505050565b90939495505f92919252835f2092845f945b83861061073657505050500101905f80808080610705565b80548587018301529401938590820161071e565b60ff19168685015250505090151560051b010191505f80808080610705565b9160408051928451610780818660208099016105be565b8401936020816001966001815203019020805493848310156108615782019384831161067757808511610859575b506107b9828561066a565b956107c387610528565b966107d1604051988961049e565b8088526107e0601f1991610528565b015f5b81811061084a57505050815b8481106107ff5750505050505090565b8061084361080e88938561068b565b5061082b61083261081f888661066a565b928951928380926106d8565b038261049e565b61083c828c610642565b5289610642565b50016107ef565b606089820184015282016107e3565b93505f6107ae565b50505050505050604051602081018181106001600160401b038211176104bf576040525f815290565b601f821161089757505050565b5f5260205f20906020601f840160051c830193106108cf575b601f0160051c01905b8181106108c4575050565b5f81556001016108b9565b90915081906108b0565b919060405192838151602095816108f48893838588016105be565b81015f81520301902082516001600160401b0381116104bf576109218161091b84546106a0565b8461088a565b85601f82116001146109af579561099093926109798361099f947ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578298999a5f916109a4575b508160011b915f199060031b1c19161790565b90555b6040519384936040855260408501906105df565b908382039084015233956105df565b0390a2565b90508901515f610966565b601f19821690835f52875f20915f5b818110610a235750837ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b157829798999361099097969361099f9660019410610a0b575b5050811b01905561097c565b8a01515f1960f88460031b161c191690555f806109ff565b91928960018192868b0151815501940192016109be565b919060405192805160209485830191610a548183856105be565b8101908681600193848152030190208054680100000000000000008110156104bf57610a8491838201815561068b565b610be35784516001600160401b0381116104bf57610aa68161091b84546106a0565b87601f8211600114610b5957938893610b1393610aff847f92a5d75b081d68c6b05d05cfbfce02216f34de40faa43374bd5bfd5cde825e3c9a9b9c95610b40995f91610b4e57508160011b915f199060031b1c19161790565b90555b6040518094819389519283916105be565b8201908152030190205494610b33604051946060865260608601906105df565b91848303908501526105df565b9260408201528033930390a2565b90508c01515f610966565b601f19821690835f52895f20915f5b818110610bce5750938584610b4098948d98947f92a5d75b081d68c6b05d05cfbfce02216f34de40faa43374bd5bfd5cde825e3c9c9d9e97610b139910610bb6575b5050811b019055610b02565b8d01515f1960f88460031b161c191690555f80610baa565b89830151845592860192918b01918b01610b68565b634e487b7160e01b5f525f60045260245ffdfea164736f6c6343000818000a";
+
+type UniversalAdapterConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: UniversalAdapterConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class UniversalAdapter__factory extends ContractFactory {
+  constructor(...args: UniversalAdapterConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      UniversalAdapter & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): UniversalAdapter__factory {
+    return super.connect(runner) as UniversalAdapter__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): UniversalAdapterInterface {
+    return new Interface(_abi) as UniversalAdapterInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): UniversalAdapter {
+    return new Contract(address, _abi, runner) as unknown as UniversalAdapter;
+  }
+}
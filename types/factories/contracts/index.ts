@@ -2,4 +2,8 @@
 /* tslint:disable */
 /* eslint-disable */
 export { CsrFeedbackFHE__factory } from "./CsrFeedbackFHE__factory";
+export { MockERC20__factory } from "./MockERC20__factory";
+export { MockERC20Permit__factory } from "./MockERC20Permit__factory";
+export { Multicall3__factory } from "./Multicall3__factory";
+export { MusicNftRoyalties__factory } from "./MusicNftRoyalties__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
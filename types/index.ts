@@ -24,5 +24,13 @@ export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifi
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
 export type { CsrFeedbackFHE } from "./contracts/CsrFeedbackFHE";
 export { CsrFeedbackFHE__factory } from "./factories/contracts/CsrFeedbackFHE__factory";
+export type { MockERC20 } from "./contracts/MockERC20";
+export { MockERC20__factory } from "./factories/contracts/MockERC20__factory";
+export type { MockERC20Permit } from "./contracts/MockERC20Permit";
+export { MockERC20Permit__factory } from "./factories/contracts/MockERC20Permit__factory";
+export type { Multicall3 } from "./contracts/Multicall3";
+export { Multicall3__factory } from "./factories/contracts/Multicall3__factory";
+export type { MusicNftRoyalties } from "./contracts/MusicNftRoyalties";
+export { MusicNftRoyalties__factory } from "./factories/contracts/MusicNftRoyalties__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";